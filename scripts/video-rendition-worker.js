@@ -0,0 +1,437 @@
+#!/usr/bin/env node
+
+/**
+ * 视频水印/转码 Worker
+ * 从 video_rendition_jobs 领取任务（023_video_renditions.sql、024_watermark_profiles.sql）：
+ *   1. 下载提供方返回的原视频，保存到私有存储桶 video-originals
+ *   2. 按 system_settings.watermark_profiles 中用到的每个水印方案，使用 ffmpeg 添加水印并转码为
+ *      H.264/AAC（faststart，移动端可直接播放）：公开播放方案保存到公开存储桶 video-watermarked，
+ *      其它方案保存到私有存储桶 video-renditions
+ *   3. 视频播放地址切换为公开播放方案的版本，其它版本和原视频只通过 video-download 函数签名下载
+ *
+ * 需要安装 ffmpeg（含 libx264、drawtext 和 overlay 滤镜）
+ *
+ * 用法：
+ *   SUPABASE_URL=... SERVICE_ROLE_KEY=... node scripts/video-rendition-worker.js          # 常驻轮询
+ *   SUPABASE_URL=... SERVICE_ROLE_KEY=... node scripts/video-rendition-worker.js --once   # 处理完当前任务后退出（适合定时任务）
+ *
+ * 可选环境变量：
+ *   WATERMARK_FONT_FILE  drawtext 使用的字体文件（ffmpeg 未编译 fontconfig 时需要）
+ *   FFMPEG_PATH          ffmpeg 可执行文件路径，默认 ffmpeg
+ *   WORKER_ID            Worker 标识，默认 主机名-进程号
+ */
+
+const fs = require('fs')
+const os = require('os')
+const path = require('path')
+const { spawn } = require('child_process')
+const { pipeline } = require('stream/promises')
+const { Readable } = require('stream')
+const { createClient } = require('@supabase/supabase-js')
+
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL
+const SERVICE_ROLE_KEY = process.env.SERVICE_ROLE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY
+
+const ORIGINALS_BUCKET = 'video-originals'
+const WATERMARKED_BUCKET = 'video-watermarked'
+const RENDITIONS_BUCKET = 'video-renditions'
+
+const WORKER_ID = process.env.WORKER_ID || `${os.hostname()}-${process.pid}`
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg'
+const FONT_FILE = process.env.WATERMARK_FONT_FILE || null
+
+const WATERMARK_PROFILES_SETTING_KEY = 'watermark_profiles'
+
+// 未配置水印方案时使用的默认值（与 024_watermark_profiles.sql、WatermarkService 一致）
+const DEFAULT_PROFILE = {
+  name: '',
+  type: 'text',
+  text: 'veo3video.me',
+  imageUrl: null,
+  layout: 'corner',
+  position: 'bottom-right',
+  scale: 0.035,
+  opacity: 0.7,
+  tileRows: 3,
+  tileCols: 3,
+  moveSeconds: 8
+}
+
+const DEFAULT_SETTINGS = {
+  version: 1,
+  playbackProfile: 'visible',
+  tierRules: { free: 'visible', basic: 'corner', pro: null, premium: null },
+  profiles: {
+    visible: { ...DEFAULT_PROFILE, name: '免费版水印', layout: 'moving', scale: 0.045, opacity: 0.6 },
+    corner: { ...DEFAULT_PROFILE, name: '基础版角标', scale: 0.025, opacity: 0.5 }
+  }
+}
+
+// 水印与画面边缘的距离（占视频高度的比例）
+const PADDING_RATIO = 0.03
+// 平铺水印的最大行列数
+const MAX_TILES = 6
+
+const POLL_INTERVAL_MS = 5000
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000
+const FFMPEG_TIMEOUT_MS = 15 * 60 * 1000
+
+if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+  console.error('[RENDITION WORKER] 缺少 SUPABASE_URL 或 SERVICE_ROLE_KEY 环境变量')
+  process.exit(1)
+}
+
+const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { autoRefreshToken: false, persistSession: false }
+})
+
+let stopping = false
+
+/**
+ * 读取水印方案，每个任务重新读取以便管理员修改后立即生效
+ */
+async function loadProfileSettings() {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', WATERMARK_PROFILES_SETTING_KEY)
+    .maybeSingle()
+
+  if (error) {
+    console.warn('[RENDITION WORKER] 读取水印方案失败，使用默认方案:', error.message)
+  }
+
+  const value = data && data.setting_value
+  if (!value || !value.profiles) return DEFAULT_SETTINGS
+
+  const profiles = {}
+  for (const [id, profile] of Object.entries(value.profiles)) {
+    profiles[id] = { ...DEFAULT_PROFILE, ...profile }
+  }
+
+  return {
+    version: Number(value.version) || 1,
+    playbackProfile: value.playbackProfile !== undefined ? value.playbackProfile : DEFAULT_SETTINGS.playbackProfile,
+    tierRules: { ...DEFAULT_SETTINGS.tierRules, ...(value.tierRules || {}) },
+    profiles
+  }
+}
+
+/**
+ * 需要生成的方案：公开播放方案和各订阅等级规则用到的方案
+ */
+function getRequiredProfileIds(settings) {
+  const ids = new Set([settings.playbackProfile, ...Object.values(settings.tierRules)])
+  return [...ids].filter(id => id && settings.profiles[id])
+}
+
+function clampTiles(value) {
+  return Math.min(MAX_TILES, Math.max(1, Math.round(Number(value) || 1)))
+}
+
+/**
+ * 水印位置表达式（与 WatermarkService.getWatermarkPositions 的计算一致）
+ * W/H 为视频尺寸变量名，mw/mh 为水印尺寸变量名（drawtext 为 w/h/tw/th，overlay 为 W/H/w/h）
+ * 表达式中的逗号需要转义，避免被当作滤镜分隔符
+ */
+function getPositionExpressions(profile, W, H, mw, mh) {
+  const pad = `${H}*${PADDING_RATIO}`
+
+  if (profile.layout === 'tiled') {
+    const rows = clampTiles(profile.tileRows)
+    const cols = clampTiles(profile.tileCols)
+    const positions = []
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        positions.push([
+          `${W}*${((c + 0.5) / cols).toFixed(4)}-${mw}/2`,
+          `${H}*${((r + 0.5) / rows).toFixed(4)}-${mh}/2`
+        ])
+      }
+    }
+    return positions
+  }
+
+  if (profile.layout === 'moving') {
+    // 水平和垂直方向周期不同，水印在画面内往返移动，难以通过裁剪去除
+    const period = Math.max(1, Number(profile.moveSeconds) || DEFAULT_PROFILE.moveSeconds)
+    const periodY = (period * 1.37).toFixed(2)
+    return [[
+      `${pad}+(${W}-${mw}-2*${pad})*abs(mod(t/${period}\\,2)-1)`,
+      `${pad}+(${H}-${mh}-2*${pad})*abs(mod(t/${periodY}\\,2)-1)`
+    ]]
+  }
+
+  const left = pad
+  const right = `${W}-${mw}-${pad}`
+  const top = pad
+  const bottom = `${H}-${mh}-${pad}`
+  switch (profile.position) {
+    case 'top-left': return [[left, top]]
+    case 'top-right': return [[right, top]]
+    case 'bottom-left': return [[left, bottom]]
+    default: return [[right, bottom]]
+  }
+}
+
+/**
+ * 构建 filter_complex，输出标签为 [vout]
+ * 文字水印写入文件后通过 textfile 传给 drawtext，避免滤镜语法转义问题；
+ * 图片水印为第二个输入，按视频高度缩放后叠加
+ */
+function buildFilterGraph(profile, textFile) {
+  if (profile.type === 'image') {
+    const positions = getPositionExpressions(profile, 'W', 'H', 'w', 'h')
+    const labels = positions.map((_, i) => `[wm${i}]`)
+    const steps = [
+      `[1:v][0:v]scale2ref=w=-1:h=main_h*${profile.scale}[logo][base]`,
+      `[logo]format=rgba,colorchannelmixer=aa=${profile.opacity},split=${positions.length}${labels.join('')}`
+    ]
+    positions.forEach(([x, y], i) => {
+      const input = i === 0 ? '[base]' : `[v${i - 1}]`
+      const output = i === positions.length - 1 ? '[vout]' : `[v${i}]`
+      steps.push(`${input}${labels[i]}overlay=x=${x}:y=${y}${output}`)
+    })
+    return steps.join(';')
+  }
+
+  const options = [
+    `textfile=${textFile}`,
+    'expansion=none',
+    `fontcolor=white@${profile.opacity}`,
+    // 字号随分辨率缩放
+    `fontsize=h*${profile.scale}`,
+    'shadowcolor=black@0.4',
+    'shadowx=1',
+    'shadowy=1'
+  ]
+  if (FONT_FILE) {
+    options.unshift(`fontfile=${FONT_FILE}`)
+  }
+
+  const filters = getPositionExpressions(profile, 'w', 'h', 'tw', 'th')
+    .map(([x, y]) => `drawtext=${[...options, `x=${x}`, `y=${y}`].join(':')}`)
+  return `[0:v]${filters.join(',')}[vout]`
+}
+
+async function downloadFile(url, destination) {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, { signal: controller.signal })
+    if (!response.ok || !response.body) {
+      throw new Error(`下载 ${url} 失败: HTTP ${response.status}`)
+    }
+    await pipeline(Readable.fromWeb(response.body), fs.createWriteStream(destination))
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+function runFfmpeg(input, output, profile, textFile, logoFile) {
+  const args = [
+    '-y',
+    '-i', input,
+    ...(profile.type === 'image' ? ['-i', logoFile] : []),
+    '-filter_complex', buildFilterGraph(profile, textFile),
+    '-map', '[vout]',
+    '-map', '0:a?',
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '23',
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac',
+    '-b:a', '128k',
+    '-movflags', '+faststart',
+    output
+  ]
+
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, args, { stdio: ['ignore', 'ignore', 'pipe'] })
+    let stderr = ''
+
+    const timeoutId = setTimeout(() => {
+      ffmpeg.kill('SIGKILL')
+      reject(new Error('ffmpeg 处理超时'))
+    }, FFMPEG_TIMEOUT_MS)
+
+    ffmpeg.stderr.on('data', chunk => {
+      // 只保留最后一段输出用于错误信息
+      stderr = (stderr + chunk.toString()).slice(-4000)
+    })
+
+    ffmpeg.on('error', error => {
+      clearTimeout(timeoutId)
+      reject(error)
+    })
+
+    ffmpeg.on('close', code => {
+      clearTimeout(timeoutId)
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`ffmpeg 退出码 ${code}: ${stderr.split('\n').slice(-5).join(' ')}`))
+      }
+    })
+  })
+}
+
+async function uploadFile(bucket, objectPath, filePath) {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(objectPath, fs.readFileSync(filePath), {
+      contentType: 'video/mp4',
+      upsert: true
+    })
+
+  if (error) {
+    throw new Error(`上传到 ${bucket} 失败: ${error.message}`)
+  }
+}
+
+/**
+ * 准备源视频：原视频已保存时从私有桶读取（提供方地址可能已过期），否则下载并保存
+ */
+async function prepareSource(job, sourceFile) {
+  if (job.original_path) {
+    const { data, error } = await supabase.storage.from(ORIGINALS_BUCKET).download(job.original_path)
+    if (error || !data) {
+      throw new Error(`读取原视频失败: ${error ? error.message : '文件不存在'}`)
+    }
+    fs.writeFileSync(sourceFile, Buffer.from(await data.arrayBuffer()))
+    return job.original_path
+  }
+
+  const originalPath = `${job.user_id}/${job.video_id}.mp4`
+  await downloadFile(job.source_url, sourceFile)
+  await uploadFile(ORIGINALS_BUCKET, originalPath, sourceFile)
+  return originalPath
+}
+
+async function renderProfile(job, profileId, profile, settings, sourceFile, workDir) {
+  const outputFile = path.join(workDir, `${profileId}.mp4`)
+  const textFile = path.join(workDir, `${profileId}.txt`)
+  let logoFile = null
+
+  if (profile.type === 'image') {
+    if (!profile.imageUrl) {
+      throw new Error(`水印方案 ${profileId} 未设置图片地址`)
+    }
+    logoFile = path.join(workDir, `${profileId}-logo`)
+    await downloadFile(profile.imageUrl, logoFile)
+  } else {
+    fs.writeFileSync(textFile, profile.text || DEFAULT_PROFILE.text)
+  }
+
+  await runFfmpeg(sourceFile, outputFile, profile, textFile, logoFile)
+
+  // 路径包含版本号，避免公开桶的 CDN 缓存旧版本
+  const bucket = profileId === settings.playbackProfile ? WATERMARKED_BUCKET : RENDITIONS_BUCKET
+  const objectPath = `${job.user_id}/${job.video_id}/${profileId}-v${settings.version}.mp4`
+  await uploadFile(bucket, objectPath, outputFile)
+  fs.rmSync(outputFile, { force: true })
+
+  return { bucket, path: objectPath, version: settings.version }
+}
+
+async function processJob(job) {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), `rendition-${job.video_id}-`))
+  const sourceFile = path.join(workDir, 'source.mp4')
+
+  console.log(`[RENDITION WORKER] 开始处理视频 ${job.video_id}（第 ${job.attempts} 次尝试）`)
+
+  try {
+    const settings = await loadProfileSettings()
+    const existing = job.renditions || {}
+    const pending = getRequiredProfileIds(settings)
+      .filter(id => !existing[id] || existing[id].version !== settings.version)
+
+    const originalPath = await prepareSource(job, sourceFile)
+    const renditions = {}
+
+    for (const profileId of pending) {
+      console.log(`[RENDITION WORKER] 视频 ${job.video_id} 生成水印方案 ${profileId}`)
+      renditions[profileId] = await renderProfile(job, profileId, settings.profiles[profileId], settings, sourceFile, workDir)
+    }
+
+    const playback = settings.playbackProfile ? renditions[settings.playbackProfile] : null
+    const playbackUrl = playback
+      ? supabase.storage.from(WATERMARKED_BUCKET).getPublicUrl(playback.path).data.publicUrl
+      : null
+
+    const { error } = await supabase.rpc('complete_video_rendition_job', {
+      p_job_id: job.job_id,
+      p_original_path: originalPath,
+      p_renditions: renditions,
+      p_playback_path: playback ? playback.path : null,
+      p_playback_url: playbackUrl,
+      p_file_size: fs.statSync(sourceFile).size
+    })
+
+    if (error) {
+      throw new Error(`写回任务结果失败: ${error.message}`)
+    }
+
+    // 清理被替换的旧版本
+    for (const [profileId, rendition] of Object.entries(renditions)) {
+      const previous = existing[profileId]
+      if (previous && previous.path !== rendition.path) {
+        await supabase.storage.from(previous.bucket).remove([previous.path])
+      }
+    }
+
+    console.log(`[RENDITION WORKER] 视频 ${job.video_id} 处理完成（${pending.length} 个方案）`)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error(`[RENDITION WORKER] 视频 ${job.video_id} 处理失败:`, message)
+
+    const { data: status } = await supabase.rpc('fail_video_rendition_job', {
+      p_job_id: job.job_id,
+      p_error: message
+    })
+    console.log(`[RENDITION WORKER] 任务 ${job.job_id} 状态: ${status}`)
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true })
+  }
+}
+
+async function claimJob() {
+  const { data, error } = await supabase.rpc('claim_video_rendition_jobs', {
+    p_worker_id: WORKER_ID,
+    p_limit: 1
+  })
+
+  if (error) {
+    console.error('[RENDITION WORKER] 领取任务失败:', error.message)
+    return null
+  }
+  return data && data.length > 0 ? data[0] : null
+}
+
+async function main() {
+  const runOnce = process.argv.includes('--once')
+  console.log(`[RENDITION WORKER] 启动 ${WORKER_ID}${runOnce ? '（--once）' : ''}`)
+
+  process.on('SIGINT', () => { stopping = true })
+  process.on('SIGTERM', () => { stopping = true })
+
+  while (!stopping) {
+    const job = await claimJob()
+
+    if (job) {
+      await processJob(job)
+      continue
+    }
+
+    if (runOnce) break
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+  }
+
+  console.log('[RENDITION WORKER] 已停止')
+}
+
+main().catch(error => {
+  console.error('[RENDITION WORKER] 异常退出:', error)
+  process.exit(1)
+})
@@ -17,6 +17,10 @@ if (process.env.NODE_ENV === 'development') {
 import HomePage from './pages/HomePage'
 import VideoCreator from './features/video-creator/components/VideoCreator'
 import TemplatesPage from './pages/TemplatesPage'
+import TemplateDetailPage from './pages/TemplateDetailPage'
+import SharedCollectionPage from './pages/SharedCollectionPage'
+import FollowingFeedPage from './pages/FollowingFeedPage'
+import VideoGalleryPage from './pages/VideoGalleryPage'
 import VideosPage from './pages/VideosPageNew'
 import PricingPage from './pages/PricingPage'
 import TestPage from './pages/TestPage'
@@ -25,6 +29,9 @@ import TitleEffectDemo from './pages/TitleEffectDemo'
 import TestWatermark from './pages/TestWatermark'
 import SimpleWatermarkTest from './pages/SimpleWatermarkTest'
 import TestProtection from './pages/TestProtection'
+import VideoWatchPage from './pages/VideoWatchPage'
+import VideoEmbedPage from './pages/VideoEmbedPage'
+import ShortLinkRedirectPage from './pages/ShortLinkRedirectPage'
 
 // Auth pages
 import SignInForm from './components/auth/SignInForm'
@@ -69,6 +76,7 @@ function App() {
               {/* Public routes */}
               <Route path="/" element={<FullScreenLayout><HomePage /></FullScreenLayout>} />
               <Route path="/templates" element={<Layout><TemplatesPage /></Layout>} />
+              <Route path="/templates/:id" element={<Layout><TemplateDetailPage /></Layout>} />
               <Route path="/pricing" element={<Layout><PricingPage /></Layout>} />
               
               {/* Auth routes */}
@@ -81,6 +89,13 @@ function App() {
               {/* Public profile route */}
               <Route path="/profile/:username" element={<Layout><PublicProfilePage /></Layout>} />
               
+              {/* Public video routes (share links and embed iframes) */}
+              <Route path="/gallery" element={<Layout><VideoGalleryPage /></Layout>} />
+              <Route path="/video/:id" element={<Layout><VideoWatchPage /></Layout>} />
+              <Route path="/embed/:id" element={<VideoEmbedPage />} />
+              <Route path="/s/:code" element={<ShortLinkRedirectPage />} />
+              <Route path="/collections/:token" element={<Layout><SharedCollectionPage /></Layout>} />
+              
               {/* Legal pages */}
               <Route path="/privacy" element={<Layout><PrivacyPolicyPage /></Layout>} />
               <Route path="/terms" element={<Layout><TermsOfServicePage /></Layout>} />
@@ -90,6 +105,7 @@ function App() {
               <Route element={<ProtectedRoute />}>
                 <Route path="/create" element={<Layout showFooter={false}><VideoCreator /></Layout>} />
                 <Route path="/videos" element={<Layout><VideosPage /></Layout>} />
+                <Route path="/following" element={<Layout><FollowingFeedPage /></Layout>} />
                 <Route path="/profile" element={<Layout><UserCenterPage /></Layout>} />
                 <Route path="/profile/edit" element={<Layout><ProfileEditPage /></Layout>} />
                 <Route path="/profile/templates" element={<Layout><MyTemplatesPage /></Layout>} />
@@ -8,6 +8,8 @@ import { TemplateList, TemplateEdit, TemplateCreate, TemplateShow } from './Temp
 import { TicketList, TicketShow, TicketEdit } from './Tickets'
 import { FAQList, FAQEdit, FAQCreate } from './FAQ'
 import { SystemSettings, SystemSettingsList, SystemSettingsEdit, SystemSettingsCreate } from './SystemSettings'
+import { ProviderAccountList, ProviderAccountEdit, ProviderAccountCreate } from './ProviderAccounts'
+import { CreditPackageList, CreditPackageEdit, CreditPackageCreate } from './CreditPackages'
 import AdminDebug from './AdminDebug'
 import ErrorBoundary from './ErrorBoundary'
 
@@ -18,7 +20,9 @@ import {
   MessageCircle,
   HelpCircle,
   Settings,
-  FileText
+  FileText,
+  KeyRound,
+  Coins
 } from 'lucide-react'
 
 const AdminApp: React.FC = () => {
@@ -112,6 +116,30 @@ const AdminApp: React.FC = () => {
         icon={Settings}
       />
 
+      {/* 视频生成账户池 */}
+      <Resource
+        name="provider-accounts"
+        list={ProviderAccountList}
+        edit={ProviderAccountEdit}
+        create={ProviderAccountCreate}
+        options={{ 
+          label: '生成账户池'
+        }}
+        icon={KeyRound}
+      />
+
+      {/* 积分套餐 */}
+      <Resource
+        name="credit-packages"
+        list={CreditPackageList}
+        edit={CreditPackageEdit}
+        create={CreditPackageCreate}
+        options={{ 
+          label: '积分套餐'
+        }}
+        icon={Coins}
+      />
+
       {/* 操作日志 */}
       <Resource
         name="logs"
@@ -0,0 +1,100 @@
+import React from 'react'
+import {
+  List,
+  Datagrid,
+  TextField,
+  NumberField,
+  BooleanField,
+  Edit,
+  Create,
+  SimpleForm,
+  TextInput,
+  NumberInput,
+  SelectInput,
+  BooleanInput,
+  EditButton,
+  useRecordContext,
+} from 'react-admin'
+
+const currencyChoices = [
+  { id: 'usd', name: 'USD' },
+  { id: 'eur', name: 'EUR' },
+  { id: 'gbp', name: 'GBP' },
+  { id: 'jpy', name: 'JPY' },
+  { id: 'cny', name: 'CNY' },
+]
+
+// 价格以最小货币单位保存，表单中按元编辑
+const formatPrice = (value: number | null | undefined) => (value == null ? value : value / 100)
+const parsePrice = (value: number | null | undefined) => (value == null ? value : Math.round(value * 100))
+
+const PriceField: React.FC<{ label?: string }> = () => {
+  const record = useRecordContext()
+  if (!record) return null
+
+  return (
+    <span>
+      {new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: record.currency.toUpperCase(),
+      }).format(record.price_cents / 100)}
+    </span>
+  )
+}
+
+const CreditPackageForm: React.FC<{ isCreate?: boolean }> = ({ isCreate = false }) => (
+  <SimpleForm>
+    <TextInput
+      source="id"
+      label="套餐ID"
+      disabled={!isCreate}
+      helperText="结账时使用的唯一标识，创建后不可修改"
+      required
+    />
+    <TextInput source="name" label="名称" required />
+    <TextInput source="description" label="描述" multiline helperText="显示在 Stripe 结账页，留空使用默认描述" />
+    <NumberInput source="credits" label="积分" min={1} required />
+    <NumberInput source="bonus_credits" label="赠送积分" min={0} defaultValue={0} />
+    <NumberInput
+      source="price_cents"
+      label="价格"
+      min={0.5}
+      step={0.01}
+      format={formatPrice}
+      parse={parsePrice}
+      required
+    />
+    <SelectInput source="currency" label="币种" choices={currencyChoices} defaultValue="usd" required />
+    <NumberInput source="sort_order" label="排序" defaultValue={0} />
+    <BooleanInput source="is_popular" label="推荐" />
+    <BooleanInput source="is_active" label="上架" defaultValue={true} />
+  </SimpleForm>
+)
+
+export const CreditPackageList: React.FC = () => (
+  <List sort={{ field: 'sort_order', order: 'ASC' }}>
+    <Datagrid rowClick="edit">
+      <TextField source="id" label="套餐ID" />
+      <TextField source="name" label="名称" />
+      <NumberField source="credits" label="积分" />
+      <NumberField source="bonus_credits" label="赠送积分" />
+      <PriceField label="价格" />
+      <NumberField source="sort_order" label="排序" />
+      <BooleanField source="is_popular" label="推荐" />
+      <BooleanField source="is_active" label="上架" />
+      <EditButton />
+    </Datagrid>
+  </List>
+)
+
+export const CreditPackageEdit: React.FC = () => (
+  <Edit mutationMode="pessimistic">
+    <CreditPackageForm />
+  </Edit>
+)
+
+export const CreditPackageCreate: React.FC = () => (
+  <Create>
+    <CreditPackageForm isCreate />
+  </Create>
+)
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react'
+import {
+  List,
+  Datagrid,
+  TextField,
+  NumberField,
+  DateField,
+  BooleanField,
+  Edit,
+  Create,
+  SimpleForm,
+  TextInput,
+  NumberInput,
+  SelectInput,
+  BooleanInput,
+  EditButton,
+  DeleteButton,
+  useRecordContext,
+} from 'react-admin'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { veo3Service, type AccountHealthReport } from '@/services/veo3Service'
+import { providerRegistry } from '@/services/veo/providerRegistry'
+
+const providerChoices = providerRegistry.list().map(provider => ({
+  id: provider.id,
+  name: provider.displayName,
+}))
+
+const healthLabels: Record<string, { label: string; className: string }> = {
+  healthy: { label: '正常', className: 'text-green-600' },
+  cooldown: { label: '限流冷却', className: 'text-yellow-600' },
+  error: { label: '异常', className: 'text-red-600' },
+}
+
+const HealthStatusField: React.FC<{ label?: string }> = () => {
+  const record = useRecordContext()
+  if (!record) return null
+
+  const health = healthLabels[record.health_status] || { label: record.health_status, className: '' }
+  return <span className={health.className}>{health.label}</span>
+}
+
+const QuotaField: React.FC<{ label?: string }> = () => {
+  const record = useRecordContext()
+  if (!record) return null
+
+  // 跨天尚未重置的账户视为今日未使用
+  const today = new Date().toISOString().slice(0, 10)
+  const used = record.quota_date < today ? 0 : record.used_today
+  return <span>{used} / {record.daily_quota}</span>
+}
+
+/**
+ * 账户池健康状况汇总
+ */
+const AccountPoolHealth: React.FC = () => {
+  const [health, setHealth] = useState<AccountHealthReport | null>(null)
+
+  useEffect(() => {
+    veo3Service.checkAccountHealth()
+      .then(setHealth)
+      .catch(error => console.error('[ProviderAccounts] Failed to load pool health:', error))
+  }, [])
+
+  if (!health) return null
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle>账户池状态</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-4 gap-4 text-sm">
+          <div>账户总数: <span className="font-semibold">{health.total}</span></div>
+          <div>正常: <span className="font-semibold text-green-600">{health.healthy}</span></div>
+          <div>冷却/异常: <span className="font-semibold text-yellow-600">{health.cooling}</span></div>
+          <div>今日剩余配额: <span className="font-semibold">{health.availableQuota}</span></div>
+        </div>
+        {health.total === 0 && (
+          <p className="text-xs text-gray-500 mt-2">账户池为空，生成任务将使用环境变量中的 API 密钥</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export const ProviderAccountList: React.FC = () => (
+  <>
+    <AccountPoolHealth />
+    <List sort={{ field: 'provider', order: 'ASC' }}>
+      <Datagrid rowClick="edit">
+        <TextField source="label" label="名称" />
+        <TextField source="provider" label="提供方" />
+        <QuotaField label="今日使用/配额" />
+        <NumberField source="weight" label="权重" />
+        <HealthStatusField label="健康状态" />
+        <DateField source="cooldown_until" label="冷却至" showTime />
+        <TextField source="last_error" label="最近错误" />
+        <DateField source="last_used_at" label="最近使用" showTime />
+        <BooleanField source="is_active" label="启用" />
+        <EditButton />
+        <DeleteButton />
+      </Datagrid>
+    </List>
+  </>
+)
+
+export const ProviderAccountEdit: React.FC = () => (
+  <Edit mutationMode="pessimistic">
+    <SimpleForm>
+      <TextInput source="label" label="名称" required />
+      <SelectInput source="provider" label="提供方" choices={providerChoices} required />
+      <TextInput
+        source="api_key"
+        label="API 密钥"
+        type="password"
+        helperText="留空表示保留原密钥"
+      />
+      <TextInput source="endpoint" label="API 地址" helperText="留空使用默认地址" />
+      <NumberInput source="daily_quota" label="每日配额" min={0} required />
+      <NumberInput source="weight" label="权重" min={1} required />
+      <SelectInput
+        source="health_status"
+        label="健康状态"
+        choices={[
+          { id: 'healthy', name: '正常' },
+          { id: 'cooldown', name: '限流冷却' },
+          { id: 'error', name: '异常' },
+        ]}
+      />
+      <BooleanInput source="is_active" label="启用" />
+    </SimpleForm>
+  </Edit>
+)
+
+export const ProviderAccountCreate: React.FC = () => (
+  <Create>
+    <SimpleForm>
+      <TextInput source="label" label="名称" required />
+      <SelectInput
+        source="provider"
+        label="提供方"
+        choices={providerChoices}
+        defaultValue="qingyun"
+        required
+      />
+      <TextInput source="api_key" label="API 密钥" type="password" required />
+      <TextInput source="endpoint" label="API 地址" helperText="留空使用默认地址" />
+      <NumberInput source="daily_quota" label="每日配额" min={0} defaultValue={100} required />
+      <NumberInput source="weight" label="权重" min={1} defaultValue={1} required />
+      <BooleanInput source="is_active" label="启用" defaultValue={true} />
+    </SimpleForm>
+  </Create>
+)
@@ -24,6 +24,15 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
+import { providerRegistry, PROVIDER_SETTING_KEY } from '@/services/veo/providerRegistry'
+import {
+  BASE_TIERS,
+  DEFAULT_QUEUE_LANES,
+  QUEUE_LANES_SETTING_KEY,
+  type QueueLaneConfig
+} from '@/services/videoQueueService'
+import { WATERMARK_PROFILES_SETTING_KEY } from '@/services/watermarkService'
+import { WatermarkProfilesEditor } from './WatermarkProfilesEditor'
 
 interface SystemSetting {
   id: string
@@ -48,6 +57,10 @@ const SettingValueField: React.FC<{ source: string }> = ({ source }) => {
   if (typeof value === 'boolean') {
     return <span className={value ? 'text-green-600' : 'text-red-600'}>{value ? '启用' : '禁用'}</span>
   }
+
+  if (value && typeof value === 'object') {
+    return <span className="font-mono text-xs">{JSON.stringify(value)}</span>
+  }
   
   return <span>{String(value)}</span>
 }
@@ -96,6 +109,8 @@ export const SystemSettingsCreate: React.FC = () => (
           { id: 'limits', name: '限制设置' },
           { id: 'security', name: '安全设置' },
           { id: 'credits', name: '积分设置' },
+          { id: 'generation', name: '视频生成设置' },
+          { id: 'watermark', name: '水印设置' },
         ]}
         label="分类"
         required
@@ -105,6 +120,80 @@ export const SystemSettingsCreate: React.FC = () => (
   </Create>
 )
 
+const tierLabels: Record<string, string> = {
+  free: '免费',
+  basic: '基础',
+  pro: '专业',
+  premium: '高级（含企业年付）'
+}
+
+/**
+ * 队列通道权重表编辑器
+ */
+const QueueLaneEditor: React.FC<{
+  value: Partial<QueueLaneConfig>
+  saving: boolean
+  onSave: (value: QueueLaneConfig) => void
+}> = ({ value, saving, onSave }) => {
+  const [lanes, setLanes] = useState<QueueLaneConfig>({
+    weights: { ...DEFAULT_QUEUE_LANES.weights, ...(value.weights || {}) },
+    agingMinutes: value.agingMinutes ?? DEFAULT_QUEUE_LANES.agingMinutes
+  })
+
+  const totalWeight = BASE_TIERS.reduce((sum, tier) => sum + lanes.weights[tier], 0)
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="py-1">订阅等级</th>
+            <th className="py-1">通道权重</th>
+            <th className="py-1">满载时处理份额</th>
+          </tr>
+        </thead>
+        <tbody>
+          {BASE_TIERS.map(tier => (
+            <tr key={tier}>
+              <td className="py-1">{tierLabels[tier]}</td>
+              <td className="py-1">
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={lanes.weights[tier]}
+                  onChange={(e) => setLanes(prev => ({
+                    ...prev,
+                    weights: { ...prev.weights, [tier]: parseFloat(e.target.value) || 0.1 }
+                  }))}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </td>
+              <td className="py-1 text-gray-600">
+                {totalWeight > 0 ? `${Math.round((lanes.weights[tier] / totalWeight) * 100)}%` : '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex items-center gap-2 text-sm">
+        <span>老化时间（分钟）</span>
+        <input
+          type="number"
+          min={1}
+          value={lanes.agingMinutes}
+          onChange={(e) => setLanes(prev => ({ ...prev, agingMinutes: parseInt(e.target.value) || 1 }))}
+          className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+        />
+        <span className="text-gray-500">每排队这么久，任务提前一个权重为1的份额</span>
+      </div>
+      <Button onClick={() => onSave(lanes)} disabled={saving} size="small">
+        更新
+      </Button>
+    </div>
+  )
+}
+
 // 保留原有的系统设置管理组件，但作为独立页面
 export const SystemSettings: React.FC = () => {
   const [settings, setSettings] = useState<SystemSetting[]>([])
@@ -171,6 +260,61 @@ export const SystemSettings: React.FC = () => {
   const renderSettingInput = (setting: SystemSetting) => {
     const value = setting.setting_value
 
+    if (setting.setting_key === PROVIDER_SETTING_KEY) {
+      return (
+        <div className="space-y-2">
+          <div>
+            <h4 className="font-medium">{setting.description}</h4>
+            <p className="text-sm text-gray-600">{setting.setting_key}</p>
+          </div>
+          <select
+            value={value}
+            onChange={(e) => updateSetting(setting.setting_key, e.target.value)}
+            disabled={saving === setting.setting_key}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            {providerRegistry.list().map(provider => (
+              <option key={provider.id} value={provider.id}>
+                {provider.displayName}{provider.isAvailable() ? '' : '（未配置）'}
+              </option>
+            ))}
+          </select>
+        </div>
+      )
+    }
+
+    if (setting.setting_key === QUEUE_LANES_SETTING_KEY) {
+      return (
+        <div className="space-y-2">
+          <div>
+            <h4 className="font-medium">{setting.description}</h4>
+            <p className="text-sm text-gray-600">{setting.setting_key}</p>
+          </div>
+          <QueueLaneEditor
+            value={value || {}}
+            saving={saving === setting.setting_key}
+            onSave={(lanes) => updateSetting(setting.setting_key, lanes)}
+          />
+        </div>
+      )
+    }
+
+    if (setting.setting_key === WATERMARK_PROFILES_SETTING_KEY) {
+      return (
+        <div className="space-y-2">
+          <div>
+            <h4 className="font-medium">{setting.description}</h4>
+            <p className="text-sm text-gray-600">{setting.setting_key}</p>
+          </div>
+          <WatermarkProfilesEditor
+            value={value}
+            saving={saving === setting.setting_key}
+            onSave={(profiles) => updateSetting(setting.setting_key, profiles)}
+          />
+        </div>
+      )
+    }
+
     if (typeof value === 'boolean') {
       return (
         <div className="flex items-center justify-between">
@@ -190,6 +334,38 @@ export const SystemSettings: React.FC = () => {
       )
     }
 
+    if (value && typeof value === 'object') {
+      return (
+        <div className="space-y-2">
+          <div>
+            <h4 className="font-medium">{setting.description}</h4>
+            <p className="text-sm text-gray-600">{setting.setting_key}</p>
+          </div>
+          <div className="flex items-start gap-2">
+            <textarea
+              defaultValue={JSON.stringify(value, null, 2)}
+              rows={6}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md font-mono text-sm"
+            />
+            <Button
+              onClick={(e) => {
+                const input = (e.currentTarget as HTMLElement).previousElementSibling as HTMLTextAreaElement
+                try {
+                  updateSetting(setting.setting_key, JSON.parse(input.value))
+                } catch {
+                  toast.error('JSON 格式错误')
+                }
+              }}
+              disabled={saving === setting.setting_key}
+              size="small"
+            >
+              更新
+            </Button>
+          </div>
+        </div>
+      )
+    }
+
     if (typeof value === 'number') {
       return (
         <div className="space-y-2">
@@ -262,7 +438,9 @@ export const SystemSettings: React.FC = () => {
     performance: '性能设置',
     limits: '限制设置',
     security: '安全设置',
-    credits: '积分设置'
+    credits: '积分设置',
+    generation: '视频生成设置',
+    watermark: '水印设置'
   }
 
   if (loading) {
@@ -0,0 +1,281 @@
+import React, { useState } from 'react'
+import { Button } from 'react-admin'
+import { toast } from 'sonner'
+import { BASE_TIERS } from '@/services/videoQueueService'
+import WatermarkService, {
+  DEFAULT_WATERMARK_PROFILE,
+  type WatermarkProfile,
+  type WatermarkProfileSettings
+} from '@/services/watermarkService'
+
+const tierLabels: Record<string, string> = {
+  free: '免费',
+  basic: '基础',
+  pro: '专业',
+  premium: '高级（含企业年付）'
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md'
+
+/**
+ * 水印方案编辑器
+ * 保存时递增 version，已生成的旧版本会在下载时由服务端重新生成
+ */
+export const WatermarkProfilesEditor: React.FC<{
+  value: Partial<WatermarkProfileSettings> | null
+  saving: boolean
+  onSave: (value: WatermarkProfileSettings) => void
+}> = ({ value, saving, onSave }) => {
+  const [settings, setSettings] = useState<WatermarkProfileSettings>(() => WatermarkService.normalizeSettings(value))
+  const [newProfileId, setNewProfileId] = useState('')
+  const [previewProfileId, setPreviewProfileId] = useState<string>(Object.keys(settings.profiles)[0] || '')
+  const [sampleVideoUrl, setSampleVideoUrl] = useState('')
+  const [previewTime, setPreviewTime] = useState(1)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [rendering, setRendering] = useState(false)
+
+  const profileIds = Object.keys(settings.profiles)
+
+  const updateProfile = (id: string, changes: Partial<WatermarkProfile>) => {
+    setSettings(prev => ({
+      ...prev,
+      profiles: { ...prev.profiles, [id]: { ...prev.profiles[id], ...changes } }
+    }))
+  }
+
+  const addProfile = () => {
+    const id = newProfileId.trim()
+    if (!/^[a-z0-9_-]{1,32}$/.test(id)) {
+      toast.error('方案ID只能包含小写字母、数字、下划线和连字符')
+      return
+    }
+    if (settings.profiles[id]) {
+      toast.error('方案ID已存在')
+      return
+    }
+    setSettings(prev => ({
+      ...prev,
+      profiles: { ...prev.profiles, [id]: { ...DEFAULT_WATERMARK_PROFILE, name: id } }
+    }))
+    setNewProfileId('')
+  }
+
+  const removeProfile = (id: string) => {
+    const usedByTier = BASE_TIERS.some(tier => settings.tierRules[tier] === id)
+    if (usedByTier || settings.playbackProfile === id) {
+      toast.error('方案正在被订阅等级规则或公开播放使用，无法删除')
+      return
+    }
+    setSettings(prev => {
+      const profiles = { ...prev.profiles }
+      delete profiles[id]
+      return { ...prev, profiles }
+    })
+  }
+
+  const renderPreview = async () => {
+    const profile = settings.profiles[previewProfileId]
+    if (!profile) return
+
+    setRendering(true)
+    try {
+      setPreviewUrl(await WatermarkService.renderPreviewFrame(profile, {
+        sampleVideoUrl: sampleVideoUrl.trim() || undefined,
+        time: previewTime
+      }))
+    } catch (error) {
+      console.error('[WatermarkProfilesEditor] 预览失败:', error)
+      toast.error(`预览失败: ${error instanceof Error ? error.message : '未知错误'}`)
+    } finally {
+      setRendering(false)
+    }
+  }
+
+  const save = () => {
+    const next = { ...settings, version: settings.version + 1 }
+    setSettings(next)
+    onSave(next)
+  }
+
+  const profileOptions = (
+    <>
+      <option value="">无水印（原视频）</option>
+      {profileIds.map(id => (
+        <option key={id} value={id}>{settings.profiles[id].name || id}</option>
+      ))}
+    </>
+  )
+
+  return (
+    <div className="space-y-4 text-sm">
+      {profileIds.map(id => {
+        const profile = settings.profiles[id]
+        return (
+          <div key={id} className="border border-gray-200 rounded-md p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="font-mono text-gray-600">{id}</span>
+              <Button onClick={() => removeProfile(id)} size="small">删除</Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+              <label className="flex flex-col gap-1">
+                名称
+                <input value={profile.name} onChange={(e) => updateProfile(id, { name: e.target.value })} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1">
+                类型
+                <select value={profile.type} onChange={(e) => updateProfile(id, { type: e.target.value as WatermarkProfile['type'] })} className={inputClass}>
+                  <option value="text">文字</option>
+                  <option value="image">图片 Logo</option>
+                </select>
+              </label>
+              {profile.type === 'text' ? (
+                <label className="flex flex-col gap-1 col-span-2">
+                  文字
+                  <input value={profile.text} onChange={(e) => updateProfile(id, { text: e.target.value })} className={inputClass} />
+                </label>
+              ) : (
+                <label className="flex flex-col gap-1 col-span-2">
+                  图片地址（PNG，需允许跨域读取）
+                  <input value={profile.imageUrl || ''} onChange={(e) => updateProfile(id, { imageUrl: e.target.value || null })} className={inputClass} />
+                </label>
+              )}
+              <label className="flex flex-col gap-1">
+                布局
+                <select value={profile.layout} onChange={(e) => updateProfile(id, { layout: e.target.value as WatermarkProfile['layout'] })} className={inputClass}>
+                  <option value="corner">角标</option>
+                  <option value="tiled">平铺</option>
+                  <option value="moving">移动</option>
+                </select>
+              </label>
+              {profile.layout === 'corner' && (
+                <label className="flex flex-col gap-1">
+                  位置
+                  <select value={profile.position} onChange={(e) => updateProfile(id, { position: e.target.value as WatermarkProfile['position'] })} className={inputClass}>
+                    <option value="bottom-right">右下</option>
+                    <option value="bottom-left">左下</option>
+                    <option value="top-right">右上</option>
+                    <option value="top-left">左上</option>
+                  </select>
+                </label>
+              )}
+              {profile.layout === 'tiled' && (
+                <label className="flex flex-col gap-1">
+                  行 × 列
+                  <div className="flex gap-1">
+                    <input type="number" min={1} max={6} value={profile.tileRows} onChange={(e) => updateProfile(id, { tileRows: parseInt(e.target.value) || 1 })} className={`${inputClass} w-16`} />
+                    <input type="number" min={1} max={6} value={profile.tileCols} onChange={(e) => updateProfile(id, { tileCols: parseInt(e.target.value) || 1 })} className={`${inputClass} w-16`} />
+                  </div>
+                </label>
+              )}
+              {profile.layout === 'moving' && (
+                <label className="flex flex-col gap-1">
+                  往返周期（秒）
+                  <input type="number" min={1} value={profile.moveSeconds} onChange={(e) => updateProfile(id, { moveSeconds: parseFloat(e.target.value) || 1 })} className={inputClass} />
+                </label>
+              )}
+              <label className="flex flex-col gap-1">
+                大小（占视频高度）
+                <input type="number" min={0.01} max={0.5} step={0.005} value={profile.scale} onChange={(e) => updateProfile(id, { scale: parseFloat(e.target.value) || 0.01 })} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1">
+                不透明度
+                <input type="number" min={0.05} max={1} step={0.05} value={profile.opacity} onChange={(e) => updateProfile(id, { opacity: parseFloat(e.target.value) || 0.05 })} className={inputClass} />
+              </label>
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="flex items-center gap-2">
+        <input
+          value={newProfileId}
+          onChange={(e) => setNewProfileId(e.target.value)}
+          placeholder="新方案ID"
+          className={inputClass}
+        />
+        <Button onClick={addProfile} size="small">添加方案</Button>
+      </div>
+
+      <table className="w-full">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="py-1">订阅等级</th>
+            <th className="py-1">下载自己的视频时使用的方案</th>
+          </tr>
+        </thead>
+        <tbody>
+          {BASE_TIERS.map(tier => (
+            <tr key={tier}>
+              <td className="py-1">{tierLabels[tier]}</td>
+              <td className="py-1">
+                <select
+                  value={settings.tierRules[tier] || ''}
+                  onChange={(e) => setSettings(prev => ({
+                    ...prev,
+                    tierRules: { ...prev.tierRules, [tier]: e.target.value || null }
+                  }))}
+                  className={inputClass}
+                >
+                  {profileOptions}
+                </select>
+              </td>
+            </tr>
+          ))}
+          <tr>
+            <td className="py-1">公开播放</td>
+            <td className="py-1">
+              <select
+                value={settings.playbackProfile || ''}
+                onChange={(e) => setSettings(prev => ({ ...prev, playbackProfile: e.target.value || null }))}
+                className={inputClass}
+              >
+                {profileOptions}
+              </select>
+            </td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="border border-gray-200 rounded-md p-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <span>预览</span>
+          <select value={previewProfileId} onChange={(e) => setPreviewProfileId(e.target.value)} className={inputClass}>
+            {profileIds.map(id => (
+              <option key={id} value={id}>{settings.profiles[id].name || id}</option>
+            ))}
+          </select>
+          <input
+            value={sampleVideoUrl}
+            onChange={(e) => setSampleVideoUrl(e.target.value)}
+            placeholder="样例视频地址（可选）"
+            className={`${inputClass} flex-1`}
+          />
+          <span>时间（秒）</span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={previewTime}
+            onChange={(e) => setPreviewTime(parseFloat(e.target.value) || 0)}
+            className={`${inputClass} w-20`}
+          />
+          <Button onClick={renderPreview} disabled={rendering || !previewProfileId} size="small">
+            生成预览
+          </Button>
+        </div>
+        {previewUrl && (
+          <img src={previewUrl} alt="水印预览" className="max-w-full rounded-md border border-gray-200" />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button onClick={save} disabled={saving} size="small">
+          更新
+        </Button>
+        <span className="text-gray-500">当前版本 {settings.version}，保存后已生成的水印版本会在下载时重新生成</span>
+      </div>
+    </div>
+  )
+}
+
+export default WatermarkProfilesEditor
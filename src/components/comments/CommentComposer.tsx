@@ -0,0 +1,82 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { COMMENT_MAX_LENGTH } from '@/services/commentService'
+
+interface CommentComposerProps {
+  initialValue?: string
+  placeholder?: string
+  submitLabel?: string
+  autoFocus?: boolean
+  onSubmit: (content: string) => Promise<boolean>
+  onCancel?: () => void
+}
+
+/**
+ * 评论输入框：发表、回复和编辑共用，提交成功后清空
+ */
+export function CommentComposer({
+  initialValue = '',
+  placeholder,
+  submitLabel,
+  autoFocus = false,
+  onSubmit,
+  onCancel
+}: CommentComposerProps) {
+  const { t } = useTranslation()
+  const [value, setValue] = useState(initialValue)
+  const [submitting, setSubmitting] = useState(false)
+
+  const trimmed = value.trim()
+  const tooLong = value.length > COMMENT_MAX_LENGTH
+
+  const handleSubmit = async () => {
+    if (!trimmed || tooLong || submitting) return
+
+    setSubmitting(true)
+    try {
+      if (await onSubmit(trimmed)) {
+        setValue('')
+      }
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd + Enter 提交
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault()
+            handleSubmit()
+          }
+        }}
+        placeholder={placeholder || t('comments.placeholder')}
+        autoFocus={autoFocus}
+        rows={3}
+        className="w-full resize-y rounded-md border border-input bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+      />
+      <div className="flex items-center justify-end gap-2">
+        <span className={`mr-auto text-xs ${tooLong ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {value.length}/{COMMENT_MAX_LENGTH}
+        </span>
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={submitting}>
+            {t('common.cancel')}
+          </Button>
+        )}
+        <Button size="sm" onClick={handleSubmit} disabled={!trimmed || tooLong || submitting}>
+          {submitting && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          {submitLabel || t('comments.submit')}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default CommentComposer
@@ -0,0 +1,169 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Heart, MessageCircle, Pencil, Trash2, User, BadgeCheck } from 'lucide-react'
+import CommentComposer from '@/components/comments/CommentComposer'
+import commentService, { type Comment, type CommentTargetType } from '@/services/commentService'
+import { formatRelativeTime } from '@/utils/timeFormat'
+
+interface CommentItemProps {
+  comment: Comment
+  targetType: CommentTargetType
+  currentUserId?: string
+  canModerate: boolean        // 模板作者/视频作者或管理员可以删除任意评论
+  onReply?: (comment: Comment) => void
+  onChange: (comment: Comment) => void
+  onDeleted: (comment: Comment) => void
+}
+
+/**
+ * 单条评论：作者、作者回复标记、点赞、回复、编辑和删除
+ */
+export function CommentItem({
+  comment,
+  targetType,
+  currentUserId,
+  canModerate,
+  onReply,
+  onChange,
+  onDeleted
+}: CommentItemProps) {
+  const { t } = useTranslation()
+  const [editing, setEditing] = useState(false)
+  const [liking, setLiking] = useState(false)
+
+  const isAuthor = !!currentUserId && currentUserId === comment.user_id
+  const displayName = comment.full_name || comment.username || t('comments.anonymous')
+
+  const handleLike = async () => {
+    if (!currentUserId) {
+      toast.info(t('comments.signInToLike'))
+      return
+    }
+    if (liking) return
+
+    setLiking(true)
+    try {
+      const { liked, likeCount } = await commentService.toggleLike(targetType, comment.id)
+      onChange({ ...comment, is_liked: liked, like_count: likeCount })
+    } catch {
+      toast.error(t('comments.errors.COMMENT_FAILED'))
+    } finally {
+      setLiking(false)
+    }
+  }
+
+  const handleEdit = async (content: string): Promise<boolean> => {
+    try {
+      await commentService.editComment(targetType, comment.id, content)
+      onChange({ ...comment, content, is_edited: true })
+      setEditing(false)
+      return true
+    } catch (error) {
+      toast.error(t(`comments.errors.${(error as Error).message}`, t('comments.errors.COMMENT_FAILED')))
+      return false
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(t('comments.confirmDelete'))) return
+
+    try {
+      await commentService.deleteComment(targetType, comment.id)
+      onDeleted(comment)
+      toast.success(t('comments.deleted'))
+    } catch (error) {
+      toast.error(t(`comments.errors.${(error as Error).message}`, t('comments.errors.COMMENT_FAILED')))
+    }
+  }
+
+  if (comment.is_deleted) {
+    return (
+      <p className="py-2 text-sm italic text-muted-foreground">{t('comments.deletedPlaceholder')}</p>
+    )
+  }
+
+  return (
+    <div className="flex gap-3">
+      <div className="h-8 w-8 flex-shrink-0 overflow-hidden rounded-full bg-muted">
+        {comment.avatar_url ? (
+          <img src={comment.avatar_url} alt={displayName} className="h-full w-full object-cover" />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center">
+            <User className="h-4 w-4 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {comment.username ? (
+            <Link to={`/profile/${comment.username}`} className="font-medium hover:underline">
+              {displayName}
+            </Link>
+          ) : (
+            <span className="font-medium">{displayName}</span>
+          )}
+          {comment.is_owner_reply && (
+            <span className="inline-flex items-center gap-1 rounded-sm bg-primary/10 px-1.5 py-0.5 text-[10px] font-medium text-primary">
+              <BadgeCheck className="h-3 w-3" />
+              {targetType === 'template' ? t('comments.templateAuthor') : t('comments.videoCreator')}
+            </span>
+          )}
+          <span className="text-xs text-muted-foreground">{formatRelativeTime(comment.created_at)}</span>
+          {comment.is_edited && (
+            <span className="text-xs text-muted-foreground">{t('comments.edited')}</span>
+          )}
+        </div>
+
+        {editing ? (
+          <div className="mt-2">
+            <CommentComposer
+              initialValue={comment.content || ''}
+              submitLabel={t('common.save')}
+              autoFocus
+              onSubmit={handleEdit}
+              onCancel={() => setEditing(false)}
+            />
+          </div>
+        ) : (
+          <p className="mt-1 whitespace-pre-line break-words text-sm">{comment.content}</p>
+        )}
+
+        {!editing && (
+          <div className="mt-1 flex items-center gap-4 text-xs text-muted-foreground">
+            <button
+              onClick={handleLike}
+              disabled={liking}
+              className={`flex items-center gap-1 hover:text-foreground ${comment.is_liked ? 'text-red-500 hover:text-red-500' : ''}`}
+            >
+              <Heart className={`h-3.5 w-3.5 ${comment.is_liked ? 'fill-current' : ''}`} />
+              {comment.like_count > 0 && comment.like_count}
+            </button>
+            {onReply && currentUserId && (
+              <button onClick={() => onReply(comment)} className="flex items-center gap-1 hover:text-foreground">
+                <MessageCircle className="h-3.5 w-3.5" />
+                {t('comments.reply')}
+              </button>
+            )}
+            {isAuthor && (
+              <button onClick={() => setEditing(true)} className="flex items-center gap-1 hover:text-foreground">
+                <Pencil className="h-3.5 w-3.5" />
+                {t('common.edit')}
+              </button>
+            )}
+            {(isAuthor || canModerate) && (
+              <button onClick={handleDelete} className="flex items-center gap-1 hover:text-destructive">
+                <Trash2 className="h-3.5 w-3.5" />
+                {t('common.delete')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CommentItem
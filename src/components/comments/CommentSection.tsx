@@ -0,0 +1,302 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Loader2, MessageSquare } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/contexts/AuthContext'
+import CommentComposer from '@/components/comments/CommentComposer'
+import CommentItem from '@/components/comments/CommentItem'
+import commentService, {
+  COMMENTS_PAGE_SIZE,
+  REPLIES_PAGE_SIZE,
+  type Comment,
+  type CommentTargetType
+} from '@/services/commentService'
+
+interface CommentSectionProps {
+  targetType: CommentTargetType
+  targetId: string
+  ownerId?: string | null       // 模板作者/视频作者，可以删除任意评论
+  initialCount?: number
+}
+
+interface ReplyState {
+  items: Comment[]
+  loading: boolean
+  hasMore: boolean
+}
+
+/**
+ * 模板和公开视频页的评论区：两级评论、分页、评论点赞、编辑和删除
+ */
+export function CommentSection({ targetType, targetId, ownerId, initialCount = 0 }: CommentSectionProps) {
+  const { t } = useTranslation()
+  const { user, profile } = useAuth()
+  const [comments, setComments] = useState<Comment[]>([])
+  const [replies, setReplies] = useState<Record<string, ReplyState>>({})
+  const [totalCount, setTotalCount] = useState(initialCount)
+  const [loading, setLoading] = useState(true)
+  const [hasMore, setHasMore] = useState(false)
+  const [replyTarget, setReplyTarget] = useState<{ rootId: string; comment: Comment } | null>(null)
+
+  const canModerate = !!user && (
+    user.id === ownerId || profile?.role === 'admin' || profile?.role === 'super_admin'
+  )
+
+  const loadComments = useCallback(async (offset: number) => {
+    setLoading(true)
+    try {
+      const page = await commentService.getComments(targetType, targetId, offset)
+      setComments(prev => {
+        if (offset === 0) return page
+        const ids = new Set(prev.map(c => c.id))
+        return [...prev, ...page.filter(c => !ids.has(c.id))]
+      })
+      setHasMore(page.length === COMMENTS_PAGE_SIZE)
+    } catch {
+      toast.error(t('comments.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }, [targetType, targetId, t])
+
+  useEffect(() => {
+    setComments([])
+    setReplies({})
+    setReplyTarget(null)
+    loadComments(0)
+  }, [loadComments])
+
+  useEffect(() => {
+    setTotalCount(initialCount)
+  }, [initialCount])
+
+  const loadReplies = async (rootId: string) => {
+    const current = replies[rootId]
+    const offset = current?.items.length || 0
+    setReplies(prev => ({ ...prev, [rootId]: { items: current?.items || [], hasMore: false, loading: true } }))
+
+    try {
+      const page = await commentService.getReplies(targetType, targetId, rootId, offset)
+      setReplies(prev => {
+        const existing = prev[rootId]?.items || []
+        const ids = new Set(existing.map(c => c.id))
+        return {
+          ...prev,
+          [rootId]: { items: [...existing, ...page.filter(c => !ids.has(c.id))], loading: false, hasMore: page.length === REPLIES_PAGE_SIZE }
+        }
+      })
+    } catch {
+      setReplies(prev => ({ ...prev, [rootId]: { items: prev[rootId]?.items || [], loading: false, hasMore: true } }))
+      toast.error(t('comments.loadFailed'))
+    }
+  }
+
+  // 本地构造刚发表的评论，避免重新加载整页
+  const buildLocalComment = (id: string, content: string, parentId: string | null): Comment => ({
+    id,
+    parent_comment_id: parentId,
+    user_id: user!.id,
+    username: profile?.username || null,
+    full_name: profile?.full_name || null,
+    avatar_url: profile?.avatar_url || null,
+    content,
+    is_owner_reply: user!.id === ownerId,
+    like_count: 0,
+    reply_count: 0,
+    is_liked: false,
+    is_edited: false,
+    is_deleted: false,
+    created_at: new Date().toISOString()
+  })
+
+  const showError = (error: unknown) => {
+    const code = error instanceof Error ? error.message : 'COMMENT_FAILED'
+    toast.error(t(`comments.errors.${code}`, t('comments.errors.COMMENT_FAILED')))
+  }
+
+  const handleCreate = async (content: string): Promise<boolean> => {
+    try {
+      const { commentId } = await commentService.createComment(targetType, targetId, content)
+      setComments(prev => [buildLocalComment(commentId, content, null), ...prev])
+      setTotalCount(count => count + 1)
+      return true
+    } catch (error) {
+      showError(error)
+      return false
+    }
+  }
+
+  const handleReply = async (content: string): Promise<boolean> => {
+    if (!replyTarget) return false
+
+    try {
+      const { commentId, parentId } = await commentService.createComment(targetType, targetId, content, replyTarget.comment.id)
+      const rootId = parentId || replyTarget.rootId
+      const reply = buildLocalComment(commentId, content, rootId)
+
+      setReplies(prev => ({
+        ...prev,
+        [rootId]: {
+          items: [...(prev[rootId]?.items || []), reply],
+          loading: false,
+          hasMore: prev[rootId]?.hasMore ?? false
+        }
+      }))
+      setComments(prev => prev.map(c => c.id === rootId ? { ...c, reply_count: c.reply_count + 1 } : c))
+      setTotalCount(count => count + 1)
+      setReplyTarget(null)
+      return true
+    } catch (error) {
+      showError(error)
+      return false
+    }
+  }
+
+  const updateComment = (updated: Comment) => {
+    if (updated.parent_comment_id) {
+      const rootId = updated.parent_comment_id
+      setReplies(prev => prev[rootId] ? {
+        ...prev,
+        [rootId]: { ...prev[rootId], items: prev[rootId].items.map(c => c.id === updated.id ? updated : c) }
+      } : prev)
+    } else {
+      setComments(prev => prev.map(c => c.id === updated.id ? updated : c))
+    }
+  }
+
+  const removeComment = (deleted: Comment) => {
+    setTotalCount(count => Math.max(0, count - 1))
+
+    if (deleted.parent_comment_id) {
+      const rootId = deleted.parent_comment_id
+      setReplies(prev => prev[rootId] ? {
+        ...prev,
+        [rootId]: { ...prev[rootId], items: prev[rootId].items.filter(c => c.id !== deleted.id) }
+      } : prev)
+      setComments(prev => prev
+        .map(c => c.id === rootId ? { ...c, reply_count: Math.max(0, c.reply_count - 1) } : c)
+        // 已删除的顶层评论没有回复后不再保留楼层
+        .filter(c => !(c.id === rootId && c.is_deleted && c.reply_count === 0)))
+      return
+    }
+
+    // 有回复的顶层评论保留楼层
+    setComments(prev => deleted.reply_count > 0
+      ? prev.map(c => c.id === deleted.id ? { ...c, is_deleted: true, content: null } : c)
+      : prev.filter(c => c.id !== deleted.id))
+  }
+
+  const startReply = (rootId: string, comment: Comment) => {
+    setReplyTarget({ rootId, comment })
+    // 展开回复列表，新回复追加在已加载的回复后面
+    if (!replies[rootId] && comment.id === rootId && comment.reply_count > 0) {
+      loadReplies(rootId)
+    }
+  }
+
+  return (
+    <section className="space-y-6">
+      <h2 className="flex items-center gap-2 text-lg font-semibold">
+        <MessageSquare className="h-5 w-5" />
+        {t('comments.title', { count: totalCount })}
+      </h2>
+
+      {user ? (
+        <CommentComposer onSubmit={handleCreate} />
+      ) : (
+        <p className="rounded-md border border-dashed p-4 text-center text-sm text-muted-foreground">
+          <Link to="/signin" className="font-medium text-primary hover:underline">{t('auth.signIn')}</Link>
+          {' '}{t('comments.signInToComment')}
+        </p>
+      )}
+
+      <div className="space-y-6">
+        {comments.map(comment => {
+          const thread = replies[comment.id]
+          const loadedReplies = thread?.items.length || 0
+          const hiddenReplies = Math.max(0, comment.reply_count - loadedReplies)
+
+          return (
+            <div key={comment.id} className="space-y-3">
+              <CommentItem
+                comment={comment}
+                targetType={targetType}
+                currentUserId={user?.id}
+                canModerate={canModerate}
+                onReply={(c) => startReply(comment.id, c)}
+                onChange={updateComment}
+                onDeleted={removeComment}
+              />
+
+              {(loadedReplies > 0 || hiddenReplies > 0 || replyTarget?.rootId === comment.id) && (
+                <div className="ml-11 space-y-3 border-l pl-4">
+                  {thread?.items.map(reply => (
+                    <CommentItem
+                      key={reply.id}
+                      comment={reply}
+                      targetType={targetType}
+                      currentUserId={user?.id}
+                      canModerate={canModerate}
+                      onReply={(c) => startReply(comment.id, c)}
+                      onChange={updateComment}
+                      onDeleted={removeComment}
+                    />
+                  ))}
+
+                  {(hiddenReplies > 0 || thread?.hasMore) && (
+                    <button
+                      onClick={() => loadReplies(comment.id)}
+                      disabled={thread?.loading}
+                      className="flex items-center gap-1 text-xs font-medium text-primary hover:underline disabled:text-muted-foreground"
+                    >
+                      {thread?.loading && <Loader2 className="h-3 w-3 animate-spin" />}
+                      {loadedReplies === 0
+                        ? t('comments.viewReplies', { count: comment.reply_count })
+                        : t('comments.moreReplies')}
+                    </button>
+                  )}
+
+                  {replyTarget?.rootId === comment.id && (
+                    <CommentComposer
+                      key={replyTarget.comment.id}
+                      initialValue={replyTarget.comment.id !== comment.id && replyTarget.comment.username
+                        ? `@${replyTarget.comment.username} `
+                        : ''}
+                      placeholder={t('comments.replyPlaceholder')}
+                      submitLabel={t('comments.reply')}
+                      autoFocus
+                      onSubmit={handleReply}
+                      onCancel={() => setReplyTarget(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {!loading && comments.length === 0 && (
+        <p className="py-4 text-center text-sm text-muted-foreground">{t('comments.empty')}</p>
+      )}
+
+      {!loading && hasMore && (
+        <div className="flex justify-center">
+          <Button variant="outline" size="sm" onClick={() => loadComments(comments.length)}>
+            {t('common.loadMore')}
+          </Button>
+        </div>
+      )}
+    </section>
+  )
+}
+
+export default CommentSection
@@ -0,0 +1,71 @@
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { LayoutTemplate, Play, X } from 'lucide-react'
+import { getTemplateById } from '@/features/video-creator/data/templates/index'
+import type { CollectionItem } from '@/services/favoriteService'
+
+interface CollectionItemGridProps {
+  items: CollectionItem[]
+  onRemove?: (item: CollectionItem) => void
+}
+
+/**
+ * 收藏夹内容网格：模板链接到模板详情页，视频链接到公开视频页
+ * 模板名称和封面优先使用本地模板文件
+ */
+export function CollectionItemGrid({ items, onRemove }: CollectionItemGridProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+      {items.map(item => {
+        const template = item.item_type === 'template' ? getTemplateById(item.item_id) : undefined
+        const title = template?.name || item.title || t('collections.untitled')
+        const thumbnail = template?.thumbnailUrl || item.thumbnail_url
+        const link = item.item_type === 'template' ? `/templates/${item.item_id}` : `/video/${item.item_id}`
+
+        return (
+          <div key={`${item.item_type}:${item.item_id}`} className="group relative">
+            <Link to={link} className="block">
+              <div className="aspect-video overflow-hidden rounded-md bg-muted">
+                {thumbnail ? (
+                  <img
+                    src={thumbnail}
+                    alt={title}
+                    loading="lazy"
+                    className="h-full w-full object-cover transition-transform group-hover:scale-105"
+                  />
+                ) : (
+                  <div className="flex h-full w-full items-center justify-center">
+                    <Play className="h-8 w-8 text-muted-foreground" />
+                  </div>
+                )}
+              </div>
+              <div className="mt-2 flex items-center gap-1.5 text-sm">
+                {item.item_type === 'template'
+                  ? <LayoutTemplate className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+                  : <Play className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />}
+                <span className="truncate font-medium">{template?.icon} {title}</span>
+              </div>
+              {item.creator_username && (
+                <p className="truncate text-xs text-muted-foreground">@{item.creator_username}</p>
+              )}
+            </Link>
+
+            {onRemove && (
+              <button
+                onClick={() => onRemove(item)}
+                title={t('collections.remove')}
+                className="absolute right-2 top-2 rounded-full bg-black/60 p-1 text-white opacity-0 transition-opacity hover:bg-black/80 group-hover:opacity-100"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default CollectionItemGrid
@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Bookmark, Folder, FolderPlus, Globe, Link2, Loader2, Lock, Pencil, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import CollectionItemGrid from '@/components/favorites/CollectionItemGrid'
+import favoriteService, {
+  COLLECTION_ITEMS_PAGE_SIZE,
+  COLLECTION_NAME_MAX_LENGTH,
+  DEFAULT_COLLECTION_NAME,
+  type CollectionItem,
+  type FavoriteCollection
+} from '@/services/favoriteService'
+
+interface CollectionsPanelProps {
+  userId: string
+}
+
+/**
+ * 个人中心「我的收藏夹」：收藏夹列表、收藏内容、重命名/删除和分享链接
+ */
+export function CollectionsPanel({ userId }: CollectionsPanelProps) {
+  const { t } = useTranslation()
+  const [collections, setCollections] = useState<FavoriteCollection[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [items, setItems] = useState<CollectionItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingItems, setLoadingItems] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const [sharing, setSharing] = useState(false)
+
+  const selected = collections.find(c => c.id === selectedId) || null
+
+  const collectionLabel = (name: string) =>
+    name === DEFAULT_COLLECTION_NAME ? t('collections.defaultName') : name
+
+  const showError = (error: unknown) => {
+    const code = error instanceof Error ? error.message : 'FAVORITE_FAILED'
+    toast.error(t(`collections.errors.${code}`, t('collections.errors.FAVORITE_FAILED')))
+  }
+
+  const loadCollections = useCallback(async () => {
+    try {
+      const list = await favoriteService.getCollections()
+      setCollections(list)
+      setSelectedId(prev => list.some(c => c.id === prev) ? prev : list[0]?.id || null)
+    } catch {
+      toast.error(t('collections.errors.FAVORITE_FAILED'))
+    } finally {
+      setLoading(false)
+    }
+  }, [t])
+
+  const loadItems = useCallback(async (collectionId: string, offset: number) => {
+    setLoadingItems(true)
+    try {
+      const page = await favoriteService.getCollectionItems(collectionId, offset)
+      setItems(prev => offset === 0 ? page : [...prev, ...page])
+      setHasMore(page.length === COLLECTION_ITEMS_PAGE_SIZE)
+    } catch {
+      toast.error(t('collections.errors.FAVORITE_FAILED'))
+    } finally {
+      setLoadingItems(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    loadCollections()
+  }, [loadCollections, userId])
+
+  useEffect(() => {
+    setItems([])
+    if (selectedId) {
+      loadItems(selectedId, 0)
+    }
+  }, [selectedId, loadItems])
+
+  const promptName = (defaultValue = ''): string | null => {
+    const name = prompt(t('collections.namePrompt'), defaultValue)?.trim()
+    if (!name) return null
+    if (name.length > COLLECTION_NAME_MAX_LENGTH) {
+      toast.error(t('collections.errors.COLLECTION_INVALID_NAME'))
+      return null
+    }
+    return name
+  }
+
+  const handleCreate = async () => {
+    const name = promptName()
+    if (!name) return
+
+    try {
+      await favoriteService.createCollection(userId, name)
+      await loadCollections()
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const handleRename = async () => {
+    if (!selected) return
+    const name = promptName(selected.name === DEFAULT_COLLECTION_NAME ? '' : selected.name)
+    if (!name || name === selected.name) return
+
+    try {
+      await favoriteService.renameCollection(selected.id, name)
+      setCollections(prev => prev.map(c => c.id === selected.id ? { ...c, name } : c))
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selected) return
+    if (!confirm(t('collections.confirmDelete', { name: collectionLabel(selected.name) }))) return
+
+    try {
+      await favoriteService.deleteCollection(selected.id)
+      setSelectedId(null)
+      await loadCollections()
+      toast.success(t('collections.deleted'))
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  const copyShareLink = async (shareToken: string) => {
+    const url = await favoriteService.getShareUrl(shareToken)
+    await navigator.clipboard.writeText(url)
+    toast.success(t('collections.linkCopied'))
+  }
+
+  const handleToggleSharing = async () => {
+    if (!selected || sharing) return
+
+    setSharing(true)
+    try {
+      const token = await favoriteService.setSharing(selected.id, !selected.share_token)
+      setCollections(prev => prev.map(c => c.id === selected.id ? { ...c, share_token: token } : c))
+      if (token) {
+        await copyShareLink(token)
+      } else {
+        toast.success(t('collections.sharingDisabled'))
+      }
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSharing(false)
+    }
+  }
+
+  const handleRemoveItem = async (item: CollectionItem) => {
+    try {
+      await favoriteService.removeFavorite(item.item_type, item.item_id)
+      setItems(prev => prev.filter(i => !(i.item_type === item.item_type && i.item_id === item.item_id)))
+      setCollections(prev => prev.map(c => c.id === selectedId
+        ? item.item_type === 'template'
+          ? { ...c, template_count: Math.max(0, c.template_count - 1) }
+          : { ...c, video_count: Math.max(0, c.video_count - 1) }
+        : c))
+    } catch (error) {
+      showError(error)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (collections.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center py-12 text-center">
+          <Bookmark className="h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="font-medium mb-1">{t('collections.emptyTitle')}</h3>
+          <p className="text-sm text-muted-foreground mb-4">{t('collections.emptyDescription')}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleCreate}>
+              <FolderPlus className="h-4 w-4 mr-2" />
+              {t('collections.newCollection')}
+            </Button>
+            <Link to="/templates">
+              <Button>{t('collections.browseTemplates')}</Button>
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
+      {/* 收藏夹列表 */}
+      <div className="space-y-1">
+        {collections.map(collection => (
+          <button
+            key={collection.id}
+            onClick={() => setSelectedId(collection.id)}
+            className={`flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm transition-colors ${
+              collection.id === selectedId ? 'bg-secondary font-medium' : 'hover:bg-muted'
+            }`}
+          >
+            <Folder className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <span className="flex-1 truncate">{collectionLabel(collection.name)}</span>
+            {collection.share_token && <Globe className="h-3.5 w-3.5 text-muted-foreground" />}
+            <span className="text-xs tabular-nums text-muted-foreground">
+              {collection.template_count + collection.video_count}
+            </span>
+          </button>
+        ))}
+        <button
+          onClick={handleCreate}
+          className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-left text-sm text-muted-foreground hover:bg-muted hover:text-foreground"
+        >
+          <FolderPlus className="h-4 w-4" />
+          {t('collections.newCollection')}
+        </button>
+      </div>
+
+      {/* 收藏内容 */}
+      {selected && (
+        <div className="min-w-0 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <h3 className="text-lg font-semibold">{collectionLabel(selected.name)}</h3>
+              <p className="text-sm text-muted-foreground">
+                {t('collections.itemCount', { templates: selected.template_count, videos: selected.video_count })}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {selected.share_token && (
+                <Button variant="outline" size="sm" onClick={() => copyShareLink(selected.share_token!)}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  {t('collections.copyLink')}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleToggleSharing} disabled={sharing}>
+                {sharing
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : selected.share_token ? <Lock className="h-4 w-4 mr-2" /> : <Globe className="h-4 w-4 mr-2" />}
+                {selected.share_token ? t('collections.stopSharing') : t('collections.share')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleRename}>
+                <Pencil className="h-4 w-4 mr-2" />
+                {t('collections.rename')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleDelete} className="text-destructive hover:text-destructive">
+                <Trash2 className="h-4 w-4 mr-2" />
+                {t('common.delete')}
+              </Button>
+            </div>
+          </div>
+
+          {items.length > 0 && <CollectionItemGrid items={items} onRemove={handleRemoveItem} />}
+
+          {loadingItems && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!loadingItems && items.length === 0 && (
+            <p className="py-8 text-center text-sm text-muted-foreground">{t('collections.emptyCollection')}</p>
+          )}
+
+          {!loadingItems && hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" size="sm" onClick={() => loadItems(selected.id, items.length)}>
+                {t('common.loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CollectionsPanel
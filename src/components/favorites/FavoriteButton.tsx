@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Bookmark, Check, FolderPlus, Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useAuthState } from '@/hooks/useAuthState'
+import favoriteService, {
+  COLLECTION_NAME_MAX_LENGTH,
+  DEFAULT_COLLECTION_NAME,
+  type FavoriteCollection,
+  type FavoriteTargetType
+} from '@/services/favoriteService'
+
+interface FavoriteButtonProps {
+  targetType: FavoriteTargetType
+  targetId: string
+  initialIsFavorited?: boolean
+  initialFavoriteCount?: number
+  onFavoriteChange?: (isFavorited: boolean, favoriteCount: number) => void
+}
+
+/**
+ * 收藏按钮：展开后选择收藏夹（已收藏时移动到所选收藏夹）、新建收藏夹或取消收藏
+ */
+export function FavoriteButton({
+  targetType,
+  targetId,
+  initialIsFavorited = false,
+  initialFavoriteCount = 0,
+  onFavoriteChange
+}: FavoriteButtonProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { user } = useAuthState()
+  const [isFavorited, setIsFavorited] = useState(initialIsFavorited)
+  const [favoriteCount, setFavoriteCount] = useState(initialFavoriteCount)
+  const [collections, setCollections] = useState<FavoriteCollection[]>([])
+  const [currentCollection, setCurrentCollection] = useState<string | null>(null)
+  const [loadingCollections, setLoadingCollections] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    setIsFavorited(initialIsFavorited)
+  }, [initialIsFavorited])
+
+  useEffect(() => {
+    setFavoriteCount(initialFavoriteCount)
+  }, [initialFavoriteCount])
+
+  const collectionLabel = (name: string) =>
+    name === DEFAULT_COLLECTION_NAME ? t('collections.defaultName') : name
+
+  const loadCollections = async () => {
+    if (!user) return
+
+    setLoadingCollections(true)
+    try {
+      const [list, status] = await Promise.all([
+        favoriteService.getCollections(),
+        favoriteService.getFavoriteStatus(targetType, targetId, user.id)
+      ])
+      setCollections(list)
+      setCurrentCollection(status.collectionName)
+      setIsFavorited(status.isFavorited)
+    } catch {
+      toast.error(t('collections.errors.FAVORITE_FAILED'))
+    } finally {
+      setLoadingCollections(false)
+    }
+  }
+
+  const applyChange = (favorited: boolean, count: number, collectionName: string | null) => {
+    setIsFavorited(favorited)
+    setFavoriteCount(count)
+    setCurrentCollection(collectionName)
+    onFavoriteChange?.(favorited, count)
+  }
+
+  const showError = (error: unknown) => {
+    const code = error instanceof Error ? error.message : 'FAVORITE_FAILED'
+    toast.error(t(`collections.errors.${code}`, t('collections.errors.FAVORITE_FAILED')))
+  }
+
+  const saveTo = async (collectionName: string) => {
+    if (saving || collectionName === currentCollection) return
+
+    setSaving(true)
+    try {
+      const count = await favoriteService.addFavorite(targetType, targetId, collectionName)
+      applyChange(true, count, collectionName)
+      toast.success(t('collections.savedTo', { name: collectionLabel(collectionName) }))
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveToNewCollection = async () => {
+    const name = prompt(t('collections.namePrompt'))?.trim()
+    if (!name) return
+    if (name.length > COLLECTION_NAME_MAX_LENGTH) {
+      toast.error(t('collections.errors.COLLECTION_INVALID_NAME'))
+      return
+    }
+    await saveTo(name)
+  }
+
+  const remove = async () => {
+    if (saving) return
+
+    setSaving(true)
+    try {
+      const count = await favoriteService.removeFavorite(targetType, targetId)
+      applyChange(false, count, null)
+      toast.success(t('collections.removed'))
+    } catch (error) {
+      showError(error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const buttonContent = (
+    <>
+      {saving
+        ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        : <Bookmark className={`h-4 w-4 mr-2 ${isFavorited ? 'fill-current text-amber-500' : ''}`} />}
+      {isFavorited ? t('collections.saved') : t('collections.save')}
+      {favoriteCount > 0 && (
+        <span className="ml-1.5 tabular-nums text-muted-foreground">{favoriteCount}</span>
+      )}
+    </>
+  )
+
+  if (!user) {
+    return (
+      <Button variant="outline" onClick={() => navigate('/signin')}>
+        {buttonContent}
+      </Button>
+    )
+  }
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadCollections()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={saving}>
+          {buttonContent}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>{t('collections.saveTo')}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        {loadingCollections ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* 没有收藏夹时直接提供默认收藏夹 */}
+            {collections.length === 0 && (
+              <DropdownMenuItem onSelect={() => saveTo(DEFAULT_COLLECTION_NAME)}>
+                <span className="flex-1 truncate">{collectionLabel(DEFAULT_COLLECTION_NAME)}</span>
+              </DropdownMenuItem>
+            )}
+            {collections.map(collection => (
+              <DropdownMenuItem key={collection.id} onSelect={() => saveTo(collection.name)}>
+                <span className="flex-1 truncate">{collectionLabel(collection.name)}</span>
+                {collection.name === currentCollection && <Check className="h-4 w-4 ml-2" />}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={saveToNewCollection}>
+          <FolderPlus className="h-4 w-4 mr-2" />
+          {t('collections.newCollection')}
+        </DropdownMenuItem>
+        {isFavorited && (
+          <DropdownMenuItem onSelect={remove} className="text-destructive focus:text-destructive">
+            <Trash2 className="h-4 w-4 mr-2" />
+            {t('collections.remove')}
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export default FavoriteButton
@@ -20,6 +20,11 @@ export function Footer() {
                   {t('nav.templates')}
                 </a>
               </li>
+              <li>
+                <a href="/gallery" className="link-hover inline-block text-muted-foreground">
+                  {t('nav.gallery')}
+                </a>
+              </li>
               <li>
                 <a href="/pricing" className="link-hover inline-block text-muted-foreground">
                   {t('nav.pricing')}
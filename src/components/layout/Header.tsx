@@ -15,6 +15,7 @@ import {
   Video,
   DollarSign,
   TrendingUp,
+  Users,
   Gift
 } from 'lucide-react'
 
@@ -42,6 +43,7 @@ const FlagImage = ({ country, className }: { country: string; className?: string
 import { Button } from '@/components/ui/button'
 import { useAuth } from '@/contexts/AuthContext'
 import MembershipBadge from '@/components/subscription/MembershipBadge'
+import NotificationBell from '@/components/layout/NotificationBell'
 import { useTheme } from '@/hooks/useTheme'
 import { Moon, Sun, Monitor } from 'lucide-react'
 
@@ -75,7 +77,7 @@ export function Header({ className = "" }: HeaderProps = {}) {
   
   // 获取当前激活的导航项索引
   const getActiveNavIndex = () => {
-    const navPaths = ['/', '/templates', '/videos', '/pricing']
+    const navPaths = ['/', '/templates', '/videos', '/following', '/pricing']
     return navPaths.findIndex(path => path === location.pathname)
   }
 
@@ -139,13 +141,13 @@ export function Header({ className = "" }: HeaderProps = {}) {
     }
   }, [])
 
-  // 路由变化和语言变化时更新位置
+  // 路由变化、语言变化和登录状态变化（关注导航项显示/隐藏）时更新位置
   useLayoutEffect(() => {
     // 如果是首次加载，由上面的useEffect处理
     if (!isFirstLoadRef.current) {
       updateIndicatorPosition(false) // 使用动画
     }
-  }, [location.pathname, i18n.language])
+  }, [location.pathname, i18n.language, user])
 
   // 监听窗口大小变化，重新计算位置
   useEffect(() => {
@@ -286,8 +288,17 @@ export function Header({ className = "" }: HeaderProps = {}) {
             >
               {t('nav.videos')}
             </Link>
+            {user && (
+              <Link 
+                ref={el => { navRefs.current[3] = el }}
+                to="/following" 
+                className={`relative z-10 text-sm font-medium px-3 py-2 rounded-md transition-all duration-300 flex items-center justify-center min-h-[32px] ${location.pathname === '/following' ? 'text-accent-foreground' : 'hover:bg-accent/60'}`}
+              >
+                {t('nav.following')}
+              </Link>
+            )}
             <Link 
-              ref={el => navRefs.current[3] = el}
+              ref={el => navRefs.current[4] = el}
               to="/pricing" 
               className={`relative z-10 text-sm font-medium px-3 py-2 rounded-md transition-all duration-300 flex items-center justify-center min-h-[32px] ${location.pathname === '/pricing' ? 'text-accent-foreground' : 'hover:bg-accent/60'}`}
             >
@@ -306,6 +317,11 @@ export function Header({ className = "" }: HeaderProps = {}) {
             <Link to="/videos" className={`p-2 rounded-md transition-all duration-300 ${location.pathname === '/videos' ? 'bg-accent text-accent-foreground scale-110' : 'hover:bg-accent/50 hover:scale-105'}`}>
               <Video className="h-5 w-5" />
             </Link>
+            {user && (
+              <Link to="/following" className={`p-2 rounded-md transition-all duration-300 ${location.pathname === '/following' ? 'bg-accent text-accent-foreground scale-110' : 'hover:bg-accent/50 hover:scale-105'}`}>
+                <Users className="h-5 w-5" />
+              </Link>
+            )}
             <Link to="/pricing" className={`p-2 rounded-md transition-all duration-300 ${location.pathname === '/pricing' ? 'bg-accent text-accent-foreground scale-110' : 'hover:bg-accent/50 hover:scale-105'}`}>
               <DollarSign className="h-5 w-5" />
             </Link>
@@ -346,6 +362,8 @@ export function Header({ className = "" }: HeaderProps = {}) {
               )}
             </div>
 
+            {/* Notifications */}
+            {user && <NotificationBell userId={user.id} />}
 
             {/* User Menu / Auth Buttons */}
             {user ? (
@@ -557,6 +575,15 @@ export function Header({ className = "" }: HeaderProps = {}) {
               >
                 {t('nav.videos')}
               </Link>
+              {user && (
+                <Link
+                  to="/following"
+                  className={`inline-block text-sm font-medium px-3 py-2 rounded-md transition-all duration-300 ${location.pathname === '/following' ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'}`}
+                  onClick={() => setMobileMenuOpen(false)}
+                >
+                  {t('nav.following')}
+                </Link>
+              )}
               <Link
                 to="/pricing"
                 className={`inline-block text-sm font-medium px-3 py-2 rounded-md transition-all duration-300 ${location.pathname === '/pricing' ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'}`}
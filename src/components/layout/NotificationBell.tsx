@@ -0,0 +1,224 @@
+import { useState, useRef, useEffect, useCallback } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Bell, CheckCheck, Loader2 } from 'lucide-react'
+import notificationService, { type Notification } from '@/services/notificationService'
+import { formatRelativeTime } from '@/utils/timeFormat'
+
+const PAGE_SIZE = 20
+
+interface NotificationBellProps {
+  userId: string
+}
+
+/**
+ * 顶部导航的通知铃铛：未读角标 + 下拉通知列表
+ * 新通知通过 Realtime 推送，其它标签页标记已读时同步未读数
+ */
+export function NotificationBell({ userId }: NotificationBellProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [open, setOpen] = useState(false)
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [loaded, setLoaded] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // 未读数和新通知订阅
+  useEffect(() => {
+    let cancelled = false
+    setNotifications([])
+    setLoaded(false)
+
+    notificationService.getUnreadCount(userId).then(count => {
+      if (!cancelled) setUnreadCount(count)
+    })
+
+    const unsubscribe = notificationService.subscribeToNotifications(userId, {
+      onInsert: async (notification) => {
+        setUnreadCount(count => count + 1)
+        // Realtime 推送的行不含发送者信息，重新读取一次
+        const full = await notificationService.getNotification(notification.id)
+        if (cancelled) return
+        setNotifications(prev =>
+          prev.some(n => n.id === notification.id) ? prev : [full || notification, ...prev]
+        )
+      },
+      onUpdate: (notification) => {
+        setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, ...notification, sender: n.sender } : n))
+        notificationService.getUnreadCount(userId).then(count => {
+          if (!cancelled) setUnreadCount(count)
+        })
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [userId])
+
+  const loadNotifications = useCallback(async (before?: string) => {
+    setLoading(true)
+    try {
+      const page = await notificationService.getNotifications(userId, PAGE_SIZE, before)
+      setNotifications(prev => {
+        if (!before) return page
+        const ids = new Set(prev.map(n => n.id))
+        return [...prev, ...page.filter(n => !ids.has(n.id))]
+      })
+      setHasMore(page.length === PAGE_SIZE)
+      setLoaded(true)
+    } catch {
+      // 错误已在服务中记录，保留已加载的列表
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  // 首次打开时加载列表
+  useEffect(() => {
+    if (open && !loaded) {
+      loadNotifications()
+    }
+  }, [open, loaded, loadNotifications])
+
+  // 点击外部关闭
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const markRead = async (ids: string[]) => {
+    setNotifications(prev => prev.map(n => ids.includes(n.id) ? { ...n, is_read: true } : n))
+    setUnreadCount(count => Math.max(0, count - ids.length))
+    try {
+      await notificationService.markAsRead(ids)
+    } catch {
+      setUnreadCount(await notificationService.getUnreadCount(userId))
+    }
+  }
+
+  const markAllRead = async () => {
+    setNotifications(prev => prev.map(n => ({ ...n, is_read: true })))
+    setUnreadCount(0)
+    try {
+      await notificationService.markAllAsRead()
+    } catch {
+      setUnreadCount(await notificationService.getUnreadCount(userId))
+    }
+  }
+
+  const handleClick = (notification: Notification) => {
+    if (!notification.is_read) {
+      markRead([notification.id])
+    }
+    const link = notificationService.getLink(notification)
+    if (link) {
+      setOpen(false)
+      navigate(link)
+    }
+  }
+
+  // 按类型本地化显示，未知类型使用数据库中的兜底文案
+  const getMessage = (notification: Notification): { title: string; detail: string | null } => {
+    const data = notification.data || {}
+    const params = {
+      ...data,
+      senderName: data.senderName || notification.sender?.username || t('notifications.someone'),
+      videoTitle: data.videoTitle || t('notifications.untitledVideo'),
+      // 发布通知按内容类型选择文案（title_video / title_template）
+      context: data.itemType
+    }
+    const key = `notifications.types.${notification.type}`
+    const title = t(`${key}.title`, { ...params, defaultValue: notification.title })
+    const detail = t(`${key}.detail`, { ...params, defaultValue: notification.content || '' })
+    return { title, detail: detail || null }
+  }
+
+  const badge = unreadCount > 99 ? '99+' : String(unreadCount)
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-md hover:bg-accent transition-colors"
+        aria-label={t('notifications.title')}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-medium flex items-center justify-center">
+            {badge}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] bg-card border border-border rounded-md shadow-lg animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <p className="text-sm font-medium">{t('notifications.title')}</p>
+            <button
+              onClick={markAllRead}
+              disabled={unreadCount === 0}
+              className="flex items-center gap-1 text-xs text-primary disabled:text-muted-foreground disabled:cursor-not-allowed"
+            >
+              <CheckCheck className="h-3.5 w-3.5" />
+              {t('notifications.markAllRead')}
+            </button>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 && loading && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {notifications.length === 0 && !loading && (
+              <p className="py-8 text-center text-sm text-muted-foreground">{t('notifications.empty')}</p>
+            )}
+            {notifications.map(notification => {
+              const { title, detail } = getMessage(notification)
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => handleClick(notification)}
+                  className={`w-full px-4 py-3 text-left flex gap-3 hover:bg-accent transition-colors duration-200 border-b last:border-b-0 ${
+                    notification.is_read ? '' : 'bg-primary/5'
+                  }`}
+                >
+                  <span className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${notification.is_read ? 'bg-transparent' : 'bg-primary'}`} />
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm">{title}</span>
+                    {detail && (
+                      <span className="block text-xs text-muted-foreground truncate">{detail}</span>
+                    )}
+                    <span className="block text-xs text-muted-foreground mt-1">{formatRelativeTime(notification.created_at)}</span>
+                  </span>
+                </button>
+              )
+            })}
+            {hasMore && notifications.length > 0 && (
+              <button
+                onClick={() => loadNotifications(notifications[notifications.length - 1].created_at)}
+                disabled={loading}
+                className="w-full py-2 text-xs text-primary hover:bg-accent transition-colors disabled:text-muted-foreground"
+              >
+                {loading ? t('notifications.loading') : t('notifications.loadMore')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default NotificationBell
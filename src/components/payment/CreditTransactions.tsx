@@ -192,7 +192,7 @@ export function CreditTransactions({
                 </div>
                 
                 <div className="flex items-center justify-between text-xs text-gray-500">
-                  <span>{creditService.getTransactionTypeText(transaction.type)}</span>
+                  <span>{creditService.getTransactionTypeText(transaction.type, transaction.reference_type)}</span>
                   <span>
                     {format(new Date(transaction.created_at), 'MM月dd日 HH:mm', { locale: zhCN })}
                   </span>
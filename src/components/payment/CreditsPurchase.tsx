@@ -1,56 +1,20 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Loader2 } from 'lucide-react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { useAuthContext } from '@/contexts/AuthContext'
-import stripeService from '@/services/stripeService'
+import stripeService, { type CreditPackage } from '@/services/stripeService'
 
 interface CreditsPurchaseProps {
   onPurchaseSuccess?: (credits: number) => void
   className?: string
 }
 
-interface CreditPackage {
-  id: string
-  credits: number
-  price: number
-  currency: string
-  popular?: boolean
-  bonus?: number
-  description: string
-}
-
-const creditPackages: CreditPackage[] = [
-  {
-    id: 'basic',
-    credits: 160,
-    price: 9.99,
-    currency: 'USD',
-    description: 'basic'
-  },
-  {
-    id: 'pro',
-    credits: 1000,
-    price: 49.99,
-    currency: 'USD',
-    description: 'pro',
-    popular: true
-  },
-  {
-    id: 'premium',
-    credits: 2400,
-    price: 99.99,
-    currency: 'USD',
-    description: 'premium'
-  }
-]
-
 // 移除图标和颜色配置，采用更简洁的设计
 const packageColors = {
-  basic: 'border-gray-200 hover:border-gray-300 bg-white dark:bg-gray-950 dark:border-gray-800 hover:dark:border-gray-700',
-  pro: 'border-gray-900 bg-white dark:bg-gray-950 dark:border-gray-200 ring-1 ring-gray-900 dark:ring-gray-200',
-  premium: 'border-gray-200 hover:border-gray-300 bg-white dark:bg-gray-950 dark:border-gray-800 hover:dark:border-gray-700'
+  default: 'border-gray-200 hover:border-gray-300 bg-white dark:bg-gray-950 dark:border-gray-800 hover:dark:border-gray-700',
+  popular: 'border-gray-900 bg-white dark:bg-gray-950 dark:border-gray-200 ring-1 ring-gray-900 dark:ring-gray-200'
 }
 
 export function CreditsPurchase({ 
@@ -60,6 +24,15 @@ export function CreditsPurchase({
   const { t } = useTranslation()
   const { user } = useAuthContext()
   const [loadingPackage, setLoadingPackage] = useState<string | null>(null)
+  const [creditPackages, setCreditPackages] = useState<CreditPackage[]>([])
+  const [packagesLoading, setPackagesLoading] = useState(true)
+
+  // 套餐由服务端目录维护（管理后台可编辑）
+  useEffect(() => {
+    stripeService.getCreditPackages()
+      .then(setCreditPackages)
+      .finally(() => setPackagesLoading(false))
+  }, [])
 
   const handlePurchase = async (pkg: CreditPackage) => {
     if (!user) return
@@ -68,8 +41,7 @@ export function CreditsPurchase({
     
     try {
       const result = await stripeService.createCreditsPurchaseCheckout(
-        pkg.price,
-        pkg.credits + (pkg.bonus || 0),
+        pkg.id,
         user.id,
         `${window.location.origin}/pricing?purchase=success`,
         `${window.location.origin}/pricing?purchase=cancelled`
@@ -85,29 +57,43 @@ export function CreditsPurchase({
     }
   }
 
-  const calculateSavings = (credits: number, price: number): number => {
-    const baseRate = 9.99 / 160 // Basic package unit price
-    const currentRate = price / credits
+  // 以同币种中单价最高的套餐为基准计算节省比例
+  const calculateSavings = (pkg: CreditPackage): number => {
+    const rates = creditPackages
+      .filter(other => other.currency === pkg.currency)
+      .map(other => other.price_cents / (other.credits + other.bonus_credits))
+    const baseRate = Math.max(...rates)
+    const currentRate = pkg.price_cents / (pkg.credits + pkg.bonus_credits)
     return Math.round(((baseRate - currentRate) / baseRate) * 100)
   }
 
+  if (packagesLoading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
   return (
     <div className={className}>
       <div className="max-w-6xl mx-auto grid gap-6 md:grid-cols-3">
         {creditPackages.map((pkg) => {
           const isLoading = loadingPackage === pkg.id
-          const savings = calculateSavings(pkg.credits, pkg.price)
-          const totalCredits = pkg.credits + (pkg.bonus || 0)
+          const savings = calculateSavings(pkg)
+          const totalCredits = pkg.credits + pkg.bonus_credits
+          const price = pkg.price_cents / 100
+          const currency = pkg.currency.toUpperCase()
 
           return (
             <Card 
               key={pkg.id}
               className={`relative flex flex-col h-full transition-all duration-200 hover:shadow-md ${
-                packageColors[pkg.id as keyof typeof packageColors] || ''
+                pkg.is_popular ? packageColors.popular : packageColors.default
               }`}
             >
               {/* Popular标签 - 卡片顶部中间位置 */}
-              {pkg.popular && (
+              {pkg.is_popular && (
                 <div className="absolute -top-4 left-1/2 transform -translate-x-1/2 z-10">
                   <div className="flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 rounded text-xs font-medium">
                     <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
@@ -123,7 +109,7 @@ export function CreditsPurchase({
                 {/* 左上角包名标题 */}
                 <div className="mb-6">
                   <div className="inline-block px-3 py-1 rounded-md text-xs font-medium uppercase tracking-wider bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300">
-                    {t(`credits.packages.${pkg.description}`)}
+                    {t(`credits.packages.${pkg.id}`, { defaultValue: pkg.name })}
                   </div>
                 </div>
 
@@ -131,7 +117,7 @@ export function CreditsPurchase({
                 <div className="mb-2">
                   <div className="flex items-center gap-3 justify-start">
                     <span className="text-4xl font-bold text-gray-900 dark:text-gray-100">
-                      {stripeService.formatPrice(pkg.price)}
+                      {stripeService.formatPrice(price, currency)}
                     </span>
                     {/* Save标签 - 价格右侧 */}
                     {savings > 0 && (
@@ -157,8 +143,8 @@ export function CreditsPurchase({
                       }
                     }}
                     disabled={isLoading || !user}
-                    variant={pkg.id === 'pro' ? 'default' : 'outline'}
-                    className={pkg.id === 'pro' ? 'w-full bg-blue-500 text-white hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700' : 'w-full'}
+                    variant={pkg.is_popular ? 'default' : 'outline'}
+                    className={pkg.is_popular ? 'w-full bg-blue-500 text-white hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700' : 'w-full'}
                     size="lg"
                   >
                     {isLoading ? (
@@ -176,7 +162,7 @@ export function CreditsPurchase({
                 <div className="space-y-2 text-sm text-gray-600 dark:text-gray-400">
                   <div className="flex items-start">
                     <span className="w-1 h-1 bg-gray-400 rounded-full mt-2 mr-3 flex-shrink-0"></span>
-                    <span>{t('credits.unitPrice', { price: stripeService.formatPrice(pkg.price / totalCredits) })}</span>
+                    <span>{t('credits.unitPrice', { price: stripeService.formatPrice(price / totalCredits, currency) })}</span>
                   </div>
                   {savings > 0 && (
                     <div className="flex items-start">
@@ -184,10 +170,10 @@ export function CreditsPurchase({
                       <span className="text-blue-600">{t('credits.saveComparedToBasic', { percent: savings })}</span>
                     </div>
                   )}
-                  {pkg.bonus && (
+                  {pkg.bonus_credits > 0 && (
                     <div className="flex items-start">
                       <span className="w-1 h-1 bg-gray-400 rounded-full mt-2 mr-3 flex-shrink-0"></span>
-                      <span className="text-blue-600">{t('credits.bonusCredits', { bonus: pkg.bonus })}</span>
+                      <span className="text-blue-600">{t('credits.bonusCredits', { bonus: pkg.bonus_credits })}</span>
                     </div>
                   )}
                 </div>
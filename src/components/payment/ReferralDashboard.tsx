@@ -39,6 +39,8 @@ import { useAuthContext } from '@/contexts/AuthContext'
 import referralService from '@/services/referralService'
 import { toast } from 'sonner'
 
+const INVITE_LINK_CHANNELS = ['copy', 'twitter', 'facebook', 'whatsapp']
+
 interface ReferralDashboardProps {
   className?: string
 }
@@ -54,6 +56,21 @@ export function ReferralDashboard({ className = '' }: ReferralDashboardProps) {
     enabled: !!user?.id
   })
 
+  // 各分享渠道的邀请短链接（提前生成，避免点击分享时弹窗被浏览器拦截）
+  const { data: inviteLinks } = useQuery({
+    queryKey: ['referral-invite-links', referralCode],
+    queryFn: async () => {
+      const entries = await Promise.all(
+        INVITE_LINK_CHANNELS.map(async channel =>
+          [channel, await referralService.generateShortInviteLink(referralCode!, channel)] as const
+        )
+      )
+      return Object.fromEntries(entries) as Record<string, string>
+    },
+    enabled: !!referralCode,
+    staleTime: Infinity
+  })
+
   // 获取邀请列表
   const { data: invitations = [] } = useQuery({
     queryKey: ['user-invitations', user?.id],
@@ -85,7 +102,7 @@ export function ReferralDashboard({ className = '' }: ReferralDashboardProps) {
   const handleCopyInviteLink = async () => {
     if (!referralCode) return
     
-    const inviteLink = referralService.generateInviteLink(referralCode)
+    const inviteLink = inviteLinks?.copy || referralService.generateInviteLink(referralCode)
     const success = await referralService.copyToClipboard(inviteLink)
     
     if (success) {
@@ -98,7 +115,7 @@ export function ReferralDashboard({ className = '' }: ReferralDashboardProps) {
   const handleShareToSocial = (platform: string) => {
     if (!referralCode) return
     
-    const inviteLink = referralService.generateInviteLink(referralCode)
+    const inviteLink = inviteLinks?.[platform] || referralService.generateInviteLink(referralCode)
     referralService.shareToSocial(platform, referralCode, inviteLink)
   }
 
@@ -118,7 +135,7 @@ export function ReferralDashboard({ className = '' }: ReferralDashboardProps) {
     )
   }
 
-  const inviteLink = referralService.generateInviteLink(referralCode)
+  const inviteLink = inviteLinks?.copy || referralService.generateInviteLink(referralCode)
 
   return (
     <div className={`space-y-6 ${className}`}>
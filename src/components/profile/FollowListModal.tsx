@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { CheckCircle, Loader2, User, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { useAuthState } from '@/hooks/useAuthState'
+import followService, {
+  FOLLOW_LIST_PAGE_SIZE,
+  type FollowListType,
+  type FollowListUser
+} from '@/services/followService'
+
+interface FollowListModalProps {
+  userId: string
+  listType: FollowListType
+  onClose: () => void
+  // 当前用户在列表中关注/取消关注后通知资料页更新计数
+  onFollowChange?: (targetId: string, isFollowing: boolean) => void
+}
+
+/**
+ * 粉丝/关注列表弹窗，登录用户可以直接在列表中关注或取消关注
+ */
+export function FollowListModal({ userId, listType, onClose, onFollowChange }: FollowListModalProps) {
+  const { t } = useTranslation()
+  const { user } = useAuthState()
+  const [users, setUsers] = useState<FollowListUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [hasMore, setHasMore] = useState(false)
+  const [pendingId, setPendingId] = useState<string | null>(null)
+
+  const loadPage = useCallback(async (offset: number) => {
+    setLoading(true)
+    try {
+      const page = await followService.getFollowList(userId, listType, offset)
+      setUsers(prev => offset === 0 ? page : [...prev, ...page])
+      setHasMore(page.length === FOLLOW_LIST_PAGE_SIZE)
+    } catch {
+      toast.error(t('profile.followListError'))
+    } finally {
+      setLoading(false)
+    }
+  }, [userId, listType, t])
+
+  useEffect(() => {
+    setUsers([])
+    loadPage(0)
+  }, [loadPage])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const toggleFollow = async (target: FollowListUser) => {
+    if (!user || pendingId) return
+
+    setPendingId(target.id)
+    try {
+      if (target.is_followed_by_viewer) {
+        await followService.unfollow(user.id, target.id)
+      } else {
+        await followService.follow(user.id, target.id)
+      }
+      const isFollowing = !target.is_followed_by_viewer
+      setUsers(prev => prev.map(u => u.id === target.id ? { ...u, is_followed_by_viewer: isFollowing } : u))
+      onFollowChange?.(target.id, isFollowing)
+    } catch {
+      toast.error(t('profile.followError'))
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <Card className="max-w-md w-full" onClick={(e) => e.stopPropagation()}>
+        <CardContent className="p-0">
+          <div className="flex items-center justify-between border-b px-6 py-4">
+            <h3 className="text-lg font-semibold">
+              {listType === 'followers' ? t('profile.followers') : t('profile.following')}
+            </h3>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto px-6 py-2">
+            {users.map(item => (
+              <div key={item.id} className="flex items-center gap-3 py-3">
+                <Link
+                  to={item.username ? `/profile/${item.username}` : '#'}
+                  onClick={onClose}
+                  className="flex min-w-0 flex-1 items-center gap-3"
+                >
+                  <div className="h-10 w-10 flex-shrink-0 overflow-hidden rounded-full bg-muted">
+                    {item.avatar_url ? (
+                      <img src={item.avatar_url} alt={item.username || ''} className="h-full w-full object-cover" />
+                    ) : (
+                      <div className="flex h-full w-full items-center justify-center">
+                        <User className="h-5 w-5 text-muted-foreground" />
+                      </div>
+                    )}
+                  </div>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-1">
+                      <span className="truncate font-medium">{item.full_name || item.username}</span>
+                      {item.is_verified && <CheckCircle className="h-3.5 w-3.5 flex-shrink-0 text-blue-500" />}
+                    </div>
+                    {item.username && (
+                      <p className="truncate text-sm text-muted-foreground">@{item.username}</p>
+                    )}
+                  </div>
+                </Link>
+
+                {user && user.id !== item.id && (
+                  <Button
+                    size="sm"
+                    variant={item.is_followed_by_viewer ? 'outline' : 'default'}
+                    onClick={() => toggleFollow(item)}
+                    disabled={pendingId === item.id}
+                  >
+                    {item.is_followed_by_viewer ? t('profile.unfollow') : t('profile.follow')}
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {loading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!loading && users.length === 0 && (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {listType === 'followers' ? t('profile.noFollowers') : t('profile.noFollowing')}
+              </p>
+            )}
+
+            {!loading && hasMore && (
+              <div className="flex justify-center py-2">
+                <Button variant="outline" size="sm" onClick={() => loadPage(users.length)}>
+                  {t('common.loadMore')}
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+export default FollowListModal
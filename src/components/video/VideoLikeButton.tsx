@@ -0,0 +1,74 @@
+import { useNavigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Heart } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { useAuthState } from '@/hooks/useAuthState'
+import { useVideoLike } from '@/hooks/useVideoLike'
+
+interface VideoLikeButtonProps {
+  videoId: string
+  initialLikeCount?: number
+  initialIsLiked?: boolean
+  size?: 'default' | 'sm'
+  variant?: 'outline' | 'ghost'
+  showLabel?: boolean
+  fetchStatus?: boolean
+  className?: string
+  onLikeChange?: (isLiked: boolean, likeCount: number) => void
+}
+
+/**
+ * 公开视频点赞按钮，未登录时跳转登录页
+ */
+export function VideoLikeButton({
+  videoId,
+  initialLikeCount = 0,
+  initialIsLiked = false,
+  size = 'default',
+  variant = 'outline',
+  showLabel = true,
+  fetchStatus = true,
+  className,
+  onLikeChange
+}: VideoLikeButtonProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { user } = useAuthState()
+
+  const { isLiked, likeCount, toggleLike } = useVideoLike({
+    videoId,
+    initialLikeCount,
+    initialIsLiked,
+    onLikeChange,
+    fetchStatus
+  })
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (!user) {
+      navigate('/signin')
+      return
+    }
+    toggleLike()
+  }
+
+  return (
+    <Button
+      variant={variant}
+      size={size}
+      onClick={handleClick}
+      aria-pressed={isLiked}
+      title={isLiked ? t('videoLikes.unlike') : t('videoLikes.like')}
+      className={cn(isLiked && 'text-pink-500 hover:text-pink-600', className)}
+    >
+      <Heart className={cn('h-4 w-4', showLabel && 'mr-2', isLiked && 'fill-current')} />
+      {showLabel && (isLiked ? t('videoLikes.liked') : t('videoLikes.like'))}
+      <span className={cn('tabular-nums', showLabel ? 'ml-1.5 text-muted-foreground' : 'ml-1')}>{likeCount}</span>
+    </Button>
+  )
+}
+
+export default VideoLikeButton
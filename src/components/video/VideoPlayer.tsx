@@ -292,9 +292,7 @@ export default function VideoPlayer({
     } else if (enableDownloadProtection && userId && videoId) {
       // 使用受保护的下载服务
       await ProtectedDownloadService.downloadVideo(
-        userId,
         videoId,
-        src,
         videoTitle || 'video'
       )
     } else {
@@ -3,6 +3,7 @@ import { User, Session, AuthError } from '@supabase/supabase-js'
 import { supabase, ensureValidSession } from '@/lib/supabase'
 import { useNavigate } from 'react-router-dom'
 import { referralService } from '@/services/referralService'
+import shortLinkService from '@/services/shortLinkService'
 
 // 认证上下文类型定义
 interface AuthContextType {
@@ -45,6 +46,7 @@ interface Profile {
   following_count: number
   template_count: number
   is_verified: boolean
+  role?: 'user' | 'admin' | 'super_admin'
   created_at: string
   updated_at: string
 }
@@ -440,6 +442,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           case 'SIGNED_IN':
             // 启动Token检查定时器
             startTokenCheck()
+
+            // 新用户首次登录（注册或邮箱验证后）归因到最近点击的分享/邀请短链接，不阻塞登录流程
+            shortLinkService.recordSignup()
             
             // 检查是否是真正的用户登录操作
             // 定义公开页面，这些页面不应该触发自动导航
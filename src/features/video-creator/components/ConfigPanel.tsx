@@ -1,6 +1,6 @@
 import React, { useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { ChevronRight, ChevronDown, Coins, AlertCircle, Zap, Sparkles, Shuffle } from 'lucide-react'
+import { ChevronRight, ChevronDown, Coins, AlertCircle, Zap, Sparkles, Shuffle, Layers } from 'lucide-react'
 import { Template } from '../data/templates'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -9,6 +9,13 @@ import ImageUploader from './ImageUploader'
 import { PromptGenerator } from '@/services/promptGenerator'
 import { generateRandomParams } from '@/utils/randomParams'
 import { getVideoCreditCost } from '@/config/credits'
+import {
+  MAX_BATCH_SIZE,
+  isBatchableParam,
+  expandSliderRange,
+  countParamCombinations,
+  type BatchParamValues
+} from '@/utils/batchParams'
 
 interface ConfigPanelProps {
   selectedTemplate: Template
@@ -19,6 +26,10 @@ interface ConfigPanelProps {
   onParamChange: (key: string, value: any) => void
   onGenerate: () => void
   isGenerating: boolean
+  batchMode: boolean
+  batchValues: BatchParamValues
+  onBatchModeChange: (enabled: boolean) => void
+  onBatchValuesChange: (key: string, values: any[]) => void
 }
 
 export default function ConfigPanel({
@@ -29,14 +40,150 @@ export default function ConfigPanel({
   onTemplateChange,
   onParamChange,
   onGenerate,
-  isGenerating
+  isGenerating,
+  batchMode,
+  batchValues,
+  onBatchModeChange,
+  onBatchValuesChange
 }: ConfigPanelProps) {
   const { t } = useTranslation()
   const [showTemplateList, setShowTemplateList] = useState(false)
+  // 批量模式下滑块参数的取值区间
+  const [sliderRanges, setSliderRanges] = useState<Record<string, { from: number; to: number; step: number }>>({})
+
+  const creditsPerVideo = getVideoCreditCost(quality === 'fast' ? 'standard' : 'high')
+  const batchCount = batchMode ? countParamCombinations(batchValues) : 1
+  const batchTooLarge = batchCount > MAX_BATCH_SIZE
+
+  const toggleBatchValue = (key: string, value: any) => {
+    const current = batchValues[key] || []
+    onBatchValuesChange(
+      key,
+      current.includes(value) ? current.filter(item => item !== value) : [...current, value]
+    )
+  }
+
+  const updateSliderRange = (key: string, param: any, patch: Partial<{ from: number; to: number; step: number }>) => {
+    const current = sliderRanges[key] || { from: param.min ?? 0, to: param.max ?? 100, step: 10 }
+    const range = { ...current, ...patch }
+    setSliderRanges(prev => ({ ...prev, [key]: range }))
+    onBatchValuesChange(key, expandSliderRange(range.from, range.to, range.step))
+  }
+
+  /**
+   * 批量模式下的参数取值编辑：下拉选项多选、滑块按区间和步长取值、开关可同时生成开和关
+   */
+  const renderBatchParam = (key: string, param: any) => {
+    const values = batchValues[key] || []
+
+    switch (param.type) {
+      case 'select':
+        return (
+          <div key={key} className="space-y-0.5">
+            <label className="text-xs font-medium">
+              {param.label}
+              {values.length > 0 && (
+                <span className="text-muted-foreground ml-1">({values.length})</span>
+              )}
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {(param.options || []).map((option: { value: string; label: string }) => (
+                <button
+                  key={option.value}
+                  className={`px-1.5 py-0.5 text-xs rounded border ${
+                    values.includes(option.value)
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'bg-background border-input hover:bg-accent'
+                  }`}
+                  onClick={() => toggleBatchValue(key, option.value)}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )
+
+      case 'slider': {
+        const range = sliderRanges[key]
+        return (
+          <div key={key} className="space-y-0.5">
+            <label className="text-xs font-medium">
+              {param.label}
+              {values.length > 0 && (
+                <span className="text-muted-foreground ml-1">({values.join(', ')})</span>
+              )}
+            </label>
+            <div className="flex gap-1 items-center text-xs">
+              <span>{t('configPanel.rangeFrom')}</span>
+              <input
+                type="number"
+                className="w-14 px-1 py-0.5 border border-input bg-background rounded"
+                min={param.min ?? 0}
+                max={param.max ?? 100}
+                value={range?.from ?? ''}
+                onChange={(e) => updateSliderRange(key, param, { from: Number(e.target.value) })}
+              />
+              <span>{t('configPanel.rangeTo')}</span>
+              <input
+                type="number"
+                className="w-14 px-1 py-0.5 border border-input bg-background rounded"
+                min={param.min ?? 0}
+                max={param.max ?? 100}
+                value={range?.to ?? ''}
+                onChange={(e) => updateSliderRange(key, param, { to: Number(e.target.value) })}
+              />
+              <span>{t('configPanel.rangeStep')}</span>
+              <input
+                type="number"
+                className="w-12 px-1 py-0.5 border border-input bg-background rounded"
+                min={1}
+                value={range?.step ?? ''}
+                onChange={(e) => updateSliderRange(key, param, { step: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+        )
+      }
+
+      case 'toggle':
+        return (
+          <label key={key} className="flex items-center justify-between text-xs font-medium">
+            {param.label}
+            <span className="flex items-center gap-1 text-muted-foreground font-normal">
+              <input
+                type="checkbox"
+                checked={values.length > 0}
+                onChange={(e) => onBatchValuesChange(key, e.target.checked ? [true, false] : [])}
+              />
+              {t('configPanel.batchBothValues')}
+            </span>
+          </label>
+        )
+
+      default:
+        return null
+    }
+  }
 
   const renderParam = (key: string, param: any) => {
     const value = params[key]
 
+    // 批量模式下，已选择多个取值的参数使用批量编辑
+    if (batchMode && isBatchableParam(param)) {
+      return (
+        <div key={key} className="space-y-1">
+          {renderBatchParam(key, param)}
+          {(batchValues[key] || []).length === 0 && param.type !== 'toggle' && renderSingleParam(key, param, value)}
+        </div>
+      )
+    }
+
+    return renderSingleParam(key, param, value)
+  }
+
+  const renderSingleParam = (key: string, param: any, value: any) => {
+
     switch (param.type) {
       case 'image':
         return (
@@ -46,6 +193,8 @@ export default function ConfigPanel({
             value={value}
             onChange={(file) => onParamChange(key, file)}
             required={param.required}
+            accept={param.accept}
+            maxSize={param.maxSize}
           />
         )
       
@@ -143,7 +292,7 @@ export default function ConfigPanel({
       }
     })
     
-    return missingParams.length === 0
+    return missingParams.length === 0 && !(batchMode && batchTooLarge)
   }
   
   const getMissingParams = () => {
@@ -221,7 +370,7 @@ export default function ConfigPanel({
             <Coins className="h-3 w-3 text-yellow-600" />
             <span className="text-muted-foreground">{t('configPanel.creditsRequired')}:</span>
             <span className="font-medium">
-              {getVideoCreditCost(quality === 'fast' ? 'standard' : 'high')}
+              {batchMode ? `${creditsPerVideo} × ${batchCount} = ${creditsPerVideo * batchCount}` : creditsPerVideo}
             </span>
             {quality === 'fast' && (
               <span className="text-xs text-green-600">({t('configPanel.standard')})</span>
@@ -253,7 +402,9 @@ export default function ConfigPanel({
             ) : (
               <>
                 <Sparkles className="w-4 h-4 mr-2" />
-                {t('configPanel.generateVideo')}
+                {batchMode
+                  ? t('configPanel.generateBatch', { count: batchCount })
+                  : t('configPanel.generateVideo')}
               </>
             )}
           </span>
@@ -261,8 +412,17 @@ export default function ConfigPanel({
 
 
         
+        {batchMode && batchTooLarge && (
+          <div className="flex items-start gap-1.5 mt-2 p-2 bg-destructive/10 rounded-md">
+            <AlertCircle className="h-3.5 w-3.5 text-destructive mt-0.5" />
+            <p className="text-xs text-destructive">
+              {t('configPanel.batchTooLarge', { count: batchCount, max: MAX_BATCH_SIZE })}
+            </p>
+          </div>
+        )}
+
         {/* Validation Messages */}
-        {!canGenerate() && (
+        {!canGenerate() && !(batchMode && batchTooLarge) && (
           <div className="flex items-start gap-1.5 mt-2 p-2 bg-destructive/10 rounded-md">
             <AlertCircle className="h-3.5 w-3.5 text-destructive mt-0.5" />
             <div className="flex-1">
@@ -332,8 +492,27 @@ export default function ConfigPanel({
             >
               <Shuffle className="h-3.5 w-3.5" />
             </button>
+
+            {/* Batch Mode Button */}
+            <button
+              className={`px-2.5 py-1.5 text-xs border rounded-md flex items-center justify-center ${
+                batchMode
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'border-input bg-background hover:bg-accent'
+              }`}
+              onClick={() => onBatchModeChange(!batchMode)}
+              title={t('configPanel.batchMode')}
+            >
+              <Layers className="h-3.5 w-3.5" />
+            </button>
           </div>
 
+          {batchMode && (
+            <p className="text-xs text-muted-foreground px-0.5">
+              {t('configPanel.batchModeHint')}
+            </p>
+          )}
+
           {/* Parameters Container with Rounded Rectangle */}
           <div className="bg-muted/30 border border-border rounded-lg p-2">
             <div className="space-y-1.5">
@@ -2,35 +2,53 @@ import React, { useState, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Upload, X } from 'lucide-react'
 import { Card } from '@/components/ui/card'
+import imageUploadService from '@/services/imageUploadService'
 
 interface ImageUploaderProps {
   label: string
   value: File | null
   onChange: (file: File | null) => void
   required?: boolean
+  accept?: string
+  maxSize?: number
 }
 
 export default function ImageUploader({
   label,
   value,
   onChange,
-  required = false
+  required = false,
+  accept,
+  maxSize
 }: ImageUploaderProps) {
   const { t } = useTranslation()
   const [preview, setPreview] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  const maxSizeMB = maxSize ? Math.round(maxSize / 1024 / 1024 * 10) / 10 : null
+  const formats = accept
+    ? accept.split(',').map(type => type.trim().replace('image/', '').toUpperCase()).join(', ')
+    : null
+
   const handleFileSelect = (file: File) => {
-    if (file && file.type.startsWith('image/')) {
-      onChange(file)
-      
-      // Create preview
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        setPreview(reader.result as string)
-      }
-      reader.readAsDataURL(file)
+    const validationError = imageUploadService.validateImage(file, { accept, maxSize })
+    if (validationError) {
+      setError(validationError === 'invalid_type'
+        ? t('imageUploader.invalidType', { formats: formats || 'JPG, PNG' })
+        : t('imageUploader.fileTooLarge', { max: maxSizeMB }))
+      return
+    }
+
+    setError(null)
+    onChange(file)
+
+    // Create preview
+    const reader = new FileReader()
+    reader.onloadend = () => {
+      setPreview(reader.result as string)
     }
+    reader.readAsDataURL(file)
   }
 
   const handleDrop = (e: React.DragEvent) => {
@@ -88,17 +106,23 @@ export default function ImageUploader({
               <Upload className="h-8 w-8" />
               <p className="text-sm font-medium">{t('imageUploader.clickToUpload')}</p>
               <p className="text-xs text-center">
-                {t('imageUploader.formatRequirements')}
+                {formats && maxSizeMB
+                  ? t('imageUploader.formatHint', { formats, max: maxSizeMB })
+                  : t('imageUploader.formatRequirements')}
               </p>
             </div>
           )}
         </div>
       </Card>
+
+      {error && (
+        <p className="text-xs text-destructive">{error}</p>
+      )}
       
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={accept || 'image/*'}
         onChange={(e) => {
           const file = e.target.files?.[0]
           if (file) handleFileSelect(file)
@@ -3,17 +3,28 @@ import { useSearchParams, useNavigate, Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import ConfigPanel from './ConfigPanel'
 import PreviewPanel from './PreviewPanel'
-import { templates } from '../data/templates'
+import { templates, type TemplateParam } from '../data/templates'
 import veo3Service from '@/services/veo3Service'
 import supabaseVideoService from '@/services/supabaseVideoService'
 import videoQueueService from '@/services/videoQueueService'
+import imageUploadService from '@/services/imageUploadService'
 import { generateRandomParams, getParamsDescription } from '@/utils/randomParams'
 import { AuthContext } from '@/contexts/AuthContext'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
-import { Clock, Users, Info } from 'lucide-react'
+import { Clock } from 'lucide-react'
 import { toast } from 'sonner'
 import { getVideoCreditCost } from '@/config/credits'
+import {
+  MAX_BATCH_SIZE,
+  buildParamCombinations,
+  buildTemplatePrompt,
+  describeCombination,
+  type BatchParamValues
+} from '@/utils/batchParams'
+
+// 排队时刷新预计等待时间的间隔
+const QUEUE_REFRESH_INTERVAL = 30 * 1000
 
 export default function VideoCreator() {
   const { t } = useTranslation()
@@ -61,6 +72,10 @@ export default function VideoCreator() {
   const [generationStatus, setGenerationStatus] = useState<string>('')
   const [startTime, setStartTime] = useState<number | null>(null)
   
+  // 批量生成：各参数的取值列表
+  const [batchMode, setBatchMode] = useState(false)
+  const [batchValues, setBatchValues] = useState<BatchParamValues>({})
+
   // 队列相关状态
   const [queueStatus, setQueueStatus] = useState<{
     isQueued: boolean
@@ -110,18 +125,44 @@ export default function VideoCreator() {
       // 初始化队列服务
       await videoQueueService.initialize()
       
-      // 获取用户当前队列状态
-      const userStatus = await videoQueueService.getUserQueueStatus(user.id)
-      
       // 检查用户提交状态以获取订阅等级
       const submitStatus = await videoQueueService.canUserSubmit(user.id)
       
-      setUserQueueInfo({
+      await refreshQueueStatus(submitStatus.tier)
+    }
+    
+    initializeQueue()
+  }, [user])
+
+  // 排队期间实时刷新队列位置和预计等待时间
+  useEffect(() => {
+    if (!user || !queueStatus.isQueued) return
+
+    // 队列位置变化时视频记录会更新；其他用户的任务完成时位置不变，但预计时间会变，因此同时定时刷新
+    const unsubscribe = supabaseVideoService.subscribeToAllUserVideoUpdates(user.id, () => {
+      refreshQueueStatus()
+    })
+    const timer = setInterval(() => refreshQueueStatus(), QUEUE_REFRESH_INTERVAL)
+
+    return () => {
+      unsubscribe()
+      clearInterval(timer)
+    }
+  }, [user, queueStatus.isQueued])
+
+  const refreshQueueStatus = async (tier?: string) => {
+    if (!user) return
+
+    try {
+      // 获取用户当前队列状态
+      const userStatus = await videoQueueService.getUserQueueStatus(user.id)
+
+      setUserQueueInfo(prev => ({
         activeCount: userStatus.activeCount,
         maxAllowed: userStatus.maxAllowed,
-        tier: submitStatus.tier
-      })
-      
+        tier: tier ?? prev?.tier
+      }))
+
       // 检查是否有排队的视频
       if (userStatus.queuedJobs.length > 0) {
         const nextJob = userStatus.queuedJobs[0]
@@ -131,11 +172,13 @@ export default function VideoCreator() {
           estimatedWaitMinutes: nextJob.estimatedWaitMinutes,
           message: t('videoCreator.videosInQueue', { count: userStatus.queuedJobs.length })
         })
+      } else {
+        setQueueStatus({ isQueued: false })
       }
+    } catch (error) {
+      console.error('Failed to refresh queue status:', error)
     }
-    
-    initializeQueue()
-  }, [user])
+  }
 
   const handleTemplateChange = (templateId: string) => {
     const template = templates.find(t => t.id === templateId)
@@ -144,6 +187,7 @@ export default function VideoCreator() {
       // Generate random params for the new template
       const randomParams = generateRandomParams(template)
       setParams(randomParams)
+      setBatchValues({})
       
       // Clear any previously generated video to show the new template's preview
       setGeneratedVideoUrl(null)
@@ -170,6 +214,10 @@ export default function VideoCreator() {
     setParams(prev => ({ ...prev, [key]: value }))
   }
 
+  const handleBatchValuesChange = (key: string, values: any[]) => {
+    setBatchValues(prev => ({ ...prev, [key]: values }))
+  }
+
   const handleGenerate = async () => {
     // Check if user is authenticated
     if (!user) {
@@ -197,37 +245,7 @@ export default function VideoCreator() {
     }
 
     // Generate the prompt with current parameters
-    let prompt = selectedTemplate.promptTemplate
-    
-    // Replace placeholders
-    Object.entries(selectedTemplate.params).forEach(([key, param]) => {
-      const value = params[key]
-      const placeholder = `{${key}}`
-      
-      if (prompt.includes(placeholder)) {
-        let replacementValue = ''
-        
-        switch (param.type) {
-          case 'text':
-          case 'select':
-            replacementValue = String(value || param.default || '')
-            break
-          case 'slider':
-            replacementValue = String(value ?? param.default ?? '')
-            break
-          case 'toggle':
-            replacementValue = value ? 'enabled' : 'disabled'
-            break
-          case 'image':
-            replacementValue = value ? '[uploaded image]' : ''
-            break
-          default:
-            replacementValue = String(value || '')
-        }
-        
-        prompt = prompt.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), replacementValue)
-      }
-    })
+    const prompt = buildTemplatePrompt(selectedTemplate, params)
 
     // Calculate credits based on quality using global config only
     const requiredCredits = getVideoCreditCost(quality === 'fast' ? 'standard' : 'high')
@@ -244,22 +262,52 @@ export default function VideoCreator() {
     console.log('================================')
 
     // Extract image data from parameters if present
-    let imageData = null
-    Object.entries(selectedTemplate.params).forEach(([key, param]) => {
+    let imageData: File | string | null = null
+    let imageParam: TemplateParam | null = null
+    for (const [key, param] of Object.entries(selectedTemplate.params)) {
       if (param.type === 'image' && params[key]) {
         imageData = params[key]
+        imageParam = param
         console.log('Found image parameter:', key, 'with data')
       }
-    })
+    }
     
     // Special handling for art-coffee-machine template
     if (selectedTemplate.id === 'art-coffee-machine' && 
         params.artwork === 'a custom artwork image' && 
         params.custom_artwork) {
       imageData = params.custom_artwork
+      imageParam = selectedTemplate.params.custom_artwork || null
       console.log('Using custom artwork for art-coffee-machine template')
     }
 
+    // 上传的图片（File 或 base64）先存到 Storage，提供方通过签名URL拉取
+    let imageUrl: string | undefined
+    let imagePath: string | undefined
+    if (typeof imageData === 'string' && /^https?:\/\//.test(imageData)) {
+      imageUrl = imageData
+    } else if (imageData) {
+      try {
+        const uploaded = await imageUploadService.uploadGenerationImage(user.id, imageData, {
+          accept: imageParam?.accept,
+          maxSize: imageParam?.maxSize
+        })
+        imageUrl = uploaded.signedUrl
+        imagePath = uploaded.path
+      } catch (error) {
+        console.error('Failed to upload reference image:', error)
+        toast.error(t('imageUploader.uploadFailed'), {
+          description: error instanceof Error ? error.message : undefined
+        })
+        return
+      }
+    }
+
+    if (batchMode) {
+      await handleGenerateBatch(requiredCredits, imageUrl, imagePath)
+      return
+    }
+
     setIsGenerating(true)
     setGenerationProgress(0)
     setGenerationStatus(t('videoCreator.submittingTask'))
@@ -276,7 +324,11 @@ export default function VideoCreator() {
           prompt: prompt,
           parameters: params,
           creditsUsed: requiredCredits,
-          isPublic: false
+          isPublic: false,
+          quality: quality === 'fast' ? 'fast' : 'pro',
+          aspectRatio,
+          imageUrl,
+          imagePath
         }
       })
 
@@ -308,6 +360,7 @@ export default function VideoCreator() {
       
     } catch (error) {
       console.error('Failed to submit video generation job:', error)
+      if (imagePath) imageUploadService.removeGenerationImage(imagePath)
       setIsGenerating(false)
       setGenerationProgress(0)
       setGenerationStatus('')
@@ -318,6 +371,71 @@ export default function VideoCreator() {
     }
   }
 
+  /**
+   * 批量生成：按参数取值列表展开所有组合，作为一个批次提交到队列
+   */
+  const handleGenerateBatch = async (creditsPerVideo: number, imageUrl?: string, imagePath?: string) => {
+    if (!user) return
+
+    const batchKeys = Object.keys(batchValues).filter(key => batchValues[key]?.length > 0)
+    const combinations = buildParamCombinations(params, batchValues)
+
+    if (combinations.length > MAX_BATCH_SIZE) {
+      toast.error(t('configPanel.batchTooLarge', { count: combinations.length, max: MAX_BATCH_SIZE }))
+      return
+    }
+
+    setIsGenerating(true)
+    setGenerationStatus(t('videoCreator.submittingTask'))
+
+    try {
+      const result = await videoQueueService.submitBatch({
+        userId: user.id,
+        batchTitle: selectedTemplate.name,
+        items: combinations.map(combination => ({
+          label: describeCombination(selectedTemplate, combination, batchKeys),
+          videoData: {
+            templateId: selectedTemplate.id,
+            prompt: buildTemplatePrompt(selectedTemplate, combination),
+            parameters: combination,
+            creditsUsed: creditsPerVideo,
+            isPublic: false,
+            quality: quality === 'fast' ? 'fast' : 'pro',
+            aspectRatio,
+            imageUrl,
+            imagePath
+          }
+        }))
+      })
+
+      console.log('Batch submitted:', result)
+
+      if (result.failed.length > 0) {
+        toast.warning(t('videoCreator.batchPartiallySubmitted', {
+          submitted: result.submitted.length,
+          failed: result.failed.length
+        }), {
+          description: result.failed[0].error
+        })
+      } else {
+        toast.success(t('videoCreator.batchSubmitted', { count: result.submitted.length }))
+      }
+
+      if (result.submitted.length > 0) {
+        navigate(`/videos?batch=${result.batchId}`)
+      } else if (imagePath) {
+        imageUploadService.removeGenerationImage(imagePath)
+      }
+    } catch (error) {
+      console.error('Failed to submit batch:', error)
+      if (imagePath) imageUploadService.removeGenerationImage(imagePath)
+      toast.error(error instanceof Error ? error.message : t('videoCreator.submitFailed'))
+    } finally {
+      setIsGenerating(false)
+      setGenerationStatus('')
+    }
+  }
+
   return (
     <div className="flex flex-col lg:flex-row h-full bg-background -mx-4 -my-6 sm:-mx-6 lg:-mx-8">
       {/* 配置面板 - 移动端在上方，桌面端在左侧 */}
@@ -331,11 +449,29 @@ export default function VideoCreator() {
           onParamChange={handleParamChange}
           onGenerate={handleGenerate}
           isGenerating={isGenerating}
+          batchMode={batchMode}
+          batchValues={batchValues}
+          onBatchModeChange={setBatchMode}
+          onBatchValuesChange={handleBatchValuesChange}
         />
       </div>
       
       {/* 预览面板 - 移动端在下方，桌面端在右侧 */}
       <div className="flex-1 flex flex-col min-h-0">
+        {queueStatus.isQueued && (
+          <Alert className="m-4 mb-0 w-auto">
+            <Clock className="h-4 w-4" />
+            <AlertTitle>{queueStatus.message || t('videoCreator.videoInQueue')}</AlertTitle>
+            <AlertDescription>
+              {queueStatus.position && queueStatus.position > 1
+                ? t('videoCreator.queuePosition', { position: queueStatus.position })
+                : t('videoCreator.queueNext')}
+              {queueStatus.estimatedWaitMinutes !== undefined && (
+                <> · {t('videoCreator.estimatedWait', { minutes: queueStatus.estimatedWaitMinutes })}</>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
         <div className="flex-1">
           <PreviewPanel
             template={selectedTemplate}
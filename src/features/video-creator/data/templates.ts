@@ -6,6 +6,8 @@ export interface TemplateParam {
   options?: { value: string; label: string }[]
   min?: number
   max?: number
+  accept?: string   // 图片参数允许的格式，例如 "image/jpeg,image/png"
+  maxSize?: number  // 图片参数的大小上限（字节）
 }
 
 export interface Template {
@@ -21,6 +23,7 @@ export interface Template {
   params: Record<string, TemplateParam>
   createdAt?: string  // ISO date string
   likes?: number      // Number of likes for popularity
+  provider?: string   // 指定视频生成提供方，不填则使用管理员默认（同步到 templates.video_provider，由服务端Worker读取）
 }
 
 // Import templates from JSON files
@@ -0,0 +1,107 @@
+/**
+ * React Query hooks for video likes
+ * 视频点赞状态的查询缓存和点赞 Mutation（乐观更新）
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { videoLikeService, type VideoLikeStatus, type ToggleVideoLikeResult } from '@/services/videoLikeService'
+import { useAuthState } from '@/hooks/useAuthState'
+
+// Query Keys
+export const videoLikeKeys = {
+  all: ['videoLikes'] as const,
+  list: (videoIds: string[]) => [...videoLikeKeys.all, 'list', videoIds] as const,
+  single: (videoId: string) => [...videoLikeKeys.all, 'single', videoId] as const,
+}
+
+/**
+ * 查询单个视频的点赞状态（未登录也能获取点赞数）
+ */
+export function useVideoLikeStatus(videoId: string, enabled = true) {
+  const { user } = useAuthState()
+
+  return useQuery({
+    queryKey: [...videoLikeKeys.single(videoId), user?.id || 'anon'],
+    queryFn: () => videoLikeService.getLikeStatus(videoId),
+    enabled: enabled && !!videoId,
+    staleTime: 2 * 60 * 1000, // 2分钟缓存
+    gcTime: 5 * 60 * 1000,    // 5分钟垃圾回收
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: true
+  })
+}
+
+/**
+ * 批量查询多个视频的点赞状态（视频广场列表）
+ */
+export function useMultipleVideoLikeStatus(videoIds: string[]) {
+  const { user } = useAuthState()
+
+  return useQuery({
+    queryKey: [...videoLikeKeys.list(videoIds), user?.id || 'anon'],
+    queryFn: () => videoLikeService.getMultipleLikeStatus(videoIds),
+    enabled: !!user && videoIds.length > 0,
+    staleTime: 2 * 60 * 1000,
+    gcTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false
+  })
+}
+
+/**
+ * 点赞/取消点赞 Mutation
+ */
+export function useToggleVideoLikeMutation() {
+  const queryClient = useQueryClient()
+
+  // 同步所有包含该视频的单个/批量查询缓存
+  const updateCachedStatus = (videoId: string, status: Pick<VideoLikeStatus, 'is_liked' | 'like_count'>) => {
+    queryClient.getQueriesData({ queryKey: videoLikeKeys.all }).forEach(([queryKey, data]) => {
+      if (Array.isArray(data)) {
+        queryClient.setQueryData(queryKey, data.map((item: VideoLikeStatus) =>
+          item.video_id === videoId ? { ...item, ...status } : item
+        ))
+      } else if (data && (data as VideoLikeStatus).video_id === videoId) {
+        queryClient.setQueryData(queryKey, { ...(data as VideoLikeStatus), ...status })
+      }
+    })
+  }
+
+  return useMutation({
+    mutationFn: async (videoId: string): Promise<ToggleVideoLikeResult> => {
+      return videoLikeService.toggleLike(videoId)
+    },
+    onMutate: async (videoId: string) => {
+      // 取消相关的查询以避免与乐观更新冲突
+      await queryClient.cancelQueries({ queryKey: videoLikeKeys.all })
+
+      const previousData = queryClient.getQueriesData({ queryKey: videoLikeKeys.all })
+      const previousStatus = previousData
+        .map(([, data]) => Array.isArray(data)
+          ? data.find((item: VideoLikeStatus) => item.video_id === videoId)
+          : data as VideoLikeStatus | null)
+        .find((status): status is VideoLikeStatus => !!status && status.video_id === videoId)
+
+      // 乐观更新
+      if (previousStatus) {
+        updateCachedStatus(videoId, {
+          is_liked: !previousStatus.is_liked,
+          like_count: previousStatus.is_liked
+            ? Math.max(0, previousStatus.like_count - 1)
+            : previousStatus.like_count + 1
+        })
+      }
+
+      return { previousData }
+    },
+    onError: (_err, _videoId, context) => {
+      // 回滚乐观更新
+      context?.previousData.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data)
+      })
+    },
+    onSuccess: (result, videoId) => {
+      // 更新缓存为服务器返回的真实数据
+      updateCachedStatus(videoId, { is_liked: result.is_liked, like_count: result.like_count })
+    }
+  })
+}
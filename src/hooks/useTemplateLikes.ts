@@ -86,7 +86,9 @@ export function useTemplateLikes({
           newMap.set(templateId, {
             template_id: cached.template_id,
             is_liked: cached.is_liked,
-            like_count: cached.like_count
+            like_count: cached.like_count,
+            is_favorited: cached.is_favorited,
+            favorite_count: cached.favorite_count
           })
         }
       })
@@ -104,7 +106,9 @@ export function useTemplateLikes({
         newMap.set(templateId, {
           template_id: cached.template_id,
           is_liked: cached.is_liked,
-          like_count: cached.like_count
+          like_count: cached.like_count,
+          is_favorited: cached.is_favorited,
+          favorite_count: cached.favorite_count
         })
         hasAnyCache = true
       }
@@ -166,6 +170,8 @@ export function useTemplateLikes({
         template_id: status.template_id,
         is_liked: status.is_liked,
         like_count: status.like_count,
+        is_favorited: status.is_favorited,
+        favorite_count: status.favorite_count,
         cached_at: now,
         ttl: 5 * 60 * 1000 // 5分钟
       }))
@@ -0,0 +1,129 @@
+/**
+ * useVideoLike Hook
+ * 视频点赞Hook：立即更新界面（乐观更新），防抖后提交，失败时回滚
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { useAuthState } from '@/hooks/useAuthState'
+import { useToggleVideoLikeMutation, useVideoLikeStatus } from '@/hooks/queries/useVideoLikeQueries'
+
+interface UseVideoLikeOptions {
+  videoId: string
+  initialLikeCount?: number
+  initialIsLiked?: boolean
+  onLikeChange?: (isLiked: boolean, likeCount: number) => void
+  debounceMs?: number
+  // 列表页已批量获取点赞状态时不再单独查询
+  fetchStatus?: boolean
+}
+
+interface UseVideoLikeReturn {
+  isLiked: boolean
+  likeCount: number
+  loading: boolean
+  toggleLike: () => void
+  canLike: boolean
+}
+
+export function useVideoLike({
+  videoId,
+  initialLikeCount = 0,
+  initialIsLiked = false,
+  onLikeChange,
+  debounceMs = 500,
+  fetchStatus = true
+}: UseVideoLikeOptions): UseVideoLikeReturn {
+  const { t } = useTranslation()
+  const { user } = useAuthState()
+
+  // 本地状态
+  const [localIsLiked, setLocalIsLiked] = useState(initialIsLiked)
+  const [localLikeCount, setLocalLikeCount] = useState(initialLikeCount)
+
+  // 最近一次服务器确认的状态，防抖期间来回切换回原状态时不提交
+  const confirmedRef = useRef({ isLiked: initialIsLiked, likeCount: initialLikeCount })
+  const debounceTimerRef = useRef<NodeJS.Timeout | undefined>(undefined)
+
+  const { data: likeStatus, isLoading: statusLoading } = useVideoLikeStatus(videoId, fetchStatus)
+  const toggleLikeMutation = useToggleVideoLikeMutation()
+
+  // 初始状态由列表批量查询异步提供时同步到本地状态
+  useEffect(() => {
+    confirmedRef.current = { isLiked: initialIsLiked, likeCount: initialLikeCount }
+    setLocalIsLiked(initialIsLiked)
+    setLocalLikeCount(initialLikeCount)
+  }, [initialIsLiked, initialLikeCount])
+
+  // 同步远程状态到本地状态
+  useEffect(() => {
+    if (likeStatus) {
+      confirmedRef.current = { isLiked: likeStatus.is_liked, likeCount: likeStatus.like_count }
+      setLocalIsLiked(likeStatus.is_liked)
+      setLocalLikeCount(likeStatus.like_count)
+    }
+  }, [likeStatus])
+
+  const commit = useCallback(async (targetState: boolean) => {
+    if (targetState === confirmedRef.current.isLiked) return
+
+    try {
+      const result = await toggleLikeMutation.mutateAsync(videoId)
+      confirmedRef.current = { isLiked: result.is_liked, likeCount: result.like_count }
+      setLocalIsLiked(result.is_liked)
+      setLocalLikeCount(result.like_count)
+      onLikeChange?.(result.is_liked, result.like_count)
+    } catch (err) {
+      const code = err instanceof Error ? err.message : 'VIDEO_LIKE_FAILED'
+      toast.error(t(`videoLikes.errors.${code}`, t('videoLikes.errors.VIDEO_LIKE_FAILED')))
+
+      // 回滚到服务器确认的状态
+      const { isLiked, likeCount } = confirmedRef.current
+      setLocalIsLiked(isLiked)
+      setLocalLikeCount(likeCount)
+      onLikeChange?.(isLiked, likeCount)
+    }
+  }, [videoId, toggleLikeMutation, onLikeChange, t])
+
+  const toggleLike = useCallback(() => {
+    if (!user) {
+      toast.error(t('like.loginToLike'))
+      return
+    }
+
+    // 立即更新UI（乐观更新）
+    const newIsLiked = !localIsLiked
+    const newLikeCount = newIsLiked
+      ? localLikeCount + 1
+      : Math.max(0, localLikeCount - 1)
+
+    setLocalIsLiked(newIsLiked)
+    setLocalLikeCount(newLikeCount)
+    onLikeChange?.(newIsLiked, newLikeCount)
+
+    if (debounceTimerRef.current) {
+      clearTimeout(debounceTimerRef.current)
+    }
+    debounceTimerRef.current = setTimeout(() => commit(newIsLiked), debounceMs)
+  }, [user, localIsLiked, localLikeCount, onLikeChange, debounceMs, commit, t])
+
+  // 清理防抖定时器
+  useEffect(() => {
+    return () => {
+      if (debounceTimerRef.current) {
+        clearTimeout(debounceTimerRef.current)
+      }
+    }
+  }, [])
+
+  return {
+    isLiked: localIsLiked,
+    likeCount: localLikeCount,
+    loading: statusLoading || toggleLikeMutation.isPending,
+    toggleLike,
+    canLike: !!user && !toggleLikeMutation.isPending
+  }
+}
+
+export default useVideoLike
@@ -120,7 +120,7 @@ export type Database = {
           template_id: string | null
           title: string | null
           description: string | null
-          status: 'pending' | 'processing' | 'completed' | 'failed'
+          status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled'
           veo3_job_id: string | null
           video_url: string | null
           thumbnail_url: string | null
@@ -147,6 +147,13 @@ export type Database = {
           metadata: Record<string, any>
           processing_started_at: string | null
           processing_completed_at: string | null
+          queue_position: number | null
+          queue_entered_at: string | null
+          queue_started_at: string | null
+          queue_priority: number | null
+          queue_worker_id: string | null
+          queue_heartbeat_at: string | null
+          queue_attempts: number
           created_at: string
           updated_at: string
         }
@@ -302,4 +309,10 @@ export const refreshSession = async () => {
     console.error('Manual session refresh failed:', error)
     throw error
   }
-}
\ No newline at end of file
+}
+
+// 调用需要认证的 Edge Function 时使用当前用户的 access token（未登录时回退到 anon key）
+export const getFunctionAccessToken = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  return session?.access_token || supabaseAnonKey
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Eye, Heart, LayoutTemplate, Loader2, Play, User, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { getTemplateById } from '@/features/video-creator/data/templates/index'
+import { formatRelativeTime } from '@/utils/timeFormat'
+import followService, { FEED_PAGE_SIZE, type FeedItem } from '@/services/followService'
+
+/**
+ * 关注动态（/following）：关注的创作者发布的公开视频和模板，按发布时间倒序
+ */
+export default function FollowingFeedPage() {
+  const { t } = useTranslation()
+  const [items, setItems] = useState<FeedItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+
+  const loadFirstPage = useCallback(async () => {
+    setLoading(true)
+    try {
+      const page = await followService.getFeed()
+      setItems(page)
+      setHasMore(page.length === FEED_PAGE_SIZE)
+    } catch {
+      toast.error(t('feed.loadError'))
+    } finally {
+      setLoading(false)
+    }
+  }, [t])
+
+  useEffect(() => {
+    loadFirstPage()
+  }, [loadFirstPage])
+
+  const loadMore = async () => {
+    if (loadingMore) return
+
+    setLoadingMore(true)
+    try {
+      const page = await followService.getFeed(followService.getNextCursor(items))
+      setItems(prev => [...prev, ...page])
+      setHasMore(page.length === FEED_PAGE_SIZE)
+    } catch {
+      toast.error(t('feed.loadError'))
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container max-w-6xl mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold mb-2">{t('feed.title')}</h1>
+        <p className="text-muted-foreground">{t('feed.description')}</p>
+      </div>
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center py-12 text-center">
+            <Users className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="font-medium mb-1">{t('feed.emptyTitle')}</h3>
+            <p className="text-sm text-muted-foreground mb-4">{t('feed.emptyDescription')}</p>
+            <Link to="/gallery">
+              <Button>{t('feed.discoverCreators')}</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {items.map(item => {
+            const template = item.item_type === 'template' ? getTemplateById(item.item_id) : undefined
+            const title = template?.name || item.title || t('feed.untitled')
+            const thumbnail = template?.thumbnailUrl || item.thumbnail_url
+            const link = item.item_type === 'template' ? `/templates/${item.item_id}` : `/video/${item.item_id}`
+            const creatorName = item.creator_full_name || item.creator_username || t('comments.anonymous')
+
+            return (
+              <Card key={`${item.item_type}:${item.item_id}`} className="overflow-hidden">
+                <Link to={link} className="group block">
+                  <div className="aspect-video bg-muted relative overflow-hidden">
+                    {thumbnail ? (
+                      <img
+                        src={thumbnail}
+                        alt={title}
+                        loading="lazy"
+                        className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <Play className="w-12 h-12 text-muted-foreground" />
+                      </div>
+                    )}
+                    <span className="absolute left-2 top-2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white">
+                      {item.item_type === 'template'
+                        ? <LayoutTemplate className="h-3 w-3" />
+                        : <Play className="h-3 w-3" />}
+                      {item.item_type === 'template' ? t('feed.newTemplate') : t('feed.newVideo')}
+                    </span>
+                  </div>
+                </Link>
+                <CardContent className="p-4">
+                  <Link to={link} className="block">
+                    <h3 className="font-semibold truncate mb-1">{template?.icon} {title}</h3>
+                    {item.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2 mb-3">{item.description}</p>
+                    )}
+                  </Link>
+                  <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                    <Link
+                      to={item.creator_username ? `/profile/${item.creator_username}` : '#'}
+                      className="flex min-w-0 items-center gap-2 hover:text-foreground"
+                    >
+                      <div className="h-6 w-6 flex-shrink-0 overflow-hidden rounded-full bg-muted">
+                        {item.creator_avatar_url ? (
+                          <img src={item.creator_avatar_url} alt={creatorName} className="h-full w-full object-cover" />
+                        ) : (
+                          <div className="flex h-full w-full items-center justify-center">
+                            <User className="h-3.5 w-3.5" />
+                          </div>
+                        )}
+                      </div>
+                      <span className="truncate">{creatorName}</span>
+                    </Link>
+                    <span className="flex-shrink-0 text-xs">{formatRelativeTime(item.published_at)}</span>
+                  </div>
+                  <div className="mt-3 flex items-center gap-4 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Heart className="h-3.5 w-3.5" />
+                      {item.like_count}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Eye className="h-3.5 w-3.5" />
+                      {item.view_count}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {hasMore && (
+        <div className="flex justify-center mt-8">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('common.loadMore')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Bookmark, User } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import CollectionItemGrid from '@/components/favorites/CollectionItemGrid'
+import favoriteService, {
+  COLLECTION_ITEMS_PAGE_SIZE,
+  DEFAULT_COLLECTION_NAME,
+  type CollectionItem,
+  type SharedCollection
+} from '@/services/favoriteService'
+
+/**
+ * 分享的收藏夹页面（/collections/:token），未登录也可访问
+ * 关闭分享后令牌失效，只展示公开模板和公开视频
+ */
+export default function SharedCollectionPage() {
+  const { t } = useTranslation()
+  const { token } = useParams<{ token: string }>()
+  const [collection, setCollection] = useState<SharedCollection | null>(null)
+  const [items, setItems] = useState<CollectionItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+
+  useEffect(() => {
+    if (!token) return
+
+    const load = async () => {
+      setLoading(true)
+      try {
+        const shared = await favoriteService.getSharedCollection(token)
+        setCollection(shared)
+        if (shared) {
+          const page = await favoriteService.getCollectionItems(shared.id)
+          setItems(page)
+          setHasMore(page.length === COLLECTION_ITEMS_PAGE_SIZE)
+        }
+      } catch (error) {
+        console.error('[SHARED COLLECTION] 加载收藏夹失败:', error)
+        setCollection(null)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    load()
+  }, [token])
+
+  const loadMore = async () => {
+    if (!collection) return
+
+    setLoadingMore(true)
+    try {
+      const page = await favoriteService.getCollectionItems(collection.id, items.length)
+      setItems(prev => [...prev, ...page])
+      setHasMore(page.length === COLLECTION_ITEMS_PAGE_SIZE)
+    } catch (error) {
+      console.error('[SHARED COLLECTION] 加载更多失败:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!collection) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <Bookmark className="w-16 h-16 text-muted-foreground mb-4" />
+        <h1 className="text-2xl font-bold mb-2">{t('collections.notFound')}</h1>
+        <p className="text-muted-foreground">{t('collections.notFoundDescription')}</p>
+        <Link to="/templates">
+          <Button className="mt-4">{t('collections.browseTemplates')}</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  const ownerName = collection.owner_full_name || collection.owner_username || t('comments.anonymous')
+
+  return (
+    <div className="container max-w-6xl mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold mb-3">
+          {collection.name === DEFAULT_COLLECTION_NAME ? t('collections.defaultName') : collection.name}
+        </h1>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <div className="h-6 w-6 overflow-hidden rounded-full bg-muted">
+            {collection.owner_avatar_url ? (
+              <img src={collection.owner_avatar_url} alt={ownerName} className="h-full w-full object-cover" />
+            ) : (
+              <div className="flex h-full w-full items-center justify-center">
+                <User className="h-3.5 w-3.5" />
+              </div>
+            )}
+          </div>
+          {collection.owner_username ? (
+            <Link to={`/profile/${collection.owner_username}`} className="hover:underline">
+              {t('collections.curatedBy', { name: ownerName })}
+            </Link>
+          ) : (
+            <span>{t('collections.curatedBy', { name: ownerName })}</span>
+          )}
+        </div>
+      </div>
+
+      {items.length > 0 ? (
+        <CollectionItemGrid items={items} />
+      ) : (
+        <p className="py-12 text-center text-muted-foreground">{t('collections.emptyCollection')}</p>
+      )}
+
+      {hasMore && (
+        <div className="flex justify-center mt-8">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {t('common.loadMore')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
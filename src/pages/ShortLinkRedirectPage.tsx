@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import shortLinkService from '@/services/shortLinkService'
+import { Link2Off } from 'lucide-react'
+
+/**
+ * 短链接跳转页 /s/:code
+ */
+export default function ShortLinkRedirectPage() {
+  const { t } = useTranslation()
+  const { code } = useParams<{ code: string }>()
+  const navigate = useNavigate()
+  const [notFound, setNotFound] = useState(false)
+
+  useEffect(() => {
+    if (!code) return
+
+    const redirect = async () => {
+      const target = await shortLinkService.resolve(code)
+      if (target) {
+        navigate(target, { replace: true })
+      } else {
+        setNotFound(true)
+      }
+    }
+    redirect()
+  }, [code])
+
+  if (notFound) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen px-4 text-center">
+        <Link2Off className="w-16 h-16 text-muted-foreground mb-4" />
+        <h1 className="text-2xl font-bold mb-2">{t('shortLink.notFound')}</h1>
+        <p className="text-muted-foreground">{t('shortLink.notFoundDescription')}</p>
+        <Link to="/">
+          <Button className="mt-4">{t('common.backToHome')}</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
+      <p className="text-muted-foreground">{t('shortLink.redirecting')}</p>
+    </div>
+  )
+}
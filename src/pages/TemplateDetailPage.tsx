@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react'
+import { useParams, Link, useNavigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { Button } from '@/components/ui/button'
+import { Coins, Hash, Play, Sparkles, VideoOff } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { getTemplateById } from '@/features/video-creator/data/templates/index'
+import LazyVideoPlayer from '@/components/video/LazyVideoPlayer'
+import LikeCounterButton from '@/components/templates/LikeCounterButton'
+import CommentSection from '@/components/comments/CommentSection'
+import FavoriteButton from '@/components/favorites/FavoriteButton'
+import { useTemplateLikes } from '@/hooks/useTemplateLikes'
+
+/**
+ * 模板详情页：预览、点赞、收藏、生成入口和评论区
+ * 模板内容来自本地模板文件，作者和评论数来自 templates 表
+ */
+export default function TemplateDetailPage() {
+  const { t } = useTranslation()
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const template = id ? getTemplateById(id) : undefined
+
+  const [authorId, setAuthorId] = useState<string | null>(null)
+  const [commentCount, setCommentCount] = useState(0)
+
+  const { getLikeStatus, updateStatus } = useTemplateLikes({
+    templateIds: template ? [template.id] : [],
+    enableAutoRefresh: false
+  })
+
+  useEffect(() => {
+    if (!template) return
+
+    supabase
+      .from('templates')
+      .select('author_id, comment_count')
+      .eq('id', template.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('[TEMPLATE DETAIL] 获取模板信息失败:', error)
+          return
+        }
+        setAuthorId(data?.author_id || null)
+        setCommentCount(data?.comment_count || 0)
+      })
+  }, [template])
+
+  if (!template) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[60vh]">
+        <VideoOff className="w-16 h-16 text-muted-foreground mb-4" />
+        <h1 className="text-2xl font-bold mb-2">{t('template.notFound')}</h1>
+        <Link to="/templates">
+          <Button className="mt-4">{t('template.backToTemplates')}</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  const likeStatus = getLikeStatus(template.id)
+
+  return (
+    <div className="container max-w-5xl mx-auto py-8 px-4">
+      <div className="rounded-lg overflow-hidden bg-muted aspect-video relative">
+        {template.previewUrl ? (
+          <LazyVideoPlayer
+            src={template.previewUrl}
+            poster={template.thumbnailUrl}
+            className="w-full h-full"
+            objectFit="contain"
+            showPlayButton={true}
+            showVolumeControl={true}
+            autoPlayOnHover={false}
+            alt={template.name}
+          />
+        ) : template.thumbnailUrl ? (
+          <img src={template.thumbnailUrl} alt={template.name} className="w-full h-full object-contain" />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <Play className="h-12 w-12 text-muted-foreground" />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div className="flex-1 min-w-0 space-y-3">
+          <h1 className="text-2xl font-bold">{template.icon} {template.name}</h1>
+          <p className="text-muted-foreground">{template.description}</p>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Coins className="h-4 w-4" />
+              {t('template.creditCost', { cost: template.credits })}
+            </span>
+            {template.tags?.map(tag => (
+              <span
+                key={tag}
+                className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs bg-secondary text-secondary-foreground rounded-sm"
+              >
+                <Hash className="h-3 w-3" />
+                {tag}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <LikeCounterButton
+            templateId={template.id}
+            initialLikeCount={likeStatus?.like_count ?? 0}
+            initialIsLiked={likeStatus?.is_liked ?? false}
+            size="md"
+            variant="default"
+            onLikeChange={(liked, count) => updateStatus(template.id, { is_liked: liked, like_count: count })}
+          />
+          <FavoriteButton
+            targetType="template"
+            targetId={template.id}
+            initialIsFavorited={likeStatus?.is_favorited ?? false}
+            initialFavoriteCount={likeStatus?.favorite_count ?? 0}
+            onFavoriteChange={(favorited, count) => updateStatus(template.id, { is_favorited: favorited, favorite_count: count })}
+          />
+          <Button onClick={() => navigate(`/create?template=${template.id}`)}>
+            <Sparkles className="h-4 w-4 mr-2" />
+            {t('template.generate')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="mt-10 border-t pt-6">
+        <CommentSection
+          targetType="template"
+          targetId={template.id}
+          ownerId={authorId}
+          initialCount={commentCount}
+        />
+      </div>
+    </div>
+  )
+}
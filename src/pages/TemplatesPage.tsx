@@ -4,7 +4,7 @@ import { useNavigate } from 'react-router-dom'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Play, Clock, Coins, Hash, RefreshCw, TrendingUp, Sparkles, Heart, ArrowUp } from 'lucide-react'
+import { Play, Clock, Coins, Hash, RefreshCw, TrendingUp, Sparkles, Heart, ArrowUp, MessageSquare } from 'lucide-react'
 import { templateList as initialTemplates } from '@/features/video-creator/data/templates/index'
 import LazyVideoPlayer from '@/components/video/LazyVideoPlayer'
 import LikeCounterButton from '@/components/templates/LikeCounterButton'
@@ -236,13 +236,23 @@ export default function TemplatesPage() {
               </div>
               
               {/* 生成按钮 */}
-              <Button 
-                className="w-full mt-4"
-                onClick={() => navigate(`/create?template=${template.id}`)}
-              >
-                <Sparkles className="h-4 w-4 mr-2" />
-                {t('template.generate')}
-              </Button>
+              <div className="flex gap-2 mt-4">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => navigate(`/templates/${template.id}`)}
+                >
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  {t('template.viewDetails')}
+                </Button>
+                <Button 
+                  className="flex-1"
+                  onClick={() => navigate(`/create?template=${template.id}`)}
+                >
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  {t('template.generate')}
+                </Button>
+              </div>
             </CardContent>
           </Card>
           )
@@ -50,9 +50,7 @@ export default function TestProtection() {
       
       // 执行下载测试
       await ProtectedDownloadService.downloadVideo(
-        user.id,
         testVideo.id,
-        testVideo.url,
         testVideo.title,
         {
           onComplete: () => {
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react'
+import { useParams } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import publicVideoService, { type PublicVideo } from '@/services/publicVideoService'
+import { VideoOff } from 'lucide-react'
+
+/**
+ * 嵌入播放器（无页头页脚，供 videoShareService.generateEmbedCode 生成的 iframe 使用）
+ * 只播放公开视频
+ */
+export default function VideoEmbedPage() {
+  const { t } = useTranslation()
+  const { id } = useParams<{ id: string }>()
+
+  const [video, setVideo] = useState<PublicVideo | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (!id) return
+
+    const load = async () => {
+      const data = await publicVideoService.getPublicVideo(id)
+      // 嵌入页不展示私有视频（即使作者本人已登录）
+      setVideo(data?.is_public ? data : null)
+      setIsLoading(false)
+    }
+    load()
+  }, [id])
+
+  // 首次播放时计一次观看
+  const handlePlay = () => {
+    if (video) {
+      publicVideoService.recordView(video.id)
+    }
+  }
+
+  if (isLoading) {
+    return <div className="w-screen h-screen bg-black" />
+  }
+
+  if (!video) {
+    return (
+      <div className="w-screen h-screen bg-black flex flex-col items-center justify-center text-white/70">
+        <VideoOff className="w-10 h-10 mb-2" />
+        <p className="text-sm">{t('videoPage.notFound')}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative w-screen h-screen bg-black overflow-hidden">
+      <video
+        src={video.video_url}
+        poster={video.thumbnail_url || undefined}
+        className="w-full h-full object-contain"
+        controls
+        playsInline
+        preload="metadata"
+        controlsList="nodownload"
+        onPlay={handlePlay}
+      />
+      <a
+        href={`/video/${video.id}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="absolute top-2 right-2 px-2 py-1 rounded bg-black/60 text-white text-xs hover:bg-black/80"
+      >
+        {t('videoPage.watchOnSite')}
+      </a>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Eye, Flame, Loader2, Play, User, VideoOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import VideoLikeButton from '@/components/video/VideoLikeButton'
+import { useMultipleVideoLikeStatus } from '@/hooks/queries/useVideoLikeQueries'
+import { formatRelativeTime } from '@/utils/timeFormat'
+import publicVideoService, {
+  GALLERY_PAGE_SIZE,
+  type GallerySort,
+  type GalleryVideo
+} from '@/services/publicVideoService'
+
+const SORTS: GallerySort[] = ['latest', 'most_viewed', 'most_liked_week']
+
+/**
+ * 公开视频广场（/gallery），未登录也可访问，排序同步到 ?sort=
+ */
+export default function VideoGalleryPage() {
+  const { t } = useTranslation()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const sortParam = searchParams.get('sort') as GallerySort | null
+  const sort: GallerySort = sortParam && SORTS.includes(sortParam) ? sortParam : 'latest'
+
+  const [videos, setVideos] = useState<GalleryVideo[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+
+  // 登录用户批量获取当前页视频的点赞状态
+  const videoIds = useMemo(() => videos.map(v => v.id), [videos])
+  const { data: likeStatuses } = useMultipleVideoLikeStatus(videoIds)
+  const likeStatusById = useMemo(
+    () => new Map((likeStatuses || []).map(s => [s.video_id, s])),
+    [likeStatuses]
+  )
+
+  const loadFirstPage = useCallback(async () => {
+    setLoading(true)
+    try {
+      const page = await publicVideoService.getGalleryVideos(sort)
+      setVideos(page)
+      setHasMore(page.length === GALLERY_PAGE_SIZE)
+    } catch {
+      toast.error(t('gallery.loadError'))
+    } finally {
+      setLoading(false)
+    }
+  }, [sort, t])
+
+  useEffect(() => {
+    loadFirstPage()
+  }, [loadFirstPage])
+
+  const loadMore = async () => {
+    if (loadingMore) return
+
+    setLoadingMore(true)
+    try {
+      const page = await publicVideoService.getGalleryVideos(sort, videos.length)
+      setVideos(prev => [...prev, ...page])
+      setHasMore(page.length === GALLERY_PAGE_SIZE)
+    } catch {
+      toast.error(t('gallery.loadError'))
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const changeSort = (value: GallerySort) => {
+    setSearchParams(value === 'latest' ? {} : { sort: value }, { replace: true })
+  }
+
+  return (
+    <div className="container max-w-6xl mx-auto py-8 px-4">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold mb-2">{t('gallery.title')}</h1>
+        <p className="text-muted-foreground">{t('gallery.description')}</p>
+      </div>
+
+      {/* 排序 */}
+      <div className="mb-6 inline-flex rounded-lg bg-muted p-1">
+        {SORTS.map(value => (
+          <button
+            key={value}
+            onClick={() => changeSort(value)}
+            className={`rounded-md px-3 py-1.5 text-sm font-medium transition-colors ${
+              sort === value ? 'bg-background shadow-sm' : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {t(`gallery.sort.${value}`)}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : videos.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center py-12 text-center">
+            <VideoOff className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">{t('gallery.empty')}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {videos.map(video => {
+            const creatorName = video.creator_full_name || video.creator_username || t('comments.anonymous')
+            const likeStatus = likeStatusById.get(video.id)
+
+            return (
+              <Card key={video.id} className="overflow-hidden">
+                <Link to={`/video/${video.id}`} className="group block">
+                  <div className="aspect-video bg-muted relative overflow-hidden">
+                    {video.thumbnail_url ? (
+                      <img
+                        src={video.thumbnail_url}
+                        alt={video.title || ''}
+                        loading="lazy"
+                        className="w-full h-full object-cover transition-transform group-hover:scale-105"
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <Play className="w-12 h-12 text-muted-foreground" />
+                      </div>
+                    )}
+                    {sort === 'most_liked_week' && video.weekly_like_count > 0 && (
+                      <span className="absolute left-2 top-2 flex items-center gap-1 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white">
+                        <Flame className="h-3 w-3" />
+                        {t('gallery.likesThisWeek', { count: video.weekly_like_count })}
+                      </span>
+                    )}
+                  </div>
+                </Link>
+                <CardContent className="p-4">
+                  <Link to={`/video/${video.id}`} className="block">
+                    <h3 className="font-semibold truncate mb-2">{video.title || t('gallery.untitled')}</h3>
+                  </Link>
+                  <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                    <Link
+                      to={video.creator_username ? `/profile/${video.creator_username}` : '#'}
+                      className="flex min-w-0 items-center gap-2 hover:text-foreground"
+                    >
+                      <div className="h-6 w-6 flex-shrink-0 overflow-hidden rounded-full bg-muted">
+                        {video.creator_avatar_url ? (
+                          <img src={video.creator_avatar_url} alt={creatorName} className="h-full w-full object-cover" />
+                        ) : (
+                          <div className="flex h-full w-full items-center justify-center">
+                            <User className="h-3.5 w-3.5" />
+                          </div>
+                        )}
+                      </div>
+                      <span className="truncate">{creatorName}</span>
+                    </Link>
+                    <span className="flex-shrink-0 text-xs">{formatRelativeTime(video.published_at)}</span>
+                  </div>
+                  <div className="mt-3 flex items-center justify-between text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Eye className="h-3.5 w-3.5" />
+                      {video.view_count}
+                    </span>
+                    <VideoLikeButton
+                      videoId={video.id}
+                      initialLikeCount={likeStatus?.like_count ?? video.like_count}
+                      initialIsLiked={likeStatus?.is_liked ?? false}
+                      fetchStatus={false}
+                      showLabel={false}
+                      variant="ghost"
+                      size="sm"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
+      {!loading && hasMore && (
+        <div className="flex justify-center mt-8">
+          <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t('common.loadMore')}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
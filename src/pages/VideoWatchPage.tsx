@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react'
+import { useParams, Link, useNavigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import VideoPlayer from '@/components/video/VideoPlayer'
+import { useAuth } from '@/contexts/AuthContext'
+import publicVideoService, { type PublicVideo } from '@/services/publicVideoService'
+import videoShareService from '@/services/videoShareService'
+import CommentSection from '@/components/comments/CommentSection'
+import FavoriteButton from '@/components/favorites/FavoriteButton'
+import VideoLikeButton from '@/components/video/VideoLikeButton'
+import favoriteService, { type FavoriteStatus } from '@/services/favoriteService'
+import { Eye, Share2, Sparkles, User, VideoOff, Lock } from 'lucide-react'
+
+export default function VideoWatchPage() {
+  const { t } = useTranslation()
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+
+  const [video, setVideo] = useState<PublicVideo | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [favoriteStatus, setFavoriteStatus] = useState<FavoriteStatus | null>(null)
+
+  useEffect(() => {
+    if (!id) return
+    fetchVideo(id)
+  }, [id])
+
+  // 收藏状态依赖登录用户，单独加载，避免重复记录浏览
+  const isPublic = !!video?.is_public
+  useEffect(() => {
+    if (!id || !isPublic) return
+    favoriteService.getFavoriteStatus('video', id, user?.id)
+      .then(setFavoriteStatus)
+      .catch(error => console.error('[VIDEO PAGE] 获取收藏状态失败:', error))
+  }, [id, isPublic, user?.id])
+
+  const fetchVideo = async (videoId: string) => {
+    setIsLoading(true)
+    const data = await publicVideoService.getPublicVideo(videoId)
+    setVideo(data)
+    setIsLoading(false)
+
+    if (data?.is_public) {
+      const counted = await publicVideoService.recordView(videoId)
+      if (counted) {
+        setVideo(prev => prev ? { ...prev, view_count: prev.view_count + 1 } : prev)
+      }
+    }
+  }
+
+  const handleShare = async () => {
+    if (!video) return
+
+    try {
+      // 优先使用系统分享面板，不支持时复制链接
+      const usedWebShare = await videoShareService.shareWithWebAPI(video.id)
+      const shared = usedWebShare || await videoShareService.shareVideo(video.id, { platform: 'copy' })
+      if (!shared) return
+
+      if (!usedWebShare) {
+        toast.success(t('videoPage.linkCopied'))
+      }
+      if (await publicVideoService.recordShare(video.id)) {
+        setVideo(prev => prev ? { ...prev, share_count: prev.share_count + 1 } : prev)
+      }
+    } catch (error) {
+      console.error('[VIDEO PAGE] 分享失败:', error)
+      toast.error(t('videoPage.shareFailed'))
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (!video) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen">
+        <VideoOff className="w-16 h-16 text-muted-foreground mb-4" />
+        <h1 className="text-2xl font-bold mb-2">{t('videoPage.notFound')}</h1>
+        <p className="text-muted-foreground">{t('videoPage.notFoundDescription')}</p>
+        <Link to="/">
+          <Button className="mt-4">{t('common.backToHome')}</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  const template = publicVideoService.getTemplate(video)
+  const creatorName = video.creator_full_name || video.creator_username
+
+  return (
+    <div className="container max-w-5xl mx-auto py-8 px-4">
+      {!video.is_public && (
+        <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+          <Lock className="w-4 h-4" />
+          {t('videoPage.privateNotice')}
+        </div>
+      )}
+
+      {/* 播放器 */}
+      <div className="rounded-lg overflow-hidden bg-black aspect-video">
+        <VideoPlayer
+          src={video.video_url}
+          poster={video.thumbnail_url || undefined}
+          className="w-full h-full"
+          objectFit="contain"
+          videoId={video.id}
+          videoTitle={video.title || undefined}
+          userId={user?.id}
+          onShare={handleShare}
+        />
+      </div>
+
+      {/* 视频信息 */}
+      <div className="mt-6 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold mb-2">{video.title || template?.name}</h1>
+
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Eye className="w-4 h-4" />
+              {t('videoPage.views', { count: video.view_count })}
+            </span>
+            <span className="flex items-center gap-1">
+              <Share2 className="w-4 h-4" />
+              {t('videoPage.shares', { count: video.share_count })}
+            </span>
+            <span>{new Date(video.created_at).toLocaleDateString()}</span>
+          </div>
+        </div>
+
+        <div className="flex gap-2 flex-shrink-0">
+          <Button variant="outline" onClick={handleShare}>
+            <Share2 className="mr-2 h-4 w-4" />
+            {t('videoPage.share')}
+          </Button>
+          {video.is_public && (
+            <VideoLikeButton
+              videoId={video.id}
+              initialLikeCount={video.like_count}
+            />
+          )}
+          {video.is_public && (
+            <FavoriteButton
+              targetType="video"
+              targetId={video.id}
+              initialIsFavorited={favoriteStatus?.isFavorited ?? false}
+              initialFavoriteCount={favoriteStatus?.favoriteCount ?? 0}
+            />
+          )}
+          {template && (
+            <Button onClick={() => navigate(publicVideoService.getRemixUrl(video))}>
+              <Sparkles className="mr-2 h-4 w-4" />
+              {t('videoPage.makeOneLikeThis')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* 创作者和模板 */}
+      <div className="mt-6 flex flex-wrap items-center gap-6 border-t pt-6">
+        {creatorName && (
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full overflow-hidden bg-muted flex-shrink-0">
+              {video.creator_avatar_url ? (
+                <img
+                  src={video.creator_avatar_url}
+                  alt={creatorName}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center">
+                  <User className="w-5 h-5 text-muted-foreground" />
+                </div>
+              )}
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">{t('videoPage.createdBy')}</p>
+              {video.creator_username ? (
+                <Link to={`/profile/${video.creator_username}`} className="font-medium hover:underline">
+                  {creatorName}
+                </Link>
+              ) : (
+                <span className="font-medium">{creatorName}</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {template && (
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-md bg-muted flex items-center justify-center text-xl flex-shrink-0">
+              {template.icon}
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">{t('videoPage.template')}</p>
+              <Link to={`/create?template=${template.id}`} className="font-medium hover:underline">
+                {template.name}
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {video.description && (
+        <p className="mt-6 text-muted-foreground whitespace-pre-line">{video.description}</p>
+      )}
+
+      {video.is_public && (
+        <div className="mt-10 border-t pt-6">
+          <CommentSection
+            targetType="video"
+            targetId={video.id}
+            ownerId={video.user_id}
+            initialCount={video.comment_count}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
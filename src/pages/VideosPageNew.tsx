@@ -4,7 +4,7 @@
  * 简化状态管理，提升可靠性
  */
 
-import React, { useState, useEffect, useContext } from 'react'
+import React, { useState, useEffect, useContext, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -21,7 +21,12 @@ import {
   Plus,
   ArrowRight,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  XCircle,
+  Layers,
+  CheckSquare,
+  Square,
+  Archive
 } from 'lucide-react'
 import {
   AlertDialog,
@@ -35,6 +40,7 @@ import {
 } from '@/components/ui/alert-dialog'
 import LazyVideoPlayer from '@/components/video/LazyVideoPlayer'
 import supabaseVideoService from '@/services/supabaseVideoService'
+import videoQueueService from '@/services/videoQueueService'
 import videoShareService from '@/services/videoShareService'
 import { videoTaskManager, type VideoTask } from '@/services/VideoTaskManager'
 import { videoPollingService } from '@/services/VideoPollingService'
@@ -45,16 +51,27 @@ import { templates } from '@/features/video-creator/data/templates'
 import { formatRelativeTime, formatDuration } from '@/utils/timeFormat'
 import { toast } from 'sonner'
 import { SubscriptionService } from '@/services/subscriptionService'
-import WatermarkService from '@/services/watermarkService'
-import ProtectedDownloadService from '@/services/protectedDownloadService'
+import ProtectedDownloadService, { MAX_IN_MEMORY_ZIP_BYTES, MAX_ZIP_VIDEOS, type ZipDownloadProgress } from '@/services/protectedDownloadService'
 
 type Video = Database['public']['Tables']['videos']['Row']
 
+interface VideoBatchGroup {
+  id: string
+  title: string
+  total: number
+  videos: Video[]
+  completed: number
+  failed: number
+  unfinished: number
+  createdAt: string
+}
+
 export default function VideosPageNew() {
   const { t } = useTranslation()
   const { user } = useContext(AuthContext)
   const navigate = useNavigate()
-  const [searchParams] = useSearchParams()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const batchFilter = searchParams.get('batch')
 
   // 状态管理
   const [videos, setVideos] = useState<Video[]>([])
@@ -82,10 +99,22 @@ export default function VideosPageNew() {
     video: Video | null
   }>({ open: false, video: null })
 
+  // 取消生成对话框
+  const [cancelDialog, setCancelDialog] = useState<{
+    open: boolean
+    video: Video | null
+  }>({ open: false, video: null })
+
   // 分享对话框
   const [shareModalOpen, setShareModalOpen] = useState(false)
   const [selectedShareVideo, setSelectedShareVideo] = useState<Video | null>(null)
 
+  // 多选打包下载
+  const [selectionMode, setSelectionMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [zipProgress, setZipProgress] = useState<ZipDownloadProgress | null>(null)
+  const zipAbortRef = useRef<AbortController | null>(null)
+
   /**
    * 初始化页面数据
    */
@@ -231,7 +260,9 @@ export default function VideosPageNew() {
 
     // 3. 显示错误通知
     toast.error(t('videos.videoGenerationFailed'), {
-      description: task.errorMessage || t('videos.generationError')
+      description: task.refundedCredits
+        ? `${task.errorMessage || t('videos.generationError')} · ${t('videos.creditsRefunded', { credits: task.refundedCredits })}`
+        : task.errorMessage || t('videos.generationError')
     })
 
     // 停止轮询（如果没有其他活跃任务）
@@ -308,6 +339,48 @@ export default function VideosPageNew() {
     }
   }
 
+  /**
+   * 取消排队中或处理中的视频，并退还积分
+   */
+  const handleCancelVideo = async (video: Video) => {
+    if (!user) {
+      toast.error(t('videos.loginRequired'))
+      return
+    }
+
+    setCancelDialog({ open: false, video: null })
+
+    const result = await videoQueueService.cancelJob(user.id, video.id)
+    if (!result.success) {
+      console.error('[VideosPageNew] 取消视频失败:', result.error)
+      toast.error(t('videos.cancelFailed'), { description: result.error })
+      await loadVideos()
+      return
+    }
+
+    // 停止本地轮询
+    if (activeTasks.has(video.id)) {
+      await videoTaskManager.removeTask(video.id)
+      setActiveTasks(prev => {
+        const newMap = new Map(prev)
+        newMap.delete(video.id)
+        return newMap
+      })
+    }
+
+    if (videoTaskManager.getActiveTasks().length === 0) {
+      videoPollingService.stop()
+    }
+
+    await loadVideos()
+
+    if (result.error) {
+      toast.warning(t('videos.cancelRefundFailed'))
+    } else {
+      toast.success(t('videos.videoCancelled', { credits: result.refundedCredits || 0 }))
+    }
+  }
+
   /**
    * 分享视频
    */
@@ -359,9 +432,7 @@ export default function VideosPageNew() {
     try {
       // 使用统一的受保护下载服务
       await ProtectedDownloadService.downloadVideo(
-        user.id,
         video.id,
-        video.video_url,
         video.title || 'video',
         {
           onComplete: () => {
@@ -388,8 +459,156 @@ export default function VideosPageNew() {
     }
   }
 
+  /**
+   * 切换视频选中状态（只有已完成的视频可以打包下载）
+   */
+  const toggleSelected = (videoId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(videoId)) {
+        next.delete(videoId)
+      } else {
+        next.add(videoId)
+      }
+      return next
+    })
+  }
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false)
+    setSelectedIds(new Set())
+  }
+
+  /**
+   * 打包下载选中的视频
+   */
+  const handleZipDownload = async () => {
+    const selectedVideos = videos.filter(video => selectedIds.has(video.id))
+    if (selectedVideos.length === 0 || zipProgress) return
+
+    if (selectedVideos.length > MAX_ZIP_VIDEOS) {
+      toast.error(t('videos.zipTooMany', { max: MAX_ZIP_VIDEOS }))
+      return
+    }
+
+    const controller = new AbortController()
+    zipAbortRef.current = controller
+    setZipProgress({ completedFiles: 0, totalFiles: selectedVideos.length, bytesWritten: 0 })
+
+    try {
+      const result = await ProtectedDownloadService.downloadVideosAsZip(selectedVideos, {
+        signal: controller.signal,
+        onProgress: setZipProgress
+      })
+
+      result.includedIds.forEach(videoId => {
+        supabaseVideoService.incrementInteraction(videoId, 'download_count')
+      })
+
+      toast.success(t('videos.zipCompleted', { count: result.includedIds.length }))
+      if (result.skipped.length > 0) {
+        toast.warning(t('videos.zipSkipped', { count: result.skipped.length }))
+      }
+      if (result.skipped.some(item => item.reason === 'size_limit')) {
+        toast.warning(t('videos.zipSizeLimit', { size: MAX_IN_MEMORY_ZIP_BYTES / 1024 / 1024 }))
+      }
+      exitSelectionMode()
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        toast.info(t('videos.zipCancelled'))
+      } else {
+        console.error('[VideosPage] 打包下载失败:', error)
+        toast.error(t('videos.zipFailed'))
+      }
+    } finally {
+      zipAbortRef.current = null
+      setZipProgress(null)
+    }
+  }
+
+  const formatZipSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+  }
+
+  /**
+   * 设置/清除批次过滤
+   */
+  const setBatchFilter = (batchId: string | null) => {
+    const newSearchParams = new URLSearchParams(searchParams)
+    if (batchId) {
+      newSearchParams.set('batch', batchId)
+    } else {
+      newSearchParams.delete('batch')
+    }
+    setSearchParams(newSearchParams, { replace: true })
+  }
+
+  // 按批次分组（批量生成的视频在 metadata.batch 中记录批次信息）
+  const batchGroups = React.useMemo(() => {
+    const groups = new Map<string, VideoBatchGroup>()
+
+    videos.forEach(video => {
+      const batch = video.metadata?.batch
+      if (!batch?.id) return
+
+      let group = groups.get(batch.id)
+      if (!group) {
+        group = {
+          id: batch.id,
+          title: (video.title || t('videos.untitledVideo')).replace(/\s#\d+$/, ''),
+          total: batch.total || 0,
+          videos: [],
+          completed: 0,
+          failed: 0,
+          unfinished: 0,
+          createdAt: video.created_at
+        }
+        groups.set(batch.id, group)
+      }
+
+      group.videos.push(video)
+      if (video.status === 'completed') {
+        group.completed++
+      } else if (video.status === 'failed' || video.status === 'cancelled') {
+        group.failed++
+      } else {
+        group.unfinished++
+      }
+      if (video.created_at < group.createdAt) {
+        group.createdAt = video.created_at
+      }
+    })
+
+    return Array.from(groups.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }, [videos])
+
+  // 显示进行中的批次和当前查看的批次
+  const visibleBatches = batchGroups.filter(group => group.unfinished > 0 || group.id === batchFilter)
+
+  /**
+   * 批次整体进度：已结束的视频按100%计算，进行中的视频使用任务进度
+   */
+  const getBatchProgress = (group: VideoBatchGroup): number => {
+    const total = Math.max(group.total, group.videos.length)
+    if (total === 0) return 0
+
+    const progressSum = group.videos.reduce((sum, video) => {
+      if (video.status === 'completed' || video.status === 'failed' || video.status === 'cancelled') {
+        return sum + 100
+      }
+      return sum + (getVideoTask(video.id)?.progress || 0)
+    }, 0)
+
+    return Math.round(progressSum / total)
+  }
+
   // 过滤视频
   const filteredVideos = videos.filter(video => {
+    // 批次过滤
+    if (batchFilter && video.metadata?.batch?.id !== batchFilter) return false
+
     // 搜索过滤
     if (searchTerm) {
       const searchLower = searchTerm.toLowerCase()
@@ -411,6 +630,8 @@ export default function VideosPageNew() {
 
   // 分页逻辑
   const totalPages = Math.ceil(filteredVideos.length / ITEMS_PER_PAGE)
+
+  const isZipSelectable = (video: Video) => video.status === 'completed' && !!video.video_url
   const paginatedVideos = filteredVideos.slice(
     (page - 1) * ITEMS_PER_PAGE,
     page * ITEMS_PER_PAGE
@@ -419,7 +640,7 @@ export default function VideosPageNew() {
   // 当过滤条件改变时重置页码
   React.useEffect(() => {
     setPage(1)
-  }, [filter, searchTerm])
+  }, [filter, searchTerm, batchFilter])
 
   // 🚀 关键优化：在初始加载期间且无视频数据时显示skeleton，提供更好的视觉体验
   if (loading || (isInitialLoad && videos.length === 0)) {
@@ -501,6 +722,15 @@ export default function VideosPageNew() {
         </select>
 
         <div className="flex gap-2">
+          <Button
+            variant={selectionMode ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => selectionMode ? exitSelectionMode() : setSelectionMode(true)}
+            disabled={!!zipProgress}
+          >
+            <CheckSquare className="w-4 h-4 mr-1" />
+            {selectionMode ? t('videos.cancelSelection') : t('videos.selectVideos')}
+          </Button>
           <Button
             variant={viewMode === 'grid' ? 'default' : 'outline'}
             size="sm"
@@ -519,6 +749,105 @@ export default function VideosPageNew() {
       </div>
 
 
+      {/* 多选工具栏和打包进度 */}
+      {(selectionMode || zipProgress) && (
+        <Card className="mb-6">
+          <CardContent className="p-4">
+            {zipProgress ? (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2 min-w-0 text-sm">
+                    <Loader2 className="w-4 h-4 animate-spin flex-shrink-0" strokeWidth={1.5} />
+                    <span className="whitespace-nowrap">
+                      {t('videos.zipProgress', {
+                        done: zipProgress.completedFiles,
+                        total: zipProgress.totalFiles,
+                        size: formatZipSize(zipProgress.bytesWritten)
+                      })}
+                    </span>
+                    {zipProgress.currentFile && (
+                      <span className="text-xs text-muted-foreground truncate">{zipProgress.currentFile}</span>
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => zipAbortRef.current?.abort()}>
+                    {t('videos.zipCancel')}
+                  </Button>
+                </div>
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                  <div
+                    className="bg-gradient-to-r from-blue-500 to-blue-600 h-1.5 rounded-full transition-all duration-500 ease-out"
+                    style={{ width: `${Math.max((zipProgress.completedFiles / Math.max(zipProgress.totalFiles, 1)) * 100, 2)}%` }}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm">{t('videos.selectedCount', { count: selectedIds.size })}</span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setSelectedIds(prev => {
+                      const next = new Set(prev)
+                      paginatedVideos.filter(isZipSelectable).forEach(video => next.add(video.id))
+                      return next
+                    })}
+                  >
+                    {t('videos.selectAllOnPage')}
+                  </Button>
+                  <Button size="sm" onClick={handleZipDownload} disabled={selectedIds.size === 0}>
+                    <Archive className="w-4 h-4 mr-1" />
+                    {t('videos.downloadZip')}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 批量生成进度 */}
+      {visibleBatches.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {visibleBatches.map(group => {
+            const progress = getBatchProgress(group)
+            return (
+              <Card key={group.id} className={group.id === batchFilter ? 'border-primary' : ''}>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Layers className="w-4 h-4 text-muted-foreground flex-shrink-0" strokeWidth={1.5} />
+                      <span className="font-medium text-sm truncate">
+                        {t('videos.batchTitle', { title: group.title })}
+                      </span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {t('videos.batchProgress', { done: group.completed, total: group.total || group.videos.length })}
+                        {group.failed > 0 && ` · ${t('videos.batchFailedCount', { count: group.failed })}`}
+                      </span>
+                    </div>
+                    {group.id === batchFilter ? (
+                      <Button variant="outline" size="sm" onClick={() => setBatchFilter(null)}>
+                        {t('videos.showAllVideos')}
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => setBatchFilter(group.id)}>
+                        {t('videos.viewBatch')}
+                      </Button>
+                    )}
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 overflow-hidden mt-3">
+                    <div
+                      className="bg-gradient-to-r from-blue-500 to-blue-600 h-1.5 rounded-full transition-all duration-1000 ease-out"
+                      style={{ width: `${Math.max(progress, 2)}%` }}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+
       {/* 视频列表 */}
       {paginatedVideos.length === 0 ? (
         <div className="text-center py-12">
@@ -550,9 +879,22 @@ export default function VideosPageNew() {
             return (
               <Card 
                 key={video.id}
-                className="overflow-hidden hover:shadow-lg transition-all duration-300"
+                className={`overflow-hidden hover:shadow-lg transition-all duration-300 ${selectedIds.has(video.id) ? 'ring-2 ring-primary' : ''}`}
               >
                 <div className="aspect-video relative bg-gray-100 dark:bg-gray-800">
+                  {selectionMode && isZipSelectable(video) && (
+                    <button
+                      className="absolute top-2 left-2 z-10 rounded bg-background/80 p-1"
+                      onClick={() => toggleSelected(video.id)}
+                      aria-pressed={selectedIds.has(video.id)}
+                    >
+                      {selectedIds.has(video.id) ? (
+                        <CheckSquare className="w-5 h-5 text-primary" strokeWidth={1.5} />
+                      ) : (
+                        <Square className="w-5 h-5" strokeWidth={1.5} />
+                      )}
+                    </button>
+                  )}
                   {/* 视频渲染逻辑 - 简化且清晰 */}
                   {video.video_url ? (
                     // 有视频URL - 显示视频播放器
@@ -610,6 +952,14 @@ export default function VideosPageNew() {
                         </div>
                       </div>
                     </div>
+                  ) : video.status === 'cancelled' ? (
+                    // 已取消
+                    <div className="w-full h-full flex items-center justify-center bg-gray-100 dark:bg-gray-800">
+                      <div className="text-center text-gray-500 dark:text-gray-400">
+                        <XCircle className="h-12 w-12 mx-auto mb-2" strokeWidth={1.5} />
+                        <div className="text-sm">{t('videos.generationCancelled')}</div>
+                      </div>
+                    </div>
                   ) : video.thumbnail_url ? (
                     // 有缩略图但无视频
                     <img 
@@ -636,7 +986,16 @@ export default function VideosPageNew() {
                       <h3 className="font-medium text-sm line-clamp-2 min-h-[2.5rem]">
                         {video.title || t('videos.untitledVideo')}
                       </h3>
-                      {video.description && (
+                      {video.metadata?.batch ? (
+                        <button
+                          className="flex items-center gap-1 text-xs text-muted-foreground mt-1 line-clamp-2 text-left hover:text-foreground"
+                          onClick={() => setBatchFilter(video.metadata.batch.id)}
+                          title={t('videos.viewBatch')}
+                        >
+                          <Layers className="w-3 h-3 flex-shrink-0" strokeWidth={1.5} />
+                          {video.metadata.batch.label}
+                        </button>
+                      ) : video.description && (
                         <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
                           {video.description}
                         </p>
@@ -686,6 +1045,16 @@ export default function VideosPageNew() {
                             </Button>
                           </>
                         )}
+                        {(video.status === 'pending' || video.status === 'processing') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setCancelDialog({ open: true, video })}
+                            title={t('videos.cancelGeneration')}
+                          >
+                            <XCircle className="w-4 h-4" strokeWidth={1.5} />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -734,6 +1103,33 @@ export default function VideosPageNew() {
 
       {/* 完成通知已改为toast提示 */}
 
+      {/* 取消生成确认对话框 */}
+      <AlertDialog 
+        open={cancelDialog.open} 
+        onOpenChange={(open) => !open && setCancelDialog({ open: false, video: null })}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('videos.confirmCancel')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('videos.confirmCancelDescription', {
+                title: cancelDialog.video?.title || t('videos.untitledVideo'),
+                credits: cancelDialog.video?.credits_used || 0
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('videos.keepGenerating')}</AlertDialogCancel>
+            <AlertDialogAction 
+              onClick={() => cancelDialog.video && handleCancelVideo(cancelDialog.video)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {t('videos.cancelGeneration')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* 删除确认对话框 */}
       <AlertDialog 
         open={deleteDialog.open} 
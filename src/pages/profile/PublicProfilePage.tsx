@@ -5,6 +5,9 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { useTranslation } from 'react-i18next'
 import { useAuth } from '@/contexts/AuthContext'
+import { toast } from 'sonner'
+import FollowListModal from '@/components/profile/FollowListModal'
+import followService, { type FollowListType } from '@/services/followService'
 import { 
   User, 
   Globe, 
@@ -22,6 +25,8 @@ import {
   Plus,
   Minus,
   Share2,
+  Bell,
+  BellOff,
   Copy,
   ExternalLink
 } from 'lucide-react'
@@ -59,6 +64,9 @@ export default function PublicProfilePage() {
   const [profile, setProfile] = useState<PublicProfile | null>(null)
   const [templates, setTemplates] = useState<Template[]>([])
   const [isFollowing, setIsFollowing] = useState(false)
+  const [notifyOnPublish, setNotifyOnPublish] = useState(false)
+  const [followPending, setFollowPending] = useState(false)
+  const [followListType, setFollowListType] = useState<FollowListType | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [activeTab, setActiveTab] = useState<'templates' | 'liked'>('templates')
   const [stats, setStats] = useState({
@@ -126,14 +134,9 @@ export default function PublicProfilePage() {
     if (!user || !profile) return
 
     try {
-      const { data, error } = await supabase
-        .from('user_follows')
-        .select('id')
-        .eq('follower_id', user.id)
-        .eq('following_id', profile.id)
-        .single()
-
-      setIsFollowing(!!data && !error)
+      const status = await followService.getFollowStatus(user.id, profile.id)
+      setIsFollowing(status.isFollowing)
+      setNotifyOnPublish(status.notifyOnPublish)
     } catch (error) {
       console.error('Error checking follow status:', error)
     }
@@ -146,28 +149,23 @@ export default function PublicProfilePage() {
       return
     }
 
+    if (followPending) return
+
+    setFollowPending(true)
     try {
       if (isFollowing) {
         // 取消关注
-        await supabase
-          .from('user_follows')
-          .delete()
-          .eq('follower_id', user.id)
-          .eq('following_id', profile.id)
+        await followService.unfollow(user.id, profile.id)
         
         setIsFollowing(false)
+        setNotifyOnPublish(false)
         setProfile(prev => prev ? {
           ...prev,
           follower_count: Math.max(0, prev.follower_count - 1)
         } : null)
       } else {
         // 关注
-        await supabase
-          .from('user_follows')
-          .insert({
-            follower_id: user.id,
-            following_id: profile.id
-          })
+        await followService.follow(user.id, profile.id)
         
         setIsFollowing(true)
         setProfile(prev => prev ? {
@@ -177,9 +175,36 @@ export default function PublicProfilePage() {
       }
     } catch (error) {
       console.error('Error toggling follow:', error)
+      toast.error(t('profile.followError'))
+    } finally {
+      setFollowPending(false)
+    }
+  }
+
+  const handleToggleNotify = async () => {
+    if (!user || !profile || !isFollowing) return
+
+    const enabled = !notifyOnPublish
+    setNotifyOnPublish(enabled)
+    try {
+      await followService.setNotifyOnPublish(user.id, profile.id, enabled)
+      toast.success(enabled ? t('profile.notifyOnPublishEnabled') : t('profile.notifyOnPublishDisabled'))
+    } catch (error) {
+      console.error('Error updating publish notification:', error)
+      setNotifyOnPublish(!enabled)
+      toast.error(t('profile.followError'))
     }
   }
 
+  // 在自己的粉丝/关注列表中关注或取消关注别人时，同步自己的关注数
+  const handleListFollowChange = (_targetId: string, following: boolean) => {
+    if (!profile || user?.id !== profile.id) return
+    setProfile(prev => prev ? {
+      ...prev,
+      following_count: Math.max(0, prev.following_count + (following ? 1 : -1))
+    } : null)
+  }
+
   const copyProfileLink = () => {
     const url = window.location.href
     navigator.clipboard.writeText(url)
@@ -269,22 +294,35 @@ export default function PublicProfilePage() {
                     </Button>
                   </Link>
                 ) : (
-                  <Button
-                    onClick={handleFollow}
-                    variant={isFollowing ? 'outline' : 'default'}
-                  >
-                    {isFollowing ? (
-                      <>
-                        <Minus className="mr-2 h-4 w-4" />
-                        {t('profile.unfollow')}
-                      </>
-                    ) : (
-                      <>
-                        <Plus className="mr-2 h-4 w-4" />
-                        {t('profile.follow')}
-                      </>
+                  <>
+                    <Button
+                      onClick={handleFollow}
+                      variant={isFollowing ? 'outline' : 'default'}
+                      disabled={followPending}
+                    >
+                      {isFollowing ? (
+                        <>
+                          <Minus className="mr-2 h-4 w-4" />
+                          {t('profile.unfollow')}
+                        </>
+                      ) : (
+                        <>
+                          <Plus className="mr-2 h-4 w-4" />
+                          {t('profile.follow')}
+                        </>
+                      )}
+                    </Button>
+                    {isFollowing && (
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={handleToggleNotify}
+                        title={notifyOnPublish ? t('profile.notifyOnPublishOff') : t('profile.notifyOnPublishOn')}
+                      >
+                        {notifyOnPublish ? <Bell className="h-4 w-4 fill-current" /> : <BellOff className="h-4 w-4" />}
+                      </Button>
                     )}
-                  </Button>
+                  </>
                 )}
                 <Button
                   variant="outline"
@@ -308,16 +346,22 @@ export default function PublicProfilePage() {
                 <span className="font-semibold">{formatNumber(profile.template_count)}</span>
                 <span className="text-muted-foreground">{t('profile.templates')}</span>
               </div>
-              <div className="flex items-center gap-2">
+              <button
+                onClick={() => setFollowListType('followers')}
+                className="flex items-center gap-2 hover:underline"
+              >
                 <Users className="w-4 h-4 text-muted-foreground" />
                 <span className="font-semibold">{formatNumber(profile.follower_count)}</span>
                 <span className="text-muted-foreground">{t('profile.followers')}</span>
-              </div>
-              <div className="flex items-center gap-2">
+              </button>
+              <button
+                onClick={() => setFollowListType('following')}
+                className="flex items-center gap-2 hover:underline"
+              >
                 <Users className="w-4 h-4 text-muted-foreground" />
                 <span className="font-semibold">{formatNumber(profile.following_count)}</span>
                 <span className="text-muted-foreground">{t('profile.following')}</span>
-              </div>
+              </button>
             </div>
 
             {/* 链接 */}
@@ -490,6 +534,16 @@ export default function PublicProfilePage() {
           </div>
         )}
       </div>
+
+      {/* 粉丝/关注列表 */}
+      {followListType && (
+        <FollowListModal
+          userId={profile.id}
+          listType={followListType}
+          onClose={() => setFollowListType(null)}
+          onFollowChange={handleListFollowChange}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,10 +1,12 @@
 import React from 'react'
-import { Link, useNavigate } from 'react-router-dom'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useTranslation } from 'react-i18next'
 import MembershipBadge from '@/components/subscription/MembershipBadge'
+import CollectionsPanel from '@/components/favorites/CollectionsPanel'
 import { 
   User,
   Settings,
@@ -12,7 +14,9 @@ import {
   CreditCard,
   LogOut,
   ChevronRight,
-  Edit
+  Edit,
+  Bookmark,
+  LayoutDashboard
 } from 'lucide-react'
 
 
@@ -20,6 +24,13 @@ export default function UserCenterPage() {
   const { t } = useTranslation()
   const navigate = useNavigate()
   const { user, profile, signOut } = useAuth()
+  const [searchParams, setSearchParams] = useSearchParams()
+  // 标签页同步到URL（?tab=collections），方便直接链接到收藏夹
+  const activeTab = searchParams.get('tab') === 'collections' ? 'collections' : 'overview'
+
+  const handleTabChange = (tab: string) => {
+    setSearchParams(tab === 'overview' ? {} : { tab }, { replace: true })
+  }
 
   const handleSignOut = async () => {
     try {
@@ -103,9 +114,20 @@ export default function UserCenterPage() {
       </div>
 
 
-      <div>
+      <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
+        <TabsList className="mb-6">
+          <TabsTrigger value="overview" className="flex items-center gap-2">
+            <LayoutDashboard className="h-4 w-4" />
+            {t('userCenter.overview')}
+          </TabsTrigger>
+          <TabsTrigger value="collections" className="flex items-center gap-2">
+            <Bookmark className="h-4 w-4" />
+            {t('collections.myCollections')}
+          </TabsTrigger>
+        </TabsList>
+
         {/* 快速操作 */}
-        <div>
+        <TabsContent value="overview">
           <Card>
             <CardHeader>
               <CardTitle>{t('userCenter.quickActions')}</CardTitle>
@@ -138,9 +160,13 @@ export default function UserCenterPage() {
               </div>
             </CardContent>
           </Card>
+        </TabsContent>
 
-        </div>
-      </div>
+        {/* 我的收藏夹 */}
+        <TabsContent value="collections">
+          {user && <CollectionsPanel userId={user.id} />}
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
\ No newline at end of file
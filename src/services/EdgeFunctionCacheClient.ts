@@ -54,6 +54,7 @@ export interface TemplateStatsCache {
   view_count: number
   usage_count: number
   share_count: number
+  favorite_count: number
   last_updated: string
 }
 
@@ -274,7 +275,7 @@ class EdgeFunctionCacheClient {
         return cached.tier
       }
 
-      // 缓存未命中，从数据库获取并缓存
+      // Edge Function 未命中时会从数据库回填，这里只在缓存服务不可用时直接查询
       const { data: subscription } = await supabase
         .from('subscriptions')
         .select('tier, status, current_period_end, stripe_subscription_id')
@@ -284,7 +285,7 @@ class EdgeFunctionCacheClient {
 
       const tier = (subscription?.tier as SubscriptionTier) || 'free'
       
-      // 缓存结果
+      // 订阅缓存由服务端写入，这里只缓存到本地
       const cacheData: UserSubscriptionCache = {
         tier,
         status: subscription?.status as SubscriptionStatus || 'active',
@@ -293,7 +294,7 @@ class EdgeFunctionCacheClient {
         last_updated: new Date().toISOString()
       }
       
-      await this.set(cacheKey, cacheData, this.DEFAULT_TTL)
+      this.setLocalCache(cacheKey, cacheData, this.SHORT_TTL * 1000)
       
       return tier
     } catch (error) {
@@ -314,7 +315,7 @@ class EdgeFunctionCacheClient {
         return cached.balance
       }
 
-      // 缓存未命中，从数据库获取并缓存
+      // Edge Function 未命中时会从数据库回填，这里只在缓存服务不可用时直接查询
       const { data: profile } = await supabase
         .from('profiles')
         .select('credits, total_credits_earned, total_credits_spent')
@@ -323,7 +324,7 @@ class EdgeFunctionCacheClient {
 
       const balance = profile?.credits || 0
       
-      // 缓存结果
+      // 积分缓存由服务端写入，这里只缓存到本地
       const cacheData: UserCreditsCache = {
         balance,
         total_earned: profile?.total_credits_earned || 0,
@@ -331,7 +332,7 @@ class EdgeFunctionCacheClient {
         last_updated: new Date().toISOString()
       }
       
-      await this.set(cacheKey, cacheData, this.DEFAULT_TTL)
+      this.setLocalCache(cacheKey, cacheData, this.SHORT_TTL * 1000)
       
       return balance
     } catch (error) {
@@ -352,10 +353,10 @@ class EdgeFunctionCacheClient {
         return cached
       }
 
-      // 缓存未命中，从数据库获取并缓存
+      // Edge Function 未命中时会从数据库回填，这里只在缓存服务不可用时直接查询
       const { data: template } = await supabase
         .from('templates')
-        .select('like_count, comment_count, view_count, usage_count, share_count')
+        .select('like_count, comment_count, view_count, usage_count, share_count, favorite_count')
         .eq('id', templateId)
         .single()
 
@@ -363,17 +364,18 @@ class EdgeFunctionCacheClient {
         return null
       }
 
-      // 缓存结果
+      // 模板统计缓存由服务端写入，这里只缓存到本地
       const cacheData: TemplateStatsCache = {
         like_count: template.like_count || 0,
         comment_count: template.comment_count || 0,
         view_count: template.view_count || 0,
         usage_count: template.usage_count || 0,
         share_count: template.share_count || 0,
+        favorite_count: template.favorite_count || 0,
         last_updated: new Date().toISOString()
       }
       
-      await this.set(cacheKey, cacheData, this.SHORT_TTL) // 模板统计使用较短TTL
+      this.setLocalCache(cacheKey, cacheData, this.SHORT_TTL * 1000) // 模板统计使用较短TTL
       
       return cacheData
     } catch (error) {
@@ -505,9 +507,9 @@ class EdgeFunctionCacheClient {
   }
 
   /**
-   * 使模板统计缓存失效
+   * 使模板统计缓存失效（点赞、收藏后调用）
    */
-  private async invalidateTemplateStatsCache(templateId: string): Promise<void> {
+  async invalidateTemplateStatsCache(templateId: string): Promise<void> {
     const cacheKey = `template:${templateId}:stats`
     await this.delete(cacheKey)
   }
@@ -541,8 +543,12 @@ class EdgeFunctionCacheClient {
     last_check: string
   }> {
     try {
-      // 测试Redis连接
-      const testKey = `health_check_${Date.now()}`
+      // 测试Redis连接（测试键必须在当前用户的命名空间下）
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.user) {
+        throw new Error('未登录，无法访问缓存服务')
+      }
+      const testKey = `user:${session.user.id}:health_check`
       const testValue = { test: true }
       
       const setSuccess = await this.set(testKey, testValue, 10) // 10秒TTL
@@ -179,6 +179,7 @@ class RedisCacheIntegrationService {
     view_count: number
     usage_count: number
     share_count: number
+    favorite_count: number
   } | null> {
     if (!this.isCacheEnabled()) {
       return this.getTemplateStatsFromDB(templateId)
@@ -212,11 +213,12 @@ class RedisCacheIntegrationService {
     view_count: number
     usage_count: number
     share_count: number
+    favorite_count: number
   } | null> {
     try {
       const { data: template, error } = await supabase
         .from('templates')
-        .select('like_count, comment_count, view_count, usage_count, share_count')
+        .select('like_count, comment_count, view_count, usage_count, share_count, favorite_count')
         .eq('id', templateId)
         .single()
 
@@ -229,7 +231,8 @@ class RedisCacheIntegrationService {
         comment_count: template.comment_count || 0,
         view_count: template.view_count || 0,
         usage_count: template.usage_count || 0,
-        share_count: template.share_count || 0
+        share_count: template.share_count || 0,
+        favorite_count: template.favorite_count || 0
       } : null
     } catch (error) {
       console.error('[REDIS CACHE INTEGRATION] 数据库查询模板统计失败:', error)
@@ -237,6 +240,22 @@ class RedisCacheIntegrationService {
     }
   }
 
+  /**
+   * 使模板统计缓存失效（收藏数变化后调用）
+   */
+  async invalidateTemplateStats(templateId: string): Promise<void> {
+    if (!this.isCacheEnabled()) {
+      return
+    }
+
+    try {
+      await edgeCacheClient.invalidateTemplateStatsCache(templateId)
+      console.log(`[REDIS CACHE INTEGRATION] 模板统计缓存失效: ${templateId}`)
+    } catch (error) {
+      console.error('[REDIS CACHE INTEGRATION] 模板统计缓存失效失败:', error)
+    }
+  }
+
   // ============================================
   // 社交功能相关缓存集成
   // ============================================
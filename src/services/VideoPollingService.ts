@@ -1,6 +1,8 @@
 /**
  * 视频轮询服务
  * 统一管理所有视频任务的轮询，减少数据库压力
+ * 上游任务由服务端队列Worker驱动，这里只观察数据库中的状态
+ * 优先通过 Realtime 订阅接收状态变化，轮询只作为兜底（订阅断开或漏掉事件时）
  */
 
 import i18n from '@/i18n/config'
@@ -14,12 +16,16 @@ interface PollingConfig {
   onTaskFailed: (task: VideoTask) => void
 }
 
+// Realtime 订阅生效时的兜底轮询间隔
+const REALTIME_FALLBACK_POLL_INTERVAL = 15000
+
 class VideoPollingService {
   private pollingInterval: NodeJS.Timeout | null = null
   private config: PollingConfig | null = null
   private isPolling = false
   private lastCheckTime = 0
   private completedTasks = new Set<string>() // 防止重复完成处理
+  private unsubscribeRealtime: (() => void) | null = null
 
   /**
    * 启动轮询
@@ -32,6 +38,16 @@ class VideoPollingService {
     this.config = config
     this.isPolling = true
 
+    // 订阅视频状态变化，活跃任务有更新时立即检查
+    this.unsubscribeRealtime = supabaseVideoService.subscribeToAllUserVideoUpdates(
+      config.userId,
+      (video) => {
+        if (!this.isPolling || !videoTaskManager.getTask(video.id)) return
+        this.checkSingleTask(video.id)
+      },
+      'video-polling'
+    )
+
     // 立即执行一次轮询
     this.poll()
     
@@ -47,6 +63,11 @@ class VideoPollingService {
       clearTimeout(this.pollingInterval)
       this.pollingInterval = null
     }
+
+    if (this.unsubscribeRealtime) {
+      this.unsubscribeRealtime()
+      this.unsubscribeRealtime = null
+    }
     
     this.isPolling = false
     this.config = null
@@ -147,14 +168,16 @@ class VideoPollingService {
         return  // 静默处理，不显示错误提示
       }
 
+      // 视频已被用户取消（可能在其他标签页），停止轮询，不触发失败回调
+      if (video.status === 'cancelled') {
+        console.log(`[POLLING] 视频已取消，停止轮询并清理任务: ${taskId}`)
+        await videoTaskManager.removeTask(taskId)
+        return
+      }
+
       const currentTask = videoTaskManager.getTask(taskId)
       const latestTask = this.videoToTask(video)
 
-      // 🔧 智能恢复机制：检查青云API连接状态
-      if ((video.status === 'processing' || video.status === 'pending') && video.veo3_job_id) {
-        await this.checkAndRestoreQingyunAPI(video, taskId)
-      }
-
       // 🚀 增强完成检测逻辑
       const hasVideoUrl = !!(video.video_url && video.video_url.length > 0)
       const isProcessingInDB = video.status === 'processing' || video.status === 'pending'
@@ -189,8 +212,8 @@ class VideoPollingService {
           // 使用统一的完成处理方法
           await this.handleTaskCompletion(taskId, latestTask.videoUrl || '', latestTask, '状态变化检测')
         } else if (latestTask.status === 'failed') {
-          await videoTaskManager.markTaskFailed(taskId, latestTask.errorMessage || '未知错误')
-          this.config?.onTaskFailed(latestTask)
+          const failedTask = await videoTaskManager.markTaskFailed(taskId, latestTask.errorMessage || '未知错误')
+          this.config?.onTaskFailed(failedTask || latestTask)
         } else {
           // 更新进度
           await videoTaskManager.updateTaskFromDB(taskId)
@@ -270,6 +293,11 @@ class VideoPollingService {
           delay = Math.min(delay * 1.5, 15000) // 延长间隔，最多15秒
         }
       }
+
+      // 状态变化已由 Realtime 推送，轮询只需兜底
+      if (activeTasks.length > 0 && this.unsubscribeRealtime) {
+        delay = Math.max(delay, REALTIME_FALLBACK_POLL_INTERVAL)
+      }
     }
 
     this.pollingInterval = setTimeout(() => {
@@ -332,73 +360,6 @@ class VideoPollingService {
     return new Date(Date.now() + remaining)
   }
 
-  /**
-   * 检查并恢复青云API连接
-   * 如果发现任务有veo3_job_id但青云API轮询不存在，则自动恢复
-   */
-  private async checkAndRestoreQingyunAPI(video: any, taskId: string): Promise<void> {
-    try {
-      console.log(`[POLLING] 🔍 检查青云API连接状态: ${video.id} (job: ${video.veo3_job_id})`)
-      
-      // 动态导入veo3Service以避免循环依赖
-      const { veo3Service } = await import('./veo3Service')
-      
-      // 检查veo3Service中是否有活跃的任务跟踪
-      const jobStatus = await veo3Service.getJobStatus(video.veo3_job_id)
-      
-      if (!jobStatus) {
-        console.log(`[POLLING] ⚠️ 检测到青云API连接丢失: ${video.id}，尝试恢复...`)
-        
-        // 尝试恢复青云API轮询
-        const restored = await veo3Service.restoreJob(video.veo3_job_id, video.id)
-        
-        if (restored) {
-          console.log(`[POLLING] ✅ 青云API连接恢复成功: ${video.id}`)
-          
-          // 更新进度管理器，标记为已恢复
-          const { progressManager } = await import('./progressManager')
-          progressManager.updateProgress(video.id, {
-            status: video.status as any,
-            statusText: '重新连接API成功',
-            qingyunTaskId: video.veo3_job_id,
-            lastPollingStatus: 'auto-restored'
-          })
-        } else {
-          console.warn(`[POLLING] ❌ 青云API连接恢复失败: ${video.id}`)
-          
-          // 检查任务是否已经运行太久，如果是则考虑标记为失败
-          const startTime = video.processing_started_at ? new Date(video.processing_started_at) : new Date(video.created_at)
-          const elapsedMinutes = (Date.now() - startTime.getTime()) / (1000 * 60)
-          
-          if (elapsedMinutes > 10) { // 超过10分钟
-            console.warn(`[POLLING] ⏰ 任务运行超时 ${Math.round(elapsedMinutes)} 分钟，青云API恢复失败: ${video.id}`)
-            
-            // 可以考虑标记为失败或发送通知，但这里先记录警告
-            const { progressManager } = await import('./progressManager')
-            progressManager.updateProgress(video.id, {
-              status: video.status as any,
-              statusText: 'API连接断开，正在重试...',
-              qingyunTaskId: video.veo3_job_id,
-              lastPollingStatus: 'connection-lost'
-            })
-          }
-        }
-      } else {
-        // 连接正常，更新最后检查时间
-        console.log(`[POLLING] ✅ 青云API连接正常: ${video.id}`)
-        
-        const { progressManager } = await import('./progressManager')
-        progressManager.updateProgress(video.id, {
-          status: video.status as any,
-          qingyunTaskId: video.veo3_job_id,
-          lastPollingStatus: 'connection-verified'
-        })
-      }
-    } catch (error) {
-      console.error(`[POLLING] 💥 检查青云API连接时出错 ${video.id}:`, error)
-    }
-  }
-
   /**
    * 获取轮询状态
    */
@@ -6,6 +6,7 @@
 
 import i18n from '@/i18n/config'
 import supabaseVideoService from './supabaseVideoService'
+import creditService from './creditService'
 import type { Database } from '@/lib/supabase'
 
 type Video = Database['public']['Tables']['videos']['Row']
@@ -17,6 +18,7 @@ export interface VideoTask {
   statusText: string
   videoUrl?: string
   errorMessage?: string
+  refundedCredits?: number
   veo3JobId?: string
   startedAt: Date
   estimatedCompletion?: Date
@@ -146,18 +148,22 @@ class VideoTaskManager {
   /**
    * 标记任务失败
    */
-  async markTaskFailed(taskId: string, errorMessage: string): Promise<void> {
+  async markTaskFailed(taskId: string, errorMessage: string): Promise<VideoTask | null> {
     const task = this.activeTasks.get(taskId)
-    if (!task) return
+    if (!task) return null
 
     console.log(`[TASK MANAGER] 标记任务失败: ${taskId}`)
 
+    // 积分已由数据库触发器按退款策略退还，这里读取退还的金额
+    const refund = await creditService.getVideoRefund(taskId)
+
     // 更新本地任务状态
     const failedTask: VideoTask = {
       ...task,
       status: 'failed',
       statusText: '生成失败',
-      errorMessage
+      errorMessage,
+      refundedCredits: refund?.amount
     }
 
     // 通知订阅者任务失败
@@ -167,6 +173,7 @@ class VideoTaskManager {
     this.activeTasks.delete(taskId)
     
     console.log(`[TASK MANAGER] 任务失败处理完毕: ${taskId}`)
+    return failedTask
   }
 
   /**
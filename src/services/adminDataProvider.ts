@@ -7,6 +7,7 @@ import {
   validateTemplateConfig,
   deleteTemplateFiles
 } from './templateFileService'
+import { ACCOUNT_PUBLIC_COLUMNS } from './veo/providerAccountPool'
 
 // 添加初始化调试信息
 console.log('[AdminDataProvider] Initializing with base URL:', `${import.meta.env.VITE_SUPABASE_URL}/functions/v1`)
@@ -112,6 +113,38 @@ export const adminDataProvider: DataProvider = {
         }
       }
 
+      // 对于provider-accounts资源，使用Supabase直接查询（不返回凭证）
+      if (resource === 'provider-accounts') {
+        const { data, error, count } = await supabase
+          .from('provider_accounts')
+          .select(ACCOUNT_PUBLIC_COLUMNS, { count: 'exact' })
+          .range((page - 1) * perPage, page * perPage - 1)
+          .order(field || 'created_at', { ascending: order === 'ASC' })
+
+        if (error) throw error
+
+        return {
+          data: data || [],
+          total: count || 0,
+        }
+      }
+
+      // 对于credit-packages资源，使用Supabase直接查询（包括已下架的套餐）
+      if (resource === 'credit-packages') {
+        const { data, error, count } = await supabase
+          .from('credit_packages')
+          .select('*', { count: 'exact' })
+          .range((page - 1) * perPage, page * perPage - 1)
+          .order(field || 'sort_order', { ascending: order === 'ASC' })
+
+        if (error) throw error
+
+        return {
+          data: data || [],
+          total: count || 0,
+        }
+      }
+
       let endpoint = ''
       let body: any = {
         pagination: { page, pageSize: perPage }
@@ -218,6 +251,28 @@ export const adminDataProvider: DataProvider = {
         return { data }
       }
 
+      if (resource === 'provider-accounts') {
+        const { data, error } = await supabase
+          .from('provider_accounts')
+          .select(ACCOUNT_PUBLIC_COLUMNS)
+          .eq('id', params.id)
+          .single()
+
+        if (error) throw error
+        return { data: data as any }
+      }
+
+      if (resource === 'credit-packages') {
+        const { data, error } = await supabase
+          .from('credit_packages')
+          .select('*')
+          .eq('id', params.id)
+          .single()
+
+        if (error) throw error
+        return { data }
+      }
+
       let endpoint = ''
       let body: any = {}
 
@@ -275,6 +330,26 @@ export const adminDataProvider: DataProvider = {
         return { data: data[0] }
       }
 
+      if (resource === 'provider-accounts') {
+        const { data, error } = await supabase
+          .from('provider_accounts')
+          .insert(params.data)
+          .select(ACCOUNT_PUBLIC_COLUMNS)
+
+        if (error) throw error
+        return { data: data[0] as any }
+      }
+
+      if (resource === 'credit-packages') {
+        const { data, error } = await supabase
+          .from('credit_packages')
+          .insert(params.data)
+          .select()
+
+        if (error) throw error
+        return { data: data[0] }
+      }
+
       let endpoint = ''
       let body: any = {}
 
@@ -397,6 +472,31 @@ export const adminDataProvider: DataProvider = {
         return { data: data[0] }
       }
 
+      if (resource === 'provider-accounts') {
+        // 留空的api_key表示保留原凭证；统计字段由数据库函数维护
+        const { api_key, id, used_today, total_used, quota_date, created_at, updated_at, ...changes } = params.data
+        const { data, error } = await supabase
+          .from('provider_accounts')
+          .update(api_key ? { ...changes, api_key } : changes)
+          .eq('id', params.id)
+          .select(ACCOUNT_PUBLIC_COLUMNS)
+
+        if (error) throw error
+        return { data: data[0] as any }
+      }
+
+      if (resource === 'credit-packages') {
+        const { id, created_at, updated_at, ...changes } = params.data
+        const { data, error } = await supabase
+          .from('credit_packages')
+          .update(changes)
+          .eq('id', params.id)
+          .select()
+
+        if (error) throw error
+        return { data: data[0] }
+      }
+
       let endpoint = ''
       let body: any = {}
 
@@ -512,6 +612,27 @@ export const adminDataProvider: DataProvider = {
         return { data: params.previousData }
       }
 
+      if (resource === 'provider-accounts') {
+        const { error } = await supabase
+          .from('provider_accounts')
+          .delete()
+          .eq('id', params.id)
+
+        if (error) throw error
+        return { data: params.previousData }
+      }
+
+      if (resource === 'credit-packages') {
+        // 历史支付记录引用套餐ID，只做下架处理
+        const { error } = await supabase
+          .from('credit_packages')
+          .update({ is_active: false })
+          .eq('id', params.id)
+
+        if (error) throw error
+        return { data: params.previousData }
+      }
+
       let endpoint = ''
       let body: any = {}
 
@@ -0,0 +1,133 @@
+/**
+ * 模板和视频评论服务
+ * 读取和点赞直接调用数据库函数，发表/编辑/删除经过 comments Edge Function（限流、计数器事件），见 026_comments.sql
+ * 评论只有两级：回复某条回复时挂到它所在的顶层评论下
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export type CommentTargetType = 'template' | 'video'
+
+export interface Comment {
+  id: string
+  parent_comment_id: string | null
+  user_id: string
+  username: string | null
+  full_name: string | null
+  avatar_url: string | null
+  content: string | null       // 已删除但仍有回复的评论为 null
+  is_owner_reply: boolean      // 模板作者或视频作者的评论
+  like_count: number
+  reply_count: number
+  is_liked: boolean
+  is_edited: boolean
+  is_deleted: boolean
+  created_at: string
+}
+
+// Edge Function 返回的错误码，前端按错误码显示本地化提示
+export type CommentErrorCode =
+  | 'COMMENT_RATE_LIMITED'
+  | 'COMMENT_TARGET_NOT_FOUND'
+  | 'COMMENT_INVALID_CONTENT'
+  | 'COMMENT_FAILED'
+
+export const COMMENT_MAX_LENGTH = 1000
+export const COMMENTS_PAGE_SIZE = 20
+export const REPLIES_PAGE_SIZE = 10
+
+class CommentService {
+  /**
+   * 分页获取顶层评论（最新在前）
+   */
+  async getComments(targetType: CommentTargetType, targetId: string, offset = 0, limit = COMMENTS_PAGE_SIZE): Promise<Comment[]> {
+    return this.fetchComments(targetType, targetId, null, offset, limit)
+  }
+
+  /**
+   * 分页获取某条评论的回复（最早在前）
+   */
+  async getReplies(targetType: CommentTargetType, targetId: string, parentId: string, offset = 0, limit = REPLIES_PAGE_SIZE): Promise<Comment[]> {
+    return this.fetchComments(targetType, targetId, parentId, offset, limit)
+  }
+
+  /**
+   * 发表评论或回复，返回新评论ID和实际挂载的顶层评论ID
+   */
+  async createComment(
+    targetType: CommentTargetType,
+    targetId: string,
+    content: string,
+    parentId?: string
+  ): Promise<{ commentId: string; parentId: string | null }> {
+    return this.invoke({ action: 'create', targetType, targetId, content, parentId })
+  }
+
+  async editComment(targetType: CommentTargetType, commentId: string, content: string): Promise<void> {
+    await this.invoke({ action: 'edit', targetType, commentId, content })
+  }
+
+  async deleteComment(targetType: CommentTargetType, commentId: string): Promise<void> {
+    await this.invoke({ action: 'delete', targetType, commentId })
+  }
+
+  /**
+   * 切换评论点赞，返回切换后的状态
+   */
+  async toggleLike(targetType: CommentTargetType, commentId: string): Promise<{ liked: boolean; likeCount: number }> {
+    const { data, error } = await supabase.rpc('toggle_comment_like', {
+      p_target_type: targetType,
+      p_comment_id: commentId
+    })
+
+    if (error || !data?.[0]) {
+      console.error('[CommentService] 评论点赞失败:', error)
+      throw new Error('COMMENT_FAILED')
+    }
+    return { liked: data[0].liked, likeCount: data[0].like_count }
+  }
+
+  private async fetchComments(
+    targetType: CommentTargetType,
+    targetId: string,
+    parentId: string | null,
+    offset: number,
+    limit: number
+  ): Promise<Comment[]> {
+    const { data, error } = await supabase.rpc('get_comments', {
+      p_target_type: targetType,
+      p_target_id: targetId,
+      p_parent_id: parentId,
+      p_limit: limit,
+      p_offset: offset
+    })
+
+    if (error) {
+      console.error('[CommentService] 获取评论失败:', error)
+      throw new Error('COMMENT_FAILED')
+    }
+    return (data || []) as Comment[]
+  }
+
+  /**
+   * 调用 comments Edge Function，失败时抛出错误码
+   */
+  private async invoke<T = any>(body: Record<string, unknown>): Promise<T> {
+    const { data, error } = await supabase.functions.invoke('comments', { body })
+
+    if (error) {
+      // 非 2xx 响应的错误码在响应体中
+      const response = (error as { context?: Response }).context
+      const payload = response && typeof response.json === 'function'
+        ? await response.json().catch(() => null)
+        : null
+      console.error('[CommentService] 评论操作失败:', body.action, payload || error)
+      throw new Error((payload?.code as CommentErrorCode) || 'COMMENT_FAILED')
+    }
+    return data as T
+  }
+}
+
+// 导出单例实例
+export const commentService = new CommentService()
+export default commentService
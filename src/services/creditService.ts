@@ -1,4 +1,4 @@
-import { supabase } from '@/lib/supabase'
+import { supabase, getFunctionAccessToken } from '@/lib/supabase'
 
 export interface CreditTransaction {
   id: string
@@ -13,6 +13,16 @@ export interface CreditTransaction {
   created_at: string
 }
 
+/** 视频退款原因，对应 system_settings 中 video_refund_policy 的各项退款比例 */
+export type VideoRefundReason = 'provider_failure' | 'timeout' | 'content_policy' | 'cancelled'
+
+export interface VideoRefundResult {
+  refunded: boolean
+  amount: number
+  percentage?: number
+  reason: VideoRefundReason
+}
+
 export interface UserCredits {
   credits: number
   total_credits_earned: number
@@ -102,12 +112,12 @@ class CreditService {
   ): Promise<{ success: boolean; newBalance?: number; error?: string }> {
     try {
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-      const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+      const accessToken = await getFunctionAccessToken()
 
       const response = await fetch(`${supabaseUrl}/functions/v1/consume-credits`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${anonKey}`,
+          'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -140,6 +150,7 @@ class CreditService {
 
   /**
    * 添加积分（购买、奖励等，通过Edge Function）
+   * add-credits 只接受 service role 或管理员调用，普通用户调用会被拒绝
    */
   async addCredits(
     userId: string,
@@ -171,12 +182,12 @@ class CreditService {
   ): Promise<{ success: boolean; newBalance?: number; error?: string }> {
     try {
       const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-      const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+      const accessToken = await getFunctionAccessToken()
 
       const response = await fetch(`${supabaseUrl}/functions/v1/add-credits`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${anonKey}`,
+          'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -208,6 +219,38 @@ class CreditService {
     }
   }
 
+  /**
+   * 获取失败或取消视频的退款结果
+   * 退款由数据库触发器在状态切换时按退款策略完成，这里只读取写入视频 metadata 的退款记录
+   */
+  async getVideoRefund(videoId: string): Promise<VideoRefundResult | null> {
+    try {
+      const { data, error } = await supabase
+        .from('videos')
+        .select('metadata')
+        .eq('id', videoId)
+        .single()
+
+      if (error) {
+        console.error('[CREDIT SERVICE] Failed to load video refund:', error)
+        return null
+      }
+
+      const refund = (data?.metadata as any)?.refund
+      if (!refund) return null
+
+      return {
+        refunded: refund.amount > 0,
+        amount: refund.amount,
+        percentage: refund.percentage,
+        reason: refund.reason
+      }
+    } catch (error) {
+      console.error('[CREDIT SERVICE] Error loading video refund:', error)
+      return null
+    }
+  }
+
   /**
    * 检查用户是否有足够积分
    */
@@ -281,7 +324,10 @@ class CreditService {
   /**
    * 获取积分交易类型的显示文本
    */
-  getTransactionTypeText(type: string): string {
+  getTransactionTypeText(type: string, referenceType?: string): string {
+    if (type === 'refund' && referenceType === 'video_refund') {
+      return '视频生成退款'
+    }
     const typeMap: Record<string, string> = {
       'purchase': '购买积分',
       'reward': '奖励获得',
@@ -0,0 +1,287 @@
+/**
+ * 收藏和收藏夹服务
+ * 模板和公开视频可以收藏到命名收藏夹，收藏/取消收藏通过 RPC 校验目标是否公开，收藏数由触发器维护；
+ * 收藏夹的增删改直接写 favorite_collections 表（RLS），分享令牌由 set_collection_sharing 生成（027_favorite_collections.sql）
+ */
+
+import { supabase } from '@/lib/supabase'
+import { likesCacheService } from '@/services/likesCacheService'
+import redisCacheIntegrationService from '@/services/RedisCacheIntegrationService'
+import shortLinkService from '@/services/shortLinkService'
+
+export type FavoriteTargetType = 'template' | 'video'
+
+// 未指定收藏夹时收藏到默认收藏夹，界面上显示为本地化名称
+export const DEFAULT_COLLECTION_NAME = 'default'
+export const COLLECTION_NAME_MAX_LENGTH = 50
+export const COLLECTION_ITEMS_PAGE_SIZE = 24
+
+export interface FavoriteCollection {
+  id: string
+  name: string
+  share_token: string | null
+  template_count: number
+  video_count: number
+  cover_url: string | null
+  updated_at: string
+}
+
+export interface CollectionItem {
+  item_type: FavoriteTargetType
+  item_id: string
+  title: string | null
+  thumbnail_url: string | null
+  creator_username: string | null
+  favorited_at: string
+}
+
+export interface SharedCollection {
+  id: string
+  name: string
+  owner_id: string
+  owner_username: string | null
+  owner_full_name: string | null
+  owner_avatar_url: string | null
+  updated_at: string
+}
+
+export interface FavoriteStatus {
+  isFavorited: boolean
+  collectionName: string | null
+  favoriteCount: number
+}
+
+// 数据库返回的错误码，前端按错误码显示本地化提示
+export type FavoriteErrorCode =
+  | 'FAVORITE_TARGET_NOT_FOUND'
+  | 'COLLECTION_LIMIT_REACHED'
+  | 'COLLECTION_INVALID_NAME'
+  | 'COLLECTION_NAME_TAKEN'
+  | 'COLLECTION_NOT_FOUND'
+  | 'FAVORITE_FAILED'
+
+const KNOWN_ERROR_CODES: FavoriteErrorCode[] = [
+  'FAVORITE_TARGET_NOT_FOUND',
+  'COLLECTION_LIMIT_REACHED',
+  'COLLECTION_INVALID_NAME',
+  'COLLECTION_NOT_FOUND'
+]
+
+class FavoriteService {
+  /**
+   * 获取当前用户对某个模板/视频的收藏状态和收藏数
+   */
+  async getFavoriteStatus(targetType: FavoriteTargetType, targetId: string, userId?: string): Promise<FavoriteStatus> {
+    const table = targetType === 'template' ? 'templates' : 'videos'
+
+    const [{ data: target }, favorite] = await Promise.all([
+      supabase.from(table).select('favorite_count').eq('id', targetId).maybeSingle(),
+      userId ? this.getFavoriteRecord(targetType, targetId, userId) : Promise.resolve(null)
+    ])
+
+    return {
+      isFavorited: !!favorite,
+      collectionName: favorite?.folder_name || null,
+      favoriteCount: target?.favorite_count || 0
+    }
+  }
+
+  /**
+   * 收藏到指定收藏夹（已收藏时移动到该收藏夹），返回最新收藏数
+   */
+  async addFavorite(
+    targetType: FavoriteTargetType,
+    targetId: string,
+    collectionName: string = DEFAULT_COLLECTION_NAME
+  ): Promise<number> {
+    const { data, error } = await supabase.rpc('add_favorite', {
+      p_target_type: targetType,
+      p_target_id: targetId,
+      p_collection_name: collectionName
+    })
+
+    if (error) {
+      console.error('[FavoriteService] 收藏失败:', error)
+      throw new Error(this.toErrorCode(error.message))
+    }
+
+    const favoriteCount = Number(data) || 0
+    await this.syncTemplateCache(targetType, targetId, true, favoriteCount)
+    return favoriteCount
+  }
+
+  /**
+   * 取消收藏，返回最新收藏数
+   */
+  async removeFavorite(targetType: FavoriteTargetType, targetId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('remove_favorite', {
+      p_target_type: targetType,
+      p_target_id: targetId
+    })
+
+    if (error) {
+      console.error('[FavoriteService] 取消收藏失败:', error)
+      throw new Error(this.toErrorCode(error.message))
+    }
+
+    const favoriteCount = Number(data) || 0
+    await this.syncTemplateCache(targetType, targetId, false, favoriteCount)
+    return favoriteCount
+  }
+
+  /**
+   * 当前用户的收藏夹列表（默认收藏夹在最前）
+   */
+  async getCollections(): Promise<FavoriteCollection[]> {
+    const { data, error } = await supabase.rpc('get_favorite_collections')
+
+    if (error) {
+      console.error('[FavoriteService] 获取收藏夹失败:', error)
+      throw new Error('FAVORITE_FAILED')
+    }
+    return (data || []) as FavoriteCollection[]
+  }
+
+  /**
+   * 分页获取收藏夹内容（收藏者本人或已分享的收藏夹）
+   */
+  async getCollectionItems(collectionId: string, offset = 0, limit = COLLECTION_ITEMS_PAGE_SIZE): Promise<CollectionItem[]> {
+    const { data, error } = await supabase.rpc('get_collection_items', {
+      p_collection_id: collectionId,
+      p_limit: limit,
+      p_offset: offset
+    })
+
+    if (error) {
+      console.error('[FavoriteService] 获取收藏夹内容失败:', error)
+      throw new Error('FAVORITE_FAILED')
+    }
+    return (data || []) as CollectionItem[]
+  }
+
+  async createCollection(userId: string, name: string): Promise<void> {
+    const { error } = await supabase
+      .from('favorite_collections')
+      .insert({ user_id: userId, name: name.trim() })
+
+    if (error) {
+      console.error('[FavoriteService] 创建收藏夹失败:', error)
+      throw new Error(this.toCollectionErrorCode(error))
+    }
+  }
+
+  /**
+   * 重命名收藏夹，收藏记录随外键级联更新
+   */
+  async renameCollection(collectionId: string, name: string): Promise<void> {
+    const { error } = await supabase
+      .from('favorite_collections')
+      .update({ name: name.trim() })
+      .eq('id', collectionId)
+
+    if (error) {
+      console.error('[FavoriteService] 重命名收藏夹失败:', error)
+      throw new Error(this.toCollectionErrorCode(error))
+    }
+  }
+
+  /**
+   * 删除收藏夹及其中的收藏记录
+   */
+  async deleteCollection(collectionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('favorite_collections')
+      .delete()
+      .eq('id', collectionId)
+
+    if (error) {
+      console.error('[FavoriteService] 删除收藏夹失败:', error)
+      throw new Error('FAVORITE_FAILED')
+    }
+
+    // 被删除的模板收藏数已变化，清掉本地缓存重新获取
+    likesCacheService.clear()
+  }
+
+  /**
+   * 开启或关闭收藏夹分享，开启时返回分享令牌
+   */
+  async setSharing(collectionId: string, enabled: boolean): Promise<string | null> {
+    const { data, error } = await supabase.rpc('set_collection_sharing', {
+      p_collection_id: collectionId,
+      p_enabled: enabled
+    })
+
+    if (error) {
+      console.error('[FavoriteService] 设置收藏夹分享失败:', error)
+      throw new Error(this.toErrorCode(error.message))
+    }
+    return (data as string | null) || null
+  }
+
+  /**
+   * 收藏夹分享短链接（记录点击来源）
+   */
+  async getShareUrl(shareToken: string): Promise<string> {
+    try {
+      return await shortLinkService.createShortLink({ linkType: 'collection', resourceId: shareToken })
+    } catch (error) {
+      console.warn('[FavoriteService] 创建分享短链接失败，使用完整链接:', error)
+      return `${window.location.origin}/collections/${shareToken}`
+    }
+  }
+
+  async getSharedCollection(shareToken: string): Promise<SharedCollection | null> {
+    const { data, error } = await supabase.rpc('get_shared_collection', {
+      p_share_token: shareToken
+    })
+
+    if (error) {
+      console.error('[FavoriteService] 获取分享收藏夹失败:', error)
+      throw new Error('FAVORITE_FAILED')
+    }
+    return (data?.[0] as SharedCollection) || null
+  }
+
+  private async getFavoriteRecord(
+    targetType: FavoriteTargetType,
+    targetId: string,
+    userId: string
+  ): Promise<{ folder_name: string } | null> {
+    const query = targetType === 'template'
+      ? supabase.from('template_favorites').select('folder_name').eq('template_id', targetId)
+      : supabase.from('video_favorites').select('folder_name').eq('video_id', targetId)
+
+    const { data } = await query.eq('user_id', userId).maybeSingle()
+    return data
+  }
+
+  /**
+   * 模板收藏数和点赞数一起缓存，收藏变化后同步本地缓存并使服务端统计缓存失效
+   */
+  private async syncTemplateCache(
+    targetType: FavoriteTargetType,
+    targetId: string,
+    isFavorited: boolean,
+    favoriteCount: number
+  ): Promise<void> {
+    if (targetType !== 'template') return
+
+    likesCacheService.updateFavoriteStatus(targetId, isFavorited, favoriteCount)
+    await redisCacheIntegrationService.invalidateTemplateStats(targetId)
+  }
+
+  private toErrorCode(message: string): FavoriteErrorCode {
+    return KNOWN_ERROR_CODES.find(code => message.includes(code)) || 'FAVORITE_FAILED'
+  }
+
+  private toCollectionErrorCode(error: { code?: string; message: string }): FavoriteErrorCode {
+    if (error.code === '23505') return 'COLLECTION_NAME_TAKEN'
+    if (error.code === '23514') return 'COLLECTION_INVALID_NAME'
+    return this.toErrorCode(error.message)
+  }
+}
+
+// 导出单例实例
+export const favoriteService = new FavoriteService()
+export default favoriteService
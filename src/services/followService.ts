@@ -0,0 +1,160 @@
+/**
+ * 关注服务
+ * 关注/取消关注直接写 user_follows 表（RLS），粉丝数由触发器维护；
+ * 关注动态和粉丝/关注列表通过 RPC 获取，发布通知由触发器生成（028_following_feed.sql）
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export type FollowListType = 'followers' | 'following'
+export type FeedItemType = 'video' | 'template'
+
+export const FEED_PAGE_SIZE = 20
+export const FOLLOW_LIST_PAGE_SIZE = 20
+
+export interface FollowStatus {
+  isFollowing: boolean
+  notifyOnPublish: boolean
+}
+
+export interface FollowListUser {
+  id: string
+  username: string | null
+  full_name: string | null
+  avatar_url: string | null
+  is_verified: boolean
+  is_followed_by_viewer: boolean
+  followed_at: string
+}
+
+export interface FeedItem {
+  item_type: FeedItemType
+  item_id: string
+  title: string | null
+  description: string | null
+  thumbnail_url: string | null
+  creator_id: string
+  creator_username: string | null
+  creator_full_name: string | null
+  creator_avatar_url: string | null
+  like_count: number
+  view_count: number
+  published_at: string
+}
+
+// 游标为上一页最后一条的发布时间和 ID
+export interface FeedCursor {
+  publishedAt: string
+  itemId: string
+}
+
+class FollowService {
+  async getFollowStatus(followerId: string, followingId: string): Promise<FollowStatus> {
+    const { data, error } = await supabase
+      .from('user_follows')
+      .select('notify_on_publish')
+      .eq('follower_id', followerId)
+      .eq('following_id', followingId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[FollowService] 获取关注状态失败:', error)
+      throw error
+    }
+
+    return {
+      isFollowing: !!data,
+      notifyOnPublish: !!data?.notify_on_publish
+    }
+  }
+
+  async follow(followerId: string, followingId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_follows')
+      .insert({ follower_id: followerId, following_id: followingId })
+
+    // 重复关注（23505）视为成功
+    if (error && error.code !== '23505') {
+      console.error('[FollowService] 关注失败:', error)
+      throw error
+    }
+  }
+
+  async unfollow(followerId: string, followingId: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_follows')
+      .delete()
+      .eq('follower_id', followerId)
+      .eq('following_id', followingId)
+
+    if (error) {
+      console.error('[FollowService] 取消关注失败:', error)
+      throw error
+    }
+  }
+
+  /**
+   * 开启/关闭某个创作者的发布通知（需要已关注）
+   */
+  async setNotifyOnPublish(followerId: string, followingId: string, enabled: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('user_follows')
+      .update({ notify_on_publish: enabled })
+      .eq('follower_id', followerId)
+      .eq('following_id', followingId)
+
+    if (error) {
+      console.error('[FollowService] 设置发布通知失败:', error)
+      throw error
+    }
+  }
+
+  /**
+   * 分页获取粉丝或关注列表
+   */
+  async getFollowList(
+    userId: string,
+    listType: FollowListType,
+    offset = 0,
+    limit = FOLLOW_LIST_PAGE_SIZE
+  ): Promise<FollowListUser[]> {
+    const { data, error } = await supabase.rpc('get_follow_list', {
+      p_user_id: userId,
+      p_list_type: listType,
+      p_limit: limit,
+      p_offset: offset
+    })
+
+    if (error) {
+      console.error('[FollowService] 获取关注列表失败:', error)
+      throw error
+    }
+    return (data || []) as FollowListUser[]
+  }
+
+  /**
+   * 当前用户的关注动态，按发布时间倒序
+   */
+  async getFeed(cursor?: FeedCursor | null, limit = FEED_PAGE_SIZE): Promise<FeedItem[]> {
+    const { data, error } = await supabase.rpc('get_following_feed', {
+      p_before: cursor?.publishedAt ?? null,
+      p_before_id: cursor?.itemId ?? null,
+      p_limit: limit
+    })
+
+    if (error) {
+      console.error('[FollowService] 获取关注动态失败:', error)
+      throw error
+    }
+    return (data || []) as FeedItem[]
+  }
+
+  getNextCursor(items: FeedItem[]): FeedCursor | null {
+    const last = items[items.length - 1]
+    return last ? { publishedAt: last.published_at, itemId: last.item_id } : null
+  }
+}
+
+// 导出单例实例
+export const followService = new FollowService()
+export default followService
@@ -0,0 +1,184 @@
+/**
+ * 图生视频参考图片上传服务
+ * 校验模板参数的 accept / maxSize，按提供方限制缩放并重新编码，
+ * 上传到私有的 generation-inputs 存储桶（按用户目录存放），返回供提供方拉取的签名URL
+ * 过期文件由服务端队列Worker按保留时间清理（019_generation_input_uploads.sql）
+ */
+
+import { supabase, uploadFile } from '@/lib/supabase'
+
+export const GENERATION_INPUT_BUCKET = 'generation-inputs'
+
+// 提供方对参考图片的限制
+const PROVIDER_IMAGE_LIMITS = {
+  maxDimension: 2048,
+  maxBytes: 10 * 1024 * 1024,
+  mimeTypes: ['image/jpeg', 'image/png', 'image/webp']
+}
+
+// 重新编码使用的格式和质量
+const REENCODE_TYPE = 'image/jpeg'
+const REENCODE_QUALITY = 0.9
+
+// 签名URL有效期（秒），服务端Worker启动任务时会按存储路径重新签名
+const SIGNED_URL_EXPIRES_IN = 60 * 60
+
+export type ImageValidationError = 'invalid_type' | 'too_large'
+
+export interface ImageConstraints {
+  accept?: string    // 与 <input accept> 相同的格式，例如 "image/jpeg,image/png"
+  maxSize?: number   // 字节
+}
+
+export interface UploadedGenerationImage {
+  path: string       // 存储桶内路径：{userId}/{timestamp}-{random}.jpg
+  signedUrl: string
+}
+
+class ImageUploadService {
+  /**
+   * 按模板参数校验图片，通过时返回 null
+   */
+  validateImage(file: File, constraints: ImageConstraints = {}): ImageValidationError | null {
+    if (!this.matchesAccept(file.type, constraints.accept)) {
+      return 'invalid_type'
+    }
+
+    if (constraints.maxSize && file.size > constraints.maxSize) {
+      return 'too_large'
+    }
+
+    return null
+  }
+
+  /**
+   * 上传参考图片并返回签名URL
+   * image 可以是 File 或 base64 data URL；已经是 http(s) URL 的图片不需要上传
+   */
+  async uploadGenerationImage(
+    userId: string,
+    image: File | string,
+    constraints: ImageConstraints = {}
+  ): Promise<UploadedGenerationImage> {
+    const file = typeof image === 'string' ? this.dataUrlToFile(image) : image
+
+    const validationError = this.validateImage(file, constraints)
+    if (validationError) {
+      throw new Error(validationError === 'invalid_type'
+        ? `不支持的图片格式: ${file.type || 'unknown'}`
+        : `图片超过大小限制: ${Math.round(file.size / 1024)}KB`)
+    }
+
+    const prepared = await this.prepareForProvider(file)
+    const extension = prepared.type === 'image/png' ? 'png' : prepared.type === 'image/webp' ? 'webp' : 'jpg'
+    const path = `${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 10)}.${extension}`
+
+    await uploadFile(GENERATION_INPUT_BUCKET, path, prepared, {
+      contentType: prepared.type
+    })
+
+    const { data, error } = await supabase.storage
+      .from(GENERATION_INPUT_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_EXPIRES_IN)
+
+    if (error || !data?.signedUrl) {
+      console.error('[IMAGE UPLOAD] Failed to create signed URL:', error)
+      throw new Error('参考图片签名URL生成失败')
+    }
+
+    console.log(`[IMAGE UPLOAD] Uploaded generation image ${path} (${Math.round(prepared.size / 1024)}KB)`)
+    return { path, signedUrl: data.signedUrl }
+  }
+
+  /**
+   * 删除已上传但未使用的参考图片（例如提交失败时）
+   */
+  async removeGenerationImage(path: string): Promise<void> {
+    const { error } = await supabase.storage
+      .from(GENERATION_INPUT_BUCKET)
+      .remove([path])
+
+    if (error) {
+      console.warn('[IMAGE UPLOAD] Failed to remove generation image:', error)
+    }
+  }
+
+  /**
+   * 缩放并重新编码到提供方限制以内，已满足限制的图片原样返回
+   */
+  private async prepareForProvider(file: File): Promise<File> {
+    const bitmap = await createImageBitmap(file)
+
+    try {
+      const longestSide = Math.max(bitmap.width, bitmap.height)
+      const withinLimits = longestSide <= PROVIDER_IMAGE_LIMITS.maxDimension &&
+        file.size <= PROVIDER_IMAGE_LIMITS.maxBytes &&
+        PROVIDER_IMAGE_LIMITS.mimeTypes.includes(file.type)
+
+      if (withinLimits) {
+        return file
+      }
+
+      const scale = Math.min(1, PROVIDER_IMAGE_LIMITS.maxDimension / longestSide)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(bitmap.width * scale)
+      canvas.height = Math.round(bitmap.height * scale)
+
+      const context = canvas.getContext('2d')
+      if (!context) {
+        throw new Error('浏览器不支持图片处理')
+      }
+
+      // JPEG 不支持透明，先铺白底
+      context.fillStyle = '#ffffff'
+      context.fillRect(0, 0, canvas.width, canvas.height)
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+      const blob = await new Promise<Blob | null>(resolve =>
+        canvas.toBlob(resolve, REENCODE_TYPE, REENCODE_QUALITY)
+      )
+      if (!blob) {
+        throw new Error('图片重新编码失败')
+      }
+      if (blob.size > PROVIDER_IMAGE_LIMITS.maxBytes) {
+        throw new Error('图片压缩后仍超过提供方大小限制')
+      }
+
+      console.log(`[IMAGE UPLOAD] Resized ${bitmap.width}x${bitmap.height} -> ${canvas.width}x${canvas.height}`)
+      return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.jpg', { type: REENCODE_TYPE })
+    } finally {
+      bitmap.close()
+    }
+  }
+
+  private matchesAccept(mimeType: string, accept?: string): boolean {
+    if (!mimeType.startsWith('image/')) return false
+    if (!accept) return true
+
+    return accept
+      .split(',')
+      .map(type => type.trim().toLowerCase())
+      .filter(Boolean)
+      .some(type => type.endsWith('/*')
+        ? mimeType.startsWith(type.slice(0, -1))
+        : mimeType.toLowerCase() === type)
+  }
+
+  private dataUrlToFile(dataUrl: string): File {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.+)$/)
+    if (!match) {
+      throw new Error('无效的图片数据')
+    }
+
+    const binary = atob(match[2])
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+
+    return new File([bytes], 'upload', { type: match[1] })
+  }
+}
+
+export const imageUploadService = new ImageUploadService()
+export default imageUploadService
@@ -7,6 +7,8 @@ export interface CachedLikeStatus {
   template_id: string
   is_liked: boolean
   like_count: number
+  is_favorited?: boolean
+  favorite_count?: number
   cached_at: number
   ttl: number
 }
@@ -133,6 +135,7 @@ class LikesCacheService {
     const existing = this.cache.get(templateId)
     
     const updated: CachedLikeStatus = {
+      ...existing,
       template_id: templateId,
       is_liked: isLiked,
       like_count: newLikeCount,
@@ -146,6 +149,25 @@ class LikesCacheService {
     this.updateBatchCaches(templateId, updated)
   }
 
+  /**
+   * 更新模板收藏状态（收藏/取消收藏后调用），保留点赞数据
+   */
+  updateFavoriteStatus(templateId: string, isFavorited: boolean, newFavoriteCount: number): void {
+    const existing = this.get(templateId)
+    if (!existing) return
+
+    const updated: CachedLikeStatus = {
+      ...existing,
+      is_favorited: isFavorited,
+      favorite_count: newFavoriteCount,
+      cached_at: Date.now(),
+      ttl: this.DEFAULT_TTL
+    }
+
+    this.cache.set(templateId, updated)
+    this.updateBatchCaches(templateId, updated)
+  }
+
   /**
    * 增加点赞数（乐观更新）
    */
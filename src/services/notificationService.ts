@@ -0,0 +1,211 @@
+/**
+ * 站内通知服务
+ * 通知由数据库触发器生成（视频完成/失败、新粉丝、模板点赞、邀请成功、积分不足、订阅续费，见 025_notification_center.sql；
+ * 关注的创作者发布新内容，见 028_following_feed.sql），
+ * 客户端只负责读取、标记已读，并通过 Realtime 接收新通知
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export type NotificationType =
+  | 'like'
+  | 'comment'
+  | 'follow'
+  | 'reply'
+  | 'mention'
+  | 'template_featured'
+  | 'system'
+  | 'video_completed'
+  | 'video_failed'
+  | 'referral_accepted'
+  | 'low_credits'
+  | 'subscription_renewed'
+  | 'creator_published'
+
+export interface NotificationSender {
+  id: string
+  username: string | null
+  avatar_url: string | null
+}
+
+export interface Notification {
+  id: string
+  user_id: string
+  type: NotificationType
+  title: string
+  content: string | null
+  related_id: string | null
+  related_type: string | null
+  sender_id: string | null
+  data: Record<string, any>
+  is_read: boolean
+  read_at: string | null
+  created_at: string
+  sender?: NotificationSender | null
+}
+
+const NOTIFICATION_SELECT = '*, sender:profiles!notifications_sender_id_fkey(id, username, avatar_url)'
+
+class NotificationService {
+  /**
+   * 获取用户的通知列表（按时间倒序）
+   */
+  async getNotifications(userId: string, limit = 20, before?: string): Promise<Notification[]> {
+    let query = supabase
+      .from('notifications')
+      .select(NOTIFICATION_SELECT)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (before) {
+      query = query.lt('created_at', before)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('[NotificationService] 获取通知失败:', error)
+      throw error
+    }
+    return (data || []) as Notification[]
+  }
+
+  /**
+   * 获取单条通知（Realtime 推送的行不含发送者信息）
+   */
+  async getNotification(id: string): Promise<Notification | null> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(NOTIFICATION_SELECT)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      console.error('[NotificationService] 获取通知失败:', error)
+      return null
+    }
+    return data as Notification | null
+  }
+
+  /**
+   * 未读通知数
+   */
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_read', false)
+
+    if (error) {
+      console.error('[NotificationService] 获取未读数失败:', error)
+      return 0
+    }
+    return count || 0
+  }
+
+  /**
+   * 标记指定通知为已读
+   */
+  async markAsRead(ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0
+
+    const { data, error } = await supabase.rpc('mark_notifications_read', { p_ids: ids })
+    if (error) {
+      console.error('[NotificationService] 标记已读失败:', error)
+      throw error
+    }
+    return data || 0
+  }
+
+  /**
+   * 标记全部通知为已读
+   */
+  async markAllAsRead(): Promise<number> {
+    const { data, error } = await supabase.rpc('mark_notifications_read', { p_ids: null })
+    if (error) {
+      console.error('[NotificationService] 全部标记已读失败:', error)
+      throw error
+    }
+    return data || 0
+  }
+
+  /**
+   * 订阅用户的新通知和已读状态变化（其它标签页标记已读时同步）
+   */
+  subscribeToNotifications(
+    userId: string,
+    handlers: {
+      onInsert: (notification: Notification) => void
+      onUpdate?: (notification: Notification) => void
+    }
+  ): () => void {
+    const subscription = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        (payload) => {
+          handlers.onInsert(payload.new as Notification)
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        (payload) => {
+          handlers.onUpdate?.(payload.new as Notification)
+        }
+      )
+      .subscribe()
+
+    // 返回取消订阅函数
+    return () => {
+      subscription.unsubscribe()
+    }
+  }
+
+  /**
+   * 通知点击后跳转的站内路径
+   */
+  getLink(notification: Notification): string | null {
+    switch (notification.type) {
+      case 'video_completed':
+      case 'video_failed':
+        return '/videos'
+      case 'follow':
+        return notification.sender?.username ? `/profile/${notification.sender.username}` : null
+      case 'like':
+      case 'comment':
+      case 'reply':
+      case 'template_featured':
+        return '/templates'
+      case 'referral_accepted':
+        return '/pricing?activeTab=referral'
+      case 'low_credits':
+        return '/pricing?activeTab=credits'
+      case 'subscription_renewed':
+        return '/profile'
+      case 'creator_published':
+        if (!notification.related_id) return null
+        return notification.related_type === 'template'
+          ? `/templates/${notification.related_id}`
+          : `/video/${notification.related_id}`
+      default:
+        return null
+    }
+  }
+}
+
+// 导出单例实例
+export const notificationService = new NotificationService()
+export default notificationService
@@ -1,10 +1,15 @@
 /**
  * 受保护的下载服务
- * 统一管理所有视频下载，根据用户订阅状态决定是否添加水印
+ * 统一管理所有视频下载，由 video-download Edge Function 按水印方案的订阅等级规则选择版本：
+ * 规则为无水印时获得原视频的短时签名URL，其余情况获得服务端按方案生成的带水印版本
+ * （水印由 scripts/video-rendition-worker.js 在视频完成时生成，见 023_video_renditions.sql、024_watermark_profiles.sql）
  */
 
-import { SubscriptionService } from '@/services/subscriptionService'
-import WatermarkService from '@/services/watermarkService'
+import { Zip, ZipPassThrough, strToU8 } from 'fflate'
+import { supabase, type Database } from '@/lib/supabase'
+import redisCacheIntegrationService from '@/services/RedisCacheIntegrationService'
+import { mapAnnualToBaseTier } from '@/services/videoQueueService'
+import WatermarkService, { type WatermarkProfile } from '@/services/watermarkService'
 import videoShareService from '@/services/videoShareService'
 import { toast } from 'sonner'
 
@@ -16,168 +21,135 @@ export interface DownloadOptions {
   onError?: (error: string) => void
 }
 
+export type DownloadRendition = 'original' | 'watermarked'
+
+type Video = Database['public']['Tables']['videos']['Row']
+
+// 单个压缩包最多包含的视频数
+export const MAX_ZIP_VIDEOS = 50
+
+// 不支持 File System Access API 时压缩包在内存中拼接，超过该大小的视频不再写入
+export const MAX_IN_MEMORY_ZIP_BYTES = 500 * 1024 * 1024
+
+// 单个视频下载失败时的重试次数
+const ZIP_ENTRY_RETRIES = 2
+
+export interface ZipDownloadProgress {
+  completedFiles: number
+  totalFiles: number
+  bytesWritten: number
+  currentFile?: string
+}
+
+export interface ZipDownloadOptions {
+  filename?: string
+  signal?: AbortSignal
+  onProgress?: (progress: ZipDownloadProgress) => void
+}
+
+export interface ZipDownloadResult {
+  /** 已写入压缩包的视频 */
+  includedIds: string[]
+  /** 未写入的视频（水印版本处理中、下载失败或超过内存打包大小限制） */
+  skipped: Array<{ videoId: string; reason: string }>
+}
+
+/**
+ * 压缩包写入目标：支持 File System Access API 时直接流式写入磁盘，否则在内存中拼成 Blob 后下载
+ * maxBytes 为内存模式下压缩包的大小上限
+ */
+interface ZipSink {
+  maxBytes?: number
+  write(chunk: Uint8Array): Promise<void>
+  close(): Promise<void>
+  abort(): Promise<void>
+}
+
+type SaveFilePicker = (options: {
+  suggestedName: string
+  types: Array<{ description: string; accept: Record<string, string[]> }>
+}) => Promise<{ createWritable(): Promise<{ write(data: Uint8Array): Promise<void>; close(): Promise<void>; abort(): Promise<void> }> }>
+
+interface VideoDownloadResponse {
+  status: 'ready' | 'processing' | 'failed'
+  rendition?: DownloadRendition
+  profileId?: string | null
+  url?: string
+  filename?: string
+  error?: string
+}
+
 export class ProtectedDownloadService {
   /**
    * 统一的视频下载方法
-   * 自动检查用户订阅状态，为免费用户添加水印
+   * 下载地址由服务端决定，客户端不再直接使用 video_url
    */
   static async downloadVideo(
-    userId: string,
-    videoId: string, 
-    videoUrl: string,
+    videoId: string,
     videoTitle: string = 'video',
     options: DownloadOptions = {}
   ): Promise<void> {
     const {
       filename,
       showProgress = true,
-      onProgress,
       onComplete,
       onError
     } = options
 
-    console.log('[ProtectedDownload] 开始下载视频:', {
-      userId,
-      videoId,
-      videoUrl,
-      videoTitle
-    })
-
-    if (!videoUrl) {
-      const error = '视频URL为空，无法下载'
-      console.warn('[ProtectedDownload]', error)
-      onError?.(error)
-      if (showProgress) toast.error(error)
-      return
-    }
+    console.log('[ProtectedDownload] 开始下载视频:', { videoId, videoTitle })
 
     try {
-      // 1. 检查用户订阅状态
-      const subscription = await SubscriptionService.getCurrentSubscription(userId)
-      const isPaidUser = subscription && subscription.status === 'active'
-      
-      console.log('[ProtectedDownload] 用户订阅状态:', { isPaidUser, subscription })
-
-      const defaultFilename = filename || `${videoTitle}-${videoId}.mp4`
-      
-      if (isPaidUser) {
-        // 付费用户：直接下载无水印原视频
-        console.log('[ProtectedDownload] 付费用户，直接下载原视频')
-        
+      const data = await this.requestDownload(videoId)
+
+      // 视频刚生成完成，水印版本还在处理中
+      if (data.status === 'processing') {
+        console.log('[ProtectedDownload] 视频处理中，稍后再试:', videoId)
         if (showProgress) {
-          toast.info('开始下载高清无水印视频...', { 
+          toast.info('视频正在处理中，请稍后再下载', {
             id: 'download-' + videoId,
-            duration: 3000
-          })
-        }
-        
-        // 尝试使用 videoShareService，如果失败则使用直接下载
-        try {
-          await videoShareService.downloadVideo(videoId, videoUrl, {
-            filename: defaultFilename
+            duration: 5000
           })
-        } catch (shareServiceError) {
-          console.warn('[ProtectedDownload] videoShareService 失败，使用直接下载:', shareServiceError)
-          // 直接下载备用方案
-          const a = document.createElement('a')
-          a.href = videoUrl
-          a.download = defaultFilename
-          document.body.appendChild(a)
-          a.click()
-          document.body.removeChild(a)
-        }
-        
-        if (showProgress) {
-          setTimeout(() => {
-            toast.success('下载开始！', { 
-              id: 'download-' + videoId,
-              duration: 4000
-            })
-          }, 1000)
-        }
-        
-      } else {
-        // 免费用户：添加水印后下载
-        console.log('[ProtectedDownload] 免费用户，添加水印后下载')
-        
-        // 检查浏览器支持
-        if (!WatermarkService.isSupported()) {
-          const error = '您的浏览器不支持水印功能，请使用最新版Chrome或Firefox'
-          console.warn('[ProtectedDownload]', error)
-          onError?.(error)
-          if (showProgress) toast.error(error)
-          return
         }
+        return
+      }
 
-        // 显示处理中的提示
-        if (showProgress) {
-          toast.info('正在为视频添加水印，请稍候...', { 
-            id: 'watermark-' + videoId,
-            duration: 0 // 不自动关闭
-          })
-        }
-        
-        try {
-          // 获取最佳输出格式
-          const bestFormat = WatermarkService.getBestVideoFormat()
-          console.log('[ProtectedDownload] 使用格式:', bestFormat)
-          
-          // 添加水印
-          const watermarkedBlob = await WatermarkService.addWatermarkToVideo(
-            videoUrl, 
-            undefined, // 使用默认水印配置
-          )
-          
-          const watermarkedFilename = `${videoTitle}-${videoId}-watermarked.${bestFormat.extension}`
-          
-          // 创建下载
-          WatermarkService.createDownloadUrl(watermarkedBlob, watermarkedFilename)
-          
-          // 关闭处理提示，显示成功消息
-          if (showProgress) {
-            toast.dismiss('watermark-' + videoId)
-            toast.success(`带水印视频已生成！格式：${bestFormat.format}`, {
-              duration: 4000
-            })
-          }
-          
-          onComplete?.()
-          
-        } catch (watermarkError) {
-          console.error('[ProtectedDownload] 水印处理失败，降级到原视频下载:', watermarkError)
-          
-          if (showProgress) {
-            toast.dismiss('watermark-' + videoId)
-            toast.warning('水印处理失败，下载原视频')
-          }
-          
-          // 降级到原视频下载
-          try {
-            await videoShareService.downloadVideo(videoId, videoUrl, {
-              filename: defaultFilename
-            })
-          } catch (shareServiceError) {
-            console.warn('[ProtectedDownload] 降级下载时 videoShareService 失败，使用直接下载:', shareServiceError)
-            // 直接下载备用方案
-            const a = document.createElement('a')
-            a.href = videoUrl
-            a.download = defaultFilename
-            document.body.appendChild(a)
-            a.click()
-            document.body.removeChild(a)
-          }
-          
-          onError?.(`水印处理失败: ${watermarkError instanceof Error ? watermarkError.message : '未知错误'}`)
-        }
+      if (data.status !== 'ready' || !data.url) {
+        throw new Error(data.error || '视频处理失败')
+      }
+
+      const downloadFilename = filename || data.filename || `${videoTitle}-${videoId}.mp4`
+      console.log('[ProtectedDownload] 下载版本:', data.rendition, data.profileId)
+
+      if (showProgress) {
+        toast.info(
+          data.rendition === 'original' ? '开始下载高清无水印视频...' : '开始下载带水印视频...',
+          { id: 'download-' + videoId, duration: 3000 }
+        )
+      }
+
+      try {
+        await videoShareService.downloadVideo(videoId, data.url, {
+          filename: downloadFilename
+        })
+      } catch (shareServiceError) {
+        console.warn('[ProtectedDownload] videoShareService 失败，使用直接下载:', shareServiceError)
+        // 直接下载备用方案
+        const a = document.createElement('a')
+        a.href = data.url
+        a.download = downloadFilename
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
       }
-      
+
+      onComplete?.()
     } catch (error) {
       console.error('[ProtectedDownload] 下载失败:', error)
       const errorMessage = `下载失败: ${error instanceof Error ? error.message : '未知错误'}`
-      
+
       onError?.(errorMessage)
       if (showProgress) {
-        toast.error(errorMessage, { 
+        toast.error(errorMessage, {
           id: 'download-' + videoId,
           duration: 5000
         })
@@ -186,25 +158,261 @@ export class ProtectedDownloadService {
   }
 
   /**
-   * 检查用户是否有下载权限
+   * 把多个视频打包成一个 zip 下载
+   * 每个视频按 video-download 函数返回的版本写入（与单个下载的水印规则一致），
+   * 附带 manifest.json 记录提示词、参数和模板ID；视频本身已压缩，使用存储模式不再压缩
    */
-  static async hasDownloadPermission(userId: string): Promise<boolean> {
+  static async downloadVideosAsZip(
+    videos: Video[],
+    options: ZipDownloadOptions = {}
+  ): Promise<ZipDownloadResult> {
+    const { signal, onProgress } = options
+    const filename = options.filename || `videos-${new Date().toISOString().slice(0, 10)}.zip`
+
+    if (videos.length > MAX_ZIP_VIDEOS) {
+      throw new Error(`一次最多打包 ${MAX_ZIP_VIDEOS} 个视频`)
+    }
+
+    // 需要在用户点击的同一事件中打开保存对话框，必须在其它异步操作之前创建
+    const sink = await this.createZipSink(filename)
+    let writeChain = Promise.resolve()
+    let writeError: Error | null = null
+    let bytesWritten = 0
+
+    const zip = new Zip((error, chunk, final) => {
+      if (error) {
+        writeError = error
+        return
+      }
+      bytesWritten += chunk.length
+      writeChain = writeChain.then(() => sink.write(chunk))
+      if (final) {
+        writeChain = writeChain.then(() => sink.close())
+      }
+    })
+
+    const result: ZipDownloadResult = { includedIds: [], skipped: [] }
+    const manifest: Array<Record<string, unknown>> = []
+    const usedNames = new Set<string>()
+    const progress: ZipDownloadProgress = { completedFiles: 0, totalFiles: videos.length, bytesWritten: 0 }
+    const reportProgress = (currentFile?: string) => {
+      onProgress?.({ ...progress, bytesWritten, currentFile })
+    }
+
+    try {
+      for (const video of videos) {
+        if (signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+        reportProgress(video.title || video.id)
+
+        try {
+          const download = await this.requestDownload(video.id)
+          if (download.status !== 'ready' || !download.url) {
+            result.skipped.push({
+              videoId: video.id,
+              reason: download.status === 'processing' ? 'processing' : (download.error || 'failed')
+            })
+            continue
+          }
+
+          // 整个视频下载完成后再写入压缩包，下载中途失败时只跳过该视频，不影响已写入的内容
+          const data = await this.fetchZipEntry(download.url, signal, () => reportProgress(video.title || video.id))
+
+          if (sink.maxBytes !== undefined && bytesWritten + data.length > sink.maxBytes) {
+            result.skipped.push({ videoId: video.id, reason: 'size_limit' })
+            continue
+          }
+
+          const entryName = this.getUniqueEntryName(download.filename || `${video.title || 'video'}-${video.id}.mp4`, usedNames)
+          const entry = new ZipPassThrough(entryName)
+          zip.add(entry)
+          entry.push(data, true)
+
+          // 等待写入完成再下载下一个视频，避免内存堆积
+          await writeChain
+          if (writeError) throw writeError
+
+          result.includedIds.push(video.id)
+          manifest.push({
+            id: video.id,
+            file: entryName,
+            title: video.title,
+            prompt: video.prompt,
+            parameters: video.parameters,
+            templateId: video.template_id || video.metadata?.templateId || null,
+            rendition: download.rendition,
+            watermarkProfile: download.profileId || null,
+            resolution: video.resolution,
+            duration: video.duration,
+            createdAt: video.created_at
+          })
+        } catch (error) {
+          if (error instanceof DOMException && error.name === 'AbortError') throw error
+          // 写入压缩包失败（磁盘或内存）时无法继续，直接中止整个压缩包
+          if (usedNames.size > result.includedIds.length) throw error
+          console.warn('[ProtectedDownload] 打包视频失败，已跳过:', video.id, error)
+          result.skipped.push({ videoId: video.id, reason: error instanceof Error ? error.message : 'failed' })
+        } finally {
+          progress.completedFiles++
+          reportProgress()
+        }
+      }
+
+      const manifestEntry = new ZipPassThrough('manifest.json')
+      zip.add(manifestEntry)
+      manifestEntry.push(strToU8(JSON.stringify({
+        generatedAt: new Date().toISOString(),
+        videos: manifest,
+        skipped: result.skipped
+      }, null, 2)), true)
+
+      zip.end()
+      await writeChain
+      if (writeError) throw writeError
+
+      console.log('[ProtectedDownload] 压缩包下载完成:', {
+        included: result.includedIds.length,
+        skipped: result.skipped.length,
+        bytes: bytesWritten
+      })
+      return result
+    } catch (error) {
+      zip.terminate()
+      await writeChain.catch(() => undefined)
+      await sink.abort()
+      throw error
+    }
+  }
+
+  /**
+   * 用户下载自己的视频时使用的水印方案，null 表示原视频（与 video-download 函数的规则一致）
+   */
+  static async getWatermarkProfile(userId: string): Promise<WatermarkProfile | null> {
     try {
-      const subscription = await SubscriptionService.getCurrentSubscription(userId)
-      return subscription?.status === 'active' || false
+      const tier = await redisCacheIntegrationService.getUserSubscription(userId)
+      return await WatermarkService.getProfileForTier(mapAnnualToBaseTier(tier))
     } catch (error) {
-      console.error('[ProtectedDownload] 检查下载权限失败:', error)
-      return false
+      console.error('[ProtectedDownload] 获取水印方案失败:', error)
+      return WatermarkService.getProfileForTier('free')
     }
   }
 
+  /**
+   * 检查用户是否有下载权限（下载无水印原视频）
+   */
+  static async hasDownloadPermission(userId: string): Promise<boolean> {
+    return (await this.getWatermarkProfile(userId)) === null
+  }
+
   /**
    * 获取下载类型（带水印或无水印）
    */
-  static async getDownloadType(userId: string): Promise<'watermarked' | 'original'> {
-    const isPaid = await this.hasDownloadPermission(userId)
-    return isPaid ? 'original' : 'watermarked'
+  static async getDownloadType(userId: string): Promise<DownloadRendition> {
+    const isOriginal = await this.hasDownloadPermission(userId)
+    return isOriginal ? 'original' : 'watermarked'
+  }
+
+  /**
+   * 向 video-download 函数请求下载地址
+   */
+  private static async requestDownload(videoId: string): Promise<VideoDownloadResponse> {
+    const { data, error } = await supabase.functions.invoke<VideoDownloadResponse>('video-download', {
+      body: { videoId }
+    })
+
+    if (error || !data) {
+      throw new Error(error?.message || '获取下载地址失败')
+    }
+    return data
+  }
+
+  /**
+   * 下载一个视频的完整内容，失败时重试
+   */
+  private static async fetchZipEntry(url: string, signal: AbortSignal | undefined, onChunk: () => void): Promise<Uint8Array> {
+    let lastError: unknown = null
+
+    for (let attempt = 0; attempt <= ZIP_ENTRY_RETRIES; attempt++) {
+      try {
+        const response = await fetch(url, { signal })
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP ${response.status}`)
+        }
+
+        const chunks: Uint8Array[] = []
+        let length = 0
+        const reader = response.body.getReader()
+        for (;;) {
+          const { done, value } = await reader.read()
+          if (done) break
+          chunks.push(value)
+          length += value.length
+          onChunk()
+        }
+
+        const data = new Uint8Array(length)
+        let offset = 0
+        for (const chunk of chunks) {
+          data.set(chunk, offset)
+          offset += chunk.length
+        }
+        return data
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') throw error
+        lastError = error
+        console.warn(`[ProtectedDownload] 下载视频失败（第 ${attempt + 1} 次）:`, error)
+      }
+    }
+
+    throw lastError
+  }
+
+  private static getUniqueEntryName(filename: string, usedNames: Set<string>): string {
+    const sanitized = filename.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').slice(0, 180) || 'video.mp4'
+    let name = sanitized
+    for (let i = 2; usedNames.has(name); i++) {
+      name = sanitized.replace(/(\.[^.]+)?$/, `-${i}$1`)
+    }
+    usedNames.add(name)
+    return name
+  }
+
+  private static async createZipSink(filename: string): Promise<ZipSink> {
+    const showSaveFilePicker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker
+    if (showSaveFilePicker) {
+      const handle = await showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: 'ZIP', accept: { 'application/zip': ['.zip'] } }]
+      })
+      const writable = await handle.createWritable()
+      return {
+        write: (chunk) => writable.write(chunk),
+        close: () => writable.close(),
+        abort: () => writable.abort().catch(() => undefined)
+      }
+    }
+
+    const chunks: Uint8Array[] = []
+    return {
+      maxBytes: MAX_IN_MEMORY_ZIP_BYTES,
+      write: async (chunk) => {
+        chunks.push(chunk)
+      },
+      close: async () => {
+        const url = URL.createObjectURL(new Blob(chunks as BlobPart[], { type: 'application/zip' }))
+        const a = document.createElement('a')
+        a.href = url
+        a.download = filename
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        setTimeout(() => URL.revokeObjectURL(url), 60000)
+        chunks.length = 0
+      },
+      abort: async () => {
+        chunks.length = 0
+      }
+    }
   }
 }
 
-export default ProtectedDownloadService
\ No newline at end of file
+export default ProtectedDownloadService
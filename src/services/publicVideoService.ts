@@ -0,0 +1,173 @@
+/**
+ * 公开视频服务
+ * 为 /video/:id 观看页和 /embed/:id 嵌入播放器读取公开视频，未登录用户也可访问
+ * 可见性和计数规则在数据库函数中校验（021_public_video_pages.sql），公开视频广场见 029_video_likes.sql
+ */
+
+import { supabase } from '@/lib/supabase'
+import { templates, type Template } from '@/features/video-creator/data/templates'
+
+export interface PublicVideo {
+  id: string
+  user_id: string
+  title: string | null
+  description: string | null
+  prompt: string | null
+  video_url: string
+  thumbnail_url: string | null
+  duration: number | null
+  resolution: string | null
+  parameters: Record<string, any> | null
+  template_id: string | null
+  is_public: boolean
+  view_count: number
+  like_count: number
+  share_count: number
+  comment_count: number
+  created_at: string
+  creator_username: string | null
+  creator_full_name: string | null
+  creator_avatar_url: string | null
+}
+
+// 视频广场排序：最新发布、最多观看、最近 7 天点赞最多
+export type GallerySort = 'latest' | 'most_viewed' | 'most_liked_week'
+
+export const GALLERY_PAGE_SIZE = 24
+
+export interface GalleryVideo {
+  id: string
+  title: string | null
+  thumbnail_url: string | null
+  duration: number | null
+  view_count: number
+  like_count: number
+  weekly_like_count: number
+  published_at: string
+  creator_username: string | null
+  creator_full_name: string | null
+  creator_avatar_url: string | null
+}
+
+// 同一会话内每个视频只计一次观看
+const VIEWED_STORAGE_KEY = 'public-video-viewed'
+
+class PublicVideoService {
+  /**
+   * 获取公开视频（私有视频只有作者本人能获取到）
+   */
+  async getPublicVideo(videoId: string): Promise<PublicVideo | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_public_video', { p_video_id: videoId })
+
+      if (error) {
+        console.error('[PUBLIC VIDEO] 获取视频失败:', error)
+        return null
+      }
+
+      return (data && data.length > 0 ? data[0] : null) as PublicVideo | null
+    } catch (error) {
+      console.error('[PUBLIC VIDEO] 获取视频异常:', error)
+      return null
+    }
+  }
+
+  /**
+   * 公开视频广场（分页）
+   */
+  async getGalleryVideos(sort: GallerySort, offset = 0, limit = GALLERY_PAGE_SIZE): Promise<GalleryVideo[]> {
+    const { data, error } = await supabase.rpc('get_public_videos', {
+      p_sort: sort,
+      p_limit: limit,
+      p_offset: offset
+    })
+
+    if (error) {
+      console.error('[PUBLIC VIDEO] 获取视频广场失败:', error)
+      throw error
+    }
+    return (data || []) as GalleryVideo[]
+  }
+
+  /**
+   * 记录一次观看（同一会话内重复打开不计数）
+   */
+  async recordView(videoId: string): Promise<boolean> {
+    const viewed = this.getViewedIds()
+    if (viewed.includes(videoId)) return false
+
+    const counted = await this.incrementCounter(videoId, 'view_count')
+    this.saveViewedIds([...viewed, videoId])
+    return counted
+  }
+
+  /**
+   * 记录一次分享
+   */
+  async recordShare(videoId: string): Promise<boolean> {
+    return this.incrementCounter(videoId, 'share_count')
+  }
+
+  /**
+   * 视频使用的模板
+   */
+  getTemplate(video: PublicVideo): Template | null {
+    if (!video.template_id) return null
+    return templates.find(t => t.id === video.template_id) || null
+  }
+
+  /**
+   * "做一个同款"的创作页链接：使用相同模板和参数，图片参数不复用（属于原作者的上传）
+   */
+  getRemixUrl(video: PublicVideo): string {
+    const template = this.getTemplate(video)
+    if (!template) return '/create'
+
+    const params: Record<string, any> = {}
+    Object.entries(video.parameters || {}).forEach(([key, value]) => {
+      if (template.params[key] && template.params[key].type !== 'image') {
+        params[key] = value
+      }
+    })
+
+    const paramsStr = encodeURIComponent(JSON.stringify(params))
+    return `/create?template=${template.id}&params=${paramsStr}`
+  }
+
+  private async incrementCounter(videoId: string, counter: 'view_count' | 'share_count'): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('increment_public_video_counter', {
+        p_video_id: videoId,
+        p_counter: counter
+      })
+
+      if (error) {
+        console.error(`[PUBLIC VIDEO] 更新${counter}失败:`, error)
+        return false
+      }
+      return data === true
+    } catch (error) {
+      console.error(`[PUBLIC VIDEO] 更新${counter}异常:`, error)
+      return false
+    }
+  }
+
+  private getViewedIds(): string[] {
+    try {
+      return JSON.parse(sessionStorage.getItem(VIEWED_STORAGE_KEY) || '[]')
+    } catch {
+      return []
+    }
+  }
+
+  private saveViewedIds(ids: string[]): void {
+    try {
+      sessionStorage.setItem(VIEWED_STORAGE_KEY, JSON.stringify(ids.slice(-200)))
+    } catch {
+      // 隐私模式下 sessionStorage 可能不可用，忽略
+    }
+  }
+}
+
+export const publicVideoService = new PublicVideoService()
+export default publicVideoService
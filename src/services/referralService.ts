@@ -2,6 +2,7 @@ import { supabase } from '@/lib/supabase'
 import i18n from '@/i18n/config'
 import { validateEmailAsync } from './emailValidator'
 import { getClientIPAddress } from '@/utils/deviceFingerprint'
+import shortLinkService from './shortLinkService'
 
 export interface ReferralCode {
   code: string
@@ -394,6 +395,23 @@ class ReferralService {
     return `${baseUrl}/signup?invite=${invitationCode}`
   }
 
+  /**
+   * 生成邀请短链接（按分享渠道区分，用于统计各渠道带来的注册）
+   * 创建失败时返回完整邀请链接
+   */
+  async generateShortInviteLink(invitationCode: string, channel: string = 'copy'): Promise<string> {
+    try {
+      return await shortLinkService.createShortLink({
+        linkType: 'referral',
+        resourceId: invitationCode,
+        channel
+      })
+    } catch (error) {
+      console.warn('[REFERRAL] 短链接生成失败，使用完整邀请链接:', error)
+      return this.generateInviteLink(invitationCode)
+    }
+  }
+
   /**
    * 生成分享文本
    */
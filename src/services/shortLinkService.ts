@@ -0,0 +1,122 @@
+/**
+ * 站内短链接服务
+ * 视频分享、邀请链接和收藏夹分享统一生成 /s/{code} 短链接，点击由 short-link Edge Function 记录（来源、国家），
+ * 注册时把最近点击的短链接归因到新用户，用于统计各分享渠道带来的注册（022_short_links.sql）
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export type ShortLinkType = 'video_share' | 'referral' | 'collection'
+
+export interface CreateShortLinkOptions {
+  linkType: ShortLinkType
+  resourceId: string
+  channel?: string         // 分享渠道：copy / twitter / facebook / whatsapp ...
+  expiresInDays?: number
+}
+
+// 最近点击的短链接，注册时用于归因
+const LAST_CLICKED_STORAGE_KEY = 'short-link-last-clicked'
+// 点击后多久内注册仍归因到该短链接
+const ATTRIBUTION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+class ShortLinkService {
+  private cache = new Map<string, string>()
+
+  private get baseUrl(): string {
+    return window.location.origin
+  }
+
+  /**
+   * 创建（或复用）短链接，返回完整URL
+   */
+  async createShortLink(options: CreateShortLinkOptions): Promise<string> {
+    const channel = options.channel || 'link'
+    // 短链接归属当前用户，切换账号后不能复用上一个用户的链接
+    const { data: { session } } = await supabase.auth.getSession()
+    const cacheKey = `${session?.user.id || 'anonymous'}:${options.linkType}:${options.resourceId}:${channel}`
+    const cached = this.cache.get(cacheKey)
+    if (cached) return cached
+
+    const { data, error } = await supabase.rpc('create_short_link', {
+      p_link_type: options.linkType,
+      p_resource_id: options.resourceId,
+      p_channel: channel,
+      p_expires_in_days: options.expiresInDays ?? null
+    })
+
+    if (error || !data || data.length === 0) {
+      throw new Error(error?.message || 'Failed to create short link')
+    }
+
+    const url = `${this.baseUrl}/s/${data[0].code}`
+    this.cache.set(cacheKey, url)
+    return url
+  }
+
+  /**
+   * 解析短链接并记录点击，返回站内跳转路径；不存在或已过期时返回 null
+   */
+  async resolve(code: string): Promise<string | null> {
+    const { data, error } = await supabase.functions.invoke('short-link', {
+      body: { code, referrer: document.referrer || null }
+    })
+
+    if (error || !data?.target) {
+      console.warn('[SHORT LINK] 解析失败:', code, error)
+      return null
+    }
+
+    this.rememberClick(code)
+    return data.target as string
+  }
+
+  /**
+   * 登录后把当前用户归因到最近点击的短链接（只有新注册的用户会被计入）
+   */
+  async recordSignup(): Promise<void> {
+    const code = this.getRecentClick()
+    if (!code) return
+
+    try {
+      const { data, error } = await supabase.rpc('record_short_link_signup', {
+        p_code: code
+      })
+
+      if (error) {
+        console.warn('[SHORT LINK] 注册归因失败:', error)
+        return
+      }
+
+      if (data === true) {
+        console.log('[SHORT LINK] 注册已归因到短链接:', code)
+      }
+      localStorage.removeItem(LAST_CLICKED_STORAGE_KEY)
+    } catch (error) {
+      console.warn('[SHORT LINK] 注册归因异常:', error)
+    }
+  }
+
+  private rememberClick(code: string): void {
+    try {
+      localStorage.setItem(LAST_CLICKED_STORAGE_KEY, JSON.stringify({ code, clickedAt: Date.now() }))
+    } catch {
+      // 隐私模式下 localStorage 可能不可用，忽略
+    }
+  }
+
+  private getRecentClick(): string | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(LAST_CLICKED_STORAGE_KEY) || 'null')
+      if (stored?.code && Date.now() - stored.clickedAt < ATTRIBUTION_WINDOW_MS) {
+        return stored.code
+      }
+    } catch {
+      // 忽略损坏的数据
+    }
+    return null
+  }
+}
+
+export const shortLinkService = new ShortLinkService()
+export default shortLinkService
@@ -14,12 +14,16 @@ export interface SubscriptionPlan {
   popular?: boolean
 }
 
-export interface PaymentIntent {
+export interface CreditPackage {
   id: string
-  client_secret: string
-  status: string
-  amount: number
+  name: string
+  description: string | null
+  credits: number
+  bonus_credits: number
+  price_cents: number
   currency: string
+  is_popular: boolean
+  sort_order: number
 }
 
 export interface SubscriptionStatus {
@@ -169,34 +173,21 @@ class StripeService {
   }
 
   /**
-   * 创建支付意图（一次性积分购买）
+   * 获取上架的积分套餐（服务端目录，结账金额以此为准）
    */
-  async createPaymentIntent(
-    amount: number,
-    credits: number,
-    userId: string
-  ): Promise<PaymentIntent | null> {
-    try {
-      const { data, error } = await supabase.functions.invoke('create-payment-intent', {
-        body: {
-          amount: Math.round(amount * 100), // Stripe需要最小货币单位
-          currency: 'usd',
-          credits,
-          userId,
-          type: 'credit_purchase'
-        }
-      })
-
-      if (error) {
-        console.error('Error creating payment intent:', error)
-        return null
-      }
-
-      return data
-    } catch (error) {
-      console.error('Error in createPaymentIntent:', error)
-      return null
+  async getCreditPackages(): Promise<CreditPackage[]> {
+    const { data, error } = await supabase
+      .from('credit_packages')
+      .select('id, name, description, credits, bonus_credits, price_cents, currency, is_popular, sort_order')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      console.error('Error loading credit packages:', error)
+      return []
     }
+
+    return data || []
   }
 
   /**
@@ -249,10 +240,10 @@ class StripeService {
 
   /**
    * 创建一次性支付结账会话（积分购买）
+   * 只传套餐ID，金额和积分由服务端按套餐目录计算
    */
   async createCreditsPurchaseCheckout(
-    amount: number,
-    credits: number,
+    packageId: string,
     userId: string,
     successUrl: string,
     cancelUrl: string
@@ -260,10 +251,8 @@ class StripeService {
     try {
       const { data, error } = await supabase.functions.invoke('create-checkout-session', {
         body: {
-          amount: Math.round(amount * 100),
-          currency: 'usd',
+          packageId,
           userId,
-          credits,
           successUrl,
           cancelUrl,
           mode: 'payment',
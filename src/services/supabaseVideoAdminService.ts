@@ -4,7 +4,7 @@
  * 绕过 RLS 策略，用于后台操作
  */
 
-import type { Database } from '@/lib/supabase'
+import { getFunctionAccessToken, type Database } from '@/lib/supabase'
 
 type Video = Database['public']['Tables']['videos']['Row']
 type VideoUpdate = {
@@ -41,7 +41,7 @@ class SupabaseVideoAdminService {
       const response = await fetch(`${this.baseUrl}/update-video-status`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Authorization': `Bearer ${await getFunctionAccessToken()}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -3,7 +3,7 @@
  * 管理视频数据的 CRUD 操作，使用 Supabase 作为后端存储
  */
 
-import { supabase } from '@/lib/supabase'
+import { supabase, getFunctionAccessToken } from '@/lib/supabase'
 import type { Database } from '@/lib/supabase'
 
 type Video = Database['public']['Tables']['videos']['Row']
@@ -45,12 +45,30 @@ class SupabaseVideoService {
     status?: Video['status']
     isPublic?: boolean
     veo3JobId?: string
+    generation?: {     // 服务端队列Worker创建上游任务时使用的生成选项
+      quality: 'fast' | 'pro'
+      aspectRatio: '16:9' | '9:16'
+      imageUrl?: string
+      imagePath?: string  // generation-inputs 存储桶中的参考图片
+    }
+    batch?: {          // 批量生成时所属的批次
+      id: string
+      index: number
+      total: number
+      label: string
+    }
   }): Promise<Video | null> {
     try {
       // Store template ID in metadata since it's not a UUID
       const metadata: Record<string, any> = {
         templateId: data.templateId || null
       }
+      if (data.generation) {
+        metadata.generation = data.generation
+      }
+      if (data.batch) {
+        metadata.batch = data.batch
+      }
 
       const { data: video, error } = await supabase
         .from('videos')
@@ -158,7 +176,7 @@ class SupabaseVideoService {
    */
   private async updateViaEdgeFunction(id: string, updates: VideoUpdate): Promise<Video | null> {
     const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+    const accessToken = await getFunctionAccessToken()
     
     const payload = {
       videoId: id,
@@ -174,7 +192,7 @@ class SupabaseVideoService {
     const response = await fetch(`${supabaseUrl}/functions/v1/update-video-status`, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${anonKey}`,
+        'Authorization': `Bearer ${accessToken}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(payload)
@@ -683,12 +701,35 @@ class SupabaseVideoService {
 
   /**
    * 增加视频交互计数
+   * 观看和分享计数由数据库按观众每天去重（作者本人观看不计数），不能直接写入
    */
   async incrementInteraction(
     id: string,
     type: 'view_count' | 'download_count' | 'share_count'
   ): Promise<boolean> {
     try {
+      if (type !== 'download_count') {
+        const { error } = await supabase.rpc('increment_public_video_counter', {
+          p_video_id: id,
+          p_counter: type
+        })
+
+        if (error) {
+          console.error(`Error incrementing ${type}:`, error)
+          return false
+        }
+
+        // 如果是观看，更新最后观看时间
+        if (type === 'view_count') {
+          await supabase
+            .from('videos')
+            .update({ last_viewed_at: new Date().toISOString() })
+            .eq('id', id)
+        }
+
+        return true
+      }
+
       // 先获取当前值
       const { data: video, error: fetchError } = await supabase
         .from('videos')
@@ -713,14 +754,6 @@ class SupabaseVideoService {
         return false
       }
 
-      // 如果是观看，更新最后观看时间
-      if (type === 'view_count') {
-        await supabase
-          .from('videos')
-          .update({ last_viewed_at: new Date().toISOString() })
-          .eq('id', id)
-      }
-
       return true
     } catch (error) {
       console.error(`Failed to increment ${type}:`, error)
@@ -892,13 +925,15 @@ class SupabaseVideoService {
 
   /**
    * 订阅用户的所有视频更新（包括状态变化）
+   * 同一页面内多个订阅方需要使用不同的 channelKey，避免共用同一个频道
    */
   subscribeToAllUserVideoUpdates(
     userId: string,
-    onVideoUpdate: (video: Video) => void
+    onVideoUpdate: (video: Video) => void,
+    channelKey = 'user-all-videos'
   ): () => void {
     const subscription = supabase
-      .channel(`user-all-videos-${userId}`)
+      .channel(`${channelKey}-${userId}`)
       .on(
         'postgres_changes',
         {
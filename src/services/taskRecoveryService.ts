@@ -6,7 +6,6 @@
 import i18n from '@/i18n/config'
 import { progressManager } from './progressManager'
 import supabaseVideoService from './supabaseVideoService'
-import { veo3Service } from './veo3Service'
 import type { Database } from '@/lib/supabase'
 
 type Video = Database['public']['Tables']['videos']['Row']
@@ -185,35 +184,9 @@ class TaskRecoveryService {
         console.warn(`[TASK RECOVERY] ⚠️ 无法获取视频 ${video.id} 的最新状态，使用原始数据`)
       }
       
-      // 检查是否有 veo3_job_id
+      // 排队中或服务端Worker尚未创建上游任务，卡住的任务由Worker回收
       if (!video.veo3_job_id) {
-        console.log(`[TASK RECOVERY] ⚠️ 视频 ${video.id} 缺少 veo3_job_id`)
-        
-        // 检查视频创建时间，如果超过10分钟还没有job_id，标记为失败
-        const createdAt = new Date(video.created_at).getTime()
-        const processingStartedAt = video.processing_started_at ? new Date(video.processing_started_at).getTime() : createdAt
-        const now = Date.now()
-        const ageMinutes = (now - processingStartedAt) / (1000 * 60)
-        
-        console.log(`[TASK RECOVERY] 📅 视频年龄检查: ${Math.round(ageMinutes * 100) / 100} 分钟`)
-        
-        if (ageMinutes > 10) {
-          console.log(`[TASK RECOVERY] 💀 视频 ${video.id} 已卡住 ${Math.round(ageMinutes)} 分钟，标记为失败`)
-          
-          try {
-            await supabaseVideoService.updateVideoAsSystem(video.id, {
-              status: 'failed',
-              error_message: 'Video generation task was not properly initialized (missing veo3_job_id)'
-            })
-            console.log(`[TASK RECOVERY] ✅ 成功标记卡住的视频 ${video.id} 为失败状态`)
-          } catch (error) {
-            console.error(`[TASK RECOVERY] ❌ 标记视频 ${video.id} 为失败时出错:`, error)
-          }
-        } else {
-          // 如果是新视频，可能还在初始化，等待
-          console.log(`[TASK RECOVERY] ⏳ 视频 ${video.id} 年龄 ${Math.round(ageMinutes)} 分钟，等待任务初始化`)
-        }
-        
+        console.log(`[TASK RECOVERY] ⏳ 视频 ${video.id} 尚未创建上游任务（${video.status}），等待服务端队列处理`)
         return false
       }
       
@@ -242,29 +215,9 @@ class TaskRecoveryService {
         console.log(`[TASK RECOVERY] 📋 进度管理器已有数据: ${video.id} -> ${existingProgress.progress}%`)
       }
 
-      // 恢复 veo3Service 中的任务跟踪 - 关键步骤！
-      console.log(`[TASK RECOVERY] 🚀 关键步骤：恢复青云API轮询 ${video.veo3_job_id}...`)
-      try {
-        const resumed = await veo3Service.restoreJob(video.veo3_job_id, video.id)
-        
-        if (resumed) {
-          console.log(`[TASK RECOVERY] ✅ 青云API轮询恢复成功: ${video.id}`)
-          console.log(`[TASK RECOVERY] 🎯 视频 ${video.id} 现在应该开始接收青云API更新`)
-          return true
-        } else {
-          console.warn(`[TASK RECOVERY] ⚠️ 青云API轮询恢复失败: ${video.id}`)
-          console.warn(`[TASK RECOVERY] 🔍 可能原因: 任务已完成、任务不存在、或API连接问题`)
-          return false
-        }
-      } catch (restoreError) {
-        console.error(`[TASK RECOVERY] 💥 恢复青云API轮询时出错:`, restoreError)
-        console.error(`[TASK RECOVERY] Error details:`, {
-          videoId: video.id,
-          jobId: video.veo3_job_id,
-          error: (restoreError as Error)?.message
-        })
-        return false
-      }
+      // 上游任务由服务端队列Worker轮询，页面只需通过数据库观察状态
+      console.log(`[TASK RECOVERY] ✅ 视频 ${video.id} 进度已恢复，上游任务 ${video.veo3_job_id} 由服务端轮询`)
+      return true
     } catch (error) {
       console.error(`[TASK RECOVERY] Error resuming video ${video.id}:`, error)
       return false
@@ -393,8 +346,8 @@ class TaskRecoveryService {
       let cleanedCount = 0
       
       for (const video of processingVideos) {
-        // 跳过有job_id的正常任务
-        if (video.veo3_job_id) {
+        // 跳过有job_id的正常任务和仍在队列中等待的任务
+        if (video.veo3_job_id || video.status === 'pending') {
           continue
         }
         
@@ -18,6 +18,8 @@ export interface LikeStatus {
   template_id: string
   is_liked: boolean
   like_count: number
+  is_favorited?: boolean
+  favorite_count?: number
 }
 
 export interface ToggleLikeResult {
@@ -187,7 +189,9 @@ class TemplateLikeService {
         return {
           template_id: cached.template_id,
           is_liked: cached.is_liked,
-          like_count: cached.like_count
+          like_count: cached.like_count,
+          is_favorited: cached.is_favorited,
+          favorite_count: cached.favorite_count
         }
       }
 
@@ -201,8 +205,9 @@ class TemplateLikeService {
       const { data: { user } } = await supabase.auth.getUser()
 
       let isLiked = false
+      let isFavorited = false
       
-      // 只有登录用户才检查点赞状态
+      // 只有登录用户才检查点赞和收藏状态
       if (user) {
         // 确保Token有效
         const isValidSession = await this.ensureValidSessionCached()
@@ -223,6 +228,14 @@ class TemplateLikeService {
             } else {
               isLiked = !!like
             }
+
+            const { data: favorite } = await supabase
+              .from('template_favorites')
+              .select('id')
+              .eq('user_id', user.id)
+              .eq('template_id', templateId)
+              .maybeSingle()
+            isFavorited = !!favorite
           } catch (error) {
             console.warn(`[TemplateLikeService] Like check exception for ${templateId}:`, error)
             // 出现异常时默认为未点赞，不阻塞整个流程
@@ -231,10 +244,10 @@ class TemplateLikeService {
         }
       }
 
-      // 获取模板点赞数（无论是否登录都获取）
+      // 获取模板点赞数和收藏数（无论是否登录都获取）
       const { data: template } = await supabase
         .from('templates')
-        .select('like_count')
+        .select('like_count, favorite_count')
         .eq('id', templateId)
         .single()
 
@@ -243,7 +256,9 @@ class TemplateLikeService {
       const status = {
         template_id: templateId,
         is_liked: isLiked,
-        like_count: likeCount
+        like_count: likeCount,
+        is_favorited: isFavorited,
+        favorite_count: template?.favorite_count || 0
       }
 
       // 缓存结果
@@ -272,7 +287,9 @@ class TemplateLikeService {
           return cached ? {
             template_id: cached.template_id,
             is_liked: cached.is_liked,
-            like_count: cached.like_count
+            like_count: cached.like_count,
+            is_favorited: cached.is_favorited,
+            favorite_count: cached.favorite_count
           } : {
             template_id: id,
             is_liked: false,
@@ -291,7 +308,9 @@ class TemplateLikeService {
           cachedResults.push({
             template_id: cached.template_id,
             is_liked: cached.is_liked,
-            like_count: cached.like_count
+            like_count: cached.like_count,
+            is_favorited: cached.is_favorited,
+            favorite_count: cached.favorite_count
           })
         } else {
           uncachedIds.push(id)
@@ -329,35 +348,48 @@ class TemplateLikeService {
       // 直接使用UUID查询，无需转换
       const uuids = uncachedIds
 
-      // 批量查询用户的点赞记录（只有登录用户才查询）
+      // 批量查询用户的点赞和收藏记录（只有登录用户才查询）
       let likes: any[] = []
+      let favorites: any[] = []
       if (user) {
-        const { data: userLikes } = await supabase
-          .from('template_likes')
-          .select('template_id')
-          .eq('user_id', user.id)
-          .in('template_id', uuids)
+        const [{ data: userLikes }, { data: userFavorites }] = await Promise.all([
+          supabase
+            .from('template_likes')
+            .select('template_id')
+            .eq('user_id', user.id)
+            .in('template_id', uuids),
+          supabase
+            .from('template_favorites')
+            .select('template_id')
+            .eq('user_id', user.id)
+            .in('template_id', uuids)
+        ])
         likes = userLikes || []
+        favorites = userFavorites || []
       }
 
-      // 批量查询模板的点赞数（无论是否登录都查询）
+      // 批量查询模板的点赞数和收藏数（无论是否登录都查询）
       const { data: templates } = await supabase
         .from('templates')
-        .select('id, like_count')
+        .select('id, like_count, favorite_count')
         .in('id', uuids)
 
-      // 创建点赞状态映射
+      // 创建点赞和收藏状态映射
       const likedTemplateUuids = new Set(likes?.map(like => like.template_id) || [])
-      const templateLikeCounts = new Map(
-        templates?.map(template => [template.id, template.like_count]) || []
+      const favoritedTemplateUuids = new Set(favorites.map(favorite => favorite.template_id))
+      const templateCounts = new Map(
+        templates?.map(template => [template.id, template]) || []
       )
 
       // 为未缓存的模板创建结果
       const freshResults = uncachedIds.map(templateId => {
+        const counts = templateCounts.get(templateId)
         const result = {
           template_id: templateId,
           is_liked: likedTemplateUuids.has(templateId),
-          like_count: Number(templateLikeCounts.get(templateId)) || 0
+          like_count: Number(counts?.like_count) || 0,
+          is_favorited: favoritedTemplateUuids.has(templateId),
+          favorite_count: Number(counts?.favorite_count) || 0
         }
         
         // 缓存新获取的结果
@@ -385,6 +417,8 @@ class TemplateLikeService {
         template_id: status.template_id,
         is_liked: status.is_liked,
         like_count: status.like_count,
+        is_favorited: status.is_favorited,
+        favorite_count: status.favorite_count,
         cached_at: Date.now(),
         ttl: 5 * 60 * 1000
       }))
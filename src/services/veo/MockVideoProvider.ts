@@ -0,0 +1,156 @@
+/**
+ * 模拟提供方（开发环境 / 本地替身）
+ * 不调用任何外部API，按时间推进进度并返回模拟视频地址
+ */
+
+import type {
+  ProviderCapabilities,
+  ProviderCreateRequest,
+  ProviderTask,
+  VideoGenerationProvider
+} from './VideoGenerationProvider'
+
+interface MockTask {
+  task: ProviderTask
+  prompt: string
+  startedAt: number
+  willFail: boolean
+  cancelled: boolean
+}
+
+// 模拟生成总时长
+const MOCK_DURATION_MS = 6000
+
+export class MockVideoProvider implements VideoGenerationProvider {
+  readonly id = 'mock'
+  readonly displayName = '模拟生成（开发）'
+
+  private tasks = new Map<string, MockTask>()
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      aspectRatios: ['16:9', '9:16'],
+      qualities: ['fast', 'pro'],
+      supportsImageInput: true,
+      maxImages: 2,
+      maxDurationSeconds: 40,
+      supportsCancel: true
+    }
+  }
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  async createTask(request: ProviderCreateRequest): Promise<ProviderTask> {
+    const id = `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    const task: ProviderTask = {
+      id,
+      status: 'pending',
+      progress: 0,
+      model: `mock-${request.quality}`
+    }
+
+    this.tasks.set(id, {
+      task,
+      prompt: request.prompt,
+      startedAt: Date.now(),
+      // 随机产生错误（5%概率）
+      willFail: Math.random() < 0.05,
+      cancelled: false
+    })
+
+    return { ...task }
+  }
+
+  async queryStatus(taskId: string): Promise<ProviderTask> {
+    const entry = this.tasks.get(taskId)
+    if (!entry) {
+      throw new Error(`Query Error (404): mock task ${taskId} not found`)
+    }
+
+    const { task } = entry
+    if (task.status === 'completed' || task.status === 'failed') {
+      return { ...task }
+    }
+
+    const elapsed = Date.now() - entry.startedAt
+    const progress = Math.min(Math.round((elapsed / MOCK_DURATION_MS) * 100), 100)
+
+    if (entry.willFail && progress >= 60) {
+      task.status = 'failed'
+      task.error = 'Video generation failed: API limit exceeded'
+      task.progress = 0
+    } else if (progress >= 100) {
+      task.status = 'completed'
+      task.progress = 100
+      task.videoUrl = this.generateMockVideoUrl(entry.prompt)
+      task.thumbnailUrl = this.generateMockThumbnailUrl(entry.prompt)
+      task.metadata = {
+        duration: Math.floor(Math.random() * 30) + 10, // 10-40秒
+        resolution: '1920x1080',
+        fileSize: Math.floor(Math.random() * 50) + 10 // 10-60MB
+      }
+    } else {
+      task.status = 'processing'
+      task.progress = Math.max(progress, 10)
+    }
+
+    return { ...task }
+  }
+
+  async waitForCompletion(
+    taskId: string,
+    onProgress?: (progress: number) => void
+  ): Promise<ProviderTask> {
+    while (true) {
+      const entry = this.tasks.get(taskId)
+      if (entry?.cancelled) {
+        throw new Error('Job cancelled by user')
+      }
+
+      const task = await this.queryStatus(taskId)
+      onProgress?.(task.progress || 0)
+
+      if (task.status === 'completed') {
+        return task
+      }
+      if (task.status === 'failed') {
+        throw new Error(task.error || 'Video generation failed')
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 1000))
+    }
+  }
+
+  async cancelTask(taskId: string): Promise<boolean> {
+    const entry = this.tasks.get(taskId)
+    if (!entry || entry.task.status === 'completed' || entry.task.status === 'failed') {
+      return false
+    }
+
+    entry.cancelled = true
+    entry.task.status = 'failed'
+    entry.task.error = 'Job cancelled by user'
+    return true
+  }
+
+  isFatalError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error)
+    return message.includes('404')
+  }
+
+  private generateMockVideoUrl(prompt: string): string {
+    const encodedPrompt = encodeURIComponent(prompt.substring(0, 50))
+    return `https://storage.googleapis.com/veo3-mock/videos/${Date.now()}_${encodedPrompt}.mp4`
+  }
+
+  private generateMockThumbnailUrl(prompt: string): string {
+    const encodedPrompt = encodeURIComponent(prompt.substring(0, 50))
+    return `https://storage.googleapis.com/veo3-mock/thumbnails/${Date.now()}_${encodedPrompt}.jpg`
+  }
+}
+
+export const mockVideoProvider = new MockVideoProvider()
+
+export default mockVideoProvider
@@ -3,6 +3,8 @@
  * 支持4种模型组合：fast/pro × 纯文字/带图片
  */
 
+import imageUploadService from '../imageUploadService';
+
 export interface QingyunCreateRequest {
   prompt: string;
   model: 'veo3-fast' | 'veo3-pro' | 'veo3-fast-frames' | 'veo3-pro-frames';
@@ -25,6 +27,17 @@ export interface QingyunApiConfig {
   maxRetries?: number;
 }
 
+/**
+ * 判断是否为致命错误
+ */
+export function isQingyunFatalError(error: any): boolean {
+  const message = error?.message || '';
+  return message.includes('401') || // 认证失败
+         message.includes('403') || // 权限不足
+         message.includes('404') || // 任务不存在
+         message.includes('failed'); // 任务失败
+}
+
 class QingyunApiService {
   private config: QingyunApiConfig;
   private headers: HeadersInit;
@@ -368,14 +381,10 @@ class QingyunApiService {
   }
 
   /**
-   * 判断是否为致命错误
+   * 判断是否为致命错误（重试无意义，故障转移策略也据此切换提供方）
    */
-  private isFatalError(error: any): boolean {
-    const message = error?.message || '';
-    return message.includes('401') || // 认证失败
-           message.includes('403') || // 权限不足
-           message.includes('404') || // 任务不存在
-           message.includes('failed'); // 任务失败
+  isFatalError(error: any): boolean {
+    return isQingyunFatalError(error);
   }
 
   /**
@@ -422,29 +431,19 @@ class QingyunApiService {
   }
 
   /**
-   * 处理图片：将base64或File转换为URL
-   * 注意：这里假设图片已经是URL格式，如果需要上传功能，需要额外实现
+   * 处理图片：将base64或File上传到 Storage 并转换为签名URL
    */
-  async processImages(images: (string | File)[]): Promise<string[]> {
+  async processImages(images: (string | File)[], userId: string): Promise<string[]> {
     const processedImages: string[] = [];
     
     for (const image of images) {
-      if (typeof image === 'string') {
+      if (typeof image === 'string' && (image.startsWith('http://') || image.startsWith('https://'))) {
         // 如果已经是URL，直接使用
-        if (image.startsWith('http://') || image.startsWith('https://')) {
-          processedImages.push(image);
-        } else {
-          // 如果是base64，需要上传到存储服务
-          // 这里需要实现图片上传逻辑
-          console.warn('[QINGYUN API] Base64 image upload not implemented yet');
-          // const url = await this.uploadImage(image);
-          // processedImages.push(url);
-        }
+        processedImages.push(image);
       } else {
-        // File对象需要转换并上传
-        console.warn('[QINGYUN API] File upload not implemented yet');
-        // const url = await this.uploadFile(image);
-        // processedImages.push(url);
+        // base64 或 File 对象上传到 generation-inputs 存储桶
+        const uploaded = await imageUploadService.uploadGenerationImage(userId, image);
+        processedImages.push(uploaded.signedUrl);
       }
     }
     
@@ -0,0 +1,113 @@
+/**
+ * 青云API提供方
+ * 将 QingyunApiService 适配为通用的 VideoGenerationProvider。
+ * 浏览器端只使用环境变量中的 QINGYUN_API_KEY（本地调试），
+ * 账户池凭证只由服务端 video-queue-worker 领取，不会下发到浏览器
+ */
+
+import QingyunApiService, { getQingyunApiService, isQingyunFatalError, QingyunTaskResponse } from './QingyunApiService'
+import type {
+  ProviderCapabilities,
+  ProviderCreateRequest,
+  ProviderTask,
+  VideoGenerationProvider
+} from './VideoGenerationProvider'
+
+export class QingyunVideoProvider implements VideoGenerationProvider {
+  readonly id = 'qingyun'
+  readonly displayName = '青云 Veo3 API'
+
+  getCapabilities(): ProviderCapabilities {
+    return {
+      aspectRatios: ['16:9', '9:16'],
+      qualities: ['fast', 'pro'],
+      supportsImageInput: true,
+      maxImages: 2,
+      maxDurationSeconds: 8,
+      // 青云API没有取消接口，只能停止本地轮询
+      supportsCancel: false
+    }
+  }
+
+  isAvailable(): boolean {
+    return !!process.env.QINGYUN_API_KEY
+  }
+
+  /**
+   * 获取青云API服务实例（首次调用时按环境变量初始化）
+   */
+  getService(): QingyunApiService {
+    const apiKey = process.env.QINGYUN_API_KEY
+    const endpoint = process.env.QINGYUN_API_ENDPOINT || 'https://api.qingyuntop.top'
+
+    if (!apiKey) {
+      throw new Error('Qingyun API key not configured')
+    }
+
+    return getQingyunApiService({ apiKey, endpoint })
+  }
+
+  async createTask(request: ProviderCreateRequest): Promise<ProviderTask> {
+    const service = this.getService()
+    const hasImages = !!request.images && request.images.length > 0
+    const model = service.selectModel(request.quality, hasImages)
+
+    console.log(`[QINGYUN PROVIDER] Model selected: ${model}`)
+
+    const task = await service.createVideo({
+      prompt: request.prompt,
+      model,
+      images: hasImages ? request.images : undefined,
+      enhance_prompt: request.enhancePrompt !== false
+    })
+
+    return { ...this.toProviderTask(task), model }
+  }
+
+  async queryStatus(taskId: string): Promise<ProviderTask> {
+    const task = await this.getService().queryStatus(taskId)
+    return this.toProviderTask(task)
+  }
+
+  async waitForCompletion(
+    taskId: string,
+    onProgress?: (progress: number) => void
+  ): Promise<ProviderTask> {
+    const result = await this.getService().pollUntilComplete(
+      taskId,
+      onProgress,
+      60,    // 最大尝试次数
+      10000  // 轮询间隔 10 秒
+    )
+    return this.toProviderTask(result)
+  }
+
+  async cancelTask(taskId: string): Promise<boolean> {
+    console.warn(`[QINGYUN PROVIDER] Cancel is not supported by upstream, task ${taskId} will keep running`)
+    return false
+  }
+
+  isFatalError(error: unknown): boolean {
+    return isQingyunFatalError(error)
+  }
+
+  private toProviderTask(task: QingyunTaskResponse): ProviderTask {
+    // 青云会返回 video_generating 等中间状态，统一归为 processing
+    let status: ProviderTask['status'] = 'processing'
+    if (task.video_url) {
+      status = 'completed'
+    } else if (task.status === 'failed' || task.status === 'pending') {
+      status = task.status
+    }
+
+    return {
+      id: task.id,
+      status,
+      videoUrl: task.video_url
+    }
+  }
+}
+
+export const qingyunVideoProvider = new QingyunVideoProvider()
+
+export default qingyunVideoProvider
@@ -0,0 +1,93 @@
+/**
+ * 视频生成提供方抽象
+ * 所有上游（青云API、本地模拟等）都实现该接口，由 providerRegistry 统一管理
+ */
+
+export type ProviderQuality = 'fast' | 'pro'
+export type ProviderAspectRatio = '16:9' | '9:16'
+export type ProviderTaskStatus = 'pending' | 'processing' | 'completed' | 'failed'
+
+export interface ProviderCapabilities {
+  aspectRatios: ProviderAspectRatio[]
+  qualities: ProviderQuality[]
+  supportsImageInput: boolean
+  maxImages: number
+  maxDurationSeconds: number
+  supportsCancel: boolean
+}
+
+export interface ProviderCreateRequest {
+  prompt: string
+  quality: ProviderQuality
+  aspectRatio?: ProviderAspectRatio
+  images?: string[]
+  enhancePrompt?: boolean
+}
+
+export interface ProviderTask {
+  id: string
+  status: ProviderTaskStatus
+  videoUrl?: string | null
+  thumbnailUrl?: string | null
+  progress?: number
+  error?: string
+  model?: string
+  metadata?: {
+    duration?: number
+    resolution?: string
+    fileSize?: number
+  }
+}
+
+export interface VideoGenerationProvider {
+  /** 注册表中的唯一标识，会写入视频记录的 metadata.provider */
+  readonly id: string
+  /** 管理后台展示用名称 */
+  readonly displayName: string
+
+  getCapabilities(): ProviderCapabilities
+
+  /** 配置是否齐全（如 API Key），不可用的提供方不会被选中 */
+  isAvailable(): boolean
+
+  createTask(request: ProviderCreateRequest): Promise<ProviderTask>
+
+  queryStatus(taskId: string): Promise<ProviderTask>
+
+  /**
+   * 轮询直到任务完成，失败或超时时抛出异常
+   */
+  waitForCompletion(
+    taskId: string,
+    onProgress?: (progress: number) => void
+  ): Promise<ProviderTask>
+
+  /** 取消上游任务；不支持取消的提供方返回 false */
+  cancelTask(taskId: string): Promise<boolean>
+
+  /** 是否为致命错误（认证失败、任务不存在等），与服务端 _shared/video-providers.ts 的分类保持一致 */
+  isFatalError(error: unknown): boolean
+}
+
+/**
+ * 检查请求是否符合提供方能力，不符合时返回原因
+ */
+export function validateAgainstCapabilities(
+  capabilities: ProviderCapabilities,
+  request: ProviderCreateRequest
+): string | null {
+  if (request.aspectRatio && !capabilities.aspectRatios.includes(request.aspectRatio)) {
+    return `Aspect ratio ${request.aspectRatio} is not supported`
+  }
+  if (!capabilities.qualities.includes(request.quality)) {
+    return `Quality ${request.quality} is not supported`
+  }
+  const imageCount = request.images?.length || 0
+  if (imageCount > 0 && !capabilities.supportsImageInput) {
+    return 'Image input is not supported'
+  }
+  if (imageCount > capabilities.maxImages) {
+    return `At most ${capabilities.maxImages} images are supported`
+  }
+  return null
+}
@@ -0,0 +1,110 @@
+/**
+ * 视频生成提供方账户池（管理后台）
+ * 查询 provider_accounts 的配额、限流冷却和健康状态，不包含凭证；
+ * 领取凭证和上报调用结果只由服务端 video-queue-worker 执行
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export type AccountHealthStatus = 'healthy' | 'cooldown' | 'error'
+
+export interface ProviderAccountRecord {
+  id: string
+  provider: string
+  label: string
+  endpoint: string | null
+  daily_quota: number
+  used_today: number
+  quota_date: string
+  total_used: number
+  weight: number
+  is_active: boolean
+  health_status: AccountHealthStatus
+  cooldown_until: string | null
+  consecutive_failures: number
+  last_error: string | null
+  last_used_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AccountPoolSummary {
+  total: number
+  healthy: number
+  cooling: number
+  availableQuota: number
+}
+
+// 列表查询不返回凭证
+export const ACCOUNT_PUBLIC_COLUMNS = 'id, provider, label, endpoint, daily_quota, used_today, quota_date, total_used, weight, is_active, health_status, cooldown_until, consecutive_failures, last_error, last_used_at, created_at, updated_at'
+
+// 账户池汇总缓存时间
+const SUMMARY_CACHE_TTL = 60 * 1000
+
+class ProviderAccountPool {
+  private summaries = new Map<string, { summary: AccountPoolSummary; loadedAt: number }>()
+
+  /**
+   * 账户池汇总（带缓存），账户池不可用时返回全零
+   */
+  async getSummary(provider: string, forceRefresh: boolean = false): Promise<AccountPoolSummary> {
+    const cached = this.summaries.get(provider)
+    if (!forceRefresh && cached && Date.now() - cached.loadedAt < SUMMARY_CACHE_TTL) {
+      return cached.summary
+    }
+
+    let summary: AccountPoolSummary = { total: 0, healthy: 0, cooling: 0, availableQuota: 0 }
+
+    try {
+      const { data, error } = await supabase.rpc('get_provider_account_pool_summary', {
+        p_provider: provider
+      })
+
+      if (error) {
+        console.warn('[ACCOUNT POOL] Failed to load pool summary:', error)
+      } else {
+        const row = Array.isArray(data) ? data[0] : data
+        if (row) {
+          summary = {
+            total: row.total || 0,
+            healthy: row.healthy || 0,
+            cooling: row.cooling || 0,
+            availableQuota: Number(row.available_quota) || 0
+          }
+        }
+      }
+    } catch (error) {
+      console.warn('[ACCOUNT POOL] Error loading pool summary:', error)
+    }
+
+    this.summaries.set(provider, { summary, loadedAt: Date.now() })
+    return summary
+  }
+
+  /**
+   * 管理后台：账户列表（不含凭证）
+   */
+  async listAccounts(provider?: string): Promise<ProviderAccountRecord[]> {
+    let query = supabase
+      .from('provider_accounts')
+      .select(ACCOUNT_PUBLIC_COLUMNS)
+      .order('provider', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (provider) {
+      query = query.eq('provider', provider)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      console.error('[ACCOUNT POOL] Failed to list accounts:', error)
+      return []
+    }
+
+    return (data || []) as unknown as ProviderAccountRecord[]
+  }
+}
+
+export const providerAccountPool = new ProviderAccountPool()
+
+export default providerAccountPool
@@ -0,0 +1,209 @@
+/**
+ * 视频生成提供方注册表
+ * 负责注册提供方，并按 请求指定 > 模板指定 > 管理员默认 > 环境变量 的顺序选择提供方。
+ * 故障转移由服务端 video-queue-worker 执行，这里只展示其记录的提供方健康状态
+ */
+
+import { supabase } from '@/lib/supabase'
+import { qingyunVideoProvider } from './QingyunVideoProvider'
+import { mockVideoProvider } from './MockVideoProvider'
+import type { VideoGenerationProvider } from './VideoGenerationProvider'
+
+// system_settings 中管理员配置的默认提供方
+export const PROVIDER_SETTING_KEY = 'video_generation_provider'
+
+// 管理员配置缓存时间
+const SETTING_CACHE_TTL = 60 * 1000
+
+export interface ProviderSelection {
+  /** 调用方显式指定（如管理员为某个任务手动选择） */
+  requested?: string | null
+  /** 模板 JSON 中声明的 provider 字段 */
+  templateProvider?: string | null
+}
+
+export interface ProviderHealth {
+  providerId: string
+  samples: number
+  errorRate: number
+  tripped: boolean
+  trippedUntil?: Date
+  lastError?: string
+}
+
+export interface ProviderInfo {
+  id: string
+  displayName: string
+  available: boolean
+  isDefault: boolean
+  health: ProviderHealth
+}
+
+class VideoProviderRegistry {
+  private providers = new Map<string, VideoGenerationProvider>()
+  private adminDefault: string | null = null
+  private adminDefaultLoadedAt = 0
+
+  register(provider: VideoGenerationProvider): void {
+    if (this.providers.has(provider.id)) {
+      console.warn(`[PROVIDER REGISTRY] Provider ${provider.id} already registered, replacing`)
+    }
+    this.providers.set(provider.id, provider)
+  }
+
+  unregister(providerId: string): void {
+    this.providers.delete(providerId)
+  }
+
+  get(providerId: string): VideoGenerationProvider | undefined {
+    return this.providers.get(providerId)
+  }
+
+  list(): VideoGenerationProvider[] {
+    return Array.from(this.providers.values())
+  }
+
+  /**
+   * 环境变量默认值：VEO_API_PROVIDER 优先，否则沿用 VEO_USE_REAL_API 开关
+   */
+  getEnvDefaultId(): string {
+    const configured = process.env.VEO_API_PROVIDER
+    if (configured && this.providers.has(configured)) {
+      return configured
+    }
+    return process.env.VEO_USE_REAL_API === 'true' ? qingyunVideoProvider.id : mockVideoProvider.id
+  }
+
+  /**
+   * 读取管理员在 system_settings 中配置的默认提供方
+   */
+  async getAdminDefaultId(forceRefresh: boolean = false): Promise<string | null> {
+    if (!forceRefresh && Date.now() - this.adminDefaultLoadedAt < SETTING_CACHE_TTL) {
+      return this.adminDefault
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('setting_value')
+        .eq('setting_key', PROVIDER_SETTING_KEY)
+        .maybeSingle()
+
+      if (error) {
+        console.warn('[PROVIDER REGISTRY] Failed to load provider setting:', error)
+      } else {
+        const value = data?.setting_value
+        this.adminDefault = typeof value === 'string' && value ? value : null
+      }
+    } catch (error) {
+      console.warn('[PROVIDER REGISTRY] Error loading provider setting:', error)
+    }
+
+    this.adminDefaultLoadedAt = Date.now()
+    return this.adminDefault
+  }
+
+  /**
+   * 更新管理员默认提供方
+   */
+  async setAdminDefault(providerId: string): Promise<void> {
+    if (!this.providers.has(providerId)) {
+      throw new Error(`Unknown video provider: ${providerId}`)
+    }
+
+    const { error } = await supabase
+      .from('system_settings')
+      .update({ setting_value: providerId })
+      .eq('setting_key', PROVIDER_SETTING_KEY)
+
+    if (error) {
+      throw error
+    }
+
+    this.adminDefault = providerId
+    this.adminDefaultLoadedAt = Date.now()
+  }
+
+  /**
+   * 选择本次任务使用的提供方
+   */
+  async resolve(selection: ProviderSelection = {}): Promise<VideoGenerationProvider> {
+    const candidates = [
+      selection.requested,
+      selection.templateProvider,
+      await this.getAdminDefaultId(),
+      this.getEnvDefaultId()
+    ]
+
+    for (const id of candidates) {
+      if (!id) continue
+
+      const provider = this.providers.get(id)
+      if (!provider) {
+        console.warn(`[PROVIDER REGISTRY] Unknown provider "${id}", skipping`)
+        continue
+      }
+      if (!provider.isAvailable()) {
+        console.warn(`[PROVIDER REGISTRY] Provider "${id}" is not available, skipping`)
+        continue
+      }
+      return provider
+    }
+
+    throw new Error('No available video generation provider')
+  }
+
+  /**
+   * 服务端记录的提供方健康状态（video_provider_health，仅管理员可读）
+   */
+  async getHealth(): Promise<Map<string, ProviderHealth>> {
+    const health = new Map<string, ProviderHealth>()
+
+    const { data, error } = await supabase
+      .from('video_provider_health')
+      .select('provider, recent_outcomes, tripped_until, last_error')
+
+    if (error) {
+      console.warn('[PROVIDER REGISTRY] Failed to load provider health:', error)
+      return health
+    }
+
+    for (const row of data || []) {
+      const outcomes: boolean[] = row.recent_outcomes || []
+      const trippedUntil = row.tripped_until ? new Date(row.tripped_until) : undefined
+      const tripped = !!trippedUntil && trippedUntil.getTime() > Date.now()
+
+      health.set(row.provider, {
+        providerId: row.provider,
+        samples: outcomes.length,
+        errorRate: outcomes.length > 0 ? outcomes.filter(success => !success).length / outcomes.length : 0,
+        tripped,
+        trippedUntil: tripped ? trippedUntil : undefined,
+        lastError: row.last_error || undefined
+      })
+    }
+    return health
+  }
+
+  /**
+   * 管理后台使用的提供方列表
+   */
+  async describe(): Promise<ProviderInfo[]> {
+    const defaultId = (await this.getAdminDefaultId()) || this.getEnvDefaultId()
+    const health = await this.getHealth()
+    return this.list().map(provider => ({
+      id: provider.id,
+      displayName: provider.displayName,
+      available: provider.isAvailable(),
+      isDefault: provider.id === defaultId,
+      health: health.get(provider.id) || { providerId: provider.id, samples: 0, errorRate: 0, tripped: false }
+    }))
+  }
+}
+
+export const providerRegistry = new VideoProviderRegistry()
+
+providerRegistry.register(qingyunVideoProvider)
+providerRegistry.register(mockVideoProvider)
+
+export default providerRegistry
@@ -1,5 +1,16 @@
-import { getQingyunApiService } from './veo/QingyunApiService'
+import { providerRegistry } from './veo/providerRegistry'
+import {
+  providerAccountPool,
+  type AccountHealthStatus,
+  type AccountPoolSummary
+} from './veo/providerAccountPool'
+import {
+  validateAgainstCapabilities,
+  type ProviderCreateRequest,
+  type VideoGenerationProvider
+} from './veo/VideoGenerationProvider'
 import supabaseVideoService from './supabaseVideoService'
+import imageUploadService from './imageUploadService'
 import { progressManager } from './progressManager'
 import i18n from '@/i18n/config'
 
@@ -14,6 +25,8 @@ export interface VideoGenerationRequest {
   image?: string | File
   model?: 'fast' | 'pro'  // 简化为青云API的质量设置
   videoRecordId?: string  // Supabase video record ID for direct updates
+  provider?: string  // 显式指定提供方ID（管理员手动选择）
+  templateProvider?: string  // 模板声明的提供方ID
 }
 
 export interface VideoGenerationResponse {
@@ -34,105 +47,52 @@ export interface VideoGenerationResponse {
 
 export interface AccountStatus {
   id: string
-  email: string
+  provider: string
+  label: string
   isActive: boolean
+  healthStatus: AccountHealthStatus
   dailyQuota: number
   usedQuota: number
+  weight: number
+  cooldownUntil?: Date
+  lastError?: string
   lastUsed?: Date
 }
 
+export interface AccountHealthReport {
+  healthy: number
+  total: number
+  cooling: number
+  availableQuota: number
+  /** 按提供方汇总 */
+  providers: Array<{ providerId: string } & AccountPoolSummary>
+}
+
 class Veo3Service {
-  private accounts: AccountStatus[] = []
-  private currentAccountIndex = 0
   private activeJobs: Map<string, VideoGenerationResponse> = new Map()
-
-  constructor() {
-    // 初始化模拟账户池
-    this.initializeAccounts()
-  }
-
-  private initializeAccounts() {
-    // 模拟多个账户用于开发测试
-    this.accounts = [
-      {
-        id: 'account-1',
-        email: 'veo-account-1@example.com',
-        isActive: true,
-        dailyQuota: 100,
-        usedQuota: 0,
-        lastUsed: undefined
-      },
-      {
-        id: 'account-2',
-        email: 'veo-account-2@example.com',
-        isActive: true,
-        dailyQuota: 100,
-        usedQuota: 25,
-        lastUsed: new Date()
-      },
-      {
-        id: 'account-3',
-        email: 'veo-account-3@example.com',
-        isActive: true,
-        dailyQuota: 100,
-        usedQuota: 50,
-        lastUsed: new Date()
-      }
-    ]
-  }
-
-  private getNextAvailableAccount(): AccountStatus | null {
-    // 轮询获取下一个可用账户
-    let attempts = 0
-    
-    while (attempts < this.accounts.length) {
-      const account = this.accounts[this.currentAccountIndex]
-      
-      if (account.isActive && account.usedQuota < account.dailyQuota) {
-        this.currentAccountIndex = (this.currentAccountIndex + 1) % this.accounts.length
-        return account
-      }
-      
-      this.currentAccountIndex = (this.currentAccountIndex + 1) % this.accounts.length
-      attempts++
-    }
-    
-    return null
-  }
+  private jobRequests: Map<string, VideoGenerationRequest> = new Map()
 
   async generateVideo(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    const useRealAPI = process.env.VEO_USE_REAL_API === 'true'
-    
-    if (useRealAPI) {
-      // 使用青云API
-      return this.generateVideoWithQingyunAPI(request)
-    } else {
-      // 使用模拟生成（开发环境）
-      return this.generateVideoWithMock(request)
-    }
+    // 按 请求指定 > 模板指定 > 管理员默认 > 环境变量 选择提供方
+    const provider = await providerRegistry.resolve({
+      requested: request.provider,
+      templateProvider: request.templateProvider
+    })
+
+    console.log(`[VEO3 SERVICE] Using provider: ${provider.id}`)
+    return this.generateVideoWithProvider(provider, request)
   }
 
   /**
-   * 使用青云API生成视频
+   * 使用指定提供方生成视频
    */
-  private async generateVideoWithQingyunAPI(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    const trackingId = `qingyun-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+  private async generateVideoWithProvider(
+    provider: VideoGenerationProvider,
+    request: VideoGenerationRequest
+  ): Promise<VideoGenerationResponse> {
+    const trackingId = `${provider.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
     
     try {
-      // 获取青云API配置
-      const apiKey = process.env.QINGYUN_API_KEY
-      const endpoint = process.env.QINGYUN_API_ENDPOINT || 'https://api.qingyuntop.top'
-      
-      if (!apiKey) {
-        throw new Error('Qingyun API key not configured')
-      }
-
-      // 初始化青云服务
-      const qingyunService = getQingyunApiService({
-        apiKey,
-        endpoint
-      })
-      
       // 注册任务到 activeJobs，以便 subscribeToStatus 能够找到
       const job: VideoGenerationResponse = {
         id: trackingId,
@@ -141,33 +101,42 @@ class Veo3Service {
         createdAt: new Date()
       }
       this.activeJobs.set(trackingId, job)
-      console.log('[VEO3 SERVICE] Registered Qingyun task to activeJobs:', trackingId)
-      
-      console.log('[VEO3 SERVICE] Using Qingyun API for video generation')
+      this.jobRequests.set(trackingId, request)
+      console.log(`[VEO3 SERVICE] Registered ${provider.id} task to activeJobs:`, trackingId)
       
       // 处理图片参数
       let images: string[] | undefined
       if (request.image) {
-        images = await this.processImagesForQingyun(request.image)
+        images = await this.processImagesForProvider(request.image, request.userId)
+      }
+
+      const createRequest: ProviderCreateRequest = {
+        prompt: request.prompt,
+        quality: request.model || 'fast',
+        aspectRatio: request.aspectRatio,
+        images,
+        enhancePrompt: true
+      }
+
+      const unsupportedReason = validateAgainstCapabilities(provider.getCapabilities(), createRequest)
+      if (unsupportedReason) {
+        throw new Error(`${provider.displayName}: ${unsupportedReason}`)
       }
-      
-      // 自动选择正确的青云模型
-      const quality = request.model || 'fast'
-      const qingyunModel = qingyunService.selectModel(quality, !!images)
-      
-      console.log(`[VEO3 SERVICE] Qingyun model selected: ${qingyunModel}`)
       
       // 创建视频任务
-      const task = await qingyunService.createVideo({
-        prompt: request.prompt,
-        model: qingyunModel,
-        images: images,
-        enhance_prompt: true
-      })
+      const task = await provider.createTask(createRequest)
       
-      // 立即保存青云任务ID到数据库，确保任务可以恢复 - 关键步骤！
+      // 立即保存上游任务ID到数据库，确保任务可以恢复 - 关键步骤！
       if (request.videoRecordId) {
-        console.log(`[VEO3 SERVICE] ⚡ CRITICAL: Saving Qingyun task ID to database: ${task.id}`)
+        console.log(`[VEO3 SERVICE] ⚡ CRITICAL: Saving ${provider.id} task ID to database: ${task.id}`)
+
+        // 记录本次使用的提供方，恢复任务时据此选择提供方
+        const existing = await supabaseVideoService.getVideo(request.videoRecordId)
+        const metadata = {
+          ...(existing?.metadata || {}),
+          provider: provider.id,
+          providerModel: task.model || null
+        }
         
         // 多次尝试保存，确保成功
         let saveSuccess = false
@@ -176,7 +145,8 @@ class Veo3Service {
             await supabaseVideoService.updateVideoAsSystem(request.videoRecordId, {
               veo3_job_id: task.id,
               status: 'processing',
-              processing_started_at: new Date().toISOString()
+              processing_started_at: new Date().toISOString(),
+              metadata
             })
             console.log(`[VEO3 SERVICE] ✅ Successfully saved veo3_job_id: ${task.id} (attempt ${attempt})`)
             saveSuccess = true
@@ -198,9 +168,9 @@ class Veo3Service {
       }
       
       // 轮询获取结果
-      const result = await qingyunService.pollUntilComplete(
+      const result = await provider.waitForCompletion(
         task.id,
-        async (progress) => {
+        (progress) => {
           // 更新 activeJobs 中的进度状态
           const job = this.activeJobs.get(trackingId)
           if (job) {
@@ -219,25 +189,25 @@ class Veo3Service {
               qingyunTaskId: task.id
             })
           }
-        },
-        60,  // 最大尝试次数
-        10000  // 轮询间隔 10 秒
+        }
       )
       
-      if (result.video_url) {
+      if (result.videoUrl) {
         // 🎬 详细记录生成完成的视频URL
         console.log('[VEO3 SERVICE] ========== 视频生成完成 ==========')
-        console.log('[VEO3 SERVICE] 📹 原始视频URL:', result.video_url)
-        console.log('[VEO3 SERVICE] 📏 URL长度:', result.video_url.length)
-        console.log('[VEO3 SERVICE] 🔗 URL类型:', typeof result.video_url)
-        console.log('[VEO3 SERVICE] ✅ URL有效性:', result.video_url.startsWith('http'))
+        console.log('[VEO3 SERVICE] 📹 原始视频URL:', result.videoUrl)
+        console.log('[VEO3 SERVICE] 📏 URL长度:', result.videoUrl.length)
+        console.log('[VEO3 SERVICE] 🔗 URL类型:', typeof result.videoUrl)
+        console.log('[VEO3 SERVICE] ✅ URL有效性:', result.videoUrl.startsWith('http'))
         console.log('[VEO3 SERVICE] ============================================')
         
         // 更新 activeJobs 中的任务状态为完成
         const job = this.activeJobs.get(trackingId)
         if (job) {
           job.status = 'completed'
-          job.videoUrl = result.video_url
+          job.videoUrl = result.videoUrl
+          job.thumbnailUrl = result.thumbnailUrl || undefined
+          job.metadata = result.metadata
           job.completedAt = new Date()
           job.progress = 100
           this.activeJobs.set(trackingId, job)
@@ -252,22 +222,23 @@ class Veo3Service {
           console.log('[VEO3 SERVICE] 📋 Update details:', {
             videoRecordId: request.videoRecordId,
             newStatus: 'completed',
-            videoUrl: result.video_url,
-            videoUrlLength: result.video_url.length,
-            videoUrlType: typeof result.video_url,
+            videoUrl: result.videoUrl,
+            videoUrlLength: result.videoUrl.length,
+            videoUrlType: typeof result.videoUrl,
             timestamp: updateTimestamp
           })
           
           // 先更新内存状态为完成
-          progressManager.markAsCompleted(request.videoRecordId, result.video_url)
+          progressManager.markAsCompleted(request.videoRecordId, result.videoUrl)
           console.log('[VEO3 SERVICE] ✅ Memory state updated via progressManager')
-          console.log('[VEO3 SERVICE] 🔄 准备发送到数据库的video_url:', result.video_url)
+          console.log('[VEO3 SERVICE] 🔄 准备发送到数据库的video_url:', result.videoUrl)
           
           // 再更新数据库（只更新一次）
           console.log('[VEO3 SERVICE] 🔄 Starting database status update to COMPLETED...')
           const updatePayload = {
             status: 'completed' as const,
-            video_url: result.video_url,
+            video_url: result.videoUrl,
+            ...(result.thumbnailUrl ? { thumbnail_url: result.thumbnailUrl } : {}),
             processing_completed_at: new Date().toISOString()
           }
           console.log('[VEO3 SERVICE] 📤 完整更新载荷:', updatePayload)
@@ -283,11 +254,11 @@ class Veo3Service {
               id: updateResult.id,
               status: updateResult.status,
               hasVideoUrl: !!updateResult.video_url,
-              videoUrlMatches: updateResult.video_url === result.video_url,
+              videoUrlMatches: updateResult.video_url === result.videoUrl,
               completedAt: updateResult.processing_completed_at
             })
           } else {
-            console.error('[VEO3 SERVICE] ❌ Failed to update video status, but video was generated:', result.video_url)
+            console.error('[VEO3 SERVICE] ❌ Failed to update video status, but video was generated:', result.videoUrl)
             console.error('[VEO3 SERVICE] ❌ updateResult is null/undefined')
           }
         }
@@ -303,11 +274,11 @@ class Veo3Service {
               console.log('[VEO3 SERVICE] 🎯 状态:', verifyResult.status)
               console.log('[VEO3 SERVICE] 📹 video_url:', verifyResult.video_url)
               console.log('[VEO3 SERVICE] 📏 video_url长度:', verifyResult.video_url ? verifyResult.video_url.length : 'NULL')
-              console.log('[VEO3 SERVICE] ✅ URL匹配:', verifyResult.video_url === result.video_url)
+              console.log('[VEO3 SERVICE] ✅ URL匹配:', verifyResult.video_url === result.videoUrl)
               
-              if (!verifyResult.video_url || verifyResult.video_url !== result.video_url) {
+              if (!verifyResult.video_url || verifyResult.video_url !== result.videoUrl) {
                 console.error('[VEO3 SERVICE] 🚨 数据库验证失败！video_url未正确保存')
-                console.error('[VEO3 SERVICE] 🚨 期望URL:', result.video_url)
+                console.error('[VEO3 SERVICE] 🚨 期望URL:', result.videoUrl)
                 console.error('[VEO3 SERVICE] 🚨 实际URL:', verifyResult.video_url)
               } else {
                 console.log('[VEO3 SERVICE] ✅ 数据库验证成功！video_url已正确保存')
@@ -326,14 +297,17 @@ class Veo3Service {
         // 延迟清理任务，给订阅者时间处理完成事件
         setTimeout(() => {
           this.activeJobs.delete(trackingId)
-          console.log('[VEO3 SERVICE] Cleaned up completed Qingyun task:', trackingId)
+          this.jobRequests.delete(trackingId)
+          console.log(`[VEO3 SERVICE] Cleaned up completed ${provider.id} task:`, trackingId)
         }, 5000)
         
         // 返回成功响应
         return {
           id: trackingId,
           status: 'completed' as const,
-          videoUrl: result.video_url,
+          videoUrl: result.videoUrl,
+          thumbnailUrl: result.thumbnailUrl || undefined,
+          metadata: result.metadata,
           progress: 100,
           createdAt: new Date(),
           completedAt: new Date()
@@ -368,7 +342,8 @@ class Veo3Service {
       // 延迟清理失败的任务
       setTimeout(() => {
         this.activeJobs.delete(trackingId)
-        console.log('[VEO3 SERVICE] Cleaned up failed Qingyun task:', trackingId)
+        this.jobRequests.delete(trackingId)
+        console.log(`[VEO3 SERVICE] Cleaned up failed ${provider.id} task:`, trackingId)
       }, 10000)
       
       // 返回失败响应
@@ -383,88 +358,23 @@ class Veo3Service {
   }
 
   /**
-   * 处理图片为青云API格式（URL数组）
-   * 青云API只接受URL格式的图片
+   * 处理图片为提供方可用的格式（URL数组）
+   * 提供方只接受URL格式的图片，File 和 base64 图片先上传到 Storage 并使用签名URL
    */
-  private async processImagesForQingyun(image: string | File): Promise<string[]> {
-    // 青云API只接受URL格式
+  private async processImagesForProvider(image: string | File, userId?: string): Promise<string[]> {
     if (typeof image === 'string' && 
         (image.startsWith('http://') || image.startsWith('https://'))) {
-      console.log('[VEO3 SERVICE] Image URL for Qingyun:', image)
+      console.log('[VEO3 SERVICE] Image URL for provider:', image)
       return [image]
     }
     
-    // 如果不是URL，抛出错误提示用户
-    throw new Error('青云API只支持URL格式的图片。请提供图片的URL地址。')
-  }
-
-  /**
-   * 使用模拟生成（开发环境）
-   */
-  private async generateVideoWithMock(request: VideoGenerationRequest): Promise<VideoGenerationResponse> {
-    // 获取可用账户
-    const account = this.getNextAvailableAccount()
-    if (!account) {
-      throw new Error('No available accounts for video generation')
-    }
-
-    // 创建生成任务
-    const jobId = `job-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    const job: VideoGenerationResponse = {
-      id: jobId,
-      status: 'pending',
-      progress: 0,
-      createdAt: new Date()
+    if (!userId) {
+      throw new Error('上传参考图片需要登录')
     }
 
-    this.activeJobs.set(jobId, job)
-
-    // 模拟异步生成过程
-    this.simulateVideoGeneration(jobId, account, request)
-
-    return job
-  }
-
-  private async simulateVideoGeneration(
-    jobId: string,
-    account: AccountStatus,
-    request: VideoGenerationRequest
-  ) {
-    const job = this.activeJobs.get(jobId)
-    if (!job) return
-
-    // 更新状态为处理中
-    job.status = 'processing'
-    job.progress = 10
-
-    // 模拟生成进度
-    const progressSteps = [20, 40, 60, 80, 95, 100]
-    for (const progress of progressSteps) {
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      job.progress = progress
-      
-      // 随机产生错误（5%概率）
-      if (Math.random() < 0.05) {
-        job.status = 'failed'
-        job.error = 'Video generation failed: API limit exceeded'
-        return
-      }
-    }
-
-    // 生成完成
-    job.status = 'completed'
-    job.completedAt = new Date()
-    job.videoUrl = this.generateMockVideoUrl(request.prompt)
-    job.thumbnailUrl = this.generateMockThumbnailUrl(request.prompt)
-    job.metadata = {
-      duration: Math.floor(Math.random() * 30) + 10, // 10-40秒
-      resolution: '1920x1080',
-      fileSize: Math.floor(Math.random() * 50) + 10 // 10-60MB
-    }
-
-    // 更新账户使用配额
-    account.usedQuota += 1
-    account.lastUsed = new Date()
+    const uploaded = await imageUploadService.uploadGenerationImage(userId, image)
+    console.log('[VEO3 SERVICE] Uploaded image for provider:', uploaded.path)
+    return [uploaded.signedUrl]
   }
 
   async getJobStatus(jobId: string): Promise<VideoGenerationResponse | null> {
@@ -483,50 +393,56 @@ class Veo3Service {
 
   async retryJob(jobId: string): Promise<VideoGenerationResponse> {
     const job = this.activeJobs.get(jobId)
-    if (!job || job.status !== 'failed') {
+    const request = this.jobRequests.get(jobId)
+    if (!job || job.status !== 'failed' || !request) {
       throw new Error('Job not found or not in failed state')
     }
 
-    // 重置任务状态
-    job.status = 'pending'
-    job.error = undefined
-    job.progress = 0
-
-    // 重新生成
-    const account = this.getNextAvailableAccount()
-    if (!account) {
-      throw new Error('No available accounts for retry')
-    }
-
-    this.simulateVideoGeneration(jobId, account, {
-      prompt: '',
-      template: '',
-      parameters: {},
-      credits: 0
-    })
-
-    return job
+    // 使用原始请求重新生成（会重新选择提供方）
+    this.jobRequests.delete(jobId)
+    return this.generateVideo(request)
   }
 
-  getAccountsStatus(): AccountStatus[] {
-    return this.accounts.map(acc => ({ ...acc }))
+  /**
+   * 账户池中所有账户的状态（管理后台使用）
+   */
+  async getAccountsStatus(providerId?: string): Promise<AccountStatus[]> {
+    const accounts = await providerAccountPool.listAccounts(providerId)
+    const today = new Date().toISOString().slice(0, 10)
+
+    return accounts.map(acc => ({
+      id: acc.id,
+      provider: acc.provider,
+      label: acc.label,
+      isActive: acc.is_active,
+      healthStatus: acc.health_status,
+      dailyQuota: acc.daily_quota,
+      // 跨天尚未重置的账户视为今日未使用
+      usedQuota: acc.quota_date < today ? 0 : acc.used_today,
+      weight: acc.weight,
+      cooldownUntil: acc.cooldown_until ? new Date(acc.cooldown_until) : undefined,
+      lastError: acc.last_error || undefined,
+      lastUsed: acc.last_used_at ? new Date(acc.last_used_at) : undefined
+    }))
   }
 
-  async checkAccountHealth(): Promise<{
-    healthy: number
-    total: number
-    availableQuota: number
-  }> {
-    const healthy = this.accounts.filter(acc => acc.isActive).length
-    const availableQuota = this.accounts.reduce(
-      (sum, acc) => sum + (acc.dailyQuota - acc.usedQuota),
-      0
+  /**
+   * 账户池健康状况汇总
+   */
+  async checkAccountHealth(): Promise<AccountHealthReport> {
+    const providers = await Promise.all(
+      providerRegistry.list().map(async provider => ({
+        providerId: provider.id,
+        ...(await providerAccountPool.getSummary(provider.id, true))
+      }))
     )
 
     return {
-      healthy,
-      total: this.accounts.length,
-      availableQuota
+      healthy: providers.reduce((sum, p) => sum + p.healthy, 0),
+      total: providers.reduce((sum, p) => sum + p.total, 0),
+      cooling: providers.reduce((sum, p) => sum + p.cooling, 0),
+      availableQuota: providers.reduce((sum, p) => sum + p.availableQuota, 0),
+      providers
     }
   }
 
@@ -634,16 +550,6 @@ class Veo3Service {
     }
   }
 
-  private generateMockVideoUrl(prompt: string): string {
-    const encodedPrompt = encodeURIComponent(prompt.substring(0, 50))
-    return `https://storage.googleapis.com/veo3-mock/videos/${Date.now()}_${encodedPrompt}.mp4`
-  }
-
-  private generateMockThumbnailUrl(prompt: string): string {
-    const encodedPrompt = encodeURIComponent(prompt.substring(0, 50))
-    return `https://storage.googleapis.com/veo3-mock/thumbnails/${Date.now()}_${encodedPrompt}.jpg`
-  }
-
   // 获取生成历史
   async getGenerationHistory(): Promise<VideoGenerationResponse[]> {
     return Array.from(this.activeJobs.values())
@@ -666,7 +572,7 @@ class Veo3Service {
    * 恢复已有的任务（从数据库重新加载后继续轮询）
    */
   async restoreJob(qingyunTaskId: string, videoRecordId: string): Promise<boolean> {
-    console.log(`[VEO3 SERVICE] ========== 开始恢复青云API任务 ==========`)
+    console.log(`[VEO3 SERVICE] ========== 开始恢复视频生成任务 ==========`)
     console.log(`[VEO3 SERVICE] 🎯 任务ID: ${qingyunTaskId}`)
     console.log(`[VEO3 SERVICE] 🎬 视频ID: ${videoRecordId}`)
     console.log(`[VEO3 SERVICE] 📅 时间: ${new Date().toISOString()}`)
@@ -701,37 +607,27 @@ class Veo3Service {
         console.log(`[VEO3 SERVICE] 📝 任务 ${qingyunTaskId} 不在 activeJobs 中，需要恢复`)
       }
 
-      // 获取青云API配置
-      console.log(`[VEO3 SERVICE] 🔧 步骤3：获取青云API配置...`)
-      const apiKey = process.env.QINGYUN_API_KEY
-      const endpoint = process.env.QINGYUN_API_ENDPOINT || 'https://api.qingyuntop.top'
+      // 按视频记录中保存的提供方恢复（旧记录没有该字段，均来自青云API）
+      console.log(`[VEO3 SERVICE] 🔧 步骤3：获取视频生成提供方...`)
+      const providerId = currentVideo.metadata?.provider || 'qingyun'
+      const provider = providerRegistry.get(providerId)
       
-      console.log(`[VEO3 SERVICE] 🔧 API端点: ${endpoint}`)
-      console.log(`[VEO3 SERVICE] 🔧 API密钥存在: ${!!apiKey}`)
+      console.log(`[VEO3 SERVICE] 🔧 提供方: ${providerId}`)
       
-      if (!apiKey) {
-        console.error('[VEO3 SERVICE] ❌ 青云API密钥未配置，无法恢复任务')
+      if (!provider || !provider.isAvailable()) {
+        console.error(`[VEO3 SERVICE] ❌ 提供方 ${providerId} 不可用，无法恢复任务`)
         return false
       }
-
-      // 初始化青云服务
-      console.log(`[VEO3 SERVICE] 🚀 步骤4：初始化青云API服务...`)
-      const { getQingyunApiService } = await import('./veo/QingyunApiService')
-      const qingyunService = getQingyunApiService({
-        apiKey,
-        endpoint
-      })
-      console.log(`[VEO3 SERVICE] ✅ 青云API服务初始化完成`)
+      console.log(`[VEO3 SERVICE] ✅ 提供方 ${provider.displayName} 可用`)
 
       // 先查询一次当前状态
-      console.log(`[VEO3 SERVICE] 🔍 步骤5：查询青云API任务当前状态...`)
+      console.log(`[VEO3 SERVICE] 🔍 步骤5：查询上游任务当前状态...`)
       let currentStatus
       try {
-        currentStatus = await qingyunService.queryStatus(qingyunTaskId)
+        currentStatus = await provider.queryStatus(qingyunTaskId)
         console.log(`[VEO3 SERVICE] 📊 任务状态查询结果:`)
         console.log(`[VEO3 SERVICE]   - 状态: ${currentStatus.status}`)
-        console.log(`[VEO3 SERVICE]   - video_url: ${currentStatus.video_url ? 'EXISTS' : 'NULL'}`)
-        console.log(`[VEO3 SERVICE]   - 更新时间: ${new Date(currentStatus.status_update_time * 1000).toISOString()}`)
+        console.log(`[VEO3 SERVICE]   - video_url: ${currentStatus.videoUrl ? 'EXISTS' : 'NULL'}`)
       } catch (error) {
         console.error(`[VEO3 SERVICE] ❌ 查询任务状态失败 ${qingyunTaskId}:`, error)
         console.error(`[VEO3 SERVICE] 错误详情:`, {
@@ -747,20 +643,20 @@ class Veo3Service {
       // 如果任务已经完成或失败，更新数据库状态
       if (currentStatus.status === 'completed') {
         console.log(`[VEO3 SERVICE] ✅ 步骤6a：任务已完成，更新数据库状态...`)
-        console.log(`[VEO3 SERVICE] 🎬 视频URL: ${currentStatus.video_url}`)
+        console.log(`[VEO3 SERVICE] 🎬 视频URL: ${currentStatus.videoUrl}`)
         
         try {
           // 更新视频记录状态
           const supabaseVideoService = (await import('./supabaseVideoService')).default
           await supabaseVideoService.updateVideoAsSystem(videoRecordId, {
             status: 'completed' as const,
-            video_url: currentStatus.video_url,
+            video_url: currentStatus.videoUrl,
             processing_completed_at: new Date().toISOString()
           })
           console.log(`[VEO3 SERVICE] ✅ 数据库状态更新成功`)
 
           // 更新进度管理器
-          progressManager.markAsCompleted(videoRecordId, currentStatus.video_url || undefined)
+          progressManager.markAsCompleted(videoRecordId, currentStatus.videoUrl || undefined)
           console.log(`[VEO3 SERVICE] ✅ 进度管理器更新成功`)
           
           console.log(`[VEO3 SERVICE] 🎉 任务 ${qingyunTaskId} 恢复并完成`)
@@ -796,13 +692,13 @@ class Veo3Service {
       }
 
       // 如果任务仍在处理中，恢复轮询
-      if (currentStatus.status === 'processing' || currentStatus.status === 'pending' || currentStatus.status === 'video_generating') {
+      if (currentStatus.status === 'processing' || currentStatus.status === 'pending') {
         console.log(`[VEO3 SERVICE] 🔄 步骤7：任务仍在处理中，恢复轮询...`)
         console.log(`[VEO3 SERVICE] 📊 当前任务状态: ${currentStatus.status}`)
 
         // 创建任务对象并添加到 activeJobs
         const initialProgress = currentStatus.status === 'pending' ? 5 : 
-                               currentStatus.status === 'video_generating' ? 35 : 15
+                               (currentStatus.progress || 15)
                                
         const job: VideoGenerationResponse = {
           id: qingyunTaskId,
@@ -816,9 +712,9 @@ class Veo3Service {
 
         // 在后台继续轮询（不阻塞返回）
         console.log(`[VEO3 SERVICE] 🔄 启动后台轮询...`)
-        this.resumePollingInBackground(qingyunTaskId, qingyunService, videoRecordId)
+        this.resumePollingInBackground(qingyunTaskId, provider, videoRecordId)
         
-        console.log(`[VEO3 SERVICE] ✅ 青云API轮询恢复成功: ${qingyunTaskId}`)
+        console.log(`[VEO3 SERVICE] ✅ 轮询恢复成功: ${qingyunTaskId}`)
         return true
       }
 
@@ -844,7 +740,7 @@ class Veo3Service {
    */
   private async resumePollingInBackground(
     qingyunTaskId: string, 
-    qingyunService: any, 
+    provider: VideoGenerationProvider, 
     videoRecordId: string
   ) {
     console.log(`[VEO3 SERVICE] 🔄 ========== 开始后台轮询 ==========`)
@@ -853,14 +749,14 @@ class Veo3Service {
     console.log(`[VEO3 SERVICE] ⏰ 开始时间: ${new Date().toISOString()}`)
     
     try {
-      console.log(`[VEO3 SERVICE] 🚀 启动青云API轮询监控...`)
+      console.log(`[VEO3 SERVICE] 🚀 启动 ${provider.id} 轮询监控...`)
 
       // 继续轮询任务直到完成
-      const result = await qingyunService.pollUntilComplete(
+      const result = await provider.waitForCompletion(
         qingyunTaskId,
         (progress: number) => {
           // 更新进度
-          console.log(`[VEO3 SERVICE] 📊 青云API进度更新: ${progress}%`)
+          console.log(`[VEO3 SERVICE] 📊 上游进度更新: ${progress}%`)
           progressManager.updateProgress(videoRecordId, {
             progress,
             status: 'processing',
@@ -878,18 +774,18 @@ class Veo3Service {
         job.status = 'completed'
         job.progress = 100
         job.completedAt = new Date()
-        job.videoUrl = result.video_url || undefined
+        job.videoUrl = result.videoUrl || undefined
         console.log(`[VEO3 SERVICE] ✅ activeJobs状态更新完成`)
       } else {
         console.warn(`[VEO3 SERVICE] ⚠️ 在activeJobs中未找到任务 ${qingyunTaskId}`)
       }
 
       console.log(`[VEO3 SERVICE] 🎬 恢复的任务完成: ${qingyunTaskId}`)
-      console.log(`[VEO3 SERVICE] 🎥 生成的视频URL: ${result.video_url || 'NULL'}`)
+      console.log(`[VEO3 SERVICE] 🎥 生成的视频URL: ${result.videoUrl || 'NULL'}`)
       
       // 更新进度管理器
       console.log(`[VEO3 SERVICE] 📊 更新进度管理器为完成状态...`)
-      progressManager.markAsCompleted(videoRecordId, result.video_url || undefined)
+      progressManager.markAsCompleted(videoRecordId, result.videoUrl || undefined)
       console.log(`[VEO3 SERVICE] ✅ 进度管理器更新完成`)
 
       // 更新数据库状态
@@ -897,7 +793,7 @@ class Veo3Service {
       const supabaseVideoService = (await import('./supabaseVideoService')).default
       await supabaseVideoService.updateVideoAsSystem(videoRecordId, {
         status: 'completed' as const,
-        video_url: result.video_url,
+        video_url: result.videoUrl,
         processing_completed_at: new Date().toISOString()
       })
       console.log(`[VEO3 SERVICE] ✅ 数据库状态更新完成`)
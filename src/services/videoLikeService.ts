@@ -0,0 +1,73 @@
+/**
+ * 视频点赞服务
+ * 点赞/取消点赞经过 video-likes Edge Function（只能点赞公开视频，点赞数通过计数器事件 video_like 批量落库），
+ * 点赞状态直接调用 get_video_like_status 读取，见 029_video_likes.sql
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export interface VideoLikeStatus {
+  video_id: string
+  is_liked: boolean
+  like_count: number
+}
+
+export interface ToggleVideoLikeResult {
+  success: boolean
+  is_liked: boolean
+  like_count: number
+}
+
+// Edge Function 返回的错误码，前端按错误码显示本地化提示
+export type VideoLikeErrorCode = 'VIDEO_LIKE_TARGET_NOT_FOUND' | 'VIDEO_LIKE_FAILED'
+
+class VideoLikeService {
+  /**
+   * 单个视频的点赞状态（未登录时 is_liked 为 false）
+   */
+  async getLikeStatus(videoId: string): Promise<VideoLikeStatus | null> {
+    const statuses = await this.getMultipleLikeStatus([videoId])
+    return statuses[0] || null
+  }
+
+  /**
+   * 批量获取视频点赞状态，私有或已删除的视频不返回
+   */
+  async getMultipleLikeStatus(videoIds: string[]): Promise<VideoLikeStatus[]> {
+    if (videoIds.length === 0) return []
+
+    const { data, error } = await supabase.rpc('get_video_like_status', {
+      p_video_ids: videoIds
+    })
+
+    if (error) {
+      console.error('[VideoLikeService] 获取点赞状态失败:', error)
+      throw new Error('VIDEO_LIKE_FAILED')
+    }
+    return (data || []) as VideoLikeStatus[]
+  }
+
+  /**
+   * 点赞/取消点赞，返回最新状态，失败时抛出错误码
+   */
+  async toggleLike(videoId: string): Promise<ToggleVideoLikeResult> {
+    const { data, error } = await supabase.functions.invoke('video-likes', {
+      body: { action: 'toggle', videoId }
+    })
+
+    if (error) {
+      // 非 2xx 响应的错误码在响应体中
+      const response = (error as { context?: Response }).context
+      const payload = response && typeof response.json === 'function'
+        ? await response.json().catch(() => null)
+        : null
+      console.error('[VideoLikeService] 点赞操作失败:', payload || error)
+      throw new Error((payload?.code as VideoLikeErrorCode) || 'VIDEO_LIKE_FAILED')
+    }
+    return data as ToggleVideoLikeResult
+  }
+}
+
+// 导出单例实例
+export const videoLikeService = new VideoLikeService()
+export default videoLikeService
@@ -1,6 +1,7 @@
 /**
- * 视频生成队列管理服务
- * 负责管理视频生成任务的队列、并发限制和调度
+ * 视频生成队列服务（浏览器端）
+ * 只负责提交任务和查询队列状态；排队、并发控制和调度由服务端
+ * video-queue-worker Edge Function 基于 videos 表完成
  */
 
 import { supabase } from '@/lib/supabase'
@@ -10,23 +11,75 @@ import redisCacheIntegrationService from './RedisCacheIntegrationService'
 import type { Database } from '@/lib/supabase'
 
 type Video = Database['public']['Tables']['videos']['Row']
+export type BaseTier = 'free' | 'basic' | 'pro' | 'premium'
 type SubscriptionTier = 'free' | 'basic' | 'pro' | 'premium' | 'basic-annual' | 'pro-annual' | 'enterprise-annual'
 
-// 将年度计划映射到对应的基础计划以获取并发限制
-const mapAnnualToBaseTier = (tier: SubscriptionTier): SubscriptionTier => {
+export const BASE_TIERS: BaseTier[] = ['free', 'basic', 'pro', 'premium']
+
+// 将年度计划映射到对应的基础计划以获取并发限制和队列通道
+export const mapAnnualToBaseTier = (tier: SubscriptionTier): BaseTier => {
   if (tier === 'basic-annual') return 'basic'
   if (tier === 'pro-annual') return 'pro'  
   if (tier === 'enterprise-annual') return 'premium'
   return tier
 }
 
-export interface QueueJob {
+// system_settings 中的队列并发配置（与服务端 Worker 共用）
+export const QUEUE_CONCURRENCY_SETTING_KEY = 'video_queue_concurrency'
+
+// 队列配置缓存时间
+const SETTING_CACHE_TTL = 60 * 1000
+
+export interface QueueConcurrencyConfig {
+  /** 全局并发上限 */
+  systemMaxConcurrent: number
+  /** 各订阅等级单个用户的并发上限 */
+  userLimits: Record<BaseTier, number>
+  /** 各订阅等级所有用户合计的并发上限（未配置表示不限） */
+  tierMaxConcurrent: Partial<Record<BaseTier, number>>
+}
+
+// system_settings 中的队列通道权重，服务端按此做加权公平排队
+export const QUEUE_LANES_SETTING_KEY = 'video_queue_lanes'
+
+export interface QueueLaneConfig {
+  /** 各订阅等级的通道权重，权重越大分得的处理份额越多 */
+  weights: Record<BaseTier, number>
+  /** 老化时间：每排队该分钟数相当于提前一个权重为1的处理份额 */
+  agingMinutes: number
+}
+
+export const DEFAULT_QUEUE_LANES: QueueLaneConfig = {
+  weights: { free: 1, basic: 2, pro: 4, premium: 8 },
+  agingMinutes: 10
+}
+
+// 各模型耗时统计缓存时间，以及没有统计数据时假设的单个视频生成耗时
+const PROCESSING_STATS_CACHE_TTL = 5 * 60 * 1000
+const DEFAULT_PROCESSING_SECONDS = 180
+// 统计样本少于该数量的模型不采用其耗时
+const MIN_DURATION_SAMPLES = 3
+// 已超过平均耗时的处理中任务，假设还需要的最短时间
+const MIN_REMAINING_SECONDS = 30
+
+interface ModelProcessingStats {
+  model: string
+  avg_seconds: number
+  median_seconds: number
+  sample_count: number
+}
+
+interface QueueWaitSnapshot {
+  active: Array<{ model: string; elapsedSeconds: number }>
+  queued: Array<{ model: string; position: number }>
+}
+
+/** 批量生成中单个视频所属的批次信息，保存在 videos.metadata.batch */
+export interface VideoBatchInfo {
   id: string
-  userId: string
-  videoRecordId: string
-  priority: number
-  queuedAt: Date
-  estimatedWaitMinutes?: number
+  index: number
+  total: number
+  label: string  // 该视频的参数组合说明
 }
 
 export interface SubmitJobRequest {
@@ -39,15 +92,40 @@ export interface SubmitJobRequest {
     parameters?: Record<string, any>
     creditsUsed: number
     isPublic?: boolean
+    quality?: 'fast' | 'pro'
+    aspectRatio?: '16:9' | '9:16'
+    imageUrl?: string  // 图生视频的参考图片（URL）
+    imagePath?: string // 上传到 generation-inputs 存储桶的参考图片路径，Worker 启动任务时重新签名
+    batch?: VideoBatchInfo
   }
-  priority?: number
 }
 
 export interface SubmitJobResult {
   status: 'processing' | 'queued'
   videoRecordId: string
   queuePosition?: number
-  estimatedWaitMinutes?: number
+  estimatedWaitMinutes?: number  // 按各模型实际耗时、处理中任务和队列位置估算
+}
+
+export interface SubmitBatchRequest {
+  userId: string
+  batchTitle: string
+  items: Array<{
+    label: string
+    videoData: Omit<SubmitJobRequest['videoData'], 'batch'>
+  }>
+}
+
+export interface SubmitBatchResult {
+  batchId: string
+  submitted: Array<SubmitJobResult & { label: string }>
+  failed: Array<{ label: string; error: string }>
+}
+
+export interface CancelJobResult {
+  success: boolean
+  refundedCredits?: number
+  error?: string
 }
 
 export interface UserSubmitStatus {
@@ -59,71 +137,42 @@ export interface UserSubmitStatus {
 }
 
 class VideoQueueService {
-  private systemMaxConcurrent: number
-  private queueCheckInterval: number
-  private intervalId?: NodeJS.Timeout
-  
-  // 用户并发限制配置
-  private userConcurrentLimits: Record<SubscriptionTier, number> = {
-    free: 1,
-    basic: 3,
-    pro: 5,
-    premium: 10
-  }
-
-  // 内存队列状态（启动时从数据库恢复）
-  private queuedJobs = new Map<string, QueueJob>()
-  private activeJobs = new Map<string, string>() // jobId -> userId
+  private config: QueueConcurrencyConfig
+  private configLoadedAt = 0
+  private processingDurations: Record<string, number> = {}
+  private durationsLoadedAt = 0
 
   constructor() {
-    // 从环境变量读取配置
-    this.systemMaxConcurrent = parseInt(process.env.VITE_SYSTEM_MAX_CONCURRENT_VIDEOS || '20')
-    this.queueCheckInterval = parseInt(process.env.VITE_QUEUE_CHECK_INTERVAL || '5000')
-    
-    // 读取用户并发限制配置（如果有环境变量覆盖）
-    this.userConcurrentLimits.free = parseInt(process.env.VITE_USER_CONCURRENT_FREE || '1')
-    this.userConcurrentLimits.basic = parseInt(process.env.VITE_USER_CONCURRENT_BASIC || '3')
-    this.userConcurrentLimits.pro = parseInt(process.env.VITE_USER_CONCURRENT_PRO || '5')
-    this.userConcurrentLimits.premium = parseInt(process.env.VITE_USER_CONCURRENT_PREMIUM || '10')
-
-    console.log('[QUEUE SERVICE] Initialized with config:', {
-      systemMaxConcurrent: this.systemMaxConcurrent,
-      queueCheckInterval: this.queueCheckInterval,
-      userLimits: this.userConcurrentLimits
-    })
+    // 环境变量作为默认配置，管理员可在 system_settings 中覆盖
+    this.config = {
+      systemMaxConcurrent: parseInt(process.env.VITE_SYSTEM_MAX_CONCURRENT_VIDEOS || '20'),
+      userLimits: {
+        free: parseInt(process.env.VITE_USER_CONCURRENT_FREE || '1'),
+        basic: parseInt(process.env.VITE_USER_CONCURRENT_BASIC || '3'),
+        pro: parseInt(process.env.VITE_USER_CONCURRENT_PRO || '5'),
+        premium: parseInt(process.env.VITE_USER_CONCURRENT_PREMIUM || '10')
+      },
+      tierMaxConcurrent: {}
+    }
+
+    console.log('[QUEUE SERVICE] Initialized with default config:', this.config)
   }
 
   /**
-   * 初始化队列服务（从数据库恢复状态）
+   * 初始化队列服务（预加载并发配置）
    */
   async initialize(): Promise<void> {
     try {
-      console.log('[QUEUE SERVICE] Initializing queue service...')
-      
-      // 检查数据库是否支持队列功能
       const hasQueueSupport = await this.checkQueueSupport()
-      
       if (!hasQueueSupport) {
-        console.warn('[QUEUE SERVICE] Database does not support queue features yet. Running in fallback mode.')
-        // 仍然启动队列处理器，但不从数据库恢复状态
-        this.startQueueProcessor()
+        console.warn('[QUEUE SERVICE] Database does not support queue features yet.')
         return
       }
-      
-      // 恢复处理中的任务
-      await this.restoreActiveJobs()
-      
-      // 恢复排队中的任务
-      await this.restoreQueuedJobs()
-      
-      // 启动队列处理定时器
-      this.startQueueProcessor()
-      
+
+      await this.getConfig(true)
       console.log('[QUEUE SERVICE] Queue service initialized successfully')
     } catch (error) {
       console.error('[QUEUE SERVICE] Failed to initialize:', error)
-      console.log('[QUEUE SERVICE] Starting in fallback mode...')
-      this.startQueueProcessor()
     }
   }
 
@@ -159,71 +208,36 @@ class VideoQueueService {
   }
 
   /**
-   * 恢复处理中的任务状态
+   * 读取管理员配置的并发限制（带缓存），读取失败时使用环境变量默认值
    */
-  private async restoreActiveJobs(): Promise<void> {
-    try {
-      const { data: activeVideos, error } = await supabase
-        .from('videos')
-        .select('id, user_id')
-        .eq('status', 'processing')
-        .eq('is_deleted', false)
-
-      if (error) {
-        console.error('[QUEUE SERVICE] Failed to restore active jobs:', error)
-        return
-      }
-
-      if (activeVideos) {
-        for (const video of activeVideos) {
-          this.activeJobs.set(video.id, video.user_id)
-        }
-        console.log(`[QUEUE SERVICE] Restored ${activeVideos.length} active jobs`)
-      }
-    } catch (error) {
-      console.error('[QUEUE SERVICE] Error restoring active jobs:', error)
+  async getConfig(forceRefresh: boolean = false): Promise<QueueConcurrencyConfig> {
+    if (!forceRefresh && Date.now() - this.configLoadedAt < SETTING_CACHE_TTL) {
+      return this.config
     }
-  }
 
-  /**
-   * 恢复排队中的任务状态
-   */
-  private async restoreQueuedJobs(): Promise<void> {
     try {
-      const { data: queuedVideos, error } = await supabase
-        .from('videos')
-        .select('id, user_id, queue_position, queue_entered_at')
-        .eq('status', 'pending')
-        .eq('is_deleted', false)
-        .not('queue_position', 'is', null)
-        .order('queue_position')
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('setting_value')
+        .eq('setting_key', QUEUE_CONCURRENCY_SETTING_KEY)
+        .maybeSingle()
 
       if (error) {
-        // 如果是字段不存在的错误，静默处理
-        if (error.code === '42703' || error.message?.includes('does not exist')) {
-          console.log('[QUEUE SERVICE] Queue fields not available, skipping queued jobs restoration')
-          return
-        }
-        console.error('[QUEUE SERVICE] Failed to restore queued jobs:', error)
-        return
-      }
-
-      if (queuedVideos) {
-        for (const video of queuedVideos) {
-          const job: QueueJob = {
-            id: video.id,
-            userId: video.user_id,
-            videoRecordId: video.id,
-            priority: 0, // 默认优先级
-            queuedAt: new Date(video.queue_entered_at || Date.now()),
-          }
-          this.queuedJobs.set(video.id, job)
+        console.warn('[QUEUE SERVICE] Failed to load queue setting:', error)
+      } else if (data?.setting_value && typeof data.setting_value === 'object') {
+        const value = data.setting_value as Partial<QueueConcurrencyConfig>
+        this.config = {
+          ...this.config,
+          ...value,
+          userLimits: { ...this.config.userLimits, ...(value.userLimits || {}) }
         }
-        console.log(`[QUEUE SERVICE] Restored ${queuedVideos.length} queued jobs`)
       }
     } catch (error) {
-      console.error('[QUEUE SERVICE] Error restoring queued jobs:', error)
+      console.warn('[QUEUE SERVICE] Error loading queue setting:', error)
     }
+
+    this.configLoadedAt = Date.now()
+    return this.config
   }
 
   /**
@@ -270,28 +284,33 @@ class VideoQueueService {
    */
   private async getUserConcurrentLimit(userId: string): Promise<number> {
     const tier = await this.getUserSubscriptionTier(userId)
-    const baseTier = mapAnnualToBaseTier(tier)
-    return this.userConcurrentLimits[baseTier]
+    const config = await this.getConfig()
+    return config.userLimits[mapAnnualToBaseTier(tier)]
   }
 
   /**
-   * 获取用户当前活跃的任务数
+   * 获取用户当前处理中的任务数
    */
-  private getUserActiveCount(userId: string): number {
-    let count = 0
-    for (const activeUserId of this.activeJobs.values()) {
-      if (activeUserId === userId) {
-        count++
-      }
+  private async getUserActiveCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('videos')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('status', 'processing')
+      .eq('is_deleted', false)
+
+    if (error) {
+      console.error('[QUEUE SERVICE] Failed to count active jobs:', error)
+      return 0
     }
-    return count
+    return count || 0
   }
 
   /**
    * 检查用户是否可以提交新任务
    */
   async canUserSubmit(userId: string): Promise<UserSubmitStatus> {
-    const userActiveCount = this.getUserActiveCount(userId)
+    const userActiveCount = await this.getUserActiveCount(userId)
     const userMaxAllowed = await this.getUserConcurrentLimit(userId)
     const tier = await this.getUserSubscriptionTier(userId)
 
@@ -328,14 +347,17 @@ class VideoQueueService {
 
   /**
    * 提交新的视频生成任务
+   * 视频记录创建后加入服务端队列，并立即触发一次 Worker 调度
    */
   async submitJob(request: SubmitJobRequest): Promise<SubmitJobResult> {
     console.log('[QUEUE SERVICE] Submitting job for user:', request.userId)
 
-    // 检查用户是否可以提交
-    const submitStatus = await this.canUserSubmit(request.userId)
-    if (!submitStatus.canSubmit) {
-      throw new Error(submitStatus.reason || 'Cannot submit job')
+    // 检查用户是否可以提交（批量任务在提交批次前统一检查，之后由服务端队列控制并发）
+    if (!request.videoData.batch) {
+      const submitStatus = await this.canUserSubmit(request.userId)
+      if (!submitStatus.canSubmit) {
+        throw new Error(submitStatus.reason || 'Cannot submit job')
+      }
     }
 
     // 检查用户是否有足够积分
@@ -344,22 +366,8 @@ class VideoQueueService {
       throw new Error('积分余额不足，无法生成视频')
     }
 
-    // 先扣除积分
-    const creditResult = await creditService.consumeCredits(
-      request.userId,
-      request.videoData.creditsUsed,
-      `生成视频: ${request.videoData.title || '无标题'}`,
-      undefined, // 视频ID稍后更新
-      'video_generation'
-    )
-
-    if (!creditResult.success) {
-      throw new Error(creditResult.error || '积分扣除失败')
-    }
-
-    console.log(`[QUEUE SERVICE] Credits consumed successfully: ${request.videoData.creditsUsed}, new balance: ${creditResult.newBalance}`)
-
-    // 创建视频记录
+    // 先创建视频记录，入队时由数据库按服务端价格扣费并关联视频ID
+    // 积分只能由服务端扣除，记录创建失败时尚未扣费，无需退款
     const videoRecord = await supabaseVideoService.createVideo({
       userId: request.userId,
       templateId: request.videoData.templateId,
@@ -369,349 +377,256 @@ class VideoQueueService {
       parameters: request.videoData.parameters,
       creditsUsed: request.videoData.creditsUsed,
       status: 'pending',
-      isPublic: request.videoData.isPublic
+      isPublic: request.videoData.isPublic,
+      batch: request.videoData.batch,
+      generation: {
+        quality: request.videoData.quality || 'fast',
+        aspectRatio: request.videoData.aspectRatio || '16:9',
+        imageUrl: request.videoData.imageUrl,
+        imagePath: request.videoData.imagePath
+      }
     })
 
     if (!videoRecord) {
-      // 如果创建视频记录失败，需要退还积分
-      console.error('[QUEUE SERVICE] Video record creation failed, refunding credits')
-      await creditService.addCredits(
-        request.userId,
-        request.videoData.creditsUsed,
-        'refund',
-        `视频记录创建失败，退还积分: ${request.videoData.title || '无标题'}`,
-        undefined,
-        'video_creation_failed'
-      )
       throw new Error('Failed to create video record')
     }
 
-    // 更新积分交易记录的reference_id为实际的视频ID
-    try {
-      await supabase
-        .from('credit_transactions')
-        .update({ reference_id: videoRecord.id })
-        .eq('user_id', request.userId)
-        .eq('type', 'consume')
-        .eq('reference_type', 'video_generation')
-        .is('reference_id', null)
-        .order('created_at', { ascending: false })
-        .limit(1)
-    } catch (error) {
-      console.warn('[QUEUE SERVICE] Failed to update credit transaction reference_id:', error)
+    // 扣除积分并加入服务端队列（同一事务，失败时不会扣费）
+    const { error: enqueueError } = await supabase.rpc('enqueue_video', {
+      p_video_id: videoRecord.id
+    })
+
+    if (enqueueError) {
+      console.error('[QUEUE SERVICE] Failed to enqueue video:', enqueueError)
+      // 未扣费的视频记录直接删除（不能标记为失败，否则会触发退款）
+      await supabaseVideoService.hardDeleteVideo(videoRecord.id, request.userId)
+      if (enqueueError.message?.includes('INSUFFICIENT_CREDITS')) {
+        throw new Error('积分余额不足，无法生成视频')
+      }
+      throw new Error('Failed to enqueue video')
     }
 
-    // 检查是否可以立即开始处理
-    if (this.canStartProcessing()) {
-      // 立即开始处理
-      await this.startProcessing(videoRecord.id, request.userId)
-      
+    console.log(`[QUEUE SERVICE] Video ${videoRecord.id} enqueued, credits consumed on the server`)
+
+    // 立即触发一次调度，空闲时任务可以马上开始
+    await this.triggerWorker()
+
+    const latest = await supabaseVideoService.getVideo(videoRecord.id)
+    if (latest && latest.status !== 'pending') {
       return {
         status: 'processing',
         videoRecordId: videoRecord.id
       }
-    } else {
-      // 加入队列
-      const queuePosition = await this.addToQueue(videoRecord.id, request.userId, request.priority || 0)
-      const estimatedWaitMinutes = this.estimateWaitTime(queuePosition)
+    }
 
-      return {
-        status: 'queued',
-        videoRecordId: videoRecord.id,
-        queuePosition,
-        estimatedWaitMinutes
-      }
+    const queuePosition = latest?.queue_position || 1
+    const estimatedWaitMinutes = await this.estimateWaitTime(queuePosition)
+
+    console.log(`[QUEUE SERVICE] Video ${videoRecord.id} queued at position ${queuePosition}`)
+
+    return {
+      status: 'queued',
+      videoRecordId: videoRecord.id,
+      queuePosition,
+      estimatedWaitMinutes
     }
   }
 
   /**
-   * 检查是否可以立即开始处理
+   * 批量提交一组参数组合，所有视频共享同一个批次ID
+   * 先检查总积分是否足够，然后逐个加入队列；单个视频提交失败不影响其余视频
    */
-  private canStartProcessing(): boolean {
-    return this.activeJobs.size < this.systemMaxConcurrent
-  }
+  async submitBatch(request: SubmitBatchRequest): Promise<SubmitBatchResult> {
+    const total = request.items.length
+    console.log(`[QUEUE SERVICE] Submitting batch of ${total} videos for user:`, request.userId)
 
-  /**
-   * 立即开始处理视频
-   */
-  private async startProcessing(videoId: string, userId: string): Promise<void> {
-    console.log(`[QUEUE SERVICE] Starting processing for video: ${videoId}`)
+    if (total === 0) {
+      throw new Error('Batch is empty')
+    }
 
-    // 添加到活跃任务
-    this.activeJobs.set(videoId, userId)
+    const totalCredits = request.items.reduce((sum, item) => sum + item.videoData.creditsUsed, 0)
+    const hasEnoughCredits = await creditService.hasEnoughCredits(request.userId, totalCredits)
+    if (!hasEnoughCredits) {
+      throw new Error(`积分余额不足，批量生成需要 ${totalCredits} 积分`)
+    }
 
-    // 更新数据库状态
-    await supabaseVideoService.updateVideo(videoId, {
-      status: 'processing',
-      processing_started_at: new Date().toISOString()
-    })
+    const batchId = crypto.randomUUID()
+    const result: SubmitBatchResult = { batchId, submitted: [], failed: [] }
 
-    // 异步启动实际的视频生成过程
-    this.startActualVideoGeneration(videoId, userId).catch((error) => {
-      console.error(`[QUEUE SERVICE] Failed to start video generation for ${videoId}:`, error)
-      this.jobFailed(videoId)
-    })
+    for (const [index, item] of request.items.entries()) {
+      try {
+        const jobResult = await this.submitJob({
+          userId: request.userId,
+          videoData: {
+            ...item.videoData,
+            title: `${request.batchTitle} #${index + 1}`,
+            description: item.label,
+            batch: { id: batchId, index, total, label: item.label }
+          }
+        })
+        result.submitted.push({ ...jobResult, label: item.label })
+      } catch (error) {
+        console.error(`[QUEUE SERVICE] Batch item ${index + 1}/${total} failed:`, error)
+        result.failed.push({
+          label: item.label,
+          error: error instanceof Error ? error.message : String(error)
+        })
+      }
+    }
 
-    console.log(`[QUEUE SERVICE] Video ${videoId} started processing`)
+    console.log(`[QUEUE SERVICE] Batch ${batchId} submitted: ${result.submitted.length} ok, ${result.failed.length} failed`)
+    return result
   }
 
   /**
-   * 启动实际的视频生成过程
+   * 取消排队中或处理中的视频并退还积分
+   * 排队中的任务直接移出队列；处理中的任务标记取消后Worker不再轮询上游状态
    */
-  private async startActualVideoGeneration(videoId: string, userId: string): Promise<void> {
-    try {
-      // 获取视频记录详细信息
-      const video = await supabaseVideoService.getVideo(videoId)
-      if (!video) {
-        throw new Error(`Video record not found: ${videoId}`)
-      }
+  async cancelJob(userId: string, videoId: string): Promise<CancelJobResult> {
+    console.log(`[QUEUE SERVICE] Cancelling video ${videoId} for user ${userId}`)
 
-      // 动态导入veo3Service以避免循环依赖
-      const veo3Service = (await import('./veo3Service')).default
-
-      // 调用视频生成API
-      const response = await veo3Service.generateVideo({
-        prompt: video.prompt || '',
-        template: video.template_id || '',
-        parameters: video.parameters || {},
-        userId: userId,
-        credits: video.credits_used || 0,
-        aspectRatio: '16:9',
-        model: 'fast', // 可以根据用户订阅等级动态设置
-        videoRecordId: videoId
-      })
+    const video = await supabaseVideoService.getVideo(videoId)
+    if (!video || video.user_id !== userId) {
+      return { success: false, error: 'Video not found' }
+    }
 
-      console.log(`[QUEUE SERVICE] Video generation started successfully: ${videoId}, veo3JobId: ${response.id}`)
-
-      // 订阅生成进度更新
-      console.log(`[QUEUE SERVICE] 开始订阅视频生成状态: ${videoId}, jobId: ${response.id}`)
-      const unsubscribe = veo3Service.subscribeToStatus(response.id, (update) => {
-        console.log(`[QUEUE SERVICE] 收到状态更新: ${videoId}`, update)
-        
-        if (update.type === 'complete') {
-          console.log(`[QUEUE SERVICE] ✅ 视频生成完成回调触发: ${videoId}`)
-          console.log(`[QUEUE SERVICE] 完成数据:`, update.data)
-          this.jobCompleted(videoId)
-          unsubscribe()
-        } else if (update.type === 'error') {
-          console.error(`[QUEUE SERVICE] ❌ 视频生成失败回调触发: ${videoId}`, update.data)
-          this.jobFailed(videoId)
-          unsubscribe()
-        } else if (update.type === 'progress') {
-          console.log(`[QUEUE SERVICE] 📊 进度更新: ${videoId}, 进度: ${update.data?.progress}%`)
-        }
-      })
+    // 数据库原子切换状态，避免与Worker的完成/失败处理冲突
+    const { error } = await supabase.rpc('cancel_video', {
+      p_video_id: videoId
+    })
 
-    } catch (error) {
-      console.error(`[QUEUE SERVICE] Error in video generation: ${videoId}`, error)
-      throw error
+    if (error) {
+      console.error('[QUEUE SERVICE] Failed to cancel video:', error)
+      return {
+        success: false,
+        error: error.message?.includes('VIDEO_NOT_CANCELLABLE') ? '视频已完成或已取消，无法取消' : '取消失败'
+      }
     }
-  }
 
-  /**
-   * 添加任务到队列
-   */
-  private async addToQueue(videoId: string, userId: string, priority: number): Promise<number> {
-    const now = new Date()
-    const queuePosition = this.queuedJobs.size + 1
-
-    const job: QueueJob = {
-      id: videoId,
-      userId,
-      videoRecordId: videoId,
-      priority,
-      queuedAt: now
+    // 取消时数据库触发器已按退款策略退还积分，这里读取退还的金额
+    const refundResult = await creditService.getVideoRefund(videoId)
+    if (!refundResult) {
+      console.error('[QUEUE SERVICE] Video cancelled but no refund was recorded')
+      return { success: true, refundedCredits: 0, error: '积分退还失败' }
     }
 
-    this.queuedJobs.set(videoId, job)
+    const refundAmount = refundResult.amount
 
-    // 更新数据库
-    await supabaseVideoService.updateVideo(videoId, {
-      queue_position: queuePosition,
-      queue_entered_at: now.toISOString()
-    })
+    console.log(`[QUEUE SERVICE] Video ${videoId} cancelled, refunded ${refundAmount} credits`)
 
-    console.log(`[QUEUE SERVICE] Added video ${videoId} to queue at position ${queuePosition}`)
-    return queuePosition
-  }
+    // 排队中的任务取消后空出位置，处理中的任务取消后空出并发槽位
+    await this.triggerWorker()
 
-  /**
-   * 估算等待时间（分钟）
-   */
-  private estimateWaitTime(queuePosition: number): number {
-    // 假设平均每个视频生成需要3分钟
-    const averageProcessingTime = 3
-    const parallelProcessing = Math.min(this.systemMaxConcurrent, queuePosition)
-    
-    return Math.ceil((queuePosition * averageProcessingTime) / parallelProcessing)
+    return { success: true, refundedCredits: refundAmount }
   }
 
   /**
-   * 启动队列处理定时器
+   * 触发服务端队列 Worker 执行一轮调度
+   * 失败不影响提交结果，定时任务会继续处理队列
    */
-  private startQueueProcessor(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId)
+  async triggerWorker(): Promise<void> {
+    try {
+      const { error } = await supabase.functions.invoke('video-queue-worker', {
+        body: { action: 'tick' }
+      })
+      if (error) {
+        console.warn('[QUEUE SERVICE] Failed to trigger queue worker:', error)
+      }
+    } catch (error) {
+      console.warn('[QUEUE SERVICE] Error triggering queue worker:', error)
     }
-
-    this.intervalId = setInterval(() => {
-      this.processQueue()
-    }, this.queueCheckInterval)
-
-    console.log(`[QUEUE SERVICE] Queue processor started with ${this.queueCheckInterval}ms interval`)
   }
 
   /**
-   * 处理队列（定时器调用）
+   * 读取各模型最近的实际生成耗时（带缓存），单位秒
    */
-  private async processQueue(): Promise<void> {
-    try {
-      // 检查系统容量
-      const availableSlots = this.systemMaxConcurrent - this.activeJobs.size
-      if (availableSlots <= 0) {
-        return
-      }
+  private async getProcessingDurations(): Promise<Record<string, number>> {
+    if (Date.now() - this.durationsLoadedAt < PROCESSING_STATS_CACHE_TTL) {
+      return this.processingDurations
+    }
 
-      // 获取排序后的队列
-      const sortedQueue = Array.from(this.queuedJobs.values())
-        .sort((a, b) => {
-          // 优先级高的先处理，如果优先级相同则按时间排序
-          if (a.priority !== b.priority) {
-            return b.priority - a.priority
+    try {
+      const { data, error } = await supabase.rpc('get_video_processing_stats')
+      if (error) {
+        console.warn('[QUEUE SERVICE] Failed to load processing stats:', error)
+      } else {
+        const durations: Record<string, number> = {}
+        for (const row of (data || []) as ModelProcessingStats[]) {
+          // 中位数不受个别超长任务影响，样本太少时不采用
+          if (row.sample_count >= MIN_DURATION_SAMPLES) {
+            durations[row.model] = Number(row.median_seconds) || Number(row.avg_seconds)
           }
-          return a.queuedAt.getTime() - b.queuedAt.getTime()
-        })
-
-      let processed = 0
-      for (const job of sortedQueue) {
-        if (processed >= availableSlots) {
-          break
         }
-
-        // 检查用户并发限制
-        const userActiveCount = this.getUserActiveCount(job.userId)
-        const userLimit = await this.getUserConcurrentLimit(job.userId)
-
-        if (userActiveCount < userLimit) {
-          // 可以开始处理
-          await this.startJobFromQueue(job)
-          processed++
-        }
-      }
-
-      // 更新队列位置
-      if (processed > 0) {
-        await this.updateQueuePositions()
+        this.processingDurations = durations
+        this.durationsLoadedAt = Date.now()
       }
     } catch (error) {
-      console.error('[QUEUE SERVICE] Error processing queue:', error)
+      console.warn('[QUEUE SERVICE] Error loading processing stats:', error)
     }
-  }
-
-  /**
-   * 从队列中开始处理任务
-   */
-  private async startJobFromQueue(job: QueueJob): Promise<void> {
-    console.log(`[QUEUE SERVICE] Starting queued job: ${job.id}`)
-
-    // 从队列中移除
-    this.queuedJobs.delete(job.id)
-
-    // 添加到活跃任务
-    this.activeJobs.set(job.id, job.userId)
-
-    // 更新数据库状态
-    await supabaseVideoService.updateVideo(job.videoRecordId, {
-      status: 'processing',
-      processing_started_at: new Date().toISOString(),
-      queue_position: null,
-      queue_started_at: new Date().toISOString()
-    })
 
-    // 异步启动实际的视频生成过程
-    this.startActualVideoGeneration(job.id, job.userId).catch((error) => {
-      console.error(`[QUEUE SERVICE] Failed to start video generation for queued job ${job.id}:`, error)
-      this.jobFailed(job.id)
-    })
-
-    console.log(`[QUEUE SERVICE] Job ${job.id} moved from queue to processing`)
+    return this.processingDurations
   }
 
   /**
-   * 更新队列中所有任务的位置
+   * 按队列快照模拟调度，估算每个队列位置的等待时间（分钟）
+   * 处理中的任务按模型平均耗时减去已用时释放槽位，排在前面的任务依次占用最早空出的槽位
    */
-  private async updateQueuePositions(): Promise<void> {
-    const jobs = Array.from(this.queuedJobs.values())
-      .sort((a, b) => {
-        if (a.priority !== b.priority) {
-          return b.priority - a.priority
-        }
-        return a.queuedAt.getTime() - b.queuedAt.getTime()
-      })
+  private async estimateWaitTimes(): Promise<Map<number, number> | null> {
+    const { data, error } = await supabase.rpc('get_queue_wait_snapshot')
+    if (error || !data) {
+      console.warn('[QUEUE SERVICE] Failed to load queue snapshot:', error)
+      return null
+    }
 
-    for (let i = 0; i < jobs.length; i++) {
-      const job = jobs[i]
-      const newPosition = i + 1
+    const snapshot = data as QueueWaitSnapshot
+    const durations = await this.getProcessingDurations()
+    const { systemMaxConcurrent } = await this.getConfig()
+
+    const knownDurations = Object.values(durations)
+    const fallbackSeconds = knownDurations.length > 0
+      ? knownDurations.reduce((sum, seconds) => sum + seconds, 0) / knownDurations.length
+      : DEFAULT_PROCESSING_SECONDS
+    const durationOf = (model: string) => durations[model] || fallbackSeconds
+
+    // 每个槽位空出的时间（秒后），处理中任务超过并发上限时只保留最晚结束的那些
+    const slots = snapshot.active
+      .map(job => Math.max(durationOf(job.model) - job.elapsedSeconds, MIN_REMAINING_SECONDS))
+      .sort((a, b) => a - b)
+      .slice(-Math.max(systemMaxConcurrent, 1))
+    while (slots.length < systemMaxConcurrent) {
+      slots.push(0)
+    }
 
-      await supabaseVideoService.updateVideo(job.videoRecordId, {
-        queue_position: newPosition
-      })
+    const waits = new Map<number, number>()
+    for (const job of snapshot.queued) {
+      let next = 0
+      for (let i = 1; i < slots.length; i++) {
+        if (slots[i] < slots[next]) next = i
+      }
+      waits.set(job.position, Math.max(1, Math.ceil(slots[next] / 60)))
+      slots[next] += durationOf(job.model)
     }
+
+    return waits
   }
 
   /**
-   * 任务完成时调用（清理状态）
+   * 估算等待时间（分钟）
    */
-  async jobCompleted(videoId: string): Promise<void> {
-    console.log(`[QUEUE SERVICE] Job completed: ${videoId}`)
-    
-    // 从活跃任务中移除
-    this.activeJobs.delete(videoId)
-    
-    // 触发队列处理
-    setTimeout(() => {
-      this.processQueue()
-    }, 1000)
+  private async estimateWaitTime(queuePosition: number): Promise<number> {
+    const waits = await this.estimateWaitTimes()
+    return waits?.get(queuePosition) ?? await this.estimateWaitTimeFallback(queuePosition)
   }
 
   /**
-   * 任务失败时调用（清理状态）
+   * 无法读取队列快照时的粗略估算：假设每个视频生成需要3分钟
    */
-  async jobFailed(videoId: string): Promise<void> {
-    console.log(`[QUEUE SERVICE] Job failed: ${videoId}`)
-    
-    // 从活跃任务中移除
-    this.activeJobs.delete(videoId)
+  private async estimateWaitTimeFallback(queuePosition: number): Promise<number> {
+    const averageProcessingTime = DEFAULT_PROCESSING_SECONDS / 60
+    const { systemMaxConcurrent } = await this.getConfig()
+    const parallelProcessing = Math.min(systemMaxConcurrent, queuePosition)
     
-    // 获取视频信息以便退还积分
-    try {
-      const video = await supabaseVideoService.getVideo(videoId)
-      if (video && video.credits_used && video.credits_used > 0) {
-        console.log(`[QUEUE SERVICE] Refunding credits for failed job: ${video.credits_used} credits`)
-        
-        const refundResult = await creditService.addCredits(
-          video.user_id,
-          video.credits_used,
-          'refund',
-          `视频生成失败，退还积分: ${video.title || videoId}`,
-          videoId,
-          'video_generation_failed'
-        )
-        
-        if (refundResult.success) {
-          console.log(`[QUEUE SERVICE] Credits refunded successfully. New balance: ${refundResult.newBalance}`)
-        } else {
-          console.error(`[QUEUE SERVICE] Failed to refund credits: ${refundResult.error}`)
-        }
-      }
-    } catch (error) {
-      console.error(`[QUEUE SERVICE] Error while processing failed job refund:`, error)
-    }
-    
-    // 触发队列处理
-    setTimeout(() => {
-      this.processQueue()
-    }, 1000)
+    return Math.ceil((queuePosition * averageProcessingTime) / parallelProcessing)
   }
 
   /**
@@ -726,32 +641,37 @@ class VideoQueueService {
       estimatedWaitMinutes: number
     }>
   }> {
-    const activeCount = this.getUserActiveCount(userId)
+    const activeCount = await this.getUserActiveCount(userId)
     const maxAllowed = await this.getUserConcurrentLimit(userId)
-    
-    const userQueuedJobs = Array.from(this.queuedJobs.values())
-      .filter(job => job.userId === userId)
-      .map((job, index) => ({
-        videoId: job.id,
-        position: index + 1,
-        estimatedWaitMinutes: this.estimateWaitTime(index + 1)
-      }))
+
+    const { data, error } = await supabase
+      .from('videos')
+      .select('id, queue_position')
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .eq('is_deleted', false)
+      .not('queue_position', 'is', null)
+      .order('queue_position', { ascending: true })
+
+    if (error) {
+      console.error('[QUEUE SERVICE] Failed to load queued jobs:', error)
+    }
+
+    const queuedVideos = (data || []) as Pick<Video, 'id' | 'queue_position'>[]
+    const waits = queuedVideos.length > 0 ? await this.estimateWaitTimes() : null
+    const queuedJobs = await Promise.all(queuedVideos.map(async video => {
+      const position = video.queue_position || 1
+      return {
+        videoId: video.id,
+        position,
+        estimatedWaitMinutes: waits?.get(position) ?? await this.estimateWaitTimeFallback(position)
+      }
+    }))
 
     return {
       activeCount,
       maxAllowed,
-      queuedJobs: userQueuedJobs
-    }
-  }
-
-  /**
-   * 停止队列处理器
-   */
-  stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId)
-      this.intervalId = undefined
-      console.log('[QUEUE SERVICE] Queue processor stopped')
+      queuedJobs
     }
   }
 }
@@ -759,4 +679,4 @@ class VideoQueueService {
 // 创建单例实例
 export const videoQueueService = new VideoQueueService()
 
-export default videoQueueService
\ No newline at end of file
+export default videoQueueService
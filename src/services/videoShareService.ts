@@ -4,6 +4,7 @@
  */
 
 import supabaseVideoService from './supabaseVideoService'
+import shortLinkService from './shortLinkService'
 import i18n from '@/i18n/config'
 
 export interface ShareOptions {
@@ -35,14 +36,20 @@ class VideoShareService {
   }
 
   /**
-   * 生成短链接（可以集成短链接服务）
+   * 生成短链接（按分享渠道区分，用于统计各渠道的点击和注册）
+   * 未登录或创建失败时返回原链接
    */
-  async generateShortLink(videoId: string): Promise<string> {
-    const longUrl = this.generateShareLink(videoId)
-    
-    // TODO: 集成短链接服务（如bit.ly, tinyurl等）
-    // 暂时返回原链接
-    return longUrl
+  async generateShortLink(videoId: string, channel: string = 'copy'): Promise<string> {
+    try {
+      return await shortLinkService.createShortLink({
+        linkType: 'video_share',
+        resourceId: videoId,
+        channel
+      })
+    } catch (error) {
+      console.warn('[VideoShareService] 短链接生成失败，使用原链接:', error)
+      return this.generateShareLink(videoId)
+    }
   }
 
   /**
@@ -54,7 +61,7 @@ class VideoShareService {
       throw new Error('Video not found')
     }
 
-    const shareUrl = await this.generateShortLink(videoId)
+    const shareUrl = await this.generateShortLink(videoId, options.platform || 'copy')
     const title = options.title || video.title || 'AI Generated Video'
     const description = options.description || video.prompt || ''
     const hashtags = options.hashtags?.join(',') || 'AIVideo,VideoGeneration'
@@ -167,7 +174,7 @@ class VideoShareService {
       throw new Error('Video not found')
     }
 
-    const shareUrl = await this.generateShortLink(videoId)
+    const shareUrl = await this.generateShortLink(videoId, 'web_share')
     const title = options.title || video.title || 'AI Generated Video'
     const text = options.description || video.prompt || ''
 
@@ -478,26 +485,12 @@ class VideoShareService {
     return {
       title: video.title || 'AI Generated Video',
       description: video.prompt || '',
-      image: video.thumbnail_url || `${this.shareBaseUrl}/default-thumbnail.jpg`,
+      image: video.thumbnail_url || `${this.shareBaseUrl}/android-chrome-512x512.png`,
       url: this.generateShareLink(videoId),
       type: 'video.other'
     }
   }
 
-  /**
-   * 批量下载视频
-   */
-  async batchDownload(videoIds: string[]): Promise<void> {
-    for (const videoId of videoIds) {
-      const video = await supabaseVideoService.getVideo(videoId)
-      if (video?.video_url) {
-        await this.downloadVideo(videoId, video.video_url)
-        // 添加延迟避免同时下载太多文件
-        await new Promise(resolve => setTimeout(resolve, 1000))
-      }
-    }
-  }
-
   /**
    * 生成视频分享报告
    */
@@ -1,27 +1,147 @@
 /**
  * 视频水印服务
- * 为免费用户的视频添加域名水印（修复版，支持音频）
+ * 水印方案（文字/图片 Logo，角标/平铺/移动布局，各订阅等级使用的方案）存储在
+ * system_settings 的 watermark_profiles（024_watermark_profiles.sql）；
+ * 下载使用的带水印版本由服务端渲染 Worker 生成，这里的 Canvas 绘制用于管理后台预览和测试页面
  */
 
-export interface WatermarkOptions {
-  text?: string
-  position?: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left'
-  fontSize?: number
-  fontFamily?: string
-  color?: string
-  opacity?: number
-  padding?: number
+import { supabase } from '@/lib/supabase'
+import type { BaseTier } from './videoQueueService'
+
+// system_settings 中的水印方案配置（与渲染 Worker、video-download 函数共用）
+export const WATERMARK_PROFILES_SETTING_KEY = 'watermark_profiles'
+
+// 水印方案缓存时间
+const SETTING_CACHE_TTL = 60 * 1000
+
+// 水印与画面边缘的距离（占视频高度的比例，与渲染 Worker 一致）
+const PADDING_RATIO = 0.03
+// 平铺水印的最大行列数
+const MAX_TILES = 6
+
+export type WatermarkType = 'text' | 'image'
+export type WatermarkLayout = 'corner' | 'tiled' | 'moving'
+export type WatermarkPosition = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left'
+
+export interface WatermarkProfile {
+  name: string
+  type: WatermarkType
+  text: string
+  /** 图片水印地址（需允许跨域读取） */
+  imageUrl: string | null
+  layout: WatermarkLayout
+  /** 角标布局的位置 */
+  position: WatermarkPosition
+  /** 水印高度占视频高度的比例 */
+  scale: number
+  opacity: number
+  tileRows: number
+  tileCols: number
+  /** 移动布局水平往返一次的秒数 */
+  moveSeconds: number
+}
+
+export interface WatermarkProfileSettings {
+  /** 每次保存方案时递增，服务端据此重新生成过期的版本 */
+  version: number
+  /** 公开播放使用的方案 */
+  playbackProfile: string | null
+  /** 各订阅等级下载自己的视频时使用的方案，null 表示原视频 */
+  tierRules: Record<BaseTier, string | null>
+  profiles: Record<string, WatermarkProfile>
+}
+
+export const DEFAULT_WATERMARK_PROFILE: WatermarkProfile = {
+  name: '',
+  type: 'text',
+  text: 'veo3video.me',
+  imageUrl: null,
+  layout: 'corner',
+  position: 'bottom-right',
+  scale: 0.035,
+  opacity: 0.7,
+  tileRows: 3,
+  tileCols: 3,
+  moveSeconds: 8
+}
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkProfileSettings = {
+  version: 1,
+  playbackProfile: 'visible',
+  tierRules: { free: 'visible', basic: 'corner', pro: null, premium: null },
+  profiles: {
+    visible: { ...DEFAULT_WATERMARK_PROFILE, name: '免费版水印', layout: 'moving', scale: 0.045, opacity: 0.6 },
+    corner: { ...DEFAULT_WATERMARK_PROFILE, name: '基础版角标', scale: 0.025, opacity: 0.5 }
+  }
+}
+
+export interface PreviewFrameOptions {
+  /** 用于截取样例帧的视频，不提供时使用渐变背景 */
+  sampleVideoUrl?: string
+  /** 样例帧时间（秒），同时决定移动水印的位置 */
+  time?: number
+  width?: number
+  height?: number
 }
 
 export class WatermarkService {
-  private static readonly DEFAULT_OPTIONS: Required<WatermarkOptions> = {
-    text: 'veo3video.me',
-    position: 'bottom-right',
-    fontSize: 20,
-    fontFamily: 'Arial, sans-serif',
-    color: '#ffffff',
-    opacity: 0.7,
-    padding: 20
+  private static settings: WatermarkProfileSettings | null = null
+  private static settingsLoadedAt = 0
+
+  /**
+   * 读取水印方案配置
+   */
+  static async getProfileSettings(forceRefresh: boolean = false): Promise<WatermarkProfileSettings> {
+    if (!forceRefresh && this.settings && Date.now() - this.settingsLoadedAt < SETTING_CACHE_TTL) {
+      return this.settings
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('setting_value')
+        .eq('setting_key', WATERMARK_PROFILES_SETTING_KEY)
+        .maybeSingle()
+
+      if (error) {
+        console.warn('[Watermark] 读取水印方案失败，使用默认方案:', error)
+      }
+      this.settings = this.normalizeSettings(data?.setting_value)
+    } catch (error) {
+      console.warn('[Watermark] 读取水印方案异常，使用默认方案:', error)
+      this.settings = this.normalizeSettings(null)
+    }
+
+    this.settingsLoadedAt = Date.now()
+    return this.settings
+  }
+
+  /**
+   * 补全配置中缺失的字段
+   */
+  static normalizeSettings(value: Partial<WatermarkProfileSettings> | null | undefined): WatermarkProfileSettings {
+    if (!value?.profiles) return DEFAULT_WATERMARK_SETTINGS
+
+    const profiles: Record<string, WatermarkProfile> = {}
+    Object.entries(value.profiles).forEach(([id, profile]) => {
+      profiles[id] = { ...DEFAULT_WATERMARK_PROFILE, ...profile }
+    })
+
+    return {
+      version: Number(value.version) || 1,
+      playbackProfile: value.playbackProfile !== undefined ? value.playbackProfile : DEFAULT_WATERMARK_SETTINGS.playbackProfile,
+      tierRules: { ...DEFAULT_WATERMARK_SETTINGS.tierRules, ...(value.tierRules || {}) },
+      profiles
+    }
+  }
+
+  /**
+   * 订阅等级下载自己的视频时使用的水印方案，null 表示无水印
+   */
+  static async getProfileForTier(tier: BaseTier): Promise<WatermarkProfile | null> {
+    const settings = await this.getProfileSettings()
+    const profileId = settings.tierRules[tier]
+    return profileId ? settings.profiles[profileId] || null : null
   }
 
   /**
@@ -29,10 +149,11 @@ export class WatermarkService {
    */
   static async addWatermarkToVideo(
     videoUrl: string, 
-    options: WatermarkOptions = {}
+    profile?: WatermarkProfile
   ): Promise<Blob> {
-    const config = { ...this.DEFAULT_OPTIONS, ...options }
+    const config = profile || await this.getPlaybackProfile()
     console.log('[Watermark] 开始处理视频:', videoUrl)
+    const image = config.type === 'image' && config.imageUrl ? await this.loadImage(config.imageUrl) : null
     
     return new Promise((resolve, reject) => {
       // 创建video元素
@@ -188,7 +309,7 @@ export class WatermarkService {
             ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
             
             // 绘制水印
-            this.drawWatermark(ctx, canvas, config)
+            this.drawWatermark(ctx, canvas.width, canvas.height, config, video.currentTime, image)
             
             // 请求下一帧
             requestAnimationFrame(drawFrame)
@@ -235,67 +356,185 @@ export class WatermarkService {
     })
   }
 
+  /**
+   * 公开播放使用的方案（测试页面默认使用）
+   */
+  private static async getPlaybackProfile(): Promise<WatermarkProfile> {
+    const settings = await this.getProfileSettings()
+    const profileId = settings.playbackProfile
+    return (profileId && settings.profiles[profileId]) || DEFAULT_WATERMARK_PROFILE
+  }
+
+  /**
+   * 水印左上角坐标列表（与渲染 Worker 的 ffmpeg 表达式计算一致）
+   */
+  static getWatermarkPositions(
+    profile: WatermarkProfile,
+    width: number,
+    height: number,
+    markWidth: number,
+    markHeight: number,
+    time: number = 0
+  ): Array<{ x: number; y: number }> {
+    const pad = height * PADDING_RATIO
+
+    if (profile.layout === 'tiled') {
+      const rows = Math.min(MAX_TILES, Math.max(1, Math.round(profile.tileRows) || 1))
+      const cols = Math.min(MAX_TILES, Math.max(1, Math.round(profile.tileCols) || 1))
+      const positions: Array<{ x: number; y: number }> = []
+      for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < cols; c++) {
+          positions.push({
+            x: width * (c + 0.5) / cols - markWidth / 2,
+            y: height * (r + 0.5) / rows - markHeight / 2
+          })
+        }
+      }
+      return positions
+    }
+
+    if (profile.layout === 'moving') {
+      // 水平和垂直方向周期不同，水印在画面内往返移动
+      const period = Math.max(1, profile.moveSeconds || DEFAULT_WATERMARK_PROFILE.moveSeconds)
+      const periodY = Number((period * 1.37).toFixed(2))
+      const bounce = (value: number) => Math.abs((value % 2) - 1)
+      return [{
+        x: pad + (width - markWidth - 2 * pad) * bounce(time / period),
+        y: pad + (height - markHeight - 2 * pad) * bounce(time / periodY)
+      }]
+    }
+
+    const right = width - markWidth - pad
+    const bottom = height - markHeight - pad
+    switch (profile.position) {
+      case 'top-left': return [{ x: pad, y: pad }]
+      case 'top-right': return [{ x: right, y: pad }]
+      case 'bottom-left': return [{ x: pad, y: bottom }]
+      default: return [{ x: right, y: bottom }]
+    }
+  }
+
   /**
    * 在Canvas上绘制水印
    */
   private static drawWatermark(
     ctx: CanvasRenderingContext2D, 
-    canvas: HTMLCanvasElement, 
-    config: Required<WatermarkOptions>
+    width: number,
+    height: number,
+    profile: WatermarkProfile,
+    time: number,
+    image: HTMLImageElement | null
   ) {
     // 保存当前绘图状态
     ctx.save()
-    
-    // 设置字体
-    ctx.font = `${config.fontSize}px ${config.fontFamily}`
-    ctx.fillStyle = config.color
-    ctx.globalAlpha = config.opacity
-    
-    // 添加文字阴影效果
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.8)'
-    ctx.shadowBlur = 2
-    ctx.shadowOffsetX = 1
-    ctx.shadowOffsetY = 1
-    
-    // 测量文字尺寸
-    const textMetrics = ctx.measureText(config.text)
-    const textWidth = textMetrics.width
-    const textHeight = config.fontSize
-    
-    // 计算文字位置
-    let x: number
-    let y: number
-    
-    switch (config.position) {
-      case 'bottom-right':
-        x = canvas.width - textWidth - config.padding
-        y = canvas.height - config.padding
-        break
-      case 'bottom-left':
-        x = config.padding
-        y = canvas.height - config.padding
-        break
-      case 'top-right':
-        x = canvas.width - textWidth - config.padding
-        y = textHeight + config.padding
-        break
-      case 'top-left':
-        x = config.padding
-        y = textHeight + config.padding
-        break
-      default:
-        x = canvas.width - textWidth - config.padding
-        y = canvas.height - config.padding
-        break
+    ctx.globalAlpha = profile.opacity
+
+    const markHeight = Math.max(1, height * profile.scale)
+
+    if (profile.type === 'image' && image) {
+      const markWidth = markHeight * (image.naturalWidth / image.naturalHeight)
+      this.getWatermarkPositions(profile, width, height, markWidth, markHeight, time)
+        .forEach(({ x, y }) => ctx.drawImage(image, x, y, markWidth, markHeight))
+    } else {
+      ctx.font = `${markHeight}px Arial, sans-serif`
+      ctx.fillStyle = '#ffffff'
+      ctx.textBaseline = 'top'
+
+      // 添加文字阴影效果
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.4)'
+      ctx.shadowBlur = 0
+      ctx.shadowOffsetX = 1
+      ctx.shadowOffsetY = 1
+
+      const markWidth = ctx.measureText(profile.text).width
+      this.getWatermarkPositions(profile, width, height, markWidth, markHeight, time)
+        .forEach(({ x, y }) => ctx.fillText(profile.text, x, y))
     }
-    
-    // 绘制水印文字
-    ctx.fillText(config.text, x, y)
-    
+
     // 恢复绘图状态
     ctx.restore()
   }
 
+  /**
+   * 渲染一帧带水印的样例画面，返回 data URL（管理后台预览水印方案）
+   */
+  static async renderPreviewFrame(profile: WatermarkProfile, options: PreviewFrameOptions = {}): Promise<string> {
+    const time = options.time ?? 1
+    const frame = options.sampleVideoUrl ? await this.captureVideoFrame(options.sampleVideoUrl, time) : null
+
+    const canvas = document.createElement('canvas')
+    canvas.width = frame?.width || options.width || 1280
+    canvas.height = frame?.height || options.height || 720
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('无法创建Canvas上下文')
+
+    if (frame) {
+      ctx.drawImage(frame, 0, 0)
+    } else {
+      const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height)
+      gradient.addColorStop(0, '#1e3a8a')
+      gradient.addColorStop(1, '#9333ea')
+      ctx.fillStyle = gradient
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+    }
+
+    const image = profile.type === 'image' && profile.imageUrl ? await this.loadImage(profile.imageUrl) : null
+    this.drawWatermark(ctx, canvas.width, canvas.height, profile, time, image)
+    return canvas.toDataURL('image/jpeg', 0.85)
+  }
+
+  /**
+   * 截取视频指定时间的画面
+   */
+  private static captureVideoFrame(videoUrl: string, time: number): Promise<HTMLCanvasElement> {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement('video')
+      video.crossOrigin = 'anonymous'
+      video.muted = true
+      video.preload = 'auto'
+
+      const timeoutId = setTimeout(() => {
+        video.removeAttribute('src')
+        reject(new Error('样例视频加载超时'))
+      }, 15000)
+
+      video.onloadedmetadata = () => {
+        video.currentTime = Math.min(time, Math.max(0, video.duration - 0.1))
+      }
+
+      video.onseeked = () => {
+        clearTimeout(timeoutId)
+        const canvas = document.createElement('canvas')
+        canvas.width = video.videoWidth
+        canvas.height = video.videoHeight
+        canvas.getContext('2d')?.drawImage(video, 0, 0)
+        video.removeAttribute('src')
+        resolve(canvas)
+      }
+
+      video.onerror = () => {
+        clearTimeout(timeoutId)
+        reject(new Error('样例视频加载失败'))
+      }
+
+      video.src = videoUrl
+    })
+  }
+
+  /**
+   * 加载图片水印（跨域读取，避免 Canvas 被污染后无法导出）
+   */
+  private static loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image()
+      image.crossOrigin = 'anonymous'
+      image.onload = () => resolve(image)
+      image.onerror = () => reject(new Error('水印图片加载失败'))
+      image.src = url
+    })
+  }
+
   /**
    * 检查浏览器是否支持水印功能
    */
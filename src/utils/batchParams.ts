@@ -0,0 +1,132 @@
+import { Template, TemplateParam } from '@/features/video-creator/data/templates'
+
+// 单个批次最多生成的视频数量
+export const MAX_BATCH_SIZE = 24
+
+/**
+ * 批量模式下各参数的取值列表，未列出的参数使用当前单值参数
+ */
+export type BatchParamValues = Record<string, any[]>
+
+/**
+ * 参数是否支持批量取值（下拉选项、滑块区间和开关）
+ */
+export function isBatchableParam(param: TemplateParam): boolean {
+  return param.type === 'select' || param.type === 'slider' || param.type === 'toggle'
+}
+
+// 比较区间终点时允许的浮点误差
+const RANGE_EPSILON = 1e-9
+
+/**
+ * 将滑块区间展开为取值列表（最多 MAX_BATCH_SIZE 个）
+ * 每个取值由起点和序号直接计算，避免累加小数步长产生误差而丢掉终点
+ */
+export function expandSliderRange(from: number, to: number, step: number): number[] {
+  const values: number[] = []
+  const safeStep = step > 0 ? step : 1
+  const [start, end] = from <= to ? [from, to] : [to, from]
+
+  for (let i = 0; values.length < MAX_BATCH_SIZE; i++) {
+    const value = start + i * safeStep
+    if (value > end + RANGE_EPSILON) break
+    values.push(Math.round(value * 100) / 100)
+  }
+
+  return values
+}
+
+/**
+ * 计算所有参数组合（笛卡尔积）
+ */
+export function buildParamCombinations(
+  baseParams: Record<string, any>,
+  batchValues: BatchParamValues
+): Record<string, any>[] {
+  let combinations: Record<string, any>[] = [{ ...baseParams }]
+
+  Object.entries(batchValues).forEach(([key, values]) => {
+    if (!values || values.length === 0) return
+
+    combinations = combinations.flatMap(combination =>
+      values.map(value => ({ ...combination, [key]: value }))
+    )
+  })
+
+  return combinations
+}
+
+/**
+ * 组合数量（不实际展开，用于预览积分消耗）
+ */
+export function countParamCombinations(batchValues: BatchParamValues): number {
+  return Object.values(batchValues).reduce(
+    (count, values) => (values && values.length > 0 ? count * values.length : count),
+    1
+  )
+}
+
+/**
+ * 生成组合的简短说明，例如 "Artwork: Starry Night · Cup: Glass"
+ */
+export function describeCombination(
+  template: Template,
+  combination: Record<string, any>,
+  batchKeys: string[]
+): string {
+  return batchKeys
+    .map(key => {
+      const param = template.params[key]
+      if (!param) return null
+
+      const value = combination[key]
+      let display = String(value)
+      if (param.type === 'select') {
+        display = param.options?.find(option => option.value === value)?.label || display
+      } else if (param.type === 'toggle') {
+        display = value ? 'on' : 'off'
+      }
+
+      return `${param.label}: ${display}`
+    })
+    .filter(Boolean)
+    .join(' · ')
+}
+
+/**
+ * 用参数替换模板提示词中的占位符
+ */
+export function buildTemplatePrompt(template: Template, params: Record<string, any>): string {
+  let prompt = template.promptTemplate
+
+  Object.entries(template.params).forEach(([key, param]) => {
+    const value = params[key]
+    const placeholder = `{${key}}`
+
+    if (prompt.includes(placeholder)) {
+      let replacementValue = ''
+
+      switch (param.type) {
+        case 'text':
+        case 'select':
+          replacementValue = String(value || param.default || '')
+          break
+        case 'slider':
+          replacementValue = String(value ?? param.default ?? '')
+          break
+        case 'toggle':
+          replacementValue = value ? 'enabled' : 'disabled'
+          break
+        case 'image':
+          replacementValue = value ? '[uploaded image]' : ''
+          break
+        default:
+          replacementValue = String(value || '')
+      }
+
+      prompt = prompt.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), replacementValue)
+    }
+  })
+
+  return prompt
+}
@@ -84,7 +84,8 @@ export async function syncTemplatesToDatabase(): Promise<SyncResult> {
               tags: (template as any).tags || [],
               version: currentVersion,
               thumbnail_url: template.thumbnailUrl,
-              preview_url: template.previewUrl
+              preview_url: template.previewUrl,
+              video_provider: (template as any).provider || null
             })
 
           if (insertError) {
@@ -115,6 +116,7 @@ export async function syncTemplatesToDatabase(): Promise<SyncResult> {
                 version: currentVersion,
                 thumbnail_url: template.thumbnailUrl,
                 preview_url: template.previewUrl,
+                video_provider: (template as any).provider || null,
                 updated_at: new Date().toISOString()
                 // 注意：不更新 like_count, comment_count 等用户数据
               })
@@ -0,0 +1,123 @@
+/**
+ * Supabase Edge Functions 共享的调用方认证和授权
+ * 校验 Authorization 头中的 JWT，区分 service role、管理员和普通用户；
+ * 普通用户只能操作自己的资源，所有被拒绝的调用都会记录日志
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type CallerRole = 'service_role' | 'admin' | 'user';
+
+export interface Caller {
+  role: CallerRole;
+  userId: string | null;  // service role 调用时为 null
+}
+
+/**
+ * 认证或授权失败，status 为返回给调用方的 HTTP 状态码
+ */
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+const getServiceRoleKey = (): string =>
+  Deno.env.get('SERVICE_ROLE_KEY') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+/**
+ * 记录被拒绝的调用（在 Edge Functions 日志中按 [AUTH] 检索）
+ */
+export function logRejectedCall(
+  functionName: string,
+  req: Request,
+  reason: string,
+  details: Record<string, unknown> = {}
+): void {
+  console.warn('[AUTH] Rejected call:', JSON.stringify({
+    function: functionName,
+    reason,
+    ip: req.headers.get('x-forwarded-for') || null,
+    userAgent: req.headers.get('user-agent') || null,
+    at: new Date().toISOString(),
+    ...details
+  }));
+}
+
+/**
+ * 识别调用方：service role 密钥、管理员或普通登录用户
+ * 匿名 key 或无效 token 抛出 401
+ */
+export async function authenticateCaller(
+  req: Request,
+  supabaseAdmin: SupabaseClient,
+  functionName: string
+): Promise<Caller> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    logRejectedCall(functionName, req, 'missing_token');
+    throw new AuthError('Missing authorization header', 401);
+  }
+
+  const serviceRoleKey = getServiceRoleKey();
+  if (serviceRoleKey && token === serviceRoleKey) {
+    return { role: 'service_role', userId: null };
+  }
+
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !user) {
+    logRejectedCall(functionName, req, 'invalid_token');
+    throw new AuthError('Invalid token', 401);
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  const isAdmin = ['admin', 'super_admin'].includes(profile?.role);
+  return { role: isAdmin ? 'admin' : 'user', userId: user.id };
+}
+
+/**
+ * service role 或管理员
+ */
+export function isPrivileged(caller: Caller): boolean {
+  return caller.role === 'service_role' || caller.role === 'admin';
+}
+
+/**
+ * 只允许 service role 或管理员调用
+ */
+export function requirePrivileged(
+  caller: Caller,
+  req: Request,
+  functionName: string,
+  details: Record<string, unknown> = {}
+): void {
+  if (isPrivileged(caller)) return;
+
+  logRejectedCall(functionName, req, 'not_privileged', { callerId: caller.userId, ...details });
+  throw new AuthError('Insufficient permissions', 403);
+}
+
+/**
+ * 普通用户只能操作自己的资源；service role 和管理员不受限制
+ */
+export function requireOwner(
+  caller: Caller,
+  ownerId: string | null | undefined,
+  req: Request,
+  functionName: string,
+  details: Record<string, unknown> = {}
+): void {
+  if (isPrivileged(caller)) return;
+  if (ownerId && caller.userId === ownerId) return;
+
+  logRejectedCall(functionName, req, 'not_owner', { callerId: caller.userId, ownerId, ...details });
+  throw new AuthError('Insufficient permissions', 403);
+}
@@ -0,0 +1,108 @@
+/**
+ * get-cached-data 的缓存键命名空间和访问策略
+ * 每个键必须属于已知命名空间，按调用方身份决定能否读写；
+ * 订阅、积分和模板统计由服务端从数据库回填，普通用户只能读取或使其失效
+ */
+import { Caller, isPrivileged } from './auth.ts';
+
+export type CacheAction = 'get' | 'set' | 'delete' | 'exists';
+
+export type CacheNamespace =
+  | 'user'            // user:{userId}:{field}       用户私有数据
+  | 'user_server'     // user:{userId}:subscription / credits  服务端回填，用户只读
+  | 'template_stats'  // template:{templateId}:stats 服务端回填，所有登录用户可读
+  | 'public';         // public:{name}               只读公共数据
+
+export interface CacheKeyScope {
+  namespace: CacheNamespace;
+  key: string;
+  ownerId: string | null;     // user 命名空间的所属用户
+  resourceId: string | null;  // userId 或 templateId
+  field: string | null;
+}
+
+export const MAX_CACHE_KEY_LENGTH = 200;
+export const MAX_CACHE_VALUE_BYTES = 64 * 1024;  // 64KB
+export const MAX_CACHE_TTL_SECONDS = 86400;      // 24小时
+export const DEFAULT_CACHE_TTL_SECONDS = 3600;   // 1小时
+
+// 只能由服务端写入的用户字段（防止用户伪造订阅等级或积分余额）
+const SERVER_OWNED_USER_FIELDS = ['subscription', 'credits'];
+
+const USER_KEY_PATTERN = /^user:([0-9a-f-]{36}):([a-z0-9_]{1,50})$/;
+const TEMPLATE_STATS_KEY_PATTERN = /^template:([A-Za-z0-9_-]{1,64}):stats$/;
+const PUBLIC_KEY_PATTERN = /^public:[A-Za-z0-9:_-]{1,150}$/;
+
+/**
+ * 解析缓存键，不属于任何已知命名空间时返回 null
+ */
+export function parseCacheKey(key: unknown): CacheKeyScope | null {
+  if (typeof key !== 'string' || !key || key.length > MAX_CACHE_KEY_LENGTH) return null;
+
+  const userMatch = key.match(USER_KEY_PATTERN);
+  if (userMatch) {
+    const [, userId, field] = userMatch;
+    return {
+      namespace: SERVER_OWNED_USER_FIELDS.includes(field) ? 'user_server' : 'user',
+      key,
+      ownerId: userId,
+      resourceId: userId,
+      field
+    };
+  }
+
+  const templateMatch = key.match(TEMPLATE_STATS_KEY_PATTERN);
+  if (templateMatch) {
+    return { namespace: 'template_stats', key, ownerId: null, resourceId: templateMatch[1], field: 'stats' };
+  }
+
+  if (PUBLIC_KEY_PATTERN.test(key)) {
+    return { namespace: 'public', key, ownerId: null, resourceId: null, field: null };
+  }
+
+  return null;
+}
+
+/**
+ * 调用方能否对该键执行操作
+ * - user:        本人或 service role / 管理员可读写
+ * - user_server: 本人可读和删除（删除只会触发服务端重新回填），写入仅限 service role / 管理员
+ * - template_stats: 登录用户可读和删除，写入仅限 service role / 管理员
+ * - public:      登录用户只读
+ */
+export function canAccessCacheKey(caller: Caller, scope: CacheKeyScope, action: CacheAction): boolean {
+  if (isPrivileged(caller)) return true;
+
+  const isOwner = !!scope.ownerId && caller.userId === scope.ownerId;
+  const isRead = action === 'get' || action === 'exists';
+
+  switch (scope.namespace) {
+    case 'user':
+      return isOwner;
+    case 'user_server':
+      return isOwner && action !== 'set';
+    case 'template_stats':
+      return action !== 'set';
+    case 'public':
+      return isRead;
+    default:
+      return false;
+  }
+}
+
+/**
+ * 序列化后的值大小（字节）
+ */
+export function getCacheValueSize(serializedValue: string): number {
+  return new TextEncoder().encode(serializedValue).length;
+}
+
+/**
+ * 规范化 TTL：未指定或非法时使用默认值，超过上限时截断
+ */
+export function normalizeCacheTtl(ttl: unknown): number {
+  if (typeof ttl !== 'number' || !Number.isFinite(ttl) || ttl <= 0) {
+    return DEFAULT_CACHE_TTL_SECONDS;
+  }
+  return Math.min(Math.floor(ttl), MAX_CACHE_TTL_SECONDS) || DEFAULT_CACHE_TTL_SECONDS;
+}
@@ -0,0 +1,89 @@
+/**
+ * Supabase Edge Functions 共享的计数器事件发布
+ * 事件写入 Redis Stream counter_events，由 batch-update-counters 的 process_batch 批量合并后落库；
+ * 未配置 Upstash Redis 时直接调用 update_template_counters_atomic（026_comments.sql）
+ * 或 update_video_counters_atomic（029_video_likes.sql）更新
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Redis } from 'https://deno.land/x/upstash_redis@v1.31.6/mod.ts';
+
+export interface CounterEvent {
+  type: 'template_like' | 'template_comment' | 'template_view' | 'template_usage' | 'template_share' | 'video_like';
+  template_id?: string; // template_* 事件
+  video_id?: string;    // video_* 事件
+  user_id: string;
+  delta: number; // +1 或 -1
+  timestamp: number;
+  metadata?: Record<string, any>;
+}
+
+const COUNTER_STREAM_KEY = 'counter_events';
+
+// 事件类型对应 update_template_counters_atomic / update_video_counters_atomic 的参数
+const DELTA_PARAMS: Record<CounterEvent['type'], string> = {
+  template_like: 'p_like_delta',
+  template_comment: 'p_comment_delta',
+  template_view: 'p_view_delta',
+  template_usage: 'p_usage_delta',
+  template_share: 'p_share_delta',
+  video_like: 'p_like_delta'
+};
+
+export function isVideoCounterEvent(event: Pick<CounterEvent, 'type'>): boolean {
+  return event.type.startsWith('video_');
+}
+
+let redis: Redis | null | undefined;
+
+function getRedis(): Redis | null {
+  if (redis === undefined) {
+    const url = Deno.env.get('UPSTASH_REDIS_REST_URL');
+    const token = Deno.env.get('UPSTASH_REDIS_REST_TOKEN');
+    redis = url && token ? new Redis({ url, token }) : null;
+  }
+  return redis;
+}
+
+/**
+ * 发布计数器事件；Redis 不可用时直接更新数据库，发布失败只记录日志不影响主流程
+ */
+export async function publishCounterEvent(
+  supabaseAdmin: SupabaseClient,
+  event: Omit<CounterEvent, 'timestamp'>
+): Promise<void> {
+  const client = getRedis();
+  const isVideo = isVideoCounterEvent(event);
+  const targetId = isVideo ? event.video_id : event.template_id;
+
+  if (client) {
+    try {
+      await client.xadd(COUNTER_STREAM_KEY, '*', {
+        type: event.type,
+        template_id: event.template_id ?? '',
+        video_id: event.video_id ?? '',
+        user_id: event.user_id,
+        delta: event.delta.toString(),
+        timestamp: Date.now().toString(),
+        metadata: event.metadata ? JSON.stringify(event.metadata) : ''
+      });
+      console.log(`[COUNTER EVENTS] Published ${event.type} (${event.delta}) for ${targetId}`);
+      return;
+    } catch (error) {
+      console.error('[COUNTER EVENTS] Publish failed, updating database directly:', error);
+    }
+  }
+
+  const { error } = isVideo
+    ? await supabaseAdmin.rpc('update_video_counters_atomic', {
+      p_video_id: event.video_id,
+      [DELTA_PARAMS[event.type]]: event.delta
+    })
+    : await supabaseAdmin.rpc('update_template_counters_atomic', {
+      p_template_id: event.template_id,
+      [DELTA_PARAMS[event.type]]: event.delta
+    });
+
+  if (error) {
+    console.error(`[COUNTER EVENTS] Failed to update ${event.type} for ${targetId}:`, error);
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Supabase Edge Functions 共享的积分套餐目录
+ * create-checkout-session 按套餐ID计算金额，stripe-webhook 按套餐发放积分（020_credit_packages.sql）
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface CreditPackage {
+  id: string;
+  name: string;
+  description: string | null;
+  credits: number;
+  bonus_credits: number;
+  price_cents: number;
+  currency: string;
+  is_active: boolean;
+}
+
+/**
+ * 读取套餐（需要 service role 客户端，下架的套餐也会返回，由调用方决定是否可用）
+ */
+export async function getCreditPackage(supabase: SupabaseClient, packageId: string): Promise<CreditPackage | null> {
+  if (!packageId) return null;
+
+  const { data, error } = await supabase
+    .from('credit_packages')
+    .select('id, name, description, credits, bonus_credits, price_cents, currency, is_active')
+    .eq('id', packageId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`[CREDIT PACKAGES] Failed to load package ${packageId}:`, error);
+    return null;
+  }
+  return data as CreditPackage | null;
+}
+
+/**
+ * 购买套餐获得的总积分（含赠送）
+ */
+export function getPackageTotalCredits(pkg: CreditPackage): number {
+  return pkg.credits + (pkg.bonus_credits || 0);
+}
@@ -0,0 +1,117 @@
+/**
+ * Supabase Edge Functions 共享的提供方故障转移策略
+ * 任务结果记录在 video_provider_health 表中（多个Worker实例共享），
+ * 出现致命错误或错误率超过阈值时熔断该提供方，后续任务按配置顺序切换到下一个提供方，
+ * 进行中的任务最多重新提交一次，冷却时间结束后自动恢复
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// system_settings 中的故障转移配置
+export const FAILOVER_SETTING_KEY = 'video_provider_failover';
+
+// 每个视频最多切换提供方的次数
+export const MAX_PROVIDER_SWITCHES = 1;
+
+export interface ProviderSwitch {
+  from: string;
+  to: string;
+  reason: string;
+  at: string;
+}
+
+/**
+ * 故障转移顺序：未配置时使用环境变量 VEO_FAILOVER_PROVIDERS
+ */
+export async function loadFailoverOrder(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', FAILOVER_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('[PROVIDER FAILOVER] Failed to load failover setting:', error);
+  }
+
+  const order = data?.setting_value?.order;
+  if (Array.isArray(order) && order.length > 0) return order;
+
+  return (Deno.env.get('VEO_FAILOVER_PROVIDERS') || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+}
+
+/**
+ * 当前处于熔断冷却中的提供方
+ */
+export async function getTrippedProviderIds(supabase: SupabaseClient): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('video_provider_health')
+    .select('provider')
+    .gt('tripped_until', new Date().toISOString());
+
+  if (error) {
+    console.warn('[PROVIDER FAILOVER] Failed to load provider health:', error);
+    return new Set();
+  }
+  return new Set((data || []).map((row: { provider: string }) => row.provider));
+}
+
+/**
+ * 记录一次任务结果（不传 error 表示成功），返回该提供方是否处于熔断状态
+ */
+export async function recordProviderResult(
+  supabase: SupabaseClient,
+  providerId: string,
+  error?: unknown,
+  fatal: boolean = false
+): Promise<boolean> {
+  const message = error === undefined ? null : (error instanceof Error ? error.message : String(error));
+
+  const { data, error: recordError } = await supabase.rpc('record_video_provider_result', {
+    p_provider: providerId,
+    p_success: error === undefined,
+    p_fatal: fatal,
+    p_error: message
+  });
+
+  if (recordError) {
+    console.warn(`[PROVIDER FAILOVER] Failed to record result for ${providerId}:`, recordError);
+    // 记录失败时只按本次错误是否致命判断
+    return fatal;
+  }
+
+  if (data) {
+    console.warn(`[PROVIDER FAILOVER] Provider ${providerId} is tripped`, { fatal, error: message });
+  }
+  return !!data;
+}
+
+/**
+ * 进行中的视频是否还能切换提供方重新提交
+ */
+export function canSwitchProvider(video: any): boolean {
+  const switches = video.metadata?.providerSwitches;
+  return !Array.isArray(switches) || switches.length < MAX_PROVIDER_SWITCHES;
+}
+
+/**
+ * 按故障转移顺序获取当前提供方之后第一个未熔断、未使用过的提供方ID
+ */
+export function getNextProviderId(
+  order: string[],
+  currentId: string,
+  tripped: Set<string>,
+  exclude: string[] = []
+): string | null {
+  if (order.length === 0) return null;
+
+  const startIndex = order.indexOf(currentId);
+  for (let offset = 1; offset <= order.length; offset++) {
+    const candidate = order[(startIndex + offset) % order.length];
+    if (candidate === currentId || exclude.includes(candidate) || tripped.has(candidate)) continue;
+    return candidate;
+  }
+  return null;
+}
@@ -0,0 +1,230 @@
+/**
+ * Supabase Edge Functions 共享的视频生成提供方
+ * 与前端 src/services/veo 中的提供方对应，供服务端队列Worker创建和查询上游任务
+ */
+
+export type ServerTaskStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface ServerCreateRequest {
+  prompt: string;
+  quality: 'fast' | 'pro';
+  aspectRatio?: '16:9' | '9:16';
+  images?: string[];
+  /** 上游任务结束时的回调地址（video-provider-callback），不支持回调的提供方忽略 */
+  callbackUrl?: string;
+}
+
+export interface ServerProviderTask {
+  id: string;
+  status: ServerTaskStatus;
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  progress?: number;
+  error?: string;
+  model?: string;
+}
+
+/** 上游API凭证（来自 provider_accounts 账户池或环境变量） */
+export interface ProviderCredentials {
+  accountId?: string;
+  apiKey: string;
+  endpoint?: string | null;
+}
+
+export interface ServerVideoProvider {
+  id: string;
+  /** 是否需要从账户池领取凭证 */
+  usesAccountPool: boolean;
+  /** 账户池为空时使用的环境变量凭证 */
+  getEnvCredentials(): ProviderCredentials | null;
+  createTask(request: ServerCreateRequest, credentials: ProviderCredentials | null): Promise<ServerProviderTask>;
+  queryStatus(taskId: string, credentials: ProviderCredentials | null): Promise<ServerProviderTask>;
+  isFatalError(error: unknown): boolean;
+  /** 解析上游回调通知，无法识别时返回 null */
+  parseCallback(payload: any): ServerProviderTask | null;
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// ============================================
+// 青云 Veo3 API
+// ============================================
+
+const QINGYUN_DEFAULT_ENDPOINT = 'https://api.qingyuntop.top';
+const QINGYUN_TIMEOUT_MS = 60000;
+
+const qingyunProvider: ServerVideoProvider = {
+  id: 'qingyun',
+  usesAccountPool: true,
+
+  getEnvCredentials() {
+    const apiKey = Deno.env.get('QINGYUN_API_KEY');
+    if (!apiKey) return null;
+    return { apiKey, endpoint: Deno.env.get('QINGYUN_API_ENDPOINT') };
+  },
+
+  async createTask(request, credentials) {
+    if (!credentials) {
+      throw new Error('Qingyun API key not configured');
+    }
+
+    const hasImages = !!request.images && request.images.length > 0;
+    const model = hasImages
+      ? (request.quality === 'pro' ? 'veo3-pro-frames' : 'veo3-fast-frames')
+      : (request.quality === 'pro' ? 'veo3-pro' : 'veo3-fast');
+
+    const response = await fetch(`${credentials.endpoint || QINGYUN_DEFAULT_ENDPOINT}/v1/video/create`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${credentials.apiKey}`
+      },
+      body: JSON.stringify({
+        prompt: request.prompt,
+        model,
+        images: hasImages ? request.images : undefined,
+        enhance_prompt: true,
+        callback_url: request.callbackUrl
+      }),
+      signal: AbortSignal.timeout(QINGYUN_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`API Error (${response.status}): ${errorBody || response.statusText}`);
+    }
+
+    const result = await response.json();
+    return { ...toQingyunTask(result), model };
+  },
+
+  async queryStatus(taskId, credentials) {
+    if (!credentials) {
+      throw new Error('Qingyun API key not configured');
+    }
+
+    const response = await fetch(
+      `${credentials.endpoint || QINGYUN_DEFAULT_ENDPOINT}/v1/video/query?id=${encodeURIComponent(taskId)}`,
+      {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${credentials.apiKey}`
+        },
+        signal: AbortSignal.timeout(QINGYUN_TIMEOUT_MS)
+      }
+    );
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new Error(`Query Error (${response.status}): ${errorBody || response.statusText}`);
+    }
+
+    return toQingyunTask(await response.json());
+  },
+
+  isFatalError(error) {
+    const message = errorMessage(error);
+    return message.includes('No available qingyun accounts') ||
+           message.includes('API key not configured') ||
+           message.includes('401') ||
+           message.includes('403') ||
+           message.includes('404');
+  },
+
+  parseCallback(payload) {
+    // 回调内容与查询接口一致，部分版本会包在 data 字段里
+    const task = payload?.data && typeof payload.data === 'object' ? payload.data : payload;
+    return task?.id ? toQingyunTask(task) : null;
+  }
+};
+
+function toQingyunTask(task: any): ServerProviderTask {
+  // 青云会返回 video_generating 等中间状态，统一归为 processing；有视频URL即视为完成
+  let status: ServerTaskStatus = 'processing';
+  if (task.video_url) {
+    status = 'completed';
+  } else if (task.status === 'failed' || task.status === 'pending') {
+    status = task.status;
+  }
+
+  return {
+    id: task.id,
+    status,
+    videoUrl: task.video_url || undefined,
+    progress: typeof task.progress === 'number' ? task.progress : undefined,
+    error: status === 'failed' ? (task.message || 'Video generation failed') : undefined
+  };
+}
+
+// ============================================
+// 模拟提供方：任务ID中记录创建时间，无需服务端状态
+// ============================================
+
+const MOCK_DURATION_MS = 30000;
+
+const mockProvider: ServerVideoProvider = {
+  id: 'mock',
+  usesAccountPool: false,
+
+  getEnvCredentials() {
+    return null;
+  },
+
+  async createTask(request) {
+    return {
+      id: `job-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+      status: 'pending',
+      progress: 0,
+      model: `mock-${request.quality}`
+    };
+  },
+
+  async queryStatus(taskId) {
+    const [, createdAt, suffix] = taskId.split('-');
+    const startedAt = Number(createdAt);
+    if (!startedAt) {
+      throw new Error(`Query Error (404): mock task ${taskId} not found`);
+    }
+
+    const progress = Math.min(Math.round(((Date.now() - startedAt) / MOCK_DURATION_MS) * 100), 100);
+    if (progress < 100) {
+      return { id: taskId, status: 'processing', progress };
+    }
+
+    return {
+      id: taskId,
+      status: 'completed',
+      progress: 100,
+      videoUrl: `https://storage.googleapis.com/veo3-mock/videos/${startedAt}_${suffix}.mp4`,
+      thumbnailUrl: `https://storage.googleapis.com/veo3-mock/thumbnails/${startedAt}_${suffix}.jpg`
+    };
+  },
+
+  isFatalError(error) {
+    return errorMessage(error).includes('404');
+  },
+
+  parseCallback(payload) {
+    if (!payload?.id) return null;
+    return {
+      id: payload.id,
+      status: payload.status || 'processing',
+      videoUrl: payload.video_url,
+      thumbnailUrl: payload.thumbnail_url,
+      progress: payload.progress,
+      error: payload.error
+    };
+  }
+};
+
+const SERVER_PROVIDERS: Record<string, ServerVideoProvider> = {
+  [qingyunProvider.id]: qingyunProvider,
+  [mockProvider.id]: mockProvider
+};
+
+export function getServerProvider(providerId: string): ServerVideoProvider | null {
+  return SERVER_PROVIDERS[providerId] || null;
+}
@@ -0,0 +1,200 @@
+/**
+ * Supabase Edge Functions 共享的视频状态写回逻辑
+ * update-video-status、video-queue-worker 轮询和 video-provider-callback 回调都通过这里更新视频，
+ * 状态切换带条件更新，已完成、失败或取消的视频不会被覆盖
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ServerProviderTask } from './video-providers.ts';
+
+export interface VideoStatusUpdates {
+  status?: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  video_url?: string;
+  thumbnail_url?: string;
+  duration?: number;
+  resolution?: string;
+  file_size?: number;
+  error_message?: string;
+  metadata?: Record<string, any>;
+  processing_started_at?: string;
+  processing_completed_at?: string;
+}
+
+// service role 和管理员通过 update-video-status 可以修改的字段
+const VIDEO_STATUS_UPDATE_FIELDS: (keyof VideoStatusUpdates)[] = [
+  'status',
+  'video_url',
+  'thumbnail_url',
+  'duration',
+  'resolution',
+  'file_size',
+  'error_message',
+  'metadata',
+  'processing_started_at',
+  'processing_completed_at'
+];
+
+/**
+ * 只保留允许修改的字段（请求体中的 user_id、credits_used 等字段会被丢弃）
+ */
+export function pickVideoStatusUpdates(updates: Record<string, any>): VideoStatusUpdates {
+  const picked: Record<string, any> = {};
+  for (const field of VIDEO_STATUS_UPDATE_FIELDS) {
+    if (updates?.[field] !== undefined) {
+      picked[field] = updates[field];
+    }
+  }
+  return picked as VideoStatusUpdates;
+}
+
+/**
+ * 普通用户只能取消视频：请求中只能包含 status = 'cancelled'
+ * 状态、视频地址和 metadata 由 Worker 写回，用户可写时会被用来触发退款或让渲染Worker拉取任意地址
+ */
+export function isCancelRequest(updates: Record<string, any>): boolean {
+  const fields = Object.keys(updates || {});
+  return fields.length === 1 && updates.status === 'cancelled';
+}
+
+export function buildProgressData(percentage: number, statusText: string) {
+  return {
+    percentage,
+    statusText,
+    lastUpdate: new Date().toISOString()
+  };
+}
+
+/**
+ * 更新视频记录，并按状态自动设置处理开始/完成时间
+ * expectedStatuses 不为空时只在视频处于这些状态时更新，返回 null 表示没有记录被更新
+ */
+export async function updateVideoStatus(
+  supabase: SupabaseClient,
+  videoId: string,
+  updates: VideoStatusUpdates,
+  expectedStatuses?: string[]
+): Promise<{ data: any | null; error: any | null }> {
+  const updateData: Record<string, any> = { ...updates };
+
+  if (updates.status === 'completed') {
+    updateData.processing_completed_at = new Date().toISOString();
+  } else if (updates.status === 'processing' && !updateData.processing_started_at) {
+    updateData.processing_started_at = new Date().toISOString();
+  }
+
+  let query = supabase
+    .from('videos')
+    .update(updateData)
+    .eq('id', videoId);
+
+  if (expectedStatuses && expectedStatuses.length > 0) {
+    query = query.in('status', expectedStatuses);
+  }
+
+  const { data, error } = await query.select();
+  return { data: data?.[0] || null, error };
+}
+
+/**
+ * 取消排队中或处理中的视频（只有真正完成状态切换的调用返回视频记录）
+ * 积分由数据库触发器按退款策略退还（018_video_refund_policy.sql）
+ */
+export async function cancelVideo(
+  supabase: SupabaseClient,
+  videoId: string
+): Promise<{ data: any | null; error: any | null }> {
+  const { data, error } = await supabase
+    .from('videos')
+    .update({
+      status: 'cancelled',
+      error_message: 'Cancelled by user',
+      queue_position: null,
+      queue_worker_id: null,
+      queue_heartbeat_at: null,
+      processing_completed_at: new Date().toISOString()
+    })
+    .eq('id', videoId)
+    .in('status', ['pending', 'processing'])
+    .select();
+
+  return { data: data?.[0] || null, error };
+}
+
+/**
+ * 上游任务完成时标记视频完成（只处理仍在处理中的视频）
+ * 提供方地址只写入渲染任务，video_url 在带水印版本生成后由渲染 Worker 写入（023_video_renditions.sql）
+ */
+export async function completeVideo(
+  supabase: SupabaseClient,
+  video: any,
+  task: ServerProviderTask
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('complete_generated_video', {
+    p_video_id: video.id,
+    p_source_url: task.videoUrl,
+    p_thumbnail_url: task.thumbnailUrl || null,
+    p_metadata: {
+      ...(video.metadata || {}),
+      progressData: buildProgressData(100, '生成完成')
+    }
+  });
+
+  if (error) {
+    console.error(`[VIDEO STATUS] Failed to complete video ${video.id}:`, error);
+    return false;
+  }
+
+  if (data) {
+    console.log(`[VIDEO STATUS] Video ${video.id} completed`);
+  }
+  return !!data;
+}
+
+/**
+ * 标记视频失败（只有真正完成状态切换的调用返回 true）
+ * 积分由数据库触发器按退款策略退还（018_video_refund_policy.sql），每个视频最多退款一次
+ */
+export async function failVideo(supabase: SupabaseClient, videoId: string, message: string): Promise<boolean> {
+  const { data: rows, error } = await supabase
+    .from('videos')
+    .update({
+      status: 'failed',
+      error_message: message,
+      queue_position: null
+    })
+    .eq('id', videoId)
+    .in('status', ['pending', 'processing'])
+    .select('id');
+
+  if (error) {
+    console.error(`[VIDEO STATUS] Failed to mark video ${videoId} as failed:`, error);
+    return false;
+  }
+
+  if (!rows?.[0]) return false;
+
+  console.log(`[VIDEO STATUS] Video ${videoId} failed: ${message}`);
+  return true;
+}
+
+/**
+ * 更新处理中视频的进度
+ */
+export async function updateVideoProgress(
+  supabase: SupabaseClient,
+  video: any,
+  percentage: number,
+  statusText: string,
+  extraMetadata: Record<string, any> = {}
+): Promise<void> {
+  await supabase
+    .from('videos')
+    .update({
+      metadata: {
+        ...(video.metadata || {}),
+        ...extraMetadata,
+        progressData: buildProgressData(percentage, statusText)
+      }
+    })
+    .eq('id', video.id)
+    .eq('status', 'processing');
+}
@@ -0,0 +1,95 @@
+/**
+ * Supabase Edge Functions 共享的水印方案配置
+ * 方案存储在 system_settings 的 watermark_profiles（024_watermark_profiles.sql），
+ * 与前端 WatermarkService、渲染 Worker（scripts/video-rendition-worker.js）使用同一结构
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const WATERMARK_PROFILES_SETTING_KEY = 'watermark_profiles';
+
+export type BaseTier = 'free' | 'basic' | 'pro' | 'premium';
+
+export interface WatermarkProfileSettings {
+  version: number;
+  playbackProfile: string | null;
+  tierRules: Record<BaseTier, string | null>;
+  profiles: Record<string, unknown>;
+}
+
+export interface WatermarkRendition {
+  bucket: string;
+  path: string;
+  version: number;
+}
+
+const DEFAULT_TIER_RULES: Record<BaseTier, string | null> = {
+  free: 'visible',
+  basic: 'corner',
+  pro: null,
+  premium: null
+};
+
+/**
+ * 读取水印方案（需要 service role 客户端），未配置时使用 024 迁移中的默认规则
+ */
+export async function getWatermarkProfileSettings(supabase: SupabaseClient): Promise<WatermarkProfileSettings> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', WATERMARK_PROFILES_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[WATERMARK PROFILES] Failed to load settings:', error);
+  }
+
+  const value = (data?.setting_value || {}) as Partial<WatermarkProfileSettings>;
+  const profiles = value.profiles || {};
+  const tierRules = { ...DEFAULT_TIER_RULES, ...(value.tierRules || {}) };
+
+  // 规则指向不存在的方案时按原视频处理会泄露无水印版本，改用播放方案
+  const playbackProfile = value.playbackProfile !== undefined ? value.playbackProfile : 'visible';
+  for (const tier of Object.keys(tierRules) as BaseTier[]) {
+    const profileId = tierRules[tier];
+    if (profileId && !(profileId in profiles) && value.profiles) {
+      console.warn(`[WATERMARK PROFILES] Unknown profile "${profileId}" for tier ${tier}, using playback profile`);
+      tierRules[tier] = playbackProfile;
+    }
+  }
+
+  return {
+    version: Number(value.version) || 1,
+    playbackProfile,
+    tierRules,
+    profiles
+  };
+}
+
+/**
+ * 年度计划映射到基础等级
+ */
+export function mapToBaseTier(tier: string | null | undefined): BaseTier {
+  if (tier === 'basic-annual') return 'basic';
+  if (tier === 'pro-annual') return 'pro';
+  if (tier === 'enterprise-annual') return 'premium';
+  if (tier === 'basic' || tier === 'pro' || tier === 'premium') return tier;
+  return 'free';
+}
+
+/**
+ * 用户当前有效订阅的基础等级
+ */
+export async function getUserBaseTier(supabase: SupabaseClient, userId: string | null): Promise<BaseTier> {
+  if (!userId) return 'free';
+
+  const { data: subscription } = await supabase
+    .from('subscriptions')
+    .select('tier')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return mapToBaseTier(subscription?.tier);
+}
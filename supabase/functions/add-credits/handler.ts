@@ -0,0 +1,114 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthError, authenticateCaller, requirePrivileged } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+/**
+ * 请求处理（Supabase 客户端由调用方创建，便于测试时替换）
+ */
+export const createHandler = (createSupabaseClient: () => SupabaseClient) => async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createSupabaseClient()
+
+    // 只有 service role 或管理员可以发放积分
+    const caller = await authenticateCaller(req, supabaseClient, 'add-credits')
+
+    // Parse request body
+    const { userId, amount, type, description, referenceId, referenceType } = await req.json()
+    requirePrivileged(caller, req, 'add-credits', { userId, amount, type })
+
+    console.log('Adding credits:', { userId, amount, type, description, referenceId, referenceType })
+
+    // Validate required fields
+    if (!userId || !Number.isInteger(amount) || amount <= 0 || !type || !description) {
+      return new Response(
+        JSON.stringify({ success: false, error: '缺少必要参数' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // Validate type field
+    const validTypes = ['purchase', 'reward', 'refund']
+    if (!validTypes.includes(type)) {
+      return new Response(
+        JSON.stringify({ success: false, error: '无效的积分类型' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // Call the database function to add credits
+    const { data, error } = await supabaseClient.rpc('add_user_credits', {
+      p_user_id: userId,
+      p_amount: amount,
+      p_type: type,
+      p_description: description,
+      p_reference_id: referenceId || null,
+      p_reference_type: referenceType || null
+    })
+
+    if (error) {
+      console.error('Database error:', error)
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: error.message || '数据库操作失败'
+        }),
+        { 
+          status: 500, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // Success response
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        newBalance: data,
+        message: '积分添加成功'
+      }),
+      { 
+        status: 200, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return new Response(
+        JSON.stringify({ success: false, error: error.message }),
+        { 
+          status: error.status, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    console.error('Function error:', error)
+    
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: error.message || '服务器内部错误'
+      }),
+      { 
+        status: 500, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+}
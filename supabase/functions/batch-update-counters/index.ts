@@ -9,8 +9,9 @@ const corsHeaders = {
 }
 
 interface CounterEvent {
-  type: 'template_like' | 'template_comment' | 'template_view' | 'template_usage' | 'template_share'
-  template_id: string
+  type: 'template_like' | 'template_comment' | 'template_view' | 'template_usage' | 'template_share' | 'video_like'
+  template_id?: string // template_* 事件
+  video_id?: string    // video_* 事件
   user_id: string
   delta: number // +1 或 -1
   timestamp: number
@@ -27,6 +28,12 @@ interface BatchCounterUpdate {
   event_count: number
 }
 
+interface BatchVideoCounterUpdate {
+  video_id: string
+  like_delta: number
+  event_count: number
+}
+
 serve(async (req: Request) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -101,7 +108,8 @@ async function publishCounterEvent(redis: Redis, event: CounterEvent) {
     
     const eventData = {
       type: event.type,
-      template_id: event.template_id,
+      template_id: event.template_id ?? '',
+      video_id: event.video_id ?? '',
       user_id: event.user_id,
       delta: event.delta.toString(),
       timestamp: event.timestamp.toString(),
@@ -110,7 +118,7 @@ async function publishCounterEvent(redis: Redis, event: CounterEvent) {
 
     const messageId = await redis.xadd(streamKey, '*', eventData)
     
-    console.log(`[COUNTER EDGE] Published event: ${event.type} for template ${event.template_id}`)
+    console.log(`[COUNTER EDGE] Published event: ${event.type} for ${event.video_id || event.template_id}`)
     
     return new Response(
       JSON.stringify({
@@ -179,16 +187,22 @@ async function processBatchCounters(redis: Redis, supabaseAdmin: any) {
     const [, messages] = results[0]
     const messageIds: string[] = []
     const eventsByTemplate = new Map<string, CounterEvent[]>()
+    const eventsByVideo = new Map<string, CounterEvent[]>()
 
-    // 解析事件
+    // 解析事件，视频事件和模板事件分别聚合
     for (const [messageId, fields] of messages) {
       messageIds.push(messageId)
       
       const event = parseEventFromFields(fields)
-      if (!eventsByTemplate.has(event.template_id)) {
-        eventsByTemplate.set(event.template_id, [])
+      const isVideo = event.type.startsWith('video_')
+      const targetId = isVideo ? event.video_id : event.template_id
+      if (!targetId) continue
+
+      const eventsByTarget = isVideo ? eventsByVideo : eventsByTemplate
+      if (!eventsByTarget.has(targetId)) {
+        eventsByTarget.set(targetId, [])
       }
-      eventsByTemplate.get(event.template_id)!.push(event)
+      eventsByTarget.get(targetId)!.push(event)
     }
 
     // 批量更新数据库
@@ -198,25 +212,34 @@ async function processBatchCounters(redis: Redis, supabaseAdmin: any) {
       batchUpdates.push(batchUpdate)
     }
 
+    const videoUpdates: BatchVideoCounterUpdate[] = []
+    for (const [videoId, events] of eventsByVideo) {
+      videoUpdates.push(aggregateVideoCounterEvents(videoId, events))
+    }
+
     // 执行数据库更新
     for (const update of batchUpdates) {
       await updateTemplateCountersInDB(supabaseAdmin, update)
     }
+    for (const update of videoUpdates) {
+      await updateVideoCountersInDB(supabaseAdmin, update)
+    }
 
     // 确认消息处理完成
     if (messageIds.length > 0) {
       await redis.xack(streamKey, consumerGroup, ...messageIds)
     }
 
-    console.log(`[COUNTER EDGE] Processed ${batchUpdates.length} template updates`)
+    console.log(`[COUNTER EDGE] Processed ${batchUpdates.length} template updates, ${videoUpdates.length} video updates`)
 
     return new Response(
       JSON.stringify({
         success: true,
         data: { 
-          processed: batchUpdates.length,
+          processed: batchUpdates.length + videoUpdates.length,
           events: messageIds.length,
-          templates_updated: batchUpdates.map(u => u.template_id)
+          templates_updated: batchUpdates.map(u => u.template_id),
+          videos_updated: videoUpdates.map(u => u.video_id)
         },
         timestamp: new Date().toISOString()
       }),
@@ -293,7 +316,8 @@ function parseEventFromFields(fields: string[]): CounterEvent {
 
   return {
     type: fieldMap.type as CounterEvent['type'],
-    template_id: fieldMap.template_id,
+    template_id: fieldMap.template_id || undefined,
+    video_id: fieldMap.video_id || undefined,
     user_id: fieldMap.user_id,
     delta: parseInt(fieldMap.delta),
     timestamp: parseInt(fieldMap.timestamp),
@@ -360,4 +384,42 @@ async function updateTemplateCountersInDB(supabaseAdmin: any, update: BatchCount
   }
 
   console.log(`[COUNTER EDGE] Updated template ${template_id} counters successfully`)
-}
\ No newline at end of file
+}
+
+/**
+ * 聚合同一视频的计数器事件
+ */
+function aggregateVideoCounterEvents(videoId: string, events: CounterEvent[]): BatchVideoCounterUpdate {
+  const update: BatchVideoCounterUpdate = {
+    video_id: videoId,
+    like_delta: 0,
+    event_count: events.length
+  }
+
+  for (const event of events) {
+    if (event.type === 'video_like') {
+      update.like_delta += event.delta
+    }
+  }
+
+  return update
+}
+
+/**
+ * 更新数据库中的视频计数器
+ */
+async function updateVideoCountersInDB(supabaseAdmin: any, update: BatchVideoCounterUpdate) {
+  const { video_id, like_delta } = update
+
+  const { error } = await supabaseAdmin.rpc('update_video_counters_atomic', {
+    p_video_id: video_id,
+    p_like_delta: like_delta
+  })
+
+  if (error) {
+    console.error(`[COUNTER EDGE] Failed to update counters for video ${video_id}:`, error)
+    throw error
+  }
+
+  console.log(`[COUNTER EDGE] Updated video ${video_id} counters successfully`)
+}
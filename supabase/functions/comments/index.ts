@@ -0,0 +1,165 @@
+// supabase/functions/comments/index.ts
+// 模板和视频评论的写入入口：发表、编辑、删除（026_comments.sql）
+// - 限流和楼层校验在 post_comment 中完成，超出频率返回 429
+// - 模板评论数通过计数器事件 template_comment 更新（见 _shared/counter-events.ts），视频评论数由数据库触发器维护
+// 读取评论和评论点赞由客户端直接调用 get_comments / toggle_comment_like
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthError, authenticateCaller, logRejectedCall } from '../_shared/auth.ts'
+import { publishCounterEvent } from '../_shared/counter-events.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const FUNCTION_NAME = 'comments'
+const TARGET_TYPES = ['template', 'video']
+const MAX_CONTENT_LENGTH = 1000
+
+// 数据库函数抛出的错误对应的 HTTP 状态码
+const DB_ERROR_STATUS: Record<string, number> = {
+  COMMENT_RATE_LIMITED: 429,
+  COMMENT_TARGET_NOT_FOUND: 404,
+  COMMENT_INVALID_CONTENT: 400,
+  COMMENT_INVALID_TARGET: 400
+}
+
+serve(async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const caller = await authenticateCaller(req, supabaseAdmin, FUNCTION_NAME)
+    if (!caller.userId) {
+      logRejectedCall(FUNCTION_NAME, req, 'no_user')
+      throw new AuthError('User token required', 403)
+    }
+
+    const { action, targetType, targetId, commentId, parentId, content } = await req.json()
+
+    if (!TARGET_TYPES.includes(targetType)) {
+      return jsonResponse({ error: 'Invalid targetType' }, 400)
+    }
+    if ((action === 'create' || action === 'edit')
+      && (typeof content !== 'string' || !content.trim() || content.length > MAX_CONTENT_LENGTH)) {
+      return jsonResponse({ error: 'Invalid content', code: 'COMMENT_INVALID_CONTENT' }, 400)
+    }
+
+    if (action === 'create') {
+      if (!targetId) {
+        return jsonResponse({ error: 'Missing targetId' }, 400)
+      }
+
+      const { data, error } = await supabaseAdmin.rpc('post_comment', {
+        p_user_id: caller.userId,
+        p_target_type: targetType,
+        p_target_id: targetId,
+        p_content: content,
+        p_parent_id: parentId || null
+      })
+      if (error) return dbErrorResponse(error, action)
+
+      const created = data?.[0]
+      if (targetType === 'template') {
+        await publishCounterEvent(supabaseAdmin, {
+          type: 'template_comment',
+          template_id: targetId,
+          user_id: caller.userId,
+          delta: 1,
+          metadata: { comment_id: created?.comment_id }
+        })
+      }
+
+      console.log(`[COMMENTS] ${caller.userId} commented on ${targetType} ${targetId}`)
+      return jsonResponse({ commentId: created?.comment_id, parentId: created?.root_comment_id || null })
+    }
+
+    if (!commentId) {
+      return jsonResponse({ error: 'Missing commentId' }, 400)
+    }
+
+    if (action === 'edit') {
+      const { data: updated, error } = await supabaseAdmin.rpc('edit_comment', {
+        p_user_id: caller.userId,
+        p_target_type: targetType,
+        p_comment_id: commentId,
+        p_content: content
+      })
+      if (error) return dbErrorResponse(error, action)
+      if (!updated) {
+        logRejectedCall(FUNCTION_NAME, req, 'not_comment_author', { callerId: caller.userId, commentId })
+        return jsonResponse({ error: 'Comment not found' }, 404)
+      }
+
+      return jsonResponse({ success: true })
+    }
+
+    if (action === 'delete') {
+      const { data: deletedFrom, error } = await supabaseAdmin.rpc('delete_comment', {
+        p_user_id: caller.userId,
+        p_target_type: targetType,
+        p_comment_id: commentId
+      })
+      if (error) return dbErrorResponse(error, action)
+      if (!deletedFrom) {
+        logRejectedCall(FUNCTION_NAME, req, 'not_allowed_to_delete', { callerId: caller.userId, commentId })
+        return jsonResponse({ error: 'Comment not found' }, 404)
+      }
+
+      if (targetType === 'template') {
+        await publishCounterEvent(supabaseAdmin, {
+          type: 'template_comment',
+          template_id: deletedFrom,
+          user_id: caller.userId,
+          delta: -1,
+          metadata: { comment_id: commentId }
+        })
+      }
+
+      console.log(`[COMMENTS] ${caller.userId} deleted ${targetType} comment ${commentId}`)
+      return jsonResponse({ success: true })
+    }
+
+    return jsonResponse({ error: 'Invalid action' }, 400)
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('[COMMENTS] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
+
+function dbErrorResponse(error: { message: string }, action: string): Response {
+  const code = Object.keys(DB_ERROR_STATUS).find(key => error.message?.includes(key))
+  if (code) {
+    return jsonResponse({ error: code, code }, DB_ERROR_STATUS[code])
+  }
+
+  console.error(`[COMMENTS] Failed to ${action} comment:`, error)
+  return jsonResponse({ error: 'Internal server error' }, 500)
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
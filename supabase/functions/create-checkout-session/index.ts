@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import Stripe from 'https://esm.sh/stripe@12.0.0?target=deno'
 import { getStripeSecretKey, getEdgeStripeEnvironmentInfo } from '../_shared/stripe-config.ts'
+import { getCreditPackage, getPackageTotalCredits } from '../_shared/credit-packages.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -44,17 +45,17 @@ serve(async (req) => {
 
     const { 
       priceId, 
-      amount,
-      currency = 'usd',
-      userId, 
       planId, 
-      credits,
+      packageId,
       successUrl, 
       cancelUrl, 
       mode = 'subscription',
       type = 'subscription'
     } = await req.json()
 
+    // 始终使用登录用户，不信任客户端传入的用户ID
+    const userId = user.id
+
     // 获取或创建Stripe客户
     let customer
     const { data: profile } = await supabaseClient
@@ -110,19 +111,42 @@ serve(async (req) => {
         },
       }
     } else {
-      // 一次性支付模式（积分购买）
+      // 一次性支付模式（积分购买）：金额和积分只从服务端套餐目录读取
+      const supabaseAdmin = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+        {
+          auth: {
+            autoRefreshToken: false,
+            persistSession: false
+          }
+        }
+      )
+
+      const creditPackage = await getCreditPackage(supabaseAdmin, packageId)
+      if (!creditPackage || !creditPackage.is_active) {
+        throw new Error(`Invalid credit package: ${packageId}`)
+      }
+
+      const totalCredits = getPackageTotalCredits(creditPackage)
+      console.log(`[CHECKOUT] Credit package ${creditPackage.id}: ${totalCredits} credits for ${creditPackage.price_cents} ${creditPackage.currency}`)
+
       sessionConfig = {
         ...sessionConfig,
         mode: 'payment',
+        metadata: {
+          ...sessionConfig.metadata,
+          package_id: creditPackage.id,
+        },
         line_items: [
           {
             price_data: {
-              currency,
+              currency: creditPackage.currency,
               product_data: {
-                name: `${credits} 积分`,
-                description: `购买 ${credits} 个积分用于生成AI视频`,
+                name: `${totalCredits} 积分`,
+                description: creditPackage.description || `购买 ${totalCredits} 个积分用于生成AI视频`,
               },
-              unit_amount: amount,
+              unit_amount: creditPackage.price_cents,
             },
             quantity: 1,
           },
@@ -130,7 +154,10 @@ serve(async (req) => {
         payment_intent_data: {
           metadata: {
             user_id: userId,
-            credits: credits.toString(),
+            package_id: creditPackage.id,
+            // 下单时的目录快照，套餐在支付完成前被修改时用于核对
+            credits: totalCredits.toString(),
+            price_cents: creditPackage.price_cents.toString(),
             type: 'credit_purchase',
           },
         },
@@ -1,6 +1,18 @@
 // supabase/functions/get-cached-data/index.ts
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { Redis } from 'https://deno.land/x/upstash_redis@v1.31.6/mod.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthError, authenticateCaller, logRejectedCall } from '../_shared/auth.ts'
+import {
+  CacheKeyScope,
+  canAccessCacheKey,
+  getCacheValueSize,
+  MAX_CACHE_VALUE_BYTES,
+  normalizeCacheTtl,
+  parseCacheKey
+} from '../_shared/cache-keys.ts'
+
+const FUNCTION_NAME = 'get-cached-data'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,6 +34,81 @@ interface CacheResponse {
   timestamp: string
 }
 
+// 服务端回填数据的TTL（秒）
+const SERVER_FILL_TTL: Record<string, number> = {
+  subscription: 3600,
+  credits: 300,
+  stats: 300
+}
+
+/**
+ * 缓存未命中时从数据库读取服务端维护的数据（订阅、积分、模板统计）
+ * 其它命名空间返回 null，由调用方自行写入
+ */
+async function loadServerOwnedValue(supabase: SupabaseClient, scope: CacheKeyScope): Promise<any | null> {
+  const now = new Date().toISOString()
+
+  if (scope.namespace === 'user_server' && scope.field === 'subscription') {
+    const { data: subscription } = await supabase
+      .from('subscriptions')
+      .select('tier, status, current_period_end, stripe_subscription_id')
+      .eq('user_id', scope.resourceId)
+      .eq('status', 'active')
+      .maybeSingle()
+
+    return {
+      tier: subscription?.tier || 'free',
+      status: subscription?.status || 'active',
+      expires_at: subscription?.current_period_end || null,
+      stripe_subscription_id: subscription?.stripe_subscription_id,
+      last_updated: now
+    }
+  }
+
+  if (scope.namespace === 'user_server' && scope.field === 'credits') {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('credits, total_credits_earned, total_credits_spent')
+      .eq('id', scope.resourceId)
+      .maybeSingle()
+
+    if (!profile) return null
+    return {
+      balance: profile.credits || 0,
+      total_earned: profile.total_credits_earned || 0,
+      total_spent: profile.total_credits_spent || 0,
+      last_updated: now
+    }
+  }
+
+  if (scope.namespace === 'template_stats') {
+    const { data: template } = await supabase
+      .from('templates')
+      .select('like_count, comment_count, view_count, usage_count, share_count, favorite_count')
+      .eq('id', scope.resourceId)
+      .maybeSingle()
+
+    if (!template) return null
+    return {
+      like_count: template.like_count || 0,
+      comment_count: template.comment_count || 0,
+      view_count: template.view_count || 0,
+      usage_count: template.usage_count || 0,
+      share_count: template.share_count || 0,
+      favorite_count: template.favorite_count || 0,
+      last_updated: now
+    }
+  }
+
+  return null
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  })
+
 serve(async (req: Request) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -45,10 +132,39 @@ serve(async (req: Request) => {
       )
     }
 
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const caller = await authenticateCaller(req, supabaseAdmin, FUNCTION_NAME)
+
     const body: CacheRequest = await req.json()
     const { action, key, value, ttl } = body
 
-    console.log(`[CACHE EDGE FUNCTION] ${action.toUpperCase()} operation for key: ${key}`)
+    // 键必须属于已知命名空间，且调用方有对应权限
+    const scope = parseCacheKey(key)
+    if (!scope) {
+      logRejectedCall(FUNCTION_NAME, req, 'unknown_namespace', { callerId: caller.userId, action, key })
+      return jsonResponse({
+        success: false,
+        error: 'Key is not in an allowed namespace',
+        timestamp: new Date().toISOString()
+      }, 400)
+    }
+
+    if (!canAccessCacheKey(caller, scope, action)) {
+      logRejectedCall(FUNCTION_NAME, req, 'namespace_forbidden', {
+        callerId: caller.userId,
+        action,
+        key,
+        namespace: scope.namespace
+      })
+      throw new AuthError('Insufficient permissions', 403)
+    }
+
+    console.log(`[CACHE EDGE FUNCTION] ${String(action).toUpperCase()} operation for key: ${key}`)
 
     let result: CacheResponse = {
       success: false,
@@ -59,9 +175,20 @@ serve(async (req: Request) => {
       case 'get':
         try {
           const data = await redis.get(key)
+          let parsed = data ? JSON.parse(data) : null
+
+          // 服务端维护的数据未命中时从数据库回填
+          if (parsed === null) {
+            parsed = await loadServerOwnedValue(supabaseAdmin, scope)
+            if (parsed !== null) {
+              await redis.setex(key, SERVER_FILL_TTL[scope.field || ''] || 300, JSON.stringify(parsed))
+              console.log(`[CACHE EDGE FUNCTION] GET ${key}: filled from database`)
+            }
+          }
+
           result = {
             success: true,
-            data: data ? JSON.parse(data) : null,
+            data: parsed,
             cache_hit: data !== null,
             timestamp: new Date().toISOString()
           }
@@ -78,20 +205,36 @@ serve(async (req: Request) => {
 
       case 'set':
         try {
+          if (value === undefined) {
+            result = {
+              success: false,
+              error: 'Missing value',
+              timestamp: new Date().toISOString()
+            }
+            break
+          }
+
           const serializedValue = JSON.stringify(value)
-          
-          if (ttl && ttl > 0) {
-            await redis.setex(key, ttl, serializedValue)
-          } else {
-            await redis.set(key, serializedValue)
+          const valueSize = getCacheValueSize(serializedValue)
+          if (valueSize > MAX_CACHE_VALUE_BYTES) {
+            result = {
+              success: false,
+              error: `Value too large: ${valueSize} bytes (max ${MAX_CACHE_VALUE_BYTES})`,
+              timestamp: new Date().toISOString()
+            }
+            break
           }
-          
+
+          // 所有键都必须过期，TTL 超过上限时截断
+          const effectiveTtl = normalizeCacheTtl(ttl)
+          await redis.setex(key, effectiveTtl, serializedValue)
+
           result = {
             success: true,
-            data: { key, ttl: ttl || 'no_expiry' },
+            data: { key, ttl: effectiveTtl },
             timestamp: new Date().toISOString()
           }
-          console.log(`[CACHE EDGE FUNCTION] SET ${key} with TTL: ${ttl || 'none'}`)
+          console.log(`[CACHE EDGE FUNCTION] SET ${key} with TTL: ${effectiveTtl}`)
         } catch (error) {
           result = {
             success: false,
@@ -154,6 +297,14 @@ serve(async (req: Request) => {
     )
 
   } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, error.status)
+    }
+
     console.error('[CACHE EDGE FUNCTION] Unexpected error:', error)
     return new Response(
       JSON.stringify({ 
@@ -0,0 +1,249 @@
+// supabase/functions/share-metadata/index.ts
+// 为社交平台爬虫输出分享页面的 Open Graph / Twitter Card 元数据
+// 支持 /video/{id}、/profile/{username} 和短链接 /s/{code}（按短链接目标渲染，不计点击）
+// 托管平台按 User-Agent 把爬虫请求转发到这里（见 vercel.json），普通用户直接 302 到前端页面
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const SITE_NAME = 'AI Video SaaS'
+const DEFAULT_DESCRIPTION = 'Generate stunning AI videos using customizable templates powered by Google Veo3'
+const DEFAULT_IMAGE_PATH = '/android-chrome-512x512.png'
+
+// 元数据缓存时间（秒）
+const CACHE_MAX_AGE = 300
+
+const CRAWLER_PATTERN = /facebookexternalhit|facebot|twitterbot|slackbot|linkedinbot|discordbot|telegrambot|whatsapp|pinterest|redditbot|applebot|googlebot|bingbot|skypeuripreview|vkshare|embedly|iframely|quora link preview|line\/|kakaotalk/i
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface PageMetadata {
+  title: string
+  description: string
+  url: string
+  image: string
+  type: 'website' | 'video.other' | 'profile'
+  video?: {
+    url: string
+    embedUrl: string
+    width: number
+    height: number
+  }
+}
+
+serve(async (req: Request) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  const siteUrl = (Deno.env.get('SITE_URL') || 'https://veo3video.me').replace(/\/$/, '')
+  const path = normalizePath(new URL(req.url).searchParams.get('path'))
+
+  // 普通用户直接回到前端页面
+  const userAgent = req.headers.get('user-agent') || ''
+  if (!CRAWLER_PATTERN.test(userAgent)) {
+    return Response.redirect(`${siteUrl}${path}`, 302)
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const metadata = await resolveMetadata(supabaseAdmin, siteUrl, path)
+    console.log(`[SHARE METADATA] ${path} -> ${metadata.type} (${userAgent.slice(0, 60)})`)
+
+    return new Response(renderHtml(metadata), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': `public, max-age=${CACHE_MAX_AGE}`
+      }
+    })
+  } catch (error) {
+    console.error('[SHARE METADATA] Failed to render metadata:', error)
+    return new Response(renderHtml(defaultMetadata(siteUrl, path)), {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    })
+  }
+})
+
+/**
+ * 只接受站内相对路径
+ */
+function normalizePath(path: string | null): string {
+  if (!path || !path.startsWith('/') || path.startsWith('//')) return '/'
+  return path
+}
+
+async function resolveMetadata(supabase: SupabaseClient, siteUrl: string, path: string): Promise<PageMetadata> {
+  // 短链接：按目标页面渲染
+  const shortLinkMatch = path.match(/^\/s\/([A-Za-z0-9]{4,16})\/?$/)
+  if (shortLinkMatch) {
+    const { data: link } = await supabase
+      .from('short_links')
+      .select('target_url, expires_at, is_active')
+      .eq('code', shortLinkMatch[1])
+      .maybeSingle()
+
+    const isValid = link?.is_active && (!link.expires_at || new Date(link.expires_at) > new Date())
+    if (!isValid) return defaultMetadata(siteUrl, path)
+
+    const metadata = await resolveMetadata(supabase, siteUrl, link.target_url)
+    // 保留短链接作为分享地址，点击统计不受爬虫影响
+    return { ...metadata, url: `${siteUrl}${path}` }
+  }
+
+  const videoMatch = path.match(/^\/video\/([^/?#]+)\/?$/)
+  if (videoMatch && UUID_PATTERN.test(videoMatch[1])) {
+    return (await getVideoMetadata(supabase, siteUrl, videoMatch[1])) || defaultMetadata(siteUrl, path)
+  }
+
+  const profileMatch = path.match(/^\/profile\/([^/?#]+)\/?$/)
+  if (profileMatch) {
+    const username = decodeURIComponent(profileMatch[1])
+    return (await getProfileMetadata(supabase, siteUrl, username)) || defaultMetadata(siteUrl, path)
+  }
+
+  return defaultMetadata(siteUrl, path)
+}
+
+/**
+ * 公开视频（get_public_video 以 service role 调用时只返回公开视频）
+ */
+async function getVideoMetadata(supabase: SupabaseClient, siteUrl: string, videoId: string): Promise<PageMetadata | null> {
+  const { data, error } = await supabase.rpc('get_public_video', { p_video_id: videoId })
+  if (error) {
+    console.error('[SHARE METADATA] Failed to load video:', error)
+    return null
+  }
+
+  const video = data?.[0]
+  if (!video?.is_public) return null
+
+  const creator = video.creator_full_name || video.creator_username
+  const { width, height } = parseResolution(video.resolution)
+
+  return {
+    title: video.title || (creator ? `Video by ${creator}` : 'AI Generated Video'),
+    description: truncate(video.description || video.prompt || DEFAULT_DESCRIPTION, 200),
+    url: `${siteUrl}/video/${video.id}`,
+    image: video.thumbnail_url || `${siteUrl}${DEFAULT_IMAGE_PATH}`,
+    type: 'video.other',
+    video: {
+      url: video.video_url,
+      embedUrl: `${siteUrl}/embed/${video.id}`,
+      width,
+      height
+    }
+  }
+}
+
+async function getProfileMetadata(supabase: SupabaseClient, siteUrl: string, username: string): Promise<PageMetadata | null> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('username, full_name, avatar_url, bio')
+    .eq('username', username)
+    .maybeSingle()
+
+  if (!profile) return null
+
+  const name = profile.full_name || profile.username
+  return {
+    title: `${name} (@${profile.username})`,
+    description: truncate(profile.bio || `${name} on ${SITE_NAME}`, 200),
+    url: `${siteUrl}/profile/${encodeURIComponent(profile.username)}`,
+    image: profile.avatar_url || `${siteUrl}${DEFAULT_IMAGE_PATH}`,
+    type: 'profile'
+  }
+}
+
+function defaultMetadata(siteUrl: string, path: string): PageMetadata {
+  return {
+    title: SITE_NAME,
+    description: DEFAULT_DESCRIPTION,
+    url: `${siteUrl}${path}`,
+    image: `${siteUrl}${DEFAULT_IMAGE_PATH}`,
+    type: 'website'
+  }
+}
+
+/**
+ * 分辨率形如 "1280x720"，无法解析时按 16:9 处理
+ */
+function parseResolution(resolution: string | null): { width: number; height: number } {
+  const match = resolution?.match(/^(\d+)\s*[x×]\s*(\d+)$/)
+  if (match) {
+    return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) }
+  }
+  return { width: 1280, height: 720 }
+}
+
+function truncate(text: string, maxLength: number): string {
+  const normalized = text.replace(/\s+/g, ' ').trim()
+  return normalized.length > maxLength ? `${normalized.slice(0, maxLength - 1)}…` : normalized
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function renderHtml(metadata: PageMetadata): string {
+  const tags: [string, string, string][] = [
+    ['name', 'description', metadata.description],
+    ['property', 'og:site_name', SITE_NAME],
+    ['property', 'og:type', metadata.type],
+    ['property', 'og:title', metadata.title],
+    ['property', 'og:description', metadata.description],
+    ['property', 'og:url', metadata.url],
+    ['property', 'og:image', metadata.image],
+    ['name', 'twitter:title', metadata.title],
+    ['name', 'twitter:description', metadata.description],
+    ['name', 'twitter:image', metadata.image]
+  ]
+
+  if (metadata.video) {
+    const { url, embedUrl, width, height } = metadata.video
+    tags.push(
+      ['property', 'og:video', url],
+      ['property', 'og:video:secure_url', url],
+      ['property', 'og:video:type', 'video/mp4'],
+      ['property', 'og:video:width', String(width)],
+      ['property', 'og:video:height', String(height)],
+      ['name', 'twitter:card', 'player'],
+      ['name', 'twitter:player', embedUrl],
+      ['name', 'twitter:player:width', String(width)],
+      ['name', 'twitter:player:height', String(height)],
+      ['name', 'twitter:player:stream', url],
+      ['name', 'twitter:player:stream:content_type', 'video/mp4']
+    )
+  } else {
+    tags.push(['name', 'twitter:card', 'summary_large_image'])
+  }
+
+  const metaTags = tags
+    .map(([attr, key, value]) => `    <meta ${attr}="${key}" content="${escapeHtml(value)}" />`)
+    .join('\n')
+  const url = escapeHtml(metadata.url)
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${escapeHtml(metadata.title)}</title>
+    <link rel="canonical" href="${url}" />
+${metaTags}
+    <meta http-equiv="refresh" content="0; url=${url}" />
+  </head>
+  <body>
+    <a href="${url}">${escapeHtml(metadata.title)}</a>
+  </body>
+</html>`
+}
@@ -0,0 +1,84 @@
+// supabase/functions/short-link/index.ts
+// 解析站内短链接 /s/{code}：记录点击（来源、国家）并返回跳转目标
+// 前端短链接页面调用，来源使用落地页的 document.referrer，国家从边缘网络的请求头读取
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const CODE_PATTERN = /^[A-Za-z0-9]{4,16}$/
+
+// 边缘网络提供的国家代码请求头（按优先级）
+const COUNTRY_HEADERS = ['cf-ipcountry', 'x-vercel-ip-country', 'x-country-code']
+
+serve(async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const { code, referrer } = await req.json()
+
+    if (typeof code !== 'string' || !CODE_PATTERN.test(code)) {
+      return jsonResponse({ error: 'Invalid code' }, 400)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const { data: targetUrl, error } = await supabaseAdmin.rpc('record_short_link_click', {
+      p_code: code,
+      p_referrer: typeof referrer === 'string' && referrer ? referrer : null,
+      p_country: getCountry(req),
+      p_user_agent: req.headers.get('user-agent')
+    })
+
+    if (error) {
+      console.error('[SHORT LINK] Failed to record click:', error)
+      return jsonResponse({ error: 'Failed to resolve link' }, 500)
+    }
+
+    if (!targetUrl) {
+      console.log(`[SHORT LINK] ${code}: not found or expired`)
+      return jsonResponse({ error: 'Link not found or expired' }, 404)
+    }
+
+    console.log(`[SHORT LINK] ${code} -> ${targetUrl}`)
+    return jsonResponse({ target: targetUrl })
+  } catch (error) {
+    console.error('[SHORT LINK] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
+
+function getCountry(req: Request): string | null {
+  for (const header of COUNTRY_HEADERS) {
+    const value = req.headers.get(header)
+    // Cloudflare 对未知地区返回 XX
+    if (value && /^[A-Za-z]{2}$/.test(value) && value.toUpperCase() !== 'XX') {
+      return value.toUpperCase()
+    }
+  }
+  return null
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
@@ -8,6 +8,7 @@ import {
   getEdgeStripeEnvironmentInfo,
   validateEdgeStripeConfig
 } from '../_shared/stripe-config.ts'
+import { getCreditPackage, getPackageTotalCredits } from '../_shared/credit-packages.ts'
 
 // 初始化Stripe，使用共享配置
 const stripe = new Stripe(getStripeSecretKey(), {
@@ -765,7 +766,6 @@ async function handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent, supab
   console.log(`[PAYMENT] Processing payment success: ${paymentIntent.id}`)
   
   const userId = paymentIntent.metadata?.user_id
-  const credits = parseInt(paymentIntent.metadata?.credits || '0')
   const type = paymentIntent.metadata?.type
 
   if (!userId) {
@@ -774,21 +774,25 @@ async function handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent, supab
   }
 
   // 只处理积分购买，订阅相关的积分由subscription事件处理
-  if (type === 'credit_purchase' && credits > 0) {
-    const { error: creditError } = await supabase.rpc('add_user_credits', {
-      p_user_id: userId,
-      p_amount: credits,
-      p_type: 'purchase',
-      p_description: `购买${credits}积分`,
-      p_reference_id: paymentIntent.id,
-      p_reference_type: 'payment_intent'
-    })
+  if (type === 'credit_purchase') {
+    const credits = await resolvePurchasedCredits(paymentIntent, supabase)
+
+    if (credits > 0) {
+      const { error: creditError } = await supabase.rpc('add_user_credits', {
+        p_user_id: userId,
+        p_amount: credits,
+        p_type: 'purchase',
+        p_description: `购买${credits}积分`,
+        p_reference_id: paymentIntent.id,
+        p_reference_type: 'payment_intent'
+      })
 
-    if (creditError) {
-      console.error('[PAYMENT] Error adding purchased credits:', creditError)
-      throw creditError
-    } else {
-      console.log(`[PAYMENT] ✅ Added ${credits} purchased credits`)
+      if (creditError) {
+        console.error('[PAYMENT] Error adding purchased credits:', creditError)
+        throw creditError
+      } else {
+        console.log(`[PAYMENT] ✅ Added ${credits} purchased credits`)
+      }
     }
   }
 
@@ -803,6 +807,44 @@ async function handlePaymentSucceeded(paymentIntent: Stripe.PaymentIntent, supab
   }
 }
 
+/**
+ * 按积分套餐目录计算本次购买应发放的积分
+ * 实付金额和币种必须与目录一致；套餐在支付完成前被修改时，按下单时的快照核对
+ */
+async function resolvePurchasedCredits(paymentIntent: Stripe.PaymentIntent, supabase: any): Promise<number> {
+  const packageId = paymentIntent.metadata?.package_id
+  if (!packageId) {
+    console.error(`[PAYMENT] Credit purchase ${paymentIntent.id} has no package_id - not granting credits`)
+    return 0
+  }
+
+  const creditPackage = await getCreditPackage(supabase, packageId)
+  if (!creditPackage) {
+    console.error(`[PAYMENT] Credit package ${packageId} not found for ${paymentIntent.id}`)
+    return 0
+  }
+
+  const paidAmount = paymentIntent.amount_received || paymentIntent.amount
+  if (paymentIntent.currency !== creditPackage.currency) {
+    console.error(`[PAYMENT] Currency mismatch for ${paymentIntent.id}: paid ${paymentIntent.currency}, package ${creditPackage.currency}`)
+    return 0
+  }
+
+  if (paidAmount === creditPackage.price_cents) {
+    return getPackageTotalCredits(creditPackage)
+  }
+
+  const snapshotPrice = parseInt(paymentIntent.metadata?.price_cents || '0')
+  const snapshotCredits = parseInt(paymentIntent.metadata?.credits || '0')
+  if (snapshotPrice > 0 && paidAmount === snapshotPrice) {
+    console.warn(`[PAYMENT] Package ${packageId} changed after checkout, granting ${snapshotCredits} credits from checkout snapshot`)
+    return snapshotCredits
+  }
+
+  console.error(`[PAYMENT] Amount mismatch for ${paymentIntent.id}: paid ${paidAmount}, package ${creditPackage.price_cents}`)
+  return 0
+}
+
 /**
  * 处理发票支付成功
  */
@@ -0,0 +1,36 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../add-credits/handler.ts';
+import { createFakeSupabase, jsonRequest, SERVICE_ROLE_KEY } from './fake-supabase.ts';
+
+Deno.env.set('SERVICE_ROLE_KEY', SERVICE_ROLE_KEY);
+
+const grant = { userId: 'user-1', amount: 100, type: 'reward', description: 'test' };
+
+const setup = () => {
+  const fake = createFakeSupabase({ users: { 'user-token': { id: 'user-1' } } });
+  return { ...fake, handler: createHandler(() => fake.client) };
+};
+
+Deno.test('add-credits rejects requests without a token', async () => {
+  const { handler, rpcCalls } = setup();
+
+  const response = await handler(jsonRequest('add-credits', grant));
+  assertEquals(response.status, 401);
+  assertEquals(rpcCalls.length, 0);
+});
+
+Deno.test('add-credits rejects regular users, including for their own account', async () => {
+  const { handler, rpcCalls } = setup();
+
+  const response = await handler(jsonRequest('add-credits', grant, 'user-token'));
+  assertEquals(response.status, 403);
+  assertEquals(rpcCalls.length, 0);
+});
+
+Deno.test('add-credits allows the service role', async () => {
+  const { handler, rpcCalls } = setup();
+
+  const response = await handler(jsonRequest('add-credits', grant, SERVICE_ROLE_KEY));
+  assertEquals(response.status, 200);
+  assertEquals(rpcCalls.map(call => call.name), ['add_user_credits']);
+});
@@ -0,0 +1,51 @@
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { AuthError, authenticateCaller, requireOwner, requirePrivileged, type Caller } from '../_shared/auth.ts';
+import { createFakeSupabase, jsonRequest, SERVICE_ROLE_KEY } from './fake-supabase.ts';
+
+Deno.env.set('SERVICE_ROLE_KEY', SERVICE_ROLE_KEY);
+
+const { client } = createFakeSupabase({
+  users: {
+    'user-token': { id: 'user-1' },
+    'admin-token': { id: 'admin-1', role: 'admin' }
+  }
+});
+
+const request = (token?: string) => jsonRequest('auth-test', {}, token);
+
+const user: Caller = { role: 'user', userId: 'user-1' };
+const admin: Caller = { role: 'admin', userId: 'admin-1' };
+const serviceRole: Caller = { role: 'service_role', userId: null };
+
+Deno.test('authenticateCaller rejects requests without a token', async () => {
+  const error = await assertRejects(() => authenticateCaller(request(), client, 'auth-test'), AuthError);
+  assertEquals(error.status, 401);
+});
+
+Deno.test('authenticateCaller rejects invalid tokens', async () => {
+  const error = await assertRejects(() => authenticateCaller(request('anon-key'), client, 'auth-test'), AuthError);
+  assertEquals(error.status, 401);
+});
+
+Deno.test('authenticateCaller identifies service role, admins and users', async () => {
+  assertEquals(await authenticateCaller(request(SERVICE_ROLE_KEY), client, 'auth-test'), serviceRole);
+  assertEquals(await authenticateCaller(request('admin-token'), client, 'auth-test'), admin);
+  assertEquals(await authenticateCaller(request('user-token'), client, 'auth-test'), user);
+});
+
+Deno.test('requirePrivileged only allows service role and admins', () => {
+  requirePrivileged(serviceRole, request(), 'auth-test');
+  requirePrivileged(admin, request(), 'auth-test');
+
+  const error = assertThrows(() => requirePrivileged(user, request(), 'auth-test'), AuthError);
+  assertEquals(error.status, 403);
+});
+
+Deno.test('requireOwner rejects other users and missing owners', () => {
+  requireOwner(user, 'user-1', request(), 'auth-test');
+  requireOwner(admin, 'user-1', request(), 'auth-test');
+  requireOwner(serviceRole, null, request(), 'auth-test');
+
+  assertEquals(assertThrows(() => requireOwner(user, 'user-2', request(), 'auth-test'), AuthError).status, 403);
+  assertEquals(assertThrows(() => requireOwner(user, null, request(), 'auth-test'), AuthError).status, 403);
+});
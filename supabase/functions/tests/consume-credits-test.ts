@@ -0,0 +1,44 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../consume-credits/handler.ts';
+import { createFakeSupabase, jsonRequest, SERVICE_ROLE_KEY } from './fake-supabase.ts';
+
+Deno.env.set('SERVICE_ROLE_KEY', SERVICE_ROLE_KEY);
+
+const consume = (userId: string) => ({ userId, amount: 10, description: 'test', referenceId: 'video-1' });
+
+const setup = () => {
+  const fake = createFakeSupabase({ users: { 'user-token': { id: 'user-1' } } });
+  return { ...fake, handler: createHandler(() => fake.client) };
+};
+
+Deno.test('consume-credits rejects requests without a token', async () => {
+  const { handler, rpcCalls } = setup();
+
+  const response = await handler(jsonRequest('consume-credits', consume('user-1')));
+  assertEquals(response.status, 401);
+  assertEquals(rpcCalls.length, 0);
+});
+
+Deno.test('consume-credits rejects invalid tokens', async () => {
+  const { handler, rpcCalls } = setup();
+
+  const response = await handler(jsonRequest('consume-credits', consume('user-1'), 'anon-key'));
+  assertEquals(response.status, 401);
+  assertEquals(rpcCalls.length, 0);
+});
+
+Deno.test("consume-credits rejects spending another user's credits", async () => {
+  const { handler, rpcCalls } = setup();
+
+  const response = await handler(jsonRequest('consume-credits', consume('user-2'), 'user-token'));
+  assertEquals(response.status, 403);
+  assertEquals(rpcCalls.length, 0);
+});
+
+Deno.test('consume-credits allows users to spend their own credits', async () => {
+  const { handler, rpcCalls } = setup();
+
+  const response = await handler(jsonRequest('consume-credits', consume('user-1'), 'user-token'));
+  assertEquals(response.status, 200);
+  assertEquals(rpcCalls.map(call => call.name), ['consume_user_credits']);
+});
@@ -0,0 +1,100 @@
+/**
+ * Edge Functions 测试用的 Supabase 客户端替身
+ * 按 token 返回登录用户，按表名返回预置数据，并记录所有写操作和 RPC 调用，
+ * 用于断言被拒绝的请求没有触达数据库
+ */
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export const SERVICE_ROLE_KEY = 'test-service-role-key';
+
+export interface FakeUser {
+  id: string;
+  role?: 'user' | 'admin' | 'super_admin';
+}
+
+export interface FakeSupabaseOptions {
+  users?: Record<string, FakeUser>;      // token -> 用户
+  rows?: Record<string, any[]>;          // 表名 -> 行
+}
+
+export interface FakeSupabase {
+  client: SupabaseClient;
+  writes: { table: string; values: Record<string, any> }[];
+  rpcCalls: { name: string; params: Record<string, any> }[];
+}
+
+export function createFakeSupabase(options: FakeSupabaseOptions = {}): FakeSupabase {
+  const users = options.users || {};
+  const rows = options.rows || {};
+  const writes: FakeSupabase['writes'] = [];
+  const rpcCalls: FakeSupabase['rpcCalls'] = [];
+
+  const profiles = Object.values(users).map(user => ({ id: user.id, role: user.role || 'user' }));
+
+  const from = (table: string) => {
+    const filters: ((row: any) => boolean)[] = [];
+    let updateValues: Record<string, any> | null = null;
+
+    const matching = () => {
+      const source = table === 'profiles' ? profiles : rows[table] || [];
+      return source.filter(row => filters.every(filter => filter(row)));
+    };
+
+    const result = () => {
+      if (!updateValues) return { data: matching(), error: null };
+      const updated = matching().map(row => Object.assign(row, updateValues));
+      if (updated.length > 0) writes.push({ table, values: updateValues });
+      return { data: updated, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (values: Record<string, any>) => {
+        updateValues = values;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      maybeSingle: () => Promise.resolve({ data: result().data[0] || null, error: null }),
+      single: () => Promise.resolve({ data: result().data[0] || null, error: null }),
+      then: (resolve: (value: unknown) => unknown, reject?: (reason: unknown) => unknown) =>
+        Promise.resolve(result()).then(resolve, reject)
+    };
+    return builder;
+  };
+
+  const client = {
+    auth: {
+      getUser: (token: string) => {
+        const user = users[token];
+        return Promise.resolve(user
+          ? { data: { user: { id: user.id } }, error: null }
+          : { data: { user: null }, error: { message: 'invalid JWT' } });
+      }
+    },
+    from,
+    rpc: (name: string, params: Record<string, any>) => {
+      rpcCalls.push({ name, params });
+      return Promise.resolve({ data: 100, error: null });
+    }
+  };
+
+  return { client: client as unknown as SupabaseClient, writes, rpcCalls };
+}
+
+export function jsonRequest(functionName: string, body: unknown, token?: string): Request {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  return new Request(`http://localhost/functions/v1/${functionName}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body)
+  });
+}
@@ -0,0 +1,90 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createHandler } from '../update-video-status/handler.ts';
+import { createFakeSupabase, jsonRequest, SERVICE_ROLE_KEY } from './fake-supabase.ts';
+
+Deno.env.set('SERVICE_ROLE_KEY', SERVICE_ROLE_KEY);
+
+const setup = (status = 'processing') => {
+  const fake = createFakeSupabase({
+    users: {
+      'user-token': { id: 'user-1' },
+      'other-token': { id: 'user-2' }
+    },
+    rows: {
+      videos: [{ id: 'video-1', user_id: 'user-1', status, video_url: null, metadata: {} }]
+    }
+  });
+  return { ...fake, handler: createHandler(() => fake.client) };
+};
+
+const update = (updates: Record<string, unknown>, token?: string) =>
+  jsonRequest('update-video-status', { videoId: 'video-1', updates }, token);
+
+Deno.test('update-video-status rejects requests without a token', async () => {
+  const { handler, writes } = setup();
+
+  const response = await handler(update({ status: 'cancelled' }));
+  assertEquals(response.status, 401);
+  assertEquals(writes.length, 0);
+});
+
+Deno.test("update-video-status hides another user's video", async () => {
+  const { handler, writes } = setup();
+
+  const response = await handler(update({ status: 'cancelled' }, 'other-token'));
+  assertEquals(response.status, 404);
+  assertEquals(writes.length, 0);
+});
+
+Deno.test('update-video-status returns 404 for missing videos', async () => {
+  const { handler, writes } = setup();
+
+  const response = await handler(jsonRequest('update-video-status', { videoId: 'missing', updates: { status: 'cancelled' } }, 'user-token'));
+  assertEquals(response.status, 404);
+  assertEquals(writes.length, 0);
+});
+
+Deno.test('update-video-status rejects status, url and metadata changes from owners', async () => {
+  const rejected = [
+    { status: 'failed', error_message: 'refund me' },
+    { status: 'completed' },
+    { video_url: 'http://169.254.169.254/latest/meta-data' },
+    { metadata: { generation: { imagePath: 'user-2/input.png' } } },
+    { status: 'cancelled', video_url: 'https://example.com/video.mp4' }
+  ];
+
+  for (const updates of rejected) {
+    const { handler, writes } = setup();
+
+    const response = await handler(update(updates, 'user-token'));
+    assertEquals(response.status, 403, JSON.stringify(updates));
+    assertEquals(writes.length, 0);
+  }
+});
+
+Deno.test('update-video-status lets owners cancel unfinished videos', async () => {
+  const { handler, writes } = setup();
+
+  const response = await handler(update({ status: 'cancelled' }, 'user-token'));
+  assertEquals(response.status, 200);
+  assertEquals(writes[0].values.status, 'cancelled');
+});
+
+Deno.test('update-video-status returns a conflict when cancelling finished videos', async () => {
+  for (const status of ['completed', 'failed', 'cancelled']) {
+    const { handler, writes } = setup(status);
+
+    const response = await handler(update({ status: 'cancelled' }, 'user-token'));
+    assertEquals(response.status, 409, status);
+    assertEquals(writes.length, 0);
+  }
+});
+
+Deno.test('update-video-status accepts worker write-backs from the service role', async () => {
+  const { handler, writes } = setup();
+
+  const response = await handler(update({ status: 'failed', error_message: 'upstream failed', user_id: 'user-2' }, SERVICE_ROLE_KEY));
+  assertEquals(response.status, 200);
+  assertEquals(writes[0].values.status, 'failed');
+  assertEquals(writes[0].values.user_id, undefined);
+});
@@ -0,0 +1,153 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { cancelVideo, isCancelRequest, pickVideoStatusUpdates, updateVideoStatus, type VideoStatusUpdates } from '../_shared/video-status.ts'
+import { AuthError, authenticateCaller, isPrivileged, logRejectedCall, requirePrivileged } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface VideoUpdateRequest {
+  videoId: string
+  updates: VideoStatusUpdates
+}
+
+/**
+ * 请求处理（Supabase 客户端由调用方创建，便于测试时替换）
+ */
+export const createHandler = (createSupabaseClient: () => SupabaseClient) => async (req: Request): Promise<Response> => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createSupabaseClient()
+
+    if (req.method !== 'POST') {
+      return new Response(
+        JSON.stringify({ error: 'Method not allowed' }),
+        { 
+          status: 405, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    const body: VideoUpdateRequest = await req.json()
+    const { videoId, updates } = body
+
+    if (!videoId) {
+      return new Response(
+        JSON.stringify({ error: 'Video ID is required' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    console.log('[EDGE FUNCTION] Updating video:', { videoId, updates })
+
+    const caller = await authenticateCaller(req, supabaseAdmin, 'update-video-status')
+
+    const { data: existing } = await supabaseAdmin
+      .from('videos')
+      .select('id, user_id')
+      .eq('id', videoId)
+      .maybeSingle()
+
+    // 普通用户只能更新自己的视频（不是自己的视频同样返回 404，不暴露视频是否存在）
+    if (!existing || (!isPrivileged(caller) && existing.user_id !== caller.userId)) {
+      if (existing) {
+        logRejectedCall('update-video-status', req, 'not_owner', { callerId: caller.userId, ownerId: existing.user_id, videoId })
+      }
+      return new Response(
+        JSON.stringify({ success: false, error: 'Video not found' }),
+        { 
+          status: 404, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // 普通用户只能取消排队中或处理中的视频，状态、视频地址和 metadata 只接受 Worker 和管理员写回
+    const cancelOnly = !isPrivileged(caller)
+    if (cancelOnly && !isCancelRequest(updates)) {
+      requirePrivileged(caller, req, 'update-video-status', { videoId, fields: Object.keys(updates || {}) })
+    }
+
+    // 使用 Service Role 权限更新视频记录（绕过 RLS），时间戳由共享逻辑自动设置
+    const { data: video, error: updateError } = cancelOnly
+      ? await cancelVideo(supabaseAdmin, videoId)
+      : await updateVideoStatus(supabaseAdmin, videoId, pickVideoStatusUpdates(updates || {}))
+
+    if (updateError) {
+      console.error('[EDGE FUNCTION] Error updating video:', updateError)
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: updateError.message,
+          details: updateError
+        }),
+        { 
+          status: 500, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // 视频已完成、失败或已取消，没有记录被更新
+    if (!video) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Video already finished' }),
+        { 
+          status: 409, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    console.log('[EDGE FUNCTION] Video updated successfully:', {
+      videoId,
+      status: video.status,
+      hasVideoUrl: !!video.video_url
+    })
+
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        data: video,
+        message: 'Video updated successfully'
+      }),
+      { 
+        status: 200, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return new Response(
+        JSON.stringify({ success: false, error: error.message }),
+        { 
+          status: error.status, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    console.error('[EDGE FUNCTION] Unexpected error:', error)
+    return new Response(
+      JSON.stringify({ 
+        success: false, 
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { 
+        status: 500, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+  }
+}
@@ -0,0 +1,186 @@
+// supabase/functions/video-download/index.ts
+// 视频下载入口：按水印方案（system_settings.watermark_profiles）返回对应版本的下载地址
+// - 下载自己的视频：按订阅等级的 tierRules 选择方案，规则为 null 时返回 video-originals 私有桶的短时签名URL
+// - 下载他人的公开视频：公开播放方案（video-watermarked 公开桶）
+// - 其它方案的版本在 video-renditions 私有桶，同样只通过短时签名URL提供
+// 版本未生成时返回 202，由 scripts/video-rendition-worker.js 处理（023_video_renditions.sql、024_watermark_profiles.sql）
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthError, authenticateCaller, isPrivileged, logRejectedCall } from '../_shared/auth.ts'
+import { WatermarkRendition, getUserBaseTier, getWatermarkProfileSettings } from '../_shared/watermark-profiles.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const FUNCTION_NAME = 'video-download'
+const ORIGINALS_BUCKET = 'video-originals'
+const WATERMARKED_BUCKET = 'video-watermarked'
+
+// 私有桶签名URL有效期（秒）
+const SIGNED_URL_EXPIRES_IN = 300
+
+serve(async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const caller = await authenticateCaller(req, supabaseAdmin, FUNCTION_NAME)
+    const { videoId } = await req.json()
+
+    if (!videoId || typeof videoId !== 'string') {
+      return jsonResponse({ error: 'Missing videoId' }, 400)
+    }
+
+    const { data: video } = await supabaseAdmin
+      .from('videos')
+      .select('id, user_id, title, status, video_url, is_public, is_deleted')
+      .eq('id', videoId)
+      .maybeSingle()
+
+    if (!video || video.is_deleted || video.status !== 'completed') {
+      return jsonResponse({ error: 'Video not found' }, 404)
+    }
+
+    const isOwner = caller.userId === video.user_id
+    if (!isOwner && !isPrivileged(caller) && !video.is_public) {
+      logRejectedCall(FUNCTION_NAME, req, 'not_owner', { callerId: caller.userId, videoId })
+      throw new AuthError('Insufficient permissions', 403)
+    }
+
+    // 管理员下载原视频，作者按订阅等级的水印规则，其他人下载公开播放版本
+    const settings = await getWatermarkProfileSettings(supabaseAdmin)
+    let profileId: string | null
+    if (isPrivileged(caller)) {
+      profileId = null
+    } else if (isOwner) {
+      profileId = settings.tierRules[await getUserBaseTier(supabaseAdmin, caller.userId)]
+    } else {
+      profileId = settings.playbackProfile
+    }
+
+    const filename = buildFilename(video.title, video.id)
+
+    const { data: job } = await supabaseAdmin
+      .from('video_rendition_jobs')
+      .select('status, original_path, renditions, last_error')
+      .eq('video_id', video.id)
+      .maybeSingle()
+
+    if (!job) {
+      // 迁移前完成且未补建任务的视频，补建后等待处理；原始地址移到渲染任务，不再作为播放地址
+      if (video.video_url) {
+        await supabaseAdmin
+          .from('video_rendition_jobs')
+          .upsert(
+            { video_id: video.id, user_id: video.user_id, source_url: video.video_url },
+            { onConflict: 'video_id', ignoreDuplicates: true }
+          )
+        await supabaseAdmin
+          .from('videos')
+          .update({ video_url: null })
+          .eq('id', video.id)
+          .eq('video_url', video.video_url)
+        console.log(`[VIDEO DOWNLOAD] Enqueued rendition for legacy video ${video.id}`)
+      }
+      return jsonResponse({ status: 'processing' }, 202)
+    }
+
+    const rendition: WatermarkRendition | undefined = profileId
+      ? (job.renditions || {})[profileId]
+      : (job.original_path ? { bucket: ORIGINALS_BUCKET, path: job.original_path, version: settings.version } : undefined)
+
+    if (!rendition) {
+      if (job.status === 'failed') {
+        console.error(`[VIDEO DOWNLOAD] Rendition failed for video ${video.id}: ${job.last_error}`)
+        return jsonResponse({ status: 'failed', error: 'Video processing failed' }, 503)
+      }
+      // 新增的方案还没有生成版本
+      if (job.status === 'completed') {
+        await requestRenditions(supabaseAdmin, video.id)
+      }
+      return jsonResponse({ status: 'processing' }, 202)
+    }
+
+    // 方案修改后先提供旧版本，同时排队重新生成
+    if (profileId && rendition.version !== settings.version && job.status === 'completed') {
+      await requestRenditions(supabaseAdmin, video.id)
+    }
+
+    const downloadFilename = profileId ? filename.replace(/\.mp4$/, '-watermarked.mp4') : filename
+    let url: string
+
+    if (rendition.bucket === WATERMARKED_BUCKET) {
+      url = supabaseAdmin.storage.from(WATERMARKED_BUCKET).getPublicUrl(rendition.path).data.publicUrl
+    } else {
+      const { data: signed, error } = await supabaseAdmin.storage
+        .from(rendition.bucket)
+        .createSignedUrl(rendition.path, SIGNED_URL_EXPIRES_IN, { download: downloadFilename })
+
+      if (error || !signed?.signedUrl) {
+        console.error(`[VIDEO DOWNLOAD] Failed to sign ${rendition.bucket}/${rendition.path}:`, error)
+        return jsonResponse({ error: 'Failed to create download link' }, 500)
+      }
+      url = signed.signedUrl
+    }
+
+    console.log(`[VIDEO DOWNLOAD] ${profileId || 'original'} for video ${video.id} -> ${caller.userId || caller.role}`)
+    return jsonResponse({
+      status: 'ready',
+      rendition: profileId ? 'watermarked' : 'original',
+      profileId,
+      url,
+      filename: downloadFilename
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('[VIDEO DOWNLOAD] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
+
+/**
+ * 重新排队补齐缺失或过期的水印版本
+ */
+async function requestRenditions(supabase: SupabaseClient, videoId: string): Promise<void> {
+  const { error } = await supabase.rpc('request_video_renditions', { p_video_id: videoId })
+  if (error) {
+    console.error(`[VIDEO DOWNLOAD] Failed to request renditions for video ${videoId}:`, error)
+  } else {
+    console.log(`[VIDEO DOWNLOAD] Requested renditions for video ${videoId}`)
+  }
+}
+
+function buildFilename(title: string | null, videoId: string): string {
+  const base = (title || 'video')
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, '-')
+    .slice(0, 80) || 'video'
+  return `${base}-${videoId}.mp4`
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
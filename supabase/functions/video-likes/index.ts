@@ -0,0 +1,97 @@
+// supabase/functions/video-likes/index.ts
+// 公开视频点赞/取消点赞（029_video_likes.sql）
+// - 点赞记录由 toggle_video_like 写入，只能点赞公开且生成完成的视频
+// - videos.like_count 通过计数器事件 video_like 更新（见 _shared/counter-events.ts）
+// 读取点赞状态由客户端直接调用 get_video_like_status
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthError, authenticateCaller, logRejectedCall } from '../_shared/auth.ts'
+import { publishCounterEvent } from '../_shared/counter-events.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const FUNCTION_NAME = 'video-likes'
+
+serve(async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    )
+
+    const caller = await authenticateCaller(req, supabaseAdmin, FUNCTION_NAME)
+    if (!caller.userId) {
+      logRejectedCall(FUNCTION_NAME, req, 'no_user')
+      throw new AuthError('User token required', 403)
+    }
+
+    const { action, videoId } = await req.json()
+
+    if (action !== 'toggle') {
+      return jsonResponse({ error: 'Invalid action' }, 400)
+    }
+    if (!videoId || typeof videoId !== 'string') {
+      return jsonResponse({ error: 'Missing videoId' }, 400)
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('toggle_video_like', {
+      p_user_id: caller.userId,
+      p_video_id: videoId
+    })
+
+    if (error) {
+      if (error.message?.includes('VIDEO_LIKE_TARGET_NOT_FOUND')) {
+        return jsonResponse({ error: 'VIDEO_LIKE_TARGET_NOT_FOUND', code: 'VIDEO_LIKE_TARGET_NOT_FOUND' }, 404)
+      }
+      console.error('[VIDEO LIKES] Failed to toggle like:', error)
+      return jsonResponse({ error: 'Internal server error' }, 500)
+    }
+
+    const result = data?.[0]
+    if (result?.like_delta) {
+      await publishCounterEvent(supabaseAdmin, {
+        type: 'video_like',
+        video_id: videoId,
+        user_id: caller.userId,
+        delta: result.like_delta
+      })
+    }
+
+    console.log(`[VIDEO LIKES] ${caller.userId} ${result?.is_liked ? 'liked' : 'unliked'} video ${videoId}`)
+    return jsonResponse({
+      success: true,
+      is_liked: !!result?.is_liked,
+      like_count: result?.like_count ?? 0
+    })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('[VIDEO LIKES] Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
@@ -0,0 +1,204 @@
+// supabase/functions/video-provider-callback/index.ts
+// 上游视频提供方任务结束（或进度变化）时的回调入口
+// 请求需携带 X-Timestamp 和 X-Signature 头：
+//   X-Signature = hex(HMAC-SHA256(VIDEO_CALLBACK_SECRET, `${X-Timestamp}.${原始请求体}`))
+// 回调只更新处理中的视频，重复或过期的回调直接忽略；video-queue-worker 的轮询作为兜底
+// 失败的任务还能切换提供方时交给 video-queue-worker 轮询处理（记录提供方结果并重新提交）
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getServerProvider } from '../_shared/video-providers.ts'
+import { completeVideo, failVideo, updateVideoProgress } from '../_shared/video-status.ts'
+import { canSwitchProvider, recordProviderResult } from '../_shared/provider-failover.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-signature, x-timestamp',
+}
+
+// 签名时间戳允许的最大偏差（秒），防止重放
+const SIGNATURE_TOLERANCE_SECONDS = 300
+
+serve(async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  try {
+    const secret = Deno.env.get('VIDEO_CALLBACK_SECRET')
+    if (!secret) {
+      console.error('[VIDEO CALLBACK] VIDEO_CALLBACK_SECRET is not configured')
+      return jsonResponse({ error: 'Callback not configured' }, 503)
+    }
+
+    // 必须使用原始请求体验签，解析后再序列化会改变内容
+    const rawBody = await req.text()
+    const timestamp = req.headers.get('x-timestamp') || ''
+    const signature = (req.headers.get('x-signature') || '').replace(/^sha256=/, '')
+
+    const verifyError = await verifySignature(secret, timestamp, rawBody, signature)
+    if (verifyError) {
+      console.warn('[VIDEO CALLBACK] Rejected callback:', verifyError)
+      return jsonResponse({ error: verifyError }, 401)
+    }
+
+    let payload: any
+    try {
+      payload = JSON.parse(rawBody)
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400)
+    }
+
+    const providerId = new URL(req.url).searchParams.get('provider') || 'qingyun'
+    const provider = getServerProvider(providerId)
+    if (!provider) {
+      return jsonResponse({ error: `Unknown provider: ${providerId}` }, 400)
+    }
+
+    const task = provider.parseCallback(payload)
+    if (!task) {
+      return jsonResponse({ error: 'Unrecognized callback payload' }, 400)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const { data: video, error: videoError } = await supabaseAdmin
+      .from('videos')
+      .select('id, status, thumbnail_url, metadata')
+      .eq('veo3_job_id', task.id)
+      .eq('status', 'processing')
+      .maybeSingle()
+
+    if (videoError) {
+      console.error('[VIDEO CALLBACK] Failed to load video:', videoError)
+      return jsonResponse({ error: 'Failed to load video' }, 500)
+    }
+
+    // 视频已完成、失败或取消（例如轮询先一步写回），回调无需处理
+    if (!video || (video.metadata?.provider && video.metadata.provider !== provider.id)) {
+      console.log(`[VIDEO CALLBACK] Ignoring callback for task ${task.id} (${task.status})`)
+      return jsonResponse({ success: true, ignored: true })
+    }
+
+    if (task.status === 'completed' && task.videoUrl) {
+      const completed = await completeVideo(supabaseAdmin, video, task)
+      if (completed) {
+        await recordProviderResult(supabaseAdmin, provider.id)
+      }
+      return jsonResponse({ success: true, videoId: video.id, status: completed ? 'completed' : 'ignored' })
+    }
+
+    if (task.status === 'failed') {
+      if (canSwitchProvider(video)) {
+        // 释放轮询租约，下一轮 Worker 立即查询该任务并决定是否重新提交
+        await supabaseAdmin
+          .from('videos')
+          .update({ queue_heartbeat_at: null })
+          .eq('id', video.id)
+          .eq('status', 'processing')
+        return jsonResponse({ success: true, videoId: video.id, status: 'processing' })
+      }
+
+      const reason = task.error || 'Video generation failed'
+      const failed = await failVideo(supabaseAdmin, video.id, reason)
+      if (failed) {
+        await recordProviderResult(supabaseAdmin, provider.id, reason)
+      }
+      return jsonResponse({ success: true, videoId: video.id, status: failed ? 'failed' : 'ignored' })
+    }
+
+    // 进度通知：更新进度，并刷新心跳推迟兜底轮询
+    if (typeof task.progress === 'number') {
+      await updateVideoProgress(supabaseAdmin, video, task.progress, '视频生成中', {
+        lastCallbackAt: new Date().toISOString()
+      })
+    }
+    await supabaseAdmin
+      .from('videos')
+      .update({ queue_heartbeat_at: new Date().toISOString() })
+      .eq('id', video.id)
+      .eq('status', 'processing')
+
+    return jsonResponse({ success: true, videoId: video.id, status: 'processing' })
+  } catch (error) {
+    console.error('[VIDEO CALLBACK] Unexpected error:', error)
+    return jsonResponse({
+      success: false,
+      error: 'Internal server error',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
+
+/**
+ * 校验回调签名，通过时返回 null，否则返回拒绝原因
+ */
+async function verifySignature(
+  secret: string,
+  timestamp: string,
+  rawBody: string,
+  signature: string
+): Promise<string | null> {
+  if (!timestamp || !signature) {
+    return 'Missing signature headers'
+  }
+
+  const timestampSeconds = Number(timestamp)
+  if (!Number.isFinite(timestampSeconds)) {
+    return 'Invalid timestamp'
+  }
+  if (Math.abs(Date.now() / 1000 - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return 'Timestamp outside tolerance'
+  }
+
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${rawBody}`))
+  const expected = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+  return timingSafeEqual(expected, signature.toLowerCase()) ? null : 'Invalid signature'
+}
+
+/**
+ * 常量时间比较，避免通过响应时间猜测签名
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
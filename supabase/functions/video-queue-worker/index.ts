@@ -0,0 +1,626 @@
+// supabase/functions/video-queue-worker/index.ts
+// 服务端视频队列Worker：每次调用执行一轮调度
+//   1. 回收已领取但未能创建上游任务的视频
+//   2. 按并发配置原子领取排队中的视频并创建上游任务
+//   3. 轮询处理中视频的上游状态，完成/失败时写回数据库（失败自动退还积分）；
+//      提供方被熔断时把失败的任务重新提交到故障转移顺序中的下一个提供方（每个视频一次）
+//   4. 清理超过保留时间的参考图片（generation-inputs 存储桶）
+// 由定时任务（pg_cron）周期触发，浏览器提交任务后也会主动触发一次
+// 配置了 VIDEO_CALLBACK_URL 时上游完成后主动回调 video-provider-callback，轮询只作为兜底
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  getServerProvider,
+  type ProviderCredentials,
+  type ServerProviderTask,
+  type ServerVideoProvider
+} from '../_shared/video-providers.ts'
+import {
+  buildProgressData,
+  completeVideo,
+  failVideo,
+  updateVideoProgress
+} from '../_shared/video-status.ts'
+import {
+  canSwitchProvider,
+  getNextProviderId,
+  getTrippedProviderIds,
+  loadFailoverOrder,
+  recordProviderResult,
+  MAX_PROVIDER_SWITCHES,
+  type ProviderSwitch
+} from '../_shared/provider-failover.ts'
+import { AuthError, authenticateCaller } from '../_shared/auth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const QUEUE_SETTING_KEY = 'video_queue_concurrency'
+const PROVIDER_SETTING_KEY = 'video_generation_provider'
+
+// 每轮最多领取的排队任务数
+const CLAIM_BATCH_SIZE = 5
+// 每轮最多轮询的处理中任务数
+const POLL_BATCH_SIZE = 20
+// 轮询租约时长（秒），租约内其他Worker不会重复轮询
+const POLL_LEASE_SECONDS = 30
+// 启用上游回调后的兜底轮询间隔（秒），回调也会刷新心跳
+const CALLBACK_FALLBACK_LEASE_SECONDS = 180
+// 已领取但超过该时间仍未创建上游任务的视频会被重新入队
+const STALE_START_MINUTES = 5
+// 单个视频最多被领取的次数
+const MAX_START_ATTEMPTS = 3
+// 上游任务最长处理时间
+const PROCESSING_TIMEOUT_MINUTES = 15
+// 账户限流后的冷却时间
+const RATE_LIMIT_COOLDOWN_MINUTES = 15
+// 参考图片存储桶、提供方拉取图片的签名URL有效期（秒）和文件保留时间
+const GENERATION_INPUT_BUCKET = 'generation-inputs'
+const INPUT_SIGNED_URL_SECONDS = 60 * 60
+const INPUT_RETENTION_HOURS = 72
+// 每轮最多清理的参考图片数
+const INPUT_CLEANUP_BATCH_SIZE = 100
+
+interface QueueConfig {
+  systemMaxConcurrent: number
+  userLimits: Record<string, number>
+  tierMaxConcurrent: Record<string, number>
+}
+
+interface StartOptions {
+  /** 故障转移重新提交时指定的提供方 */
+  providerId?: string
+  providerSwitches?: ProviderSwitch[]
+}
+
+interface TickSummary {
+  requeued: number
+  claimed: number
+  started: number
+  polled: number
+  completed: number
+  failed: number
+  cleanedInputs: number
+}
+
+const DEFAULT_QUEUE_CONFIG: QueueConfig = {
+  systemMaxConcurrent: 20,
+  userLimits: { free: 1, basic: 3, pro: 5, premium: 10 },
+  tierMaxConcurrent: {}
+}
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error)
+
+serve(async (req: Request) => {
+  // Handle CORS
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SERVICE_ROLE_KEY') ?? ''
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    // 只允许定时任务（service role）或已登录用户触发
+    await authenticateCaller(req, supabaseAdmin, 'video-queue-worker')
+
+    const body = await req.json().catch(() => ({}))
+    const action = body.action || 'tick'
+
+    if (action !== 'tick') {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400)
+    }
+
+    const workerId = `worker-${crypto.randomUUID()}`
+    const summary = await runTick(supabaseAdmin, workerId)
+
+    console.log('[QUEUE WORKER] Tick finished:', { workerId, ...summary })
+
+    return jsonResponse({ success: true, workerId, summary })
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status)
+    }
+
+    console.error('[QUEUE WORKER] Unexpected error:', error)
+    return jsonResponse({
+      success: false,
+      error: 'Internal server error',
+      details: errorMessage(error)
+    }, 500)
+  }
+})
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  )
+}
+
+/**
+ * 执行一轮调度
+ */
+async function runTick(supabase: SupabaseClient, workerId: string): Promise<TickSummary> {
+  const summary: TickSummary = { requeued: 0, claimed: 0, started: 0, polled: 0, completed: 0, failed: 0, cleanedInputs: 0 }
+  const config = await loadQueueConfig(supabase)
+
+  // 1. 回收卡住的任务
+  const { data: stale, error: staleError } = await supabase.rpc('requeue_stale_videos', {
+    p_stale_minutes: STALE_START_MINUTES,
+    p_max_attempts: MAX_START_ATTEMPTS
+  })
+  if (staleError) {
+    console.error('[QUEUE WORKER] Failed to requeue stale videos:', staleError)
+  }
+  for (const row of stale || []) {
+    if (row.action === 'exhausted') {
+      const failed = await failVideo(supabase, row.id, `Video generation could not be started after ${MAX_START_ATTEMPTS} attempts`)
+      if (failed) summary.failed++
+    } else {
+      summary.requeued++
+    }
+  }
+
+  // 2. 领取排队任务并创建上游任务
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_queued_videos', {
+    p_worker_id: workerId,
+    p_config: config,
+    p_batch_size: CLAIM_BATCH_SIZE
+  })
+  if (claimError) {
+    console.error('[QUEUE WORKER] Failed to claim queued videos:', claimError)
+  }
+  summary.claimed = claimed?.length || 0
+
+  for (const video of claimed || []) {
+    const paid = await isVideoPaid(supabase, video)
+    if (paid === null) continue  // 查询失败时不创建上游任务，视频在回收阶段重新入队
+    if (!paid) {
+      console.error(`[QUEUE WORKER] Video ${video.id} was queued without a credit charge`)
+      if (await failVideo(supabase, video.id, 'Video credits were not charged')) summary.failed++
+      continue
+    }
+
+    if (await startGeneration(supabase, video)) {
+      summary.started++
+    } else {
+      summary.failed++
+    }
+  }
+
+  // 3. 轮询处理中的任务
+  const { data: leased, error: leaseError } = await supabase.rpc('lease_processing_videos', {
+    p_worker_id: workerId,
+    p_lease_seconds: Deno.env.get('VIDEO_CALLBACK_URL') ? CALLBACK_FALLBACK_LEASE_SECONDS : POLL_LEASE_SECONDS,
+    p_batch_size: POLL_BATCH_SIZE
+  })
+  if (leaseError) {
+    console.error('[QUEUE WORKER] Failed to lease processing videos:', leaseError)
+  }
+
+  for (const video of leased || []) {
+    summary.polled++
+    const result = await pollVideo(supabase, video)
+    if (result === 'completed') summary.completed++
+    if (result === 'failed') summary.failed++
+  }
+
+  // 4. 清理过期的参考图片
+  summary.cleanedInputs = await cleanupGenerationInputs(supabase)
+
+  return summary
+}
+
+async function loadSetting<T>(supabase: SupabaseClient, key: string): Promise<T | null> {
+  const { data, error } = await supabase
+    .from('system_settings')
+    .select('setting_value')
+    .eq('setting_key', key)
+    .maybeSingle()
+
+  if (error) {
+    console.warn(`[QUEUE WORKER] Failed to load setting ${key}:`, error)
+    return null
+  }
+  return (data?.setting_value ?? null) as T | null
+}
+
+async function loadQueueConfig(supabase: SupabaseClient): Promise<QueueConfig> {
+  const value = await loadSetting<Partial<QueueConfig>>(supabase, QUEUE_SETTING_KEY)
+  return { ...DEFAULT_QUEUE_CONFIG, ...(value && typeof value === 'object' ? value : {}) }
+}
+
+/**
+ * 视频入队时由 enqueue_video 按服务端价格扣费，创建上游任务前再确认一次扣费记录
+ */
+async function isVideoPaid(supabase: SupabaseClient, video: any): Promise<boolean | null> {
+  if (!video.credits_used || video.credits_used <= 0) return true
+
+  const { data, error } = await supabase
+    .from('credit_transactions')
+    .select('amount')
+    .eq('type', 'consume')
+    .eq('reference_id', video.id)
+
+  if (error) {
+    console.warn(`[QUEUE WORKER] Failed to load credit charge of video ${video.id}:`, error)
+    return null
+  }
+
+  const charged = (data || []).reduce((sum: number, row: { amount: number }) => sum + Math.abs(row.amount), 0)
+  return charged >= video.credits_used
+}
+
+/**
+ * 模板指定的提供方（templates.video_provider）
+ * 视频 metadata 由客户端写入，不能用来选择提供方
+ */
+async function loadTemplateProvider(supabase: SupabaseClient, templateId?: string | null): Promise<string | null> {
+  if (!templateId) return null
+
+  const { data, error } = await supabase
+    .from('templates')
+    .select('video_provider')
+    .eq('id', templateId)
+    .maybeSingle()
+
+  if (error) {
+    console.warn(`[QUEUE WORKER] Failed to load provider of template ${templateId}:`, error)
+    return null
+  }
+  return data?.video_provider || null
+}
+
+/**
+ * 首选提供方：模板指定 > 管理员默认 > 环境变量；熔断中时改用故障转移顺序中的下一个，
+ * 全部熔断时仍使用首选提供方，避免任务无法提交
+ */
+async function resolvePrimaryProvider(
+  supabase: SupabaseClient,
+  video: any,
+  failoverOrder: string[],
+  tripped: Set<string>
+): Promise<string> {
+  const adminDefault = await loadSetting<string>(supabase, PROVIDER_SETTING_KEY)
+  const templateProvider = await loadTemplateProvider(supabase, video.metadata?.templateId)
+
+  const primary = [
+    templateProvider,
+    typeof adminDefault === 'string' ? adminDefault : null,
+    Deno.env.get('VEO_API_PROVIDER'),
+    'qingyun'
+  ].find(id => !!id && !!getServerProvider(id)) as string
+
+  if (!tripped.has(primary)) return primary
+
+  console.warn(`[QUEUE WORKER] Provider ${primary} is tripped, trying failover`)
+  return getNextProviderId(failoverOrder, primary, tripped) || primary
+}
+
+/**
+ * 领取上游凭证：优先使用账户池，账户池为空时使用环境变量凭证
+ */
+async function acquireCredentials(
+  supabase: SupabaseClient,
+  provider: ServerVideoProvider
+): Promise<ProviderCredentials | null> {
+  if (!provider.usesAccountPool) return null
+
+  const { data, error } = await supabase.rpc('claim_provider_account', {
+    p_provider: provider.id,
+    p_strategy: Deno.env.get('VEO_ACCOUNT_STRATEGY') === 'weighted' ? 'weighted' : 'least_used'
+  })
+
+  if (error) {
+    if (error.message?.includes('NO_ACCOUNT_AVAILABLE')) {
+      throw new Error(`No available ${provider.id} accounts: daily quota exhausted or all accounts cooling down`)
+    }
+    console.warn('[QUEUE WORKER] Failed to claim account, falling back to env credentials:', error)
+    return provider.getEnvCredentials()
+  }
+
+  const row = Array.isArray(data) ? data[0] : data
+  if (!row) return provider.getEnvCredentials()
+
+  return { accountId: row.id, apiKey: row.api_key, endpoint: row.endpoint }
+}
+
+async function getTaskCredentials(
+  supabase: SupabaseClient,
+  provider: ServerVideoProvider,
+  accountId?: string | null
+): Promise<ProviderCredentials | null> {
+  if (!provider.usesAccountPool) return null
+  if (!accountId) return provider.getEnvCredentials()
+
+  const { data, error } = await supabase.rpc('get_provider_account_credentials', {
+    p_account_id: accountId
+  })
+  const row = Array.isArray(data) ? data[0] : data
+  if (error || !row) {
+    console.warn(`[QUEUE WORKER] Account ${accountId} not found, using env credentials`)
+    return provider.getEnvCredentials()
+  }
+
+  return { accountId: row.id, apiKey: row.api_key, endpoint: row.endpoint }
+}
+
+async function reportAccountResult(
+  supabase: SupabaseClient,
+  credentials: ProviderCredentials | null,
+  error?: unknown
+): Promise<void> {
+  if (!credentials?.accountId) return
+
+  const message = error ? errorMessage(error) : null
+  const rateLimited = !!message && (message.includes('429') || message.toLowerCase().includes('rate limit'))
+
+  const { error: reportError } = await supabase.rpc('report_provider_account_result', {
+    p_account_id: credentials.accountId,
+    p_success: !error,
+    p_rate_limited: rateLimited,
+    p_error: message,
+    p_cooldown_minutes: RATE_LIMIT_COOLDOWN_MINUTES
+  })
+  if (reportError) {
+    console.warn('[QUEUE WORKER] Failed to report account result:', reportError)
+  }
+}
+
+/**
+ * 为视频创建上游任务；提供方出现致命错误或错误率超过阈值被熔断时，
+ * 按故障转移顺序切换到下一个提供方（每个视频最多切换 MAX_PROVIDER_SWITCHES 次）
+ */
+async function startGeneration(supabase: SupabaseClient, video: any, options: StartOptions = {}): Promise<boolean> {
+  const generation = video.metadata?.generation || {}
+  const imageUrl = await resolveGenerationImageUrl(supabase, video, generation)
+  const request = {
+    prompt: video.prompt || '',
+    quality: generation.quality === 'pro' ? 'pro' as const : 'fast' as const,
+    aspectRatio: generation.aspectRatio,
+    images: imageUrl ? [imageUrl] : undefined
+  }
+
+  const failoverOrder = (await loadFailoverOrder(supabase)).filter(id => !!getServerProvider(id))
+  const tripped = await getTrippedProviderIds(supabase)
+  const providerSwitches = options.providerSwitches || [...(video.metadata?.providerSwitches || [])]
+  let providerId: string | null = options.providerId ||
+    await resolvePrimaryProvider(supabase, video, failoverOrder, tripped)
+  let lastError: unknown = null
+
+  while (providerId) {
+    const provider = getServerProvider(providerId)!
+    let credentials: ProviderCredentials | null = null
+    const callbackUrl = getCallbackUrl(provider.id)
+
+    try {
+      credentials = await acquireCredentials(supabase, provider)
+      const task = await provider.createTask({ ...request, callbackUrl }, credentials)
+      await reportAccountResult(supabase, credentials)
+
+      const { error } = await supabase
+        .from('videos')
+        .update({
+          veo3_job_id: task.id,
+          queue_heartbeat_at: new Date().toISOString(),
+          // 重新提交时重新计算处理超时
+          ...(options.providerId ? { processing_started_at: new Date().toISOString() } : {}),
+          metadata: {
+            ...(video.metadata || {}),
+            provider: provider.id,
+            providerModel: task.model || null,
+            providerAccountId: credentials?.accountId || null,
+            providerSwitches,
+            callbackEnabled: !!callbackUrl,
+            progressData: buildProgressData(5, '任务已提交')
+          }
+        })
+        .eq('id', video.id)
+        .eq('status', 'processing')
+
+      if (error) {
+        // 保存失败时视频会在回收阶段重新入队
+        console.error(`[QUEUE WORKER] Failed to save task ${task.id} for video ${video.id}:`, error)
+        return false
+      }
+
+      console.log(`[QUEUE WORKER] Video ${video.id} started on ${provider.id}, task ${task.id}`)
+      return true
+    } catch (error) {
+      lastError = error
+      await reportAccountResult(supabase, credentials, error)
+      console.error(`[QUEUE WORKER] ${provider.id} failed to create task for video ${video.id}:`, error)
+
+      const providerTripped = await recordProviderResult(supabase, provider.id, error, provider.isFatalError(error))
+      if (!providerTripped || providerSwitches.length >= MAX_PROVIDER_SWITCHES) break
+
+      tripped.add(provider.id)
+      const next = getNextProviderId(failoverOrder, provider.id, tripped, providerSwitches.map(item => item.from))
+      if (!next) break
+
+      providerSwitches.push({
+        from: provider.id,
+        to: next,
+        reason: errorMessage(error),
+        at: new Date().toISOString()
+      })
+      console.warn(`[QUEUE WORKER] Failing over video ${video.id} from ${provider.id} to ${next}`)
+      providerId = next
+    }
+  }
+
+  await failVideo(supabase, video.id, errorMessage(lastError))
+  return false
+}
+
+/**
+ * 上游任务失败（轮询得到失败状态、致命查询错误或超时）：记录提供方结果，
+ * 提供方被熔断且视频尚未切换过时重新提交到下一个提供方，否则标记失败
+ */
+async function handleTaskFailure(
+  supabase: SupabaseClient,
+  video: any,
+  provider: ServerVideoProvider,
+  reason: string,
+  fatal: boolean
+): Promise<'failed' | 'processing'> {
+  const providerTripped = await recordProviderResult(supabase, provider.id, reason, fatal)
+
+  if (providerTripped && canSwitchProvider(video)) {
+    const failoverOrder = (await loadFailoverOrder(supabase)).filter(id => !!getServerProvider(id))
+    const tripped = await getTrippedProviderIds(supabase)
+    tripped.add(provider.id)
+
+    const switches: ProviderSwitch[] = [...(video.metadata?.providerSwitches || [])]
+    const next = getNextProviderId(failoverOrder, provider.id, tripped, switches.map(item => item.from))
+
+    if (next) {
+      console.warn(`[QUEUE WORKER] Resubmitting video ${video.id} from ${provider.id} to ${next}`)
+      switches.push({ from: provider.id, to: next, reason, at: new Date().toISOString() })
+      // 重新提交失败时 startGeneration 会标记视频失败
+      return await startGeneration(supabase, video, { providerId: next, providerSwitches: switches })
+        ? 'processing'
+        : 'failed'
+    }
+  }
+
+  await failVideo(supabase, video.id, reason)
+  return 'failed'
+}
+
+/**
+ * 参考图片地址：上传到存储桶的图片按路径重新签名（排队期间浏览器生成的签名URL可能已过期）
+ * 路径来自客户端写入的 metadata，只签名视频所有者目录下的文件
+ */
+async function resolveGenerationImageUrl(
+  supabase: SupabaseClient,
+  video: any,
+  generation: any
+): Promise<string | undefined> {
+  if (!generation.imagePath) return generation.imageUrl || undefined
+
+  const imagePath = String(generation.imagePath)
+  if (!imagePath.startsWith(`${video.user_id}/`) || imagePath.split('/').includes('..')) {
+    console.warn(`[QUEUE WORKER] Ignoring image path ${imagePath} not owned by video ${video.id}`)
+    return undefined
+  }
+
+  const { data, error } = await supabase.storage
+    .from(GENERATION_INPUT_BUCKET)
+    .createSignedUrl(imagePath, INPUT_SIGNED_URL_SECONDS)
+
+  if (error || !data?.signedUrl) {
+    console.warn(`[QUEUE WORKER] Failed to sign ${imagePath}, using stored URL:`, error)
+    return generation.imageUrl || undefined
+  }
+  return data.signedUrl
+}
+
+/**
+ * 删除超过保留时间且不再被排队/处理中视频引用的参考图片
+ */
+async function cleanupGenerationInputs(supabase: SupabaseClient): Promise<number> {
+  const { data: expired, error } = await supabase.rpc('get_expired_generation_inputs', {
+    p_retention_hours: INPUT_RETENTION_HOURS,
+    p_limit: INPUT_CLEANUP_BATCH_SIZE
+  })
+  if (error) {
+    console.error('[QUEUE WORKER] Failed to list expired generation inputs:', error)
+    return 0
+  }
+
+  const paths = (expired || []).map((row: { object_name: string }) => row.object_name)
+  if (paths.length === 0) return 0
+
+  const { error: removeError } = await supabase.storage
+    .from(GENERATION_INPUT_BUCKET)
+    .remove(paths)
+  if (removeError) {
+    console.error('[QUEUE WORKER] Failed to remove expired generation inputs:', removeError)
+    return 0
+  }
+
+  return paths.length
+}
+
+/**
+ * 查询一次上游状态并写回数据库
+ */
+async function pollVideo(supabase: SupabaseClient, video: any): Promise<'completed' | 'failed' | 'processing'> {
+  const provider = getServerProvider(video.metadata?.provider || 'qingyun')
+  if (!provider) {
+    await failVideo(supabase, video.id, `Unknown video provider: ${video.metadata?.provider}`)
+    return 'failed'
+  }
+
+  const startedAt = new Date(video.processing_started_at || video.created_at).getTime()
+  const elapsedMinutes = (Date.now() - startedAt) / (1000 * 60)
+
+  let task: ServerProviderTask
+  try {
+    const credentials = await getTaskCredentials(supabase, provider, video.metadata?.providerAccountId)
+    task = await provider.queryStatus(video.veo3_job_id, credentials)
+  } catch (error) {
+    console.error(`[QUEUE WORKER] Failed to query task ${video.veo3_job_id}:`, error)
+    if (provider.isFatalError(error) || elapsedMinutes > PROCESSING_TIMEOUT_MINUTES) {
+      return await handleTaskFailure(supabase, video, provider, errorMessage(error), provider.isFatalError(error))
+    }
+    return 'processing'
+  }
+
+  if (task.status === 'completed' && task.videoUrl) {
+    if (!await completeVideo(supabase, video, task)) return 'processing'
+    await recordProviderResult(supabase, provider.id)
+    return 'completed'
+  }
+
+  if (task.status === 'failed') {
+    return await handleTaskFailure(supabase, video, provider, task.error || 'Video generation failed', false)
+  }
+
+  if (elapsedMinutes > PROCESSING_TIMEOUT_MINUTES) {
+    return await handleTaskFailure(
+      supabase,
+      video,
+      provider,
+      `Video generation timed out after ${PROCESSING_TIMEOUT_MINUTES} minutes`,
+      false
+    )
+  }
+
+  // 上游未返回进度时按已用时间估算
+  const progress = task.progress ?? Math.min(95, Math.round(10 + (elapsedMinutes / 1.5) * 85))
+  await updateVideoProgress(supabase, video, progress, '视频生成中')
+
+  return 'processing'
+}
+
+/**
+ * 上游完成回调地址，未配置 VIDEO_CALLBACK_URL 时返回 undefined（只靠轮询）
+ */
+function getCallbackUrl(providerId: string): string | undefined {
+  const baseUrl = Deno.env.get('VIDEO_CALLBACK_URL')
+  if (!baseUrl) return undefined
+  return `${baseUrl}?provider=${encodeURIComponent(providerId)}`
+}
+
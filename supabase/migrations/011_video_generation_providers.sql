@@ -0,0 +1,18 @@
+-- ============================================
+-- 视频生成提供方配置
+-- Version: 011
+-- Description: 添加管理员可选的默认视频生成提供方，并允许客户端读取公开配置
+-- ============================================
+
+-- 公开配置（is_public = true）允许所有登录用户读取，生成服务需要据此选择提供方
+DROP POLICY IF EXISTS "Anyone can view public settings" ON public.system_settings;
+CREATE POLICY "Anyone can view public settings" ON public.system_settings
+  FOR SELECT USING (is_public = true);
+
+-- 默认提供方：qingyun（青云API）或 mock（模拟生成）
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public) VALUES
+('video_generation_provider', '"qingyun"', '默认视频生成提供方', 'generation', true)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 记录视频使用的提供方，便于按提供方统计
+CREATE INDEX IF NOT EXISTS idx_videos_metadata_provider ON public.videos ((metadata->>'provider'));
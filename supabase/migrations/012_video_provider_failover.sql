@@ -0,0 +1,115 @@
+-- ============================================
+-- 视频生成提供方故障转移
+-- Version: 012
+-- Description: 添加故障转移配置（切换顺序、错误率阈值、冷却时间）和服务端记录的提供方健康状态
+-- ============================================
+
+-- order 为空数组表示不做故障转移
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public) VALUES
+('video_provider_failover',
+ '{"order": [], "windowSize": 20, "minSamples": 5, "errorRateThreshold": 0.5, "cooldownMinutes": 10}',
+ '视频生成提供方故障转移策略',
+ 'generation',
+ true)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- ============================================
+-- 提供方健康状态（由 video-queue-worker 和 video-provider-callback 记录）
+-- recent_outcomes 保存最近 windowSize 个任务的结果（true = 成功），
+-- 致命错误或错误率超过阈值时设置 tripped_until，冷却结束后重新统计
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.video_provider_health (
+  provider VARCHAR(50) PRIMARY KEY,
+  recent_outcomes BOOLEAN[] NOT NULL DEFAULT '{}',
+  tripped_until TIMESTAMPTZ,
+  last_error TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.video_provider_health ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view provider health" ON public.video_provider_health
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage provider health" ON public.video_provider_health
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- 记录一次任务结果，返回记录后该提供方是否处于熔断状态
+-- ============================================
+CREATE OR REPLACE FUNCTION record_video_provider_result(
+  p_provider VARCHAR(50),
+  p_success BOOLEAN,
+  p_fatal BOOLEAN DEFAULT false,
+  p_error TEXT DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_config JSONB;
+  v_window INTEGER;
+  v_min_samples INTEGER;
+  v_threshold NUMERIC;
+  v_cooldown INTEGER;
+  v_health public.video_provider_health%ROWTYPE;
+  v_outcomes BOOLEAN[];
+  v_failures INTEGER;
+  v_error_rate NUMERIC;
+BEGIN
+  SELECT setting_value INTO v_config
+  FROM public.system_settings
+  WHERE setting_key = 'video_provider_failover';
+
+  v_window := GREATEST(COALESCE((v_config->>'windowSize')::INTEGER, 20), 1);
+  v_min_samples := COALESCE((v_config->>'minSamples')::INTEGER, 5);
+  v_threshold := COALESCE((v_config->>'errorRateThreshold')::NUMERIC, 0.5);
+  v_cooldown := COALESCE((v_config->>'cooldownMinutes')::INTEGER, 10);
+
+  INSERT INTO public.video_provider_health (provider)
+  VALUES (p_provider)
+  ON CONFLICT (provider) DO NOTHING;
+
+  SELECT * INTO v_health
+  FROM public.video_provider_health
+  WHERE provider = p_provider
+  FOR UPDATE;
+
+  v_outcomes := v_health.recent_outcomes;
+
+  -- 冷却结束，重置统计窗口重新观察
+  IF v_health.tripped_until IS NOT NULL AND v_health.tripped_until <= NOW() THEN
+    v_health.tripped_until := NULL;
+    v_outcomes := '{}';
+  END IF;
+
+  v_outcomes := array_append(v_outcomes, p_success);
+  IF array_length(v_outcomes, 1) > v_window THEN
+    v_outcomes := v_outcomes[array_length(v_outcomes, 1) - v_window + 1 : array_length(v_outcomes, 1)];
+  END IF;
+
+  SELECT COUNT(*) FILTER (WHERE NOT outcome) INTO v_failures
+  FROM unnest(v_outcomes) AS outcome;
+  v_error_rate := v_failures::NUMERIC / array_length(v_outcomes, 1);
+
+  IF NOT p_success AND (
+    p_fatal OR (array_length(v_outcomes, 1) >= v_min_samples AND v_error_rate >= v_threshold)
+  ) THEN
+    v_health.tripped_until := NOW() + (v_cooldown || ' minutes')::INTERVAL;
+  END IF;
+
+  UPDATE public.video_provider_health
+  SET recent_outcomes = v_outcomes,
+      tripped_until = v_health.tripped_until,
+      last_error = CASE WHEN p_success THEN last_error ELSE p_error END,
+      updated_at = NOW()
+  WHERE provider = p_provider;
+
+  RETURN v_health.tripped_until IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_video_provider_result FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_video_provider_result TO service_role;
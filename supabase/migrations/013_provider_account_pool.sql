@@ -0,0 +1,238 @@
+-- ============================================
+-- 视频生成提供方账户池
+-- Version: 013
+-- Description: 持久化上游API凭证，按账户跟踪每日配额、使用次数、限流冷却和健康状态
+-- ============================================
+
+-- ============================================
+-- 1. 账户池表
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.provider_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider VARCHAR(50) NOT NULL DEFAULT 'qingyun',
+  label VARCHAR(100) NOT NULL,
+  api_key TEXT NOT NULL,
+  endpoint TEXT,
+  daily_quota INTEGER NOT NULL DEFAULT 100 CHECK (daily_quota >= 0),
+  used_today INTEGER NOT NULL DEFAULT 0,
+  quota_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  total_used BIGINT NOT NULL DEFAULT 0,
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  health_status VARCHAR(20) NOT NULL DEFAULT 'healthy'
+    CHECK (health_status IN ('healthy', 'cooldown', 'error')),
+  cooldown_until TIMESTAMPTZ,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_accounts_provider ON public.provider_accounts(provider) WHERE is_active = true;
+
+CREATE TRIGGER update_provider_accounts_updated_at
+  BEFORE UPDATE ON public.provider_accounts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================
+-- 2. RLS策略（凭证只允许管理员直接读写，服务端 video-queue-worker 通过下方函数领取）
+-- ============================================
+ALTER TABLE public.provider_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view provider accounts" ON public.provider_accounts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Super admins can manage provider accounts" ON public.provider_accounts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role = 'super_admin'
+    )
+  );
+
+CREATE POLICY "Service role can manage provider accounts" ON public.provider_accounts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- 3. 领取账户：重置跨天配额，按策略选出可用账户并计入使用次数
+-- 账户池为空时返回空结果（调用方回退到环境变量凭证），
+-- 有账户但全部不可用时抛出 NO_ACCOUNT_AVAILABLE
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_provider_account(
+  p_provider VARCHAR(50),
+  p_strategy VARCHAR(20) DEFAULT 'least_used'
+) RETURNS TABLE (
+  id UUID,
+  label VARCHAR(100),
+  api_key TEXT,
+  endpoint TEXT
+) AS $$
+DECLARE
+  v_account public.provider_accounts%ROWTYPE;
+  v_total INTEGER;
+BEGIN
+  -- 跨天重置配额
+  UPDATE public.provider_accounts pa
+  SET used_today = 0, quota_date = CURRENT_DATE
+  WHERE pa.provider = p_provider AND pa.quota_date < CURRENT_DATE;
+
+  -- 冷却结束的账户恢复为健康状态
+  UPDATE public.provider_accounts pa
+  SET health_status = 'healthy', cooldown_until = NULL
+  WHERE pa.provider = p_provider
+    AND pa.health_status IN ('cooldown', 'error')
+    AND pa.cooldown_until IS NOT NULL
+    AND pa.cooldown_until <= NOW();
+
+  SELECT COUNT(*) INTO v_total
+  FROM public.provider_accounts pa
+  WHERE pa.provider = p_provider AND pa.is_active = true;
+
+  IF v_total = 0 THEN
+    RETURN;
+  END IF;
+
+  IF p_strategy = 'weighted' THEN
+    -- 加权随机：random()^(1/weight) 越大越优先
+    SELECT * INTO v_account
+    FROM public.provider_accounts pa
+    WHERE pa.provider = p_provider
+      AND pa.is_active = true
+      AND pa.health_status = 'healthy'
+      AND pa.used_today < pa.daily_quota
+    ORDER BY power(random(), 1.0 / pa.weight) DESC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+  ELSE
+    -- 最少使用：按配额使用比例，其次按最近使用时间
+    SELECT * INTO v_account
+    FROM public.provider_accounts pa
+    WHERE pa.provider = p_provider
+      AND pa.is_active = true
+      AND pa.health_status = 'healthy'
+      AND pa.used_today < pa.daily_quota
+    ORDER BY (pa.used_today::NUMERIC / GREATEST(pa.daily_quota, 1)) ASC,
+             pa.last_used_at ASC NULLS FIRST
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+  END IF;
+
+  IF v_account.id IS NULL THEN
+    RAISE EXCEPTION 'NO_ACCOUNT_AVAILABLE: all % accounts are exhausted or cooling down', p_provider;
+  END IF;
+
+  UPDATE public.provider_accounts pa
+  SET used_today = pa.used_today + 1,
+      total_used = pa.total_used + 1,
+      last_used_at = NOW()
+  WHERE pa.id = v_account.id;
+
+  RETURN QUERY SELECT v_account.id, v_account.label, v_account.api_key, v_account.endpoint;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 4. 获取指定账户凭证（恢复进行中的任务时使用）
+-- ============================================
+CREATE OR REPLACE FUNCTION get_provider_account_credentials(
+  p_account_id UUID
+) RETURNS TABLE (
+  id UUID,
+  label VARCHAR(100),
+  api_key TEXT,
+  endpoint TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT pa.id, pa.label, pa.api_key, pa.endpoint
+  FROM public.provider_accounts pa
+  WHERE pa.id = p_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 5. 上报调用结果：成功清零失败计数；限流进入冷却；连续失败过多标记为异常
+-- ============================================
+CREATE OR REPLACE FUNCTION report_provider_account_result(
+  p_account_id UUID,
+  p_success BOOLEAN,
+  p_rate_limited BOOLEAN DEFAULT false,
+  p_error TEXT DEFAULT NULL,
+  p_cooldown_minutes INTEGER DEFAULT 15,
+  p_max_failures INTEGER DEFAULT 3
+) RETURNS VOID AS $$
+BEGIN
+  IF p_success THEN
+    UPDATE public.provider_accounts
+    SET consecutive_failures = 0,
+        health_status = 'healthy',
+        cooldown_until = NULL,
+        last_error = NULL
+    WHERE id = p_account_id;
+  ELSIF p_rate_limited THEN
+    UPDATE public.provider_accounts
+    SET health_status = 'cooldown',
+        cooldown_until = NOW() + (p_cooldown_minutes || ' minutes')::INTERVAL,
+        last_error = p_error
+    WHERE id = p_account_id;
+  ELSE
+    UPDATE public.provider_accounts
+    SET consecutive_failures = consecutive_failures + 1,
+        last_error = p_error,
+        health_status = CASE
+          WHEN consecutive_failures + 1 >= p_max_failures THEN 'error'
+          ELSE health_status
+        END,
+        cooldown_until = CASE
+          WHEN consecutive_failures + 1 >= p_max_failures
+            THEN NOW() + (p_cooldown_minutes || ' minutes')::INTERVAL
+          ELSE cooldown_until
+        END
+    WHERE id = p_account_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 6. 账户池汇总（不含凭证，供生成流程判断是否启用账户池）
+-- ============================================
+CREATE OR REPLACE FUNCTION get_provider_account_pool_summary(
+  p_provider VARCHAR(50)
+) RETURNS TABLE (
+  total INTEGER,
+  healthy INTEGER,
+  cooling INTEGER,
+  available_quota BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE pa.health_status = 'healthy')::INTEGER,
+    COUNT(*) FILTER (WHERE pa.health_status <> 'healthy')::INTEGER,
+    COALESCE(SUM(
+      CASE
+        WHEN pa.quota_date < CURRENT_DATE THEN pa.daily_quota
+        ELSE GREATEST(pa.daily_quota - pa.used_today, 0)
+      END
+    ), 0)::BIGINT
+  FROM public.provider_accounts pa
+  WHERE pa.provider = p_provider AND pa.is_active = true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 凭证领取和结果上报只允许服务端调用（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION claim_provider_account FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_provider_account_credentials FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION report_provider_account_result FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_provider_account TO service_role;
+GRANT EXECUTE ON FUNCTION get_provider_account_credentials TO service_role;
+GRANT EXECUTE ON FUNCTION report_provider_account_result TO service_role;
+
+GRANT EXECUTE ON FUNCTION get_provider_account_pool_summary TO authenticated;
@@ -0,0 +1,373 @@
+-- ============================================
+-- 服务端视频队列 Worker
+-- Version: 014
+-- Description: 队列由 video-queue-worker Edge Function 驱动，基于videos表和咨询锁原子领取任务，
+--              在数据库层面统一执行全局并发、按订阅等级的用户并发和等级总并发限制
+-- ============================================
+
+-- ============================================
+-- 1. 队列Worker字段
+-- ============================================
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS queue_worker_id TEXT;
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS queue_heartbeat_at TIMESTAMPTZ;
+ALTER TABLE public.videos ADD COLUMN IF NOT EXISTS queue_attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_videos_queue_claim
+  ON public.videos(queue_priority DESC, queue_entered_at ASC)
+  WHERE status = 'pending' AND queue_position IS NOT NULL;
+
+COMMENT ON COLUMN public.videos.queue_worker_id IS '领取该任务的Worker实例ID';
+COMMENT ON COLUMN public.videos.queue_heartbeat_at IS 'Worker最近一次处理该任务的时间（用于轮询租约和卡住任务回收）';
+COMMENT ON COLUMN public.videos.queue_attempts IS '任务被Worker领取的次数';
+
+-- 模板指定的提供方由模板同步写入，Worker据此选择提供方，不信任客户端写入的视频 metadata
+ALTER TABLE public.templates ADD COLUMN IF NOT EXISTS video_provider VARCHAR(50);
+
+COMMENT ON COLUMN public.templates.video_provider IS '模板指定的视频生成提供方，为空时使用管理员默认';
+
+-- ============================================
+-- 2. 并发配置
+-- userLimits: 每个用户按订阅等级的并发上限
+-- tierMaxConcurrent: 每个订阅等级所有用户合计的并发上限（未配置表示不限）
+-- ============================================
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public)
+VALUES (
+  'video_queue_concurrency',
+  '{"systemMaxConcurrent": 20, "userLimits": {"free": 1, "basic": 3, "pro": 5, "premium": 10}, "tierMaxConcurrent": {}}',
+  '视频队列并发限制（systemMaxConcurrent 全局上限，userLimits 各等级单用户上限，tierMaxConcurrent 各等级合计上限）',
+  'generation',
+  true
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- ============================================
+-- 3. 订阅等级（年度计划映射到对应的基础计划）
+-- ============================================
+CREATE OR REPLACE FUNCTION map_annual_to_base_tier(p_tier TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  RETURN CASE p_tier
+    WHEN 'basic-annual' THEN 'basic'
+    WHEN 'pro-annual' THEN 'pro'
+    WHEN 'enterprise-annual' THEN 'premium'
+    ELSE COALESCE(p_tier, 'free')
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION get_user_queue_tier(p_user_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_tier TEXT;
+BEGIN
+  SELECT s.tier::TEXT INTO v_tier
+  FROM public.subscriptions s
+  WHERE s.user_id = p_user_id AND s.status = 'active'
+  LIMIT 1;
+
+  RETURN map_annual_to_base_tier(COALESCE(v_tier, 'free'));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- 4. 入队：用户提交后将自己的待处理视频加入队列
+-- 按服务端价格在同一事务中扣除积分，视频行里的 credits_used 由这里写入，不信任客户端传入的金额；
+-- 手动优先级只能由管理员或服务端设置，用户入队时一律从0开始
+-- ============================================
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public)
+VALUES (
+  'video_generation_pricing',
+  '{"fast": 20, "pro": 100}',
+  '视频生成价格（按生成质量的积分消耗）',
+  'credits',
+  true
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 质量与Worker创建上游任务时一致：只有 pro 使用高质量模型，其余按 fast 计价
+CREATE OR REPLACE FUNCTION get_video_generation_cost(p_quality TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_pricing JSONB;
+  v_quality TEXT := CASE WHEN p_quality = 'pro' THEN 'pro' ELSE 'fast' END;
+BEGIN
+  SELECT setting_value INTO v_pricing
+  FROM public.system_settings
+  WHERE setting_key = 'video_generation_pricing';
+
+  RETURN GREATEST(COALESCE(
+    (v_pricing->>v_quality)::INTEGER,
+    CASE v_quality WHEN 'pro' THEN 100 ELSE 20 END
+  ), 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION enqueue_video(
+  p_video_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_video RECORD;
+  v_cost INTEGER;
+  v_balance INTEGER;
+  v_position INTEGER;
+BEGIN
+  SELECT v.id, v.title, v.metadata
+  INTO v_video
+  FROM public.videos v
+  WHERE v.id = p_video_id
+    AND v.user_id = auth.uid()
+    AND v.status = 'pending'
+    AND v.queue_position IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'VIDEO_NOT_ENQUEUEABLE: video % not found or already queued', p_video_id;
+  END IF;
+
+  v_cost := get_video_generation_cost(v_video.metadata->'generation'->>'quality');
+
+  IF v_cost > 0 THEN
+    v_balance := consume_user_credits(
+      auth.uid(),
+      v_cost,
+      '生成视频: ' || COALESCE(v_video.title, '无标题'),
+      p_video_id,
+      'video_generation'
+    );
+
+    IF v_balance IS NULL THEN
+      RAISE EXCEPTION 'INSUFFICIENT_CREDITS: video % requires % credits', p_video_id, v_cost;
+    END IF;
+  END IF;
+
+  UPDATE public.videos
+  SET credits_used = v_cost,
+      queue_position = get_next_queue_position(),
+      queue_entered_at = NOW(),
+      queue_priority = 0,
+      queue_attempts = 0
+  WHERE id = p_video_id;
+
+  PERFORM update_queue_positions();
+
+  SELECT queue_position INTO v_position FROM public.videos WHERE id = p_video_id;
+  RETURN v_position;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 用户可以通过RLS直接写自己的视频行，手动优先级的变更只接受管理员和服务端
+CREATE OR REPLACE FUNCTION guard_video_queue_priority()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role' OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.queue_priority := 0;
+  ELSE
+    NEW.queue_priority := OLD.queue_priority;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS guard_video_queue_priority ON public.videos;
+CREATE TRIGGER guard_video_queue_priority
+  BEFORE INSERT OR UPDATE OF queue_priority ON public.videos
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_video_queue_priority();
+
+-- ============================================
+-- 5. 原子领取排队任务
+-- 咨询锁保证同一时刻只有一个Worker在做并发计数和领取，
+-- 领取的任务直接切换为processing，Worker随后创建上游任务
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_queued_videos(
+  p_worker_id TEXT,
+  p_config JSONB DEFAULT '{}'::JSONB,
+  p_batch_size INTEGER DEFAULT 5
+) RETURNS SETOF public.videos AS $$
+DECLARE
+  v_system_max INTEGER := COALESCE((p_config->>'systemMaxConcurrent')::INTEGER, 20);
+  v_active INTEGER;
+  v_claimed INTEGER := 0;
+  v_candidate RECORD;
+  v_tier TEXT;
+  v_user_limit INTEGER;
+  v_tier_limit INTEGER;
+  v_count INTEGER;
+  v_video public.videos%ROWTYPE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('video_queue_claim'));
+
+  SELECT COUNT(*) INTO v_active
+  FROM public.videos
+  WHERE status = 'processing' AND is_deleted = false;
+
+  FOR v_candidate IN
+    SELECT v.id, v.user_id
+    FROM public.videos v
+    WHERE v.status = 'pending'
+      AND v.is_deleted = false
+      AND v.queue_position IS NOT NULL
+    ORDER BY COALESCE(v.queue_priority, 0) DESC, v.queue_entered_at ASC
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXIT WHEN v_active >= v_system_max OR v_claimed >= p_batch_size;
+
+    v_tier := get_user_queue_tier(v_candidate.user_id);
+
+    -- 用户并发上限
+    v_user_limit := COALESCE(
+      (p_config->'userLimits'->>v_tier)::INTEGER,
+      (p_config->'userLimits'->>'free')::INTEGER,
+      1
+    );
+    SELECT COUNT(*) INTO v_count
+    FROM public.videos
+    WHERE user_id = v_candidate.user_id AND status = 'processing' AND is_deleted = false;
+    CONTINUE WHEN v_count >= v_user_limit;
+
+    -- 等级合计并发上限
+    v_tier_limit := (p_config->'tierMaxConcurrent'->>v_tier)::INTEGER;
+    IF v_tier_limit IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_count
+      FROM public.videos pv
+      WHERE pv.status = 'processing'
+        AND pv.is_deleted = false
+        AND get_user_queue_tier(pv.user_id) = v_tier;
+      CONTINUE WHEN v_count >= v_tier_limit;
+    END IF;
+
+    UPDATE public.videos
+    SET status = 'processing',
+        processing_started_at = NOW(),
+        queue_worker_id = p_worker_id,
+        queue_heartbeat_at = NOW(),
+        queue_attempts = queue_attempts + 1
+    WHERE id = v_candidate.id
+    RETURNING * INTO v_video;
+
+    v_active := v_active + 1;
+    v_claimed := v_claimed + 1;
+    RETURN NEXT v_video;
+  END LOOP;
+
+  IF v_claimed > 0 THEN
+    PERFORM update_queue_positions();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 6. 领取需要轮询上游状态的任务（租约到期前其他Worker不会重复轮询）
+-- ============================================
+CREATE OR REPLACE FUNCTION lease_processing_videos(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 30,
+  p_batch_size INTEGER DEFAULT 20
+) RETURNS SETOF public.videos AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.videos v
+  SET queue_worker_id = p_worker_id,
+      queue_heartbeat_at = NOW()
+  WHERE v.id IN (
+    SELECT pv.id
+    FROM public.videos pv
+    WHERE pv.status = 'processing'
+      AND pv.is_deleted = false
+      AND pv.veo3_job_id IS NOT NULL
+      AND (pv.queue_heartbeat_at IS NULL
+           OR pv.queue_heartbeat_at < NOW() - (p_lease_seconds || ' seconds')::INTERVAL)
+    ORDER BY pv.queue_heartbeat_at ASC NULLS FIRST
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING v.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 7. 回收卡住的任务：已领取但长时间未创建上游任务的视频重新入队，
+-- 超过最大尝试次数的返回 exhausted，由Worker标记失败并退还积分
+-- ============================================
+CREATE OR REPLACE FUNCTION requeue_stale_videos(
+  p_stale_minutes INTEGER DEFAULT 5,
+  p_max_attempts INTEGER DEFAULT 3
+) RETURNS TABLE (
+  id UUID,
+  action TEXT
+) AS $$
+DECLARE
+  v_video RECORD;
+  v_requeued INTEGER := 0;
+BEGIN
+  FOR v_video IN
+    SELECT pv.id, pv.queue_attempts
+    FROM public.videos pv
+    WHERE pv.status = 'processing'
+      AND pv.is_deleted = false
+      AND pv.veo3_job_id IS NULL
+      AND pv.queue_heartbeat_at < NOW() - (p_stale_minutes || ' minutes')::INTERVAL
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    IF v_video.queue_attempts >= p_max_attempts THEN
+      id := v_video.id;
+      action := 'exhausted';
+      RETURN NEXT;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.videos pv
+    SET status = 'pending',
+        queue_position = get_next_queue_position(),
+        queue_worker_id = NULL,
+        queue_heartbeat_at = NULL
+    WHERE pv.id = v_video.id;
+
+    v_requeued := v_requeued + 1;
+    id := v_video.id;
+    action := 'requeued';
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_requeued > 0 THEN
+    PERFORM update_queue_positions();
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Worker函数只允许服务端调用（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION claim_queued_videos FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION lease_processing_videos FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION requeue_stale_videos FROM PUBLIC, anon, authenticated;
+-- 订阅等级按任意用户ID查询，只在队列函数内部使用
+REVOKE EXECUTE ON FUNCTION get_user_queue_tier FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_queued_videos TO service_role;
+GRANT EXECUTE ON FUNCTION lease_processing_videos TO service_role;
+GRANT EXECUTE ON FUNCTION requeue_stale_videos TO service_role;
+GRANT EXECUTE ON FUNCTION get_user_queue_tier TO service_role;
+
+GRANT EXECUTE ON FUNCTION enqueue_video TO authenticated;
+
+COMMENT ON FUNCTION get_video_generation_cost(TEXT) IS '按生成质量计算视频生成的积分消耗';
+COMMENT ON FUNCTION enqueue_video(UUID) IS '按服务端价格扣除积分并将用户自己的待处理视频加入队列，返回队列位置';
+COMMENT ON FUNCTION claim_queued_videos(TEXT, JSONB, INTEGER) IS '按并发配置原子领取排队中的视频';
+COMMENT ON FUNCTION lease_processing_videos(TEXT, INTEGER, INTEGER) IS '领取需要轮询上游状态的处理中视频';
+COMMENT ON FUNCTION requeue_stale_videos(INTEGER, INTEGER) IS '回收已领取但未能创建上游任务的视频';
+
+-- ============================================
+-- 定时触发（需要 pg_cron 和 pg_net 扩展），浏览器提交任务时也会主动触发一次：
+-- SELECT cron.schedule('video-queue-worker', '* * * * *', $$
+--   SELECT net.http_post(
+--     url := '<SUPABASE_URL>/functions/v1/video-queue-worker',
+--     headers := '{"Authorization": "Bearer <SERVICE_ROLE_KEY>", "Content-Type": "application/json"}'::jsonb,
+--     body := '{"action": "tick"}'::jsonb
+--   );
+-- $$);
+-- ============================================
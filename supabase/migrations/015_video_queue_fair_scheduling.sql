@@ -0,0 +1,214 @@
+-- ============================================
+-- 视频队列公平调度
+-- Version: 015
+-- Description: 按订阅等级划分优先级通道，跨用户、跨等级加权公平排队，
+--              排队时间越长优先级越高（老化），通道权重在 system_settings 中配置
+-- ============================================
+
+-- ============================================
+-- 1. 通道配置
+-- weights: 各订阅等级（年度计划映射到基础等级）的通道权重，权重越大分得的处理份额越多
+-- agingMinutes: 每排队该分钟数，相当于提前一个权重为1的处理份额，防止低优先级任务饿死
+-- ============================================
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public)
+VALUES (
+  'video_queue_lanes',
+  '{"weights": {"free": 1, "basic": 2, "pro": 4, "premium": 8}, "agingMinutes": 10}',
+  '视频队列通道权重（weights 各订阅等级权重，agingMinutes 老化时间）',
+  'generation',
+  true
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_queue_lane_config()
+RETURNS JSONB AS $$
+DECLARE
+  v_value JSONB;
+BEGIN
+  SELECT setting_value INTO v_value
+  FROM public.system_settings
+  WHERE setting_key = 'video_queue_lanes';
+
+  RETURN jsonb_build_object(
+    'weights', COALESCE(v_value->'weights', '{"free": 1, "basic": 2, "pro": 4, "premium": 8}'::JSONB),
+    'agingMinutes', COALESCE((v_value->>'agingMinutes')::NUMERIC, 10)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- 2. 公平排队顺序
+-- 每个任务的虚拟完成时间 = (用户处理中任务数 + 该任务在用户队列中的序号) / 通道权重，
+-- 再减去老化补偿（排队分钟数 / agingMinutes）和手动优先级（仅管理员或服务端可设置），数值越小越先处理。
+-- 同一用户的任务依次排开，单个用户无法占满队列；高等级通道按权重获得更多份额
+-- ============================================
+CREATE OR REPLACE FUNCTION get_fair_queue_order()
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  tier TEXT,
+  lane_weight NUMERIC,
+  fair_score NUMERIC,
+  queue_rank BIGINT
+) AS $$
+DECLARE
+  v_config JSONB := get_queue_lane_config();
+  v_aging_minutes NUMERIC := GREATEST((v_config->>'agingMinutes')::NUMERIC, 1);
+BEGIN
+  RETURN QUERY
+  WITH queued AS (
+    SELECT
+      v.id,
+      v.user_id,
+      v.queue_entered_at,
+      COALESCE(v.queue_priority, 0) AS priority,
+      get_user_queue_tier(v.user_id) AS tier,
+      ROW_NUMBER() OVER (PARTITION BY v.user_id ORDER BY v.queue_entered_at ASC) AS user_rank
+    FROM public.videos v
+    WHERE v.status = 'pending'
+      AND v.is_deleted = false
+      AND v.queue_position IS NOT NULL
+  ),
+  active AS (
+    SELECT pv.user_id, COUNT(*) AS active_count
+    FROM public.videos pv
+    WHERE pv.status = 'processing' AND pv.is_deleted = false
+    GROUP BY pv.user_id
+  ),
+  scored AS (
+    SELECT
+      q.id,
+      q.user_id,
+      q.tier,
+      q.queue_entered_at,
+      GREATEST(COALESCE((v_config->'weights'->>q.tier)::NUMERIC, 1), 0.1) AS lane_weight,
+      q.user_rank,
+      q.priority,
+      COALESCE(a.active_count, 0) AS active_count
+    FROM queued q
+    LEFT JOIN active a ON a.user_id = q.user_id
+  )
+  SELECT
+    s.id,
+    s.user_id,
+    s.tier,
+    s.lane_weight,
+    ROUND(
+      (s.active_count + s.user_rank) / s.lane_weight
+        - EXTRACT(EPOCH FROM (NOW() - s.queue_entered_at))::NUMERIC / 60 / v_aging_minutes
+        - s.priority,
+      4
+    ) AS fair_score,
+    ROW_NUMBER() OVER (
+      ORDER BY
+        (s.active_count + s.user_rank) / s.lane_weight
+          - EXTRACT(EPOCH FROM (NOW() - s.queue_entered_at))::NUMERIC / 60 / v_aging_minutes
+          - s.priority ASC,
+        s.queue_entered_at ASC
+    ) AS queue_rank
+  FROM scored s
+  ORDER BY 6;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- 3. 队列位置按公平顺序重新计算
+-- ============================================
+CREATE OR REPLACE FUNCTION update_queue_positions()
+RETURNS void AS $$
+BEGIN
+  UPDATE public.videos v
+  SET queue_position = o.queue_rank
+  FROM get_fair_queue_order() o
+  WHERE v.id = o.id
+    AND v.queue_position IS DISTINCT FROM o.queue_rank;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 4. 领取任务时按公平顺序遍历
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_queued_videos(
+  p_worker_id TEXT,
+  p_config JSONB DEFAULT '{}'::JSONB,
+  p_batch_size INTEGER DEFAULT 5
+) RETURNS SETOF public.videos AS $$
+DECLARE
+  v_system_max INTEGER := COALESCE((p_config->>'systemMaxConcurrent')::INTEGER, 20);
+  v_active INTEGER;
+  v_claimed INTEGER := 0;
+  v_candidate RECORD;
+  v_user_limit INTEGER;
+  v_tier_limit INTEGER;
+  v_count INTEGER;
+  v_video public.videos%ROWTYPE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('video_queue_claim'));
+
+  SELECT COUNT(*) INTO v_active
+  FROM public.videos
+  WHERE status = 'processing' AND is_deleted = false;
+
+  FOR v_candidate IN
+    SELECT o.id, o.user_id, o.tier FROM get_fair_queue_order() o
+  LOOP
+    EXIT WHEN v_active >= v_system_max OR v_claimed >= p_batch_size;
+
+    -- 用户并发上限
+    v_user_limit := COALESCE(
+      (p_config->'userLimits'->>v_candidate.tier)::INTEGER,
+      (p_config->'userLimits'->>'free')::INTEGER,
+      1
+    );
+    SELECT COUNT(*) INTO v_count
+    FROM public.videos
+    WHERE user_id = v_candidate.user_id AND status = 'processing' AND is_deleted = false;
+    CONTINUE WHEN v_count >= v_user_limit;
+
+    -- 等级合计并发上限
+    v_tier_limit := (p_config->'tierMaxConcurrent'->>v_candidate.tier)::INTEGER;
+    IF v_tier_limit IS NOT NULL THEN
+      SELECT COUNT(*) INTO v_count
+      FROM public.videos pv
+      WHERE pv.status = 'processing'
+        AND pv.is_deleted = false
+        AND get_user_queue_tier(pv.user_id) = v_candidate.tier;
+      CONTINUE WHEN v_count >= v_tier_limit;
+    END IF;
+
+    -- 跳过已被用户取消或其他事务锁定的任务
+    PERFORM 1 FROM public.videos
+    WHERE id = v_candidate.id AND status = 'pending'
+    FOR UPDATE SKIP LOCKED;
+    CONTINUE WHEN NOT FOUND;
+
+    UPDATE public.videos
+    SET status = 'processing',
+        processing_started_at = NOW(),
+        queue_worker_id = p_worker_id,
+        queue_heartbeat_at = NOW(),
+        queue_attempts = queue_attempts + 1
+    WHERE id = v_candidate.id
+    RETURNING * INTO v_video;
+
+    v_active := v_active + 1;
+    v_claimed := v_claimed + 1;
+    RETURN NEXT v_video;
+  END LOOP;
+
+  -- 老化会改变顺序，每轮调度都刷新队列位置
+  PERFORM update_queue_positions();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 排队顺序包含所有排队用户的ID和订阅等级，刷新队列位置会写入所有排队视频，只允许服务端调用
+-- （Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION get_fair_queue_order FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_queue_positions FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_fair_queue_order TO service_role;
+GRANT EXECUTE ON FUNCTION update_queue_positions TO service_role;
+
+GRANT EXECUTE ON FUNCTION get_queue_lane_config TO authenticated;
+
+COMMENT ON FUNCTION get_fair_queue_order() IS '按通道权重、用户公平和老化计算的排队顺序';
+COMMENT ON FUNCTION update_queue_positions() IS '按公平排队顺序重新计算所有队列位置';
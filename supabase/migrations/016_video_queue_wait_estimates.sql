@@ -0,0 +1,113 @@
+-- ============================================
+-- 视频队列等待时间估算
+-- Version: 016
+-- Description: 基于实际 processing_started_at / processing_completed_at 统计各模型的生成耗时，
+--              并提供队列快照（处理中任务已用时、排队任务的模型）供前端按队列位置估算等待时间
+-- ============================================
+
+-- 按完成时间查询最近的生成记录
+CREATE INDEX IF NOT EXISTS idx_videos_completed_duration
+  ON public.videos(processing_completed_at DESC)
+  WHERE status = 'completed' AND processing_started_at IS NOT NULL;
+
+-- ============================================
+-- 1. 视频使用（或将使用）的生成模型
+-- 已开始的任务以提供方返回的 providerModel 为准；
+-- 排队中的任务按生成参数推断：质量 fast/pro，有参考图片时为 -frames 变体
+-- ============================================
+CREATE OR REPLACE FUNCTION get_video_generation_model(p_metadata JSONB)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_metadata->>'providerModel' IS NOT NULL THEN
+    RETURN p_metadata->>'providerModel';
+  END IF;
+
+  RETURN 'veo3-'
+    || COALESCE(p_metadata->'generation'->>'quality', 'fast')
+    || CASE WHEN COALESCE(p_metadata->'generation'->>'imageUrl', '') <> '' THEN '-frames' ELSE '' END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- 2. 各模型最近的实际生成耗时
+-- 每个模型取最近 p_sample_size 个完成的视频，剔除异常值（超过1小时）
+-- ============================================
+CREATE OR REPLACE FUNCTION get_video_processing_stats(
+  p_days INTEGER DEFAULT 7,
+  p_sample_size INTEGER DEFAULT 100
+) RETURNS TABLE (
+  model TEXT,
+  avg_seconds NUMERIC,
+  median_seconds NUMERIC,
+  sample_count BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH durations AS (
+    SELECT
+      get_video_generation_model(v.metadata) AS model,
+      EXTRACT(EPOCH FROM (v.processing_completed_at - v.processing_started_at))::NUMERIC AS seconds,
+      ROW_NUMBER() OVER (
+        PARTITION BY get_video_generation_model(v.metadata)
+        ORDER BY v.processing_completed_at DESC
+      ) AS sample_rank
+    FROM public.videos v
+    WHERE v.status = 'completed'
+      AND v.processing_started_at IS NOT NULL
+      AND v.processing_completed_at > v.processing_started_at
+      AND v.processing_completed_at > NOW() - (p_days || ' days')::INTERVAL
+      AND v.processing_completed_at - v.processing_started_at < INTERVAL '1 hour'
+  )
+  SELECT
+    d.model,
+    ROUND(AVG(d.seconds), 1),
+    ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY d.seconds)::NUMERIC, 1),
+    COUNT(*)
+  FROM durations d
+  WHERE d.sample_rank <= p_sample_size
+  GROUP BY d.model;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- 3. 队列快照：所有处理中任务的模型和已用时，以及所有排队任务的模型和位置
+-- 不返回视频ID和用户信息，普通用户也可以调用
+-- ============================================
+CREATE OR REPLACE FUNCTION get_queue_wait_snapshot()
+RETURNS JSONB AS $$
+DECLARE
+  v_active JSONB;
+  v_queued JSONB;
+BEGIN
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'model', get_video_generation_model(v.metadata),
+    'elapsedSeconds', ROUND(EXTRACT(EPOCH FROM (NOW() - COALESCE(v.processing_started_at, v.created_at)))::NUMERIC)
+  )), '[]'::JSONB)
+  INTO v_active
+  FROM public.videos v
+  WHERE v.status = 'processing' AND v.is_deleted = false;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'model', get_video_generation_model(v.metadata),
+    'position', v.queue_position
+  ) ORDER BY v.queue_position), '[]'::JSONB)
+  INTO v_queued
+  FROM public.videos v
+  WHERE v.status = 'pending'
+    AND v.is_deleted = false
+    AND v.queue_position IS NOT NULL;
+
+  RETURN jsonb_build_object(
+    'active', v_active,
+    'queued', v_queued,
+    'generatedAt', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_video_processing_stats TO authenticated;
+GRANT EXECUTE ON FUNCTION get_queue_wait_snapshot TO authenticated;
+
+COMMENT ON FUNCTION get_video_generation_model(JSONB) IS '视频使用的生成模型（未开始的任务按生成参数推断）';
+COMMENT ON FUNCTION get_video_processing_stats(INTEGER, INTEGER) IS '各生成模型最近的实际耗时统计';
+COMMENT ON FUNCTION get_queue_wait_snapshot() IS '处理中和排队任务的匿名快照，用于估算等待时间';
@@ -0,0 +1,51 @@
+-- ============================================
+-- 取消视频生成
+-- Version: 017
+-- Description: 新增 cancelled 视频状态，用户可取消排队中或处理中的视频；
+--              状态切换是原子的，只有成功取消的调用方才会拿到需要退还的积分
+-- ============================================
+
+ALTER TYPE video_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+-- ============================================
+-- 取消视频：排队中的任务移出队列，处理中的任务不再被Worker轮询
+-- 返回需要退还的积分数，视频不存在或已结束时抛出 VIDEO_NOT_CANCELLABLE
+-- ============================================
+CREATE OR REPLACE FUNCTION cancel_video(p_video_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_credits INTEGER;
+  v_was_queued BOOLEAN;
+BEGIN
+  UPDATE public.videos v
+  SET status = 'cancelled',
+      error_message = 'Cancelled by user',
+      queue_position = NULL,
+      queue_worker_id = NULL,
+      queue_heartbeat_at = NULL,
+      processing_completed_at = NOW(),
+      metadata = COALESCE(v.metadata, '{}'::JSONB) || jsonb_build_object(
+        'cancelledAt', NOW(),
+        'cancelledFromStatus', v.status::TEXT
+      )
+  WHERE v.id = p_video_id
+    AND v.user_id = auth.uid()
+    AND v.status IN ('pending', 'processing')
+  RETURNING COALESCE(v.credits_used, 0), (v.metadata->>'cancelledFromStatus') = 'pending'
+  INTO v_credits, v_was_queued;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'VIDEO_NOT_CANCELLABLE: video % not found or already finished', p_video_id;
+  END IF;
+
+  IF v_was_queued THEN
+    PERFORM update_queue_positions();
+  END IF;
+
+  RETURN v_credits;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION cancel_video TO authenticated;
+
+COMMENT ON FUNCTION cancel_video(UUID) IS '取消用户自己排队中或处理中的视频，返回需要退还的积分';
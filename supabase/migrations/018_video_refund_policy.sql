@@ -0,0 +1,213 @@
+-- ============================================
+-- 视频生成失败退款策略
+-- Version: 018
+-- Description: 视频失败或取消时按退款策略退还积分：提供方故障和超时全额退款，
+--              内容审核拒绝按配置比例部分退款；每个视频最多退款一次，
+--              退款记录为 credit_transactions 中的 refund 交易
+-- ============================================
+
+-- ============================================
+-- 1. 退款策略配置（百分比）
+-- contentPolicyKeywords: 错误信息包含这些关键词时视为内容审核拒绝
+-- ============================================
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public)
+VALUES (
+  'video_refund_policy',
+  '{
+    "providerFailure": 100,
+    "timeout": 100,
+    "contentPolicy": 50,
+    "cancelled": 100,
+    "contentPolicyKeywords": ["content policy", "safety", "moderation", "violat", "prohibited", "sensitive", "审核", "违规", "敏感"]
+  }',
+  '视频失败退款策略（各失败原因的退款百分比，contentPolicyKeywords 内容审核关键词）',
+  'credits',
+  true
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- 同一视频只能有一条退款策略产生的退款记录
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_transactions_video_refund
+  ON public.credit_transactions(reference_id)
+  WHERE type = 'refund' AND reference_type = 'video_refund';
+
+-- ============================================
+-- 2. 失败原因分类
+-- timeout: Worker超时或上游超时；content_policy: 内容审核拒绝；其余为 provider_failure
+-- ============================================
+CREATE OR REPLACE FUNCTION classify_video_failure(p_error_message TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_policy JSONB;
+  v_keyword TEXT;
+  v_message TEXT := LOWER(COALESCE(p_error_message, ''));
+BEGIN
+  IF v_message LIKE '%timed out%' OR v_message LIKE '%timeout%' OR v_message LIKE '%超时%' THEN
+    RETURN 'timeout';
+  END IF;
+
+  SELECT setting_value INTO v_policy
+  FROM public.system_settings
+  WHERE setting_key = 'video_refund_policy';
+
+  FOR v_keyword IN
+    SELECT jsonb_array_elements_text(COALESCE(v_policy->'contentPolicyKeywords', '[]'::JSONB))
+  LOOP
+    IF v_message LIKE '%' || LOWER(v_keyword) || '%' THEN
+      RETURN 'content_policy';
+    END IF;
+  END LOOP;
+
+  RETURN 'provider_failure';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- 3. 按策略退还视频积分（幂等）
+-- 退款原因由视频状态和错误信息推断，p_reason 只接受服务端传入；已退款的视频直接返回之前的退款金额
+-- ============================================
+CREATE OR REPLACE FUNCTION apply_video_refund_policy(
+  p_video_id UUID,
+  p_reason TEXT DEFAULT NULL
+) RETURNS JSONB AS $$
+DECLARE
+  v_video RECORD;
+  v_policy JSONB;
+  v_reason TEXT;
+  v_percentage INTEGER;
+  v_amount INTEGER;
+  v_existing INTEGER;
+  v_consumed INTEGER;
+  v_reason_text TEXT;
+BEGIN
+  -- 同一视频的退款串行执行
+  PERFORM pg_advisory_xact_lock(hashtext('video_refund:' || p_video_id::TEXT));
+
+  SELECT v.id, v.user_id, v.title, v.status, v.credits_used, v.error_message, v.video_url
+  INTO v_video
+  FROM public.videos v
+  WHERE v.id = p_video_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'VIDEO_NOT_FOUND: video % not found', p_video_id;
+  END IF;
+
+  -- 普通用户只能为自己的视频申请退款
+  IF auth.uid() IS NOT NULL AND auth.uid() <> v_video.user_id
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role IN ('admin', 'super_admin')) THEN
+    RAISE EXCEPTION 'VIDEO_NOT_FOUND: video % not found', p_video_id;
+  END IF;
+
+  -- 只有失败或取消且没有生成结果的视频可以退款
+  IF v_video.status NOT IN ('failed', 'cancelled') OR v_video.video_url IS NOT NULL THEN
+    RETURN jsonb_build_object('refunded', false, 'amount', 0, 'reason', 'not_refundable');
+  END IF;
+
+  -- 幂等：已有退款记录（包括旧版本直接退款的记录）时不再退款
+  SELECT COALESCE(SUM(ct.amount), 0)::INTEGER INTO v_existing
+  FROM public.credit_transactions ct
+  WHERE ct.type = 'refund'
+    AND ct.reference_id::TEXT = p_video_id::TEXT;
+
+  IF v_existing > 0 THEN
+    RETURN jsonb_build_object('refunded', false, 'amount', v_existing, 'reason', 'already_refunded');
+  END IF;
+
+  v_reason := CASE
+    WHEN p_reason IS NOT NULL AND auth.role() = 'service_role' THEN p_reason
+    WHEN v_video.status = 'cancelled' THEN 'cancelled'
+    ELSE classify_video_failure(v_video.error_message)
+  END;
+
+  SELECT setting_value INTO v_policy
+  FROM public.system_settings
+  WHERE setting_key = 'video_refund_policy';
+
+  v_percentage := LEAST(GREATEST(COALESCE(
+    (v_policy->>CASE v_reason
+      WHEN 'timeout' THEN 'timeout'
+      WHEN 'content_policy' THEN 'contentPolicy'
+      WHEN 'cancelled' THEN 'cancelled'
+      ELSE 'providerFailure'
+    END)::INTEGER,
+    CASE WHEN v_reason = 'content_policy' THEN 50 ELSE 100 END
+  ), 0), 100);
+
+  -- 退款基数不超过该视频实际扣除的积分（旧版本的 credits_used 由客户端写入）
+  SELECT COALESCE(SUM(ABS(ct.amount)), 0)::INTEGER INTO v_consumed
+  FROM public.credit_transactions ct
+  WHERE ct.type = 'consume'
+    AND ct.reference_id::TEXT = p_video_id::TEXT;
+
+  v_amount := FLOOR(LEAST(COALESCE(v_video.credits_used, 0), v_consumed) * v_percentage / 100.0)::INTEGER;
+
+  v_reason_text := CASE v_reason
+    WHEN 'timeout' THEN '视频生成超时'
+    WHEN 'content_policy' THEN '内容审核未通过'
+    WHEN 'cancelled' THEN '取消视频生成'
+    ELSE '视频生成失败'
+  END;
+
+  IF v_amount > 0 THEN
+    PERFORM add_user_credits(
+      v_video.user_id,
+      v_amount,
+      'refund',
+      v_reason_text || '，退还' || CASE WHEN v_percentage < 100 THEN v_percentage || '%' ELSE '' END
+        || '积分: ' || COALESCE(v_video.title, p_video_id::TEXT),
+      p_video_id::TEXT,
+      'video_refund'
+    );
+  END IF;
+
+  UPDATE public.videos
+  SET metadata = COALESCE(metadata, '{}'::JSONB) || jsonb_build_object(
+    'refund', jsonb_build_object(
+      'reason', v_reason,
+      'percentage', v_percentage,
+      'amount', v_amount,
+      'refundedAt', NOW()
+    )
+  )
+  WHERE id = p_video_id;
+
+  RETURN jsonb_build_object(
+    'refunded', v_amount > 0,
+    'amount', v_amount,
+    'percentage', v_percentage,
+    'reason', v_reason
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 4. 视频从排队中或处理中变为失败或取消状态时自动退款
+-- 无论失败由服务端Worker、管理员标记还是用户取消，都走同一套策略，客户端不直接发起退款
+-- ============================================
+CREATE OR REPLACE FUNCTION refund_failed_video()
+RETURNS TRIGGER AS $$
+BEGIN
+  BEGIN
+    PERFORM apply_video_refund_policy(NEW.id);
+  EXCEPTION
+    WHEN OTHERS THEN
+      -- 退款失败不影响状态更新，可通过 apply_video_refund_policy 补发
+      RAISE WARNING 'Failed to refund video %: %', NEW.id, SQLERRM;
+  END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refund_failed_video_trigger ON public.videos;
+CREATE TRIGGER refund_failed_video_trigger
+  AFTER UPDATE OF status ON public.videos
+  FOR EACH ROW
+  WHEN (NEW.status IN ('failed', 'cancelled') AND OLD.status IN ('pending', 'processing'))
+  EXECUTE FUNCTION refund_failed_video();
+
+-- 补发退款只能由服务端执行（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION apply_video_refund_policy FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_video_refund_policy TO service_role;
+
+COMMENT ON FUNCTION classify_video_failure(TEXT) IS '根据错误信息判断视频失败原因';
+COMMENT ON FUNCTION apply_video_refund_policy(UUID, TEXT) IS '按退款策略退还失败或取消视频的积分（每个视频最多一次）';
@@ -0,0 +1,72 @@
+-- ============================================
+-- 图生视频参考图片存储
+-- Version: 019
+-- Description: 私有存储桶 generation-inputs 保存用户上传的参考图片（按用户目录存放），
+--              提供方通过签名URL拉取；超过保留时间且不再被排队/处理中视频使用的文件由队列Worker清理
+-- ============================================
+
+-- ============================================
+-- 1. 存储桶（私有，限制大小和格式）
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'generation-inputs',
+  'generation-inputs',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================
+-- 2. 访问策略：用户只能读写自己目录下的文件
+-- ============================================
+DROP POLICY IF EXISTS "Users can upload own generation inputs" ON storage.objects;
+CREATE POLICY "Users can upload own generation inputs" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'generation-inputs' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Users can read own generation inputs" ON storage.objects;
+CREATE POLICY "Users can read own generation inputs" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'generation-inputs' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Users can delete own generation inputs" ON storage.objects;
+CREATE POLICY "Users can delete own generation inputs" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'generation-inputs' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+-- ============================================
+-- 3. 超过保留时间的参考图片
+-- 仍被排队中或处理中视频引用（metadata.generation.imagePath）的文件不会返回
+-- 只返回路径，实际删除由Worker通过 Storage API 完成
+-- ============================================
+CREATE OR REPLACE FUNCTION get_expired_generation_inputs(
+  p_retention_hours INTEGER DEFAULT 72,
+  p_limit INTEGER DEFAULT 100
+) RETURNS TABLE (object_name TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'generation-inputs'
+    AND o.created_at < NOW() - make_interval(hours => p_retention_hours)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.videos v
+      WHERE v.status IN ('pending', 'processing')
+        AND v.metadata->'generation'->>'imagePath' = o.name
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- 只允许服务端调用（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION get_expired_generation_inputs FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_expired_generation_inputs TO service_role;
+
+COMMENT ON FUNCTION get_expired_generation_inputs(INTEGER, INTEGER) IS '超过保留时间且不再使用的参考图片路径（供队列Worker清理）';
@@ -0,0 +1,61 @@
+-- ============================================
+-- 积分套餐目录
+-- Version: 020
+-- Description: 积分套餐（积分数、赠送积分、价格、币种、上下架）由服务端维护，管理后台可编辑；
+--              结账只接受套餐ID，金额和积分都从目录读取，Webhook 按目录发放积分
+-- ============================================
+
+-- ============================================
+-- 1. 套餐表（价格以最小货币单位保存，例如美分）
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.credit_packages (
+  id VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  bonus_credits INTEGER NOT NULL DEFAULT 0 CHECK (bonus_credits >= 0),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 50),
+  currency VARCHAR(3) NOT NULL DEFAULT 'usd' CHECK (currency = LOWER(currency)),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  is_popular BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_packages_active ON public.credit_packages(sort_order) WHERE is_active = true;
+
+CREATE TRIGGER update_credit_packages_updated_at
+  BEFORE UPDATE ON public.credit_packages
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- 原前端写死的三个套餐
+INSERT INTO public.credit_packages (id, name, credits, bonus_credits, price_cents, currency, is_popular, sort_order)
+VALUES
+  ('basic', 'Basic Package', 160, 0, 999, 'usd', false, 1),
+  ('pro', 'Pro Package', 1000, 0, 4999, 'usd', true, 2),
+  ('premium', 'Premium Package', 2400, 0, 9999, 'usd', false, 3)
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================
+-- 2. RLS策略：所有人可以查看上架的套餐，只有管理员可以修改
+-- ============================================
+ALTER TABLE public.credit_packages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active credit packages" ON public.credit_packages
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage credit packages" ON public.credit_packages
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage credit packages" ON public.credit_packages
+  FOR ALL USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.credit_packages IS '积分套餐目录（结账和Webhook以此为准）';
+COMMENT ON COLUMN public.credit_packages.price_cents IS '价格（最小货币单位）';
+COMMENT ON COLUMN public.credit_packages.bonus_credits IS '购买时额外赠送的积分';
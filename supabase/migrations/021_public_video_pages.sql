@@ -0,0 +1,157 @@
+-- ============================================
+-- 公开视频观看页和嵌入播放器
+-- Version: 021
+-- Description: /video/:id 和 /embed/:id 通过 RPC 读取公开视频及创作者信息（未登录也可访问），
+--              只返回 is_public 且已完成、未删除的视频（作者本人可查看自己的私有视频）；
+--              观看和分享计数只对公开视频生效，作者本人观看不计数，同一观众每天对同一视频只计一次
+-- ============================================
+
+-- ============================================
+-- 1. 读取公开视频（含创作者资料）
+-- ============================================
+CREATE OR REPLACE FUNCTION get_public_video(p_video_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  description TEXT,
+  prompt TEXT,
+  video_url TEXT,
+  thumbnail_url TEXT,
+  duration INTEGER,
+  resolution VARCHAR(20),
+  parameters JSONB,
+  template_id TEXT,
+  is_public BOOLEAN,
+  view_count INTEGER,
+  like_count INTEGER,
+  share_count INTEGER,
+  created_at TIMESTAMPTZ,
+  creator_username TEXT,
+  creator_full_name TEXT,
+  creator_avatar_url TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.user_id,
+    v.title,
+    v.description,
+    v.prompt,
+    v.video_url,
+    v.thumbnail_url,
+    v.duration,
+    v.resolution,
+    v.parameters,
+    v.metadata->>'templateId',
+    v.is_public,
+    COALESCE(v.view_count, 0),
+    COALESCE(v.like_count, 0),
+    COALESCE(v.share_count, 0),
+    v.created_at,
+    p.username,
+    p.full_name,
+    p.avatar_url
+  FROM public.videos v
+  LEFT JOIN public.profiles p ON p.id = v.user_id
+  WHERE v.id = p_video_id
+    AND v.status = 'completed'
+    AND v.video_url IS NOT NULL
+    AND COALESCE(v.is_deleted, false) = false
+    AND (v.is_public = true OR v.user_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_public_video TO anon, authenticated;
+
+-- ============================================
+-- 2. 公开视频的观看/分享计数
+-- 计数对匿名用户开放，按观众去重防止刷量：登录用户按用户ID，未登录按请求IP，
+-- 同一观众每天对同一视频的每种计数只记一次
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.public_video_counter_hits (
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  counter VARCHAR(20) NOT NULL,
+  viewer_key TEXT NOT NULL,
+  hit_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (video_id, counter, viewer_key, hit_date)
+);
+
+-- 只通过 increment_public_video_counter 写入，不开放任何访问策略
+ALTER TABLE public.public_video_counter_hits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION increment_public_video_counter(
+  p_video_id UUID,
+  p_counter VARCHAR(20) DEFAULT 'view_count'
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_owner_id UUID;
+  v_headers JSONB;
+  v_viewer_key TEXT;
+BEGIN
+  IF p_counter NOT IN ('view_count', 'share_count') THEN
+    RAISE EXCEPTION 'Unsupported counter: %', p_counter;
+  END IF;
+
+  SELECT user_id INTO v_owner_id
+  FROM public.videos
+  WHERE id = p_video_id
+    AND is_public = true
+    AND status = 'completed'
+    AND COALESCE(is_deleted, false) = false;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- 作者本人观看不计数
+  IF p_counter = 'view_count' AND v_owner_id = auth.uid() THEN
+    RETURN false;
+  END IF;
+
+  -- 观众标识：登录用户ID，未登录时取网关转发的客户端IP（只保存哈希）
+  IF auth.uid() IS NOT NULL THEN
+    v_viewer_key := 'user:' || auth.uid()::TEXT;
+  ELSE
+    v_headers := NULLIF(current_setting('request.headers', true), '')::JSONB;
+    v_viewer_key := 'ip:' || md5(COALESCE(
+      v_headers->>'cf-connecting-ip',
+      TRIM(split_part(v_headers->>'x-forwarded-for', ',', 1)),
+      ''
+    ));
+  END IF;
+
+  -- 清理该视频前一天及更早的去重记录
+  DELETE FROM public.public_video_counter_hits
+  WHERE video_id = p_video_id AND hit_date < CURRENT_DATE;
+
+  INSERT INTO public.public_video_counter_hits (video_id, counter, viewer_key)
+  VALUES (p_video_id, p_counter, v_viewer_key)
+  ON CONFLICT DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF p_counter = 'view_count' THEN
+    UPDATE public.videos
+    SET view_count = COALESCE(view_count, 0) + 1,
+        last_viewed_at = NOW()
+    WHERE id = p_video_id;
+  ELSE
+    UPDATE public.videos
+    SET share_count = COALESCE(share_count, 0) + 1
+    WHERE id = p_video_id;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION increment_public_video_counter TO anon, authenticated;
+
+COMMENT ON FUNCTION get_public_video(UUID) IS '公开视频观看页/嵌入播放器读取视频和创作者信息';
+COMMENT ON FUNCTION increment_public_video_counter(UUID, VARCHAR) IS '公开视频的观看和分享计数（同一观众每天只计一次）';
+COMMENT ON TABLE public.public_video_counter_hits IS '公开视频计数去重记录（按观众和日期）';
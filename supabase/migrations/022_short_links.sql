@@ -0,0 +1,299 @@
+-- ============================================
+-- 短链接服务
+-- Version: 022
+-- Description: 视频分享和邀请链接使用站内短链接 /s/{code}，记录点击（来源、国家）和带来的注册，
+--              按链接类型和分享渠道统计效果
+-- ============================================
+
+-- ============================================
+-- 1. 短链接表
+-- target_url 只允许站内相对路径，避免被用作开放重定向
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.short_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code VARCHAR(16) UNIQUE NOT NULL,
+  target_url TEXT NOT NULL CHECK (target_url LIKE '/%' AND target_url NOT LIKE '//%'),
+  link_type VARCHAR(20) NOT NULL CHECK (link_type IN ('video_share', 'referral')),
+  resource_id TEXT,                      -- 视频ID或邀请码
+  channel VARCHAR(30) NOT NULL DEFAULT 'link',
+  owner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  click_count INTEGER NOT NULL DEFAULT 0,
+  signup_count INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  expires_at TIMESTAMPTZ,
+  last_clicked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_short_links_owner ON public.short_links(owner_id, link_type, resource_id, channel);
+CREATE INDEX IF NOT EXISTS idx_short_links_type_channel ON public.short_links(link_type, channel);
+
+-- ============================================
+-- 2. 点击记录
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.short_link_clicks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  short_link_id UUID NOT NULL REFERENCES public.short_links(id) ON DELETE CASCADE,
+  referrer TEXT,
+  referrer_host VARCHAR(255),
+  country VARCHAR(2),
+  user_agent TEXT,
+  clicked_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_short_link_clicks_link ON public.short_link_clicks(short_link_id, clicked_at DESC);
+
+-- ============================================
+-- 3. 注册归因（每个用户只归因到一个短链接）
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.short_link_signups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  short_link_id UUID NOT NULL REFERENCES public.short_links(id) ON DELETE CASCADE,
+  user_id UUID UNIQUE NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_short_link_signups_link ON public.short_link_signups(short_link_id);
+
+-- ============================================
+-- 4. RLS策略：用户可以查看自己的短链接，管理员可以查看全部
+-- 创建、点击和注册归因都通过下面的函数完成
+-- ============================================
+ALTER TABLE public.short_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.short_link_clicks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.short_link_signups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own short links" ON public.short_links
+  FOR SELECT USING (auth.uid() = owner_id);
+
+CREATE POLICY "Admins can manage short links" ON public.short_links
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Admins can view short link clicks" ON public.short_link_clicks
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Admins can view short link signups" ON public.short_link_signups
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- ============================================
+-- 5. 创建短链接
+-- 同一用户对同一资源、同一渠道复用未过期的短链接
+-- 视频分享要求视频公开或属于本人，邀请链接要求邀请码属于本人
+-- ============================================
+CREATE OR REPLACE FUNCTION create_short_link(
+  p_link_type VARCHAR(20),
+  p_resource_id TEXT,
+  p_channel VARCHAR(30) DEFAULT 'link',
+  p_expires_in_days INTEGER DEFAULT NULL
+) RETURNS TABLE (code VARCHAR, target_url TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_target TEXT;
+  v_code VARCHAR(16);
+  v_channel VARCHAR(30) := LOWER(COALESCE(NULLIF(TRIM(p_channel), ''), 'link'));
+  v_expires_at TIMESTAMPTZ;
+  v_alphabet TEXT := 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_attempt INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_link_type = 'video_share' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.videos v
+      WHERE v.id::TEXT = p_resource_id
+        AND COALESCE(v.is_deleted, false) = false
+        AND (v.is_public = true OR v.user_id = v_user_id)
+    ) THEN
+      RAISE EXCEPTION 'Video not found or not shareable';
+    END IF;
+    v_target := '/video/' || p_resource_id;
+  ELSIF p_link_type = 'referral' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = v_user_id AND p.referral_code = p_resource_id
+    ) THEN
+      RAISE EXCEPTION 'Referral code does not belong to current user';
+    END IF;
+    v_target := '/signup?invite=' || p_resource_id;
+  ELSE
+    RAISE EXCEPTION 'Unsupported link type: %', p_link_type;
+  END IF;
+
+  IF p_expires_in_days IS NOT NULL AND p_expires_in_days > 0 THEN
+    v_expires_at := NOW() + make_interval(days => p_expires_in_days);
+  END IF;
+
+  -- 复用已有的短链接
+  RETURN QUERY
+  SELECT s.code, s.target_url, s.expires_at
+  FROM public.short_links s
+  WHERE s.owner_id = v_user_id
+    AND s.link_type = p_link_type
+    AND s.resource_id = p_resource_id
+    AND s.channel = v_channel
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  -- 生成 7 位随机码，冲突时重试
+  LOOP
+    v_attempt := v_attempt + 1;
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1), '')
+    INTO v_code
+    FROM generate_series(1, 7);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.short_links s WHERE s.code = v_code);
+
+    IF v_attempt >= 5 THEN
+      RAISE EXCEPTION 'Failed to generate unique short link code';
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.short_links (code, target_url, link_type, resource_id, channel, owner_id, expires_at)
+  VALUES (v_code, v_target, p_link_type, p_resource_id, v_channel, v_user_id, v_expires_at);
+
+  RETURN QUERY SELECT v_code, v_target, v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_short_link TO authenticated;
+
+-- ============================================
+-- 6. 记录点击并返回跳转目标（仅 short-link Edge Function 调用）
+-- 已停用、已过期或不存在时返回 NULL
+-- ============================================
+CREATE OR REPLACE FUNCTION record_short_link_click(
+  p_code VARCHAR(16),
+  p_referrer TEXT DEFAULT NULL,
+  p_country VARCHAR(2) DEFAULT NULL,
+  p_user_agent TEXT DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  v_link RECORD;
+  v_referrer_host VARCHAR(255);
+BEGIN
+  SELECT id, target_url INTO v_link
+  FROM public.short_links
+  WHERE code = p_code
+    AND is_active = true
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_referrer_host := LEFT(substring(p_referrer FROM '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/:?#]+)'), 255);
+
+  INSERT INTO public.short_link_clicks (short_link_id, referrer, referrer_host, country, user_agent)
+  VALUES (v_link.id, LEFT(p_referrer, 2000), v_referrer_host, UPPER(p_country), LEFT(p_user_agent, 500));
+
+  UPDATE public.short_links
+  SET click_count = click_count + 1,
+      last_clicked_at = NOW()
+  WHERE id = v_link.id;
+
+  RETURN v_link.target_url;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- （Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION record_short_link_click FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_short_link_click TO service_role;
+
+-- ============================================
+-- 7. 注册归因
+-- 只接受一天内创建且尚未归因的用户，短链接须有效且未过期，用户不能归因到自己的短链接
+-- 只接受一天内创建且尚未归因的用户，用户不能归因到自己的短链接
+-- ============================================
+CREATE OR REPLACE FUNCTION record_short_link_signup(
+  p_code VARCHAR(16)
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_link_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT s.id INTO v_link_id
+  FROM public.short_links s
+  WHERE s.code = p_code
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+    AND (s.owner_id IS NULL OR s.owner_id <> v_user_id);
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users u
+    WHERE u.id = v_user_id AND u.created_at > NOW() - INTERVAL '1 day'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.short_link_signups (short_link_id, user_id)
+  VALUES (v_link_id, v_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.short_links
+  SET signup_count = signup_count + 1
+  WHERE id = v_link_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION record_short_link_signup FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_short_link_signup TO authenticated;
+
+-- ============================================
+-- 8. 渠道统计视图（管理员查询）
+-- ============================================
+CREATE OR REPLACE VIEW short_link_channel_stats
+WITH (security_invoker = true) AS
+SELECT
+  s.link_type,
+  s.channel,
+  COUNT(*) AS link_count,
+  COALESCE(SUM(s.click_count), 0) AS total_clicks,
+  COALESCE(SUM(s.signup_count), 0) AS total_signups,
+  CASE WHEN SUM(s.click_count) > 0
+    THEN ROUND(SUM(s.signup_count)::DECIMAL / SUM(s.click_count) * 100, 2)
+    ELSE 0
+  END AS signup_rate
+FROM public.short_links s
+GROUP BY s.link_type, s.channel;
+
+COMMENT ON TABLE public.short_links IS '站内短链接（视频分享、邀请）';
+COMMENT ON TABLE public.short_link_clicks IS '短链接点击记录（来源、国家）';
+COMMENT ON TABLE public.short_link_signups IS '通过短链接带来的注册';
+COMMENT ON VIEW short_link_channel_stats IS '按链接类型和分享渠道统计点击和注册';
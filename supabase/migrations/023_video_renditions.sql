@@ -0,0 +1,261 @@
+-- ============================================
+-- 服务端水印和转码
+-- Version: 023
+-- Description: 视频完成时生成渲染任务，由 ffmpeg Worker（scripts/video-rendition-worker.js）
+--              把原视频保存到私有存储桶，并生成带水印的 H.264/AAC 版本保存到公开存储桶；
+--              提供方返回的原始地址只保存在渲染任务中，videos.video_url 在带水印版本生成前为空，
+--              处理完成后指向带水印版本，原视频只通过 video-download 函数以短时签名URL提供给付费用户
+-- ============================================
+
+-- ============================================
+-- 1. 存储桶
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES
+  ('video-originals', 'video-originals', false, 524288000, ARRAY['video/mp4']),
+  ('video-watermarked', 'video-watermarked', true, 524288000, ARRAY['video/mp4'])
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- 两个存储桶都只由 service role 写入，不为用户创建写入策略；
+-- video-originals 没有读取策略，只能通过签名URL访问
+
+-- ============================================
+-- 2. 渲染任务表
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.video_rendition_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  video_id UUID UNIQUE NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  source_url TEXT NOT NULL,              -- 提供方返回的原始地址，不对用户开放
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  locked_by VARCHAR(100),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  original_path TEXT,
+  watermarked_path TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_rendition_jobs_pending
+  ON public.video_rendition_jobs(created_at) WHERE status IN ('pending', 'processing');
+
+CREATE TRIGGER update_video_rendition_jobs_updated_at
+  BEFORE UPDATE ON public.video_rendition_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE public.video_rendition_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view video rendition jobs" ON public.video_rendition_jobs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage video rendition jobs" ON public.video_rendition_jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- ============================================
+-- 3. 视频完成时创建渲染任务
+-- 提供方地址只写入渲染任务，视频在带水印版本生成前没有播放地址，
+-- 避免作者和公开页面通过 video_url 拿到无水印原视频
+-- ============================================
+CREATE OR REPLACE FUNCTION complete_generated_video(
+  p_video_id UUID,
+  p_source_url TEXT,
+  p_thumbnail_url TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  UPDATE public.videos
+  SET status = 'completed',
+      video_url = NULL,
+      thumbnail_url = COALESCE(p_thumbnail_url, thumbnail_url),
+      metadata = COALESCE(p_metadata, metadata),
+      processing_completed_at = NOW()
+  WHERE id = p_video_id AND status = 'processing'
+  RETURNING user_id INTO v_user_id;
+
+  IF v_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.video_rendition_jobs (video_id, user_id, source_url)
+  VALUES (p_video_id, v_user_id, p_source_url)
+  ON CONFLICT (video_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 其他途径（管理员通过 update-video-status）把视频标记为完成时，同样把地址移到渲染任务
+CREATE OR REPLACE FUNCTION enqueue_video_rendition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed'
+     AND NEW.video_url IS NOT NULL
+     AND OLD.status IS DISTINCT FROM 'completed' THEN
+    INSERT INTO public.video_rendition_jobs (video_id, user_id, source_url)
+    VALUES (NEW.id, NEW.user_id, NEW.video_url)
+    ON CONFLICT (video_id) DO NOTHING;
+
+    NEW.video_url := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enqueue_video_rendition_on_complete ON public.videos;
+CREATE TRIGGER enqueue_video_rendition_on_complete
+  BEFORE UPDATE OF status ON public.videos
+  FOR EACH ROW EXECUTE FUNCTION enqueue_video_rendition();
+
+-- ============================================
+-- 4. Worker 领取任务
+-- 领取待处理任务和锁超时（Worker 崩溃）的任务，超过最大尝试次数的任务不再领取
+-- ============================================
+CREATE OR REPLACE FUNCTION claim_video_rendition_jobs(
+  p_worker_id VARCHAR(100),
+  p_limit INTEGER DEFAULT 1,
+  p_lock_timeout_minutes INTEGER DEFAULT 30
+) RETURNS TABLE (
+  job_id UUID,
+  video_id UUID,
+  user_id UUID,
+  source_url TEXT,
+  attempts INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimable AS (
+    SELECT j.id
+    FROM public.video_rendition_jobs j
+    WHERE j.attempts < j.max_attempts
+      AND (
+        j.status = 'pending'
+        OR (j.status = 'processing' AND j.locked_at < NOW() - make_interval(mins => p_lock_timeout_minutes))
+      )
+    ORDER BY j.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.video_rendition_jobs j
+  SET status = 'processing',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW()
+  FROM claimable
+  WHERE j.id = claimable.id
+  RETURNING j.id, j.video_id, j.user_id, j.source_url, j.attempts;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 5. 任务完成：记录存储路径，视频播放地址切换为带水印版本
+-- ============================================
+CREATE OR REPLACE FUNCTION complete_video_rendition_job(
+  p_job_id UUID,
+  p_original_path TEXT,
+  p_watermarked_path TEXT,
+  p_watermarked_url TEXT,
+  p_file_size BIGINT DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_video_id UUID;
+BEGIN
+  UPDATE public.video_rendition_jobs
+  SET status = 'completed',
+      original_path = p_original_path,
+      watermarked_path = p_watermarked_path,
+      last_error = NULL,
+      locked_by = NULL,
+      locked_at = NULL,
+      completed_at = NOW()
+  WHERE id = p_job_id AND status = 'processing'
+  RETURNING video_id INTO v_video_id;
+
+  IF v_video_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.videos
+  SET video_url = p_watermarked_url,
+      file_size = COALESCE(p_file_size, file_size),
+      metadata = COALESCE(metadata, '{}'::JSONB) || jsonb_build_object(
+        'renditions', jsonb_build_object(
+          'watermarkedPath', p_watermarked_path,
+          'hasOriginal', true,
+          'processedAt', NOW()
+        )
+      )
+  WHERE id = v_video_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 6. 任务失败：未超过最大尝试次数时重新排队
+-- ============================================
+CREATE OR REPLACE FUNCTION fail_video_rendition_job(
+  p_job_id UUID,
+  p_error TEXT
+) RETURNS VARCHAR AS $$
+DECLARE
+  v_status VARCHAR(20);
+BEGIN
+  UPDATE public.video_rendition_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+      last_error = LEFT(p_error, 2000),
+      locked_by = NULL,
+      locked_at = NULL
+  WHERE id = p_job_id AND status = 'processing'
+  RETURNING status INTO v_status;
+
+  RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Worker函数只允许服务端调用（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION complete_generated_video FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_video_rendition_jobs FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_video_rendition_job FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_video_rendition_job FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_generated_video TO service_role;
+GRANT EXECUTE ON FUNCTION claim_video_rendition_jobs TO service_role;
+GRANT EXECUTE ON FUNCTION complete_video_rendition_job TO service_role;
+GRANT EXECUTE ON FUNCTION fail_video_rendition_job TO service_role;
+
+-- ============================================
+-- 7. 为已完成的历史视频补建任务，带水印版本生成前不再公开原始地址
+-- ============================================
+INSERT INTO public.video_rendition_jobs (video_id, user_id, source_url)
+SELECT v.id, v.user_id, v.video_url
+FROM public.videos v
+WHERE v.status = 'completed'
+  AND v.video_url IS NOT NULL
+  AND COALESCE(v.is_deleted, false) = false
+ON CONFLICT (video_id) DO NOTHING;
+
+UPDATE public.videos v
+SET video_url = NULL
+FROM public.video_rendition_jobs j
+WHERE j.video_id = v.id
+  AND j.status = 'pending'
+  AND j.source_url = v.video_url;
+
+COMMENT ON TABLE public.video_rendition_jobs IS '视频水印/转码任务（原视频存私有桶，带水印版本存公开桶）';
+COMMENT ON FUNCTION complete_generated_video(UUID, TEXT, TEXT, JSONB) IS '上游任务完成：视频标记为完成，提供方地址写入渲染任务';
+COMMENT ON FUNCTION claim_video_rendition_jobs(VARCHAR, INTEGER, INTEGER) IS '渲染Worker领取任务';
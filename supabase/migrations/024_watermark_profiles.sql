@@ -0,0 +1,204 @@
+-- ============================================
+-- 水印配置方案
+-- Version: 024
+-- Description: 水印方案存储在 system_settings（watermark_profiles）：文字/图片 Logo、
+--              角标/平铺/移动布局，按订阅等级选择方案；渲染 Worker 为每个用到的方案
+--              生成一个版本，播放版本放公开桶，其余版本放私有桶通过签名URL下载
+-- ============================================
+
+-- ============================================
+-- 1. 水印方案配置
+-- version:         每次保存方案时递增，版本号不一致的渲染结果会在下载时重新生成
+-- playbackProfile: 公开播放（videos.video_url）使用的方案
+-- tierRules:       各订阅等级（年度计划映射到基础等级）下载自己的视频时使用的方案，null 表示原视频
+-- profiles:        type text|image，layout corner|tiled|moving，scale 为水印高度占视频高度的比例
+-- ============================================
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public)
+VALUES (
+  'watermark_profiles',
+  '{
+    "version": 1,
+    "playbackProfile": "visible",
+    "tierRules": {"free": "visible", "basic": "corner", "pro": null, "premium": null},
+    "profiles": {
+      "visible": {
+        "name": "免费版水印",
+        "type": "text",
+        "text": "veo3video.me",
+        "imageUrl": null,
+        "layout": "moving",
+        "position": "bottom-right",
+        "scale": 0.045,
+        "opacity": 0.6,
+        "tileRows": 3,
+        "tileCols": 3,
+        "moveSeconds": 8
+      },
+      "corner": {
+        "name": "基础版角标",
+        "type": "text",
+        "text": "veo3video.me",
+        "imageUrl": null,
+        "layout": "corner",
+        "position": "bottom-right",
+        "scale": 0.025,
+        "opacity": 0.5,
+        "tileRows": 3,
+        "tileCols": 3,
+        "moveSeconds": 8
+      }
+    }
+  }',
+  '水印方案（profiles 水印样式，tierRules 各订阅等级下载使用的方案，playbackProfile 公开播放使用的方案）',
+  'watermark',
+  true
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- ============================================
+-- 2. 按方案保存的渲染版本
+-- renditions: {"方案ID": {"bucket": "...", "path": "...", "version": 1}}
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('video-renditions', 'video-renditions', false, 524288000, ARRAY['video/mp4'])
+ON CONFLICT (id) DO UPDATE
+SET public = EXCLUDED.public,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+ALTER TABLE public.video_rendition_jobs
+  ADD COLUMN IF NOT EXISTS renditions JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- ============================================
+-- 3. Worker 领取任务：返回已保存的原视频和已生成的版本，只补齐缺失或过期的版本
+-- ============================================
+DROP FUNCTION IF EXISTS claim_video_rendition_jobs(VARCHAR, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION claim_video_rendition_jobs(
+  p_worker_id VARCHAR(100),
+  p_limit INTEGER DEFAULT 1,
+  p_lock_timeout_minutes INTEGER DEFAULT 30
+) RETURNS TABLE (
+  job_id UUID,
+  video_id UUID,
+  user_id UUID,
+  source_url TEXT,
+  attempts INTEGER,
+  original_path TEXT,
+  renditions JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimable AS (
+    SELECT j.id
+    FROM public.video_rendition_jobs j
+    WHERE j.attempts < j.max_attempts
+      AND (
+        j.status = 'pending'
+        OR (j.status = 'processing' AND j.locked_at < NOW() - make_interval(mins => p_lock_timeout_minutes))
+      )
+    ORDER BY j.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.video_rendition_jobs j
+  SET status = 'processing',
+      attempts = j.attempts + 1,
+      locked_by = p_worker_id,
+      locked_at = NOW()
+  FROM claimable
+  WHERE j.id = claimable.id
+  RETURNING j.id, j.video_id, j.user_id, j.source_url, j.attempts, j.original_path, j.renditions;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 4. 任务完成：合并新生成的版本；p_playback_path/p_playback_url 为空时不切换播放地址
+-- ============================================
+DROP FUNCTION IF EXISTS complete_video_rendition_job(UUID, TEXT, TEXT, TEXT, BIGINT);
+
+CREATE OR REPLACE FUNCTION complete_video_rendition_job(
+  p_job_id UUID,
+  p_original_path TEXT,
+  p_renditions JSONB,
+  p_playback_path TEXT DEFAULT NULL,
+  p_playback_url TEXT DEFAULT NULL,
+  p_file_size BIGINT DEFAULT NULL
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_video_id UUID;
+  v_renditions JSONB;
+BEGIN
+  UPDATE public.video_rendition_jobs
+  SET status = 'completed',
+      original_path = COALESCE(p_original_path, original_path),
+      watermarked_path = COALESCE(p_playback_path, watermarked_path),
+      renditions = renditions || COALESCE(p_renditions, '{}'::JSONB),
+      last_error = NULL,
+      locked_by = NULL,
+      locked_at = NULL,
+      completed_at = NOW()
+  WHERE id = p_job_id AND status = 'processing'
+  RETURNING video_id, renditions INTO v_video_id, v_renditions;
+
+  IF v_video_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.videos
+  SET video_url = COALESCE(p_playback_url, video_url),
+      file_size = COALESCE(p_file_size, file_size),
+      metadata = COALESCE(metadata, '{}'::JSONB) || jsonb_build_object(
+        'renditions', COALESCE(metadata->'renditions', '{}'::JSONB) || jsonb_build_object(
+          'hasOriginal', true,
+          'profiles', (SELECT COALESCE(jsonb_agg(key), '[]'::JSONB) FROM jsonb_object_keys(v_renditions) AS key),
+          'processedAt', NOW()
+        ) || CASE
+          WHEN p_playback_path IS NOT NULL THEN jsonb_build_object('watermarkedPath', p_playback_path)
+          ELSE '{}'::JSONB
+        END
+      )
+  WHERE id = v_video_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 重建的函数需要重新收回权限（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION claim_video_rendition_jobs FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_video_rendition_job FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_video_rendition_jobs TO service_role;
+GRANT EXECUTE ON FUNCTION complete_video_rendition_job TO service_role;
+
+-- ============================================
+-- 5. 请求补齐版本（下载时发现方案缺失或过期），处理中的任务不受影响
+-- ============================================
+CREATE OR REPLACE FUNCTION request_video_renditions(p_video_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.video_rendition_jobs
+  SET status = 'pending',
+      attempts = 0,
+      last_error = NULL
+  WHERE video_id = p_video_id
+    AND status IN ('completed', 'failed');
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION request_video_renditions FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_video_renditions TO service_role;
+
+-- ============================================
+-- 6. 023 生成的固定角标版本不属于任何方案，已完成的任务重新排队按方案生成
+--    （原视频已保存在 video-originals，不再依赖提供方地址）
+-- ============================================
+UPDATE public.video_rendition_jobs
+SET status = 'pending',
+    attempts = 0
+WHERE status = 'completed'
+  AND renditions = '{}'::JSONB;
+
+COMMENT ON COLUMN public.video_rendition_jobs.renditions IS '按水印方案生成的版本 {方案ID: {bucket, path, version}}';
+COMMENT ON FUNCTION request_video_renditions(UUID) IS '水印方案缺失或过期时重新排队生成';
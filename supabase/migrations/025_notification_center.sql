@@ -0,0 +1,331 @@
+-- ============================================
+-- 站内通知中心
+-- Version: 025
+-- Description: 新增视频完成/失败、邀请成功、积分不足、订阅续费通知类型；
+--              通知由触发器在服务端生成（SECURITY DEFINER，客户端无法伪造），
+--              data 保存前端本地化所需的参数，notifications 加入 Realtime 推送未读通知
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'video_completed';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'video_failed';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'referral_accepted';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'low_credits';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'subscription_renewed';
+
+-- data: 通知参数（视频标题、模板名称、积分数等），title/content 仅作为未翻译时的兜底文案
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS data JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON public.notifications(user_id, created_at DESC)
+  WHERE is_read = false;
+
+-- ============================================
+-- 1. 创建通知：改为 SECURITY DEFINER，只允许触发器和服务端调用
+--    （notifications 没有 INSERT 策略，原函数以调用者身份执行时会被 RLS 拒绝）
+-- ============================================
+DROP FUNCTION IF EXISTS create_notification(UUID, notification_type, TEXT, TEXT, UUID, VARCHAR, UUID);
+
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id UUID,
+  p_type notification_type,
+  p_title TEXT,
+  p_content TEXT DEFAULT NULL,
+  p_related_id UUID DEFAULT NULL,
+  p_related_type VARCHAR(50) DEFAULT NULL,
+  p_sender_id UUID DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::JSONB
+) RETURNS UUID AS $$
+DECLARE
+  notification_id UUID;
+BEGIN
+  INSERT INTO public.notifications (
+    user_id, type, title, content, related_id, related_type, sender_id, data
+  ) VALUES (
+    p_user_id, p_type, p_title, p_content, p_related_id, p_related_type, p_sender_id, COALESCE(p_data, '{}'::JSONB)
+  ) RETURNING id INTO notification_id;
+
+  RETURN notification_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 只允许服务端和触发器调用（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION create_notification FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_notification TO service_role;
+
+-- 评论通知沿用原逻辑，以函数所有者身份执行才能调用 create_notification
+ALTER FUNCTION create_comment_notification() SECURITY DEFINER;
+
+-- ============================================
+-- 2. 模板点赞通知（006 重建 template_likes 时触发器随表删除，这里重新创建）
+-- ============================================
+CREATE OR REPLACE FUNCTION create_like_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  template_author_id UUID;
+  liker_name TEXT;
+  template_name TEXT;
+BEGIN
+  SELECT t.author_id, t.name, p.username
+  INTO template_author_id, template_name, liker_name
+  FROM public.templates t
+  LEFT JOIN public.profiles p ON p.id = NEW.user_id
+  WHERE t.id = NEW.template_id;
+
+  -- 作者给自己的模板点赞不通知
+  IF template_author_id IS NOT NULL AND template_author_id != NEW.user_id THEN
+    PERFORM create_notification(
+      template_author_id,
+      'like'::notification_type,
+      COALESCE(liker_name, 'Someone') || ' liked your template',
+      'Your template "' || COALESCE(template_name, '') || '" received a new like',
+      NEW.template_id,
+      'template',
+      NEW.user_id,
+      jsonb_build_object('senderName', liker_name, 'templateName', template_name)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_like_notification ON public.template_likes;
+CREATE TRIGGER trigger_create_like_notification
+AFTER INSERT ON public.template_likes
+FOR EACH ROW EXECUTE FUNCTION create_like_notification();
+
+-- ============================================
+-- 3. 新粉丝通知
+-- ============================================
+CREATE OR REPLACE FUNCTION create_follow_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  follower_name TEXT;
+BEGIN
+  SELECT username INTO follower_name
+  FROM public.profiles
+  WHERE id = NEW.follower_id;
+
+  PERFORM create_notification(
+    NEW.following_id,
+    'follow'::notification_type,
+    COALESCE(follower_name, 'Someone') || ' started following you',
+    NULL,
+    NEW.follower_id,
+    'user',
+    NEW.follower_id,
+    jsonb_build_object('senderName', follower_name)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_follow_notification ON public.user_follows;
+CREATE TRIGGER trigger_create_follow_notification
+AFTER INSERT ON public.user_follows
+FOR EACH ROW EXECUTE FUNCTION create_follow_notification();
+
+-- ============================================
+-- 4. 视频生成完成/失败通知
+-- ============================================
+CREATE OR REPLACE FUNCTION create_video_status_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    PERFORM create_notification(
+      NEW.user_id,
+      'video_completed'::notification_type,
+      'Your video is ready',
+      NEW.title,
+      NEW.id,
+      'video',
+      NULL,
+      jsonb_build_object('videoTitle', NEW.title)
+    );
+  ELSE
+    PERFORM create_notification(
+      NEW.user_id,
+      'video_failed'::notification_type,
+      'Video generation failed',
+      NEW.title,
+      NEW.id,
+      'video',
+      NULL,
+      jsonb_build_object('videoTitle', NEW.title, 'error', LEFT(NEW.error_message, 200))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_video_status_notification ON public.videos;
+CREATE TRIGGER trigger_create_video_status_notification
+AFTER UPDATE OF status ON public.videos
+FOR EACH ROW
+WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('completed', 'failed'))
+EXECUTE FUNCTION create_video_status_notification();
+
+-- ============================================
+-- 5. 邀请成功通知（通知邀请人，accept_invitation / accept_invitation_secure 均会触发）
+-- ============================================
+CREATE OR REPLACE FUNCTION create_referral_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  invitee_name TEXT;
+BEGIN
+  SELECT username INTO invitee_name
+  FROM public.profiles
+  WHERE id = NEW.invitee_id;
+
+  PERFORM create_notification(
+    NEW.inviter_id,
+    'referral_accepted'::notification_type,
+    COALESCE(invitee_name, 'Your friend') || ' accepted your invitation',
+    'You earned ' || COALESCE(NEW.reward_credits, 0) || ' credits',
+    NEW.id,
+    'invitation',
+    NEW.invitee_id,
+    jsonb_build_object('senderName', invitee_name, 'credits', COALESCE(NEW.reward_credits, 0))
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_referral_notification ON public.invitations;
+CREATE TRIGGER trigger_create_referral_notification
+AFTER UPDATE OF status ON public.invitations
+FOR EACH ROW
+WHEN (NEW.status IS DISTINCT FROM OLD.status AND NEW.status = 'accepted')
+EXECUTE FUNCTION create_referral_notification();
+
+-- ============================================
+-- 6. 积分不足通知：余额从阈值以上降到阈值以下时通知一次
+--    阈值使用 009 中的 min_credit_balance_alert，已有未读的积分不足通知时不重复发送
+-- ============================================
+CREATE OR REPLACE FUNCTION create_low_credits_notification()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_threshold INTEGER;
+BEGIN
+  SELECT COALESCE((setting_value #>> '{}')::INTEGER, 10)
+  INTO v_threshold
+  FROM public.system_settings
+  WHERE setting_key = 'min_credit_balance_alert';
+
+  v_threshold := COALESCE(v_threshold, 10);
+
+  IF OLD.credits >= v_threshold AND NEW.credits < v_threshold
+    AND NOT EXISTS (
+      SELECT 1 FROM public.notifications
+      WHERE user_id = NEW.id
+        AND type = 'low_credits'::notification_type
+        AND is_read = false
+    )
+  THEN
+    PERFORM create_notification(
+      NEW.id,
+      'low_credits'::notification_type,
+      'Your credits are running low',
+      'Remaining credits: ' || NEW.credits,
+      NULL,
+      'credits',
+      NULL,
+      jsonb_build_object('credits', NEW.credits, 'threshold', v_threshold)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_low_credits_notification ON public.profiles;
+CREATE TRIGGER trigger_create_low_credits_notification
+AFTER UPDATE OF credits ON public.profiles
+FOR EACH ROW
+WHEN (NEW.credits < OLD.credits)
+EXECUTE FUNCTION create_low_credits_notification();
+
+UPDATE public.system_settings
+SET description = '积分余额不足警告阈值（余额低于该值时发送站内通知）'
+WHERE setting_key = 'min_credit_balance_alert';
+
+-- ============================================
+-- 7. 订阅续费通知（stripe-webhook 续费时把 action 设为 renewal 并延长周期）
+-- ============================================
+CREATE OR REPLACE FUNCTION create_subscription_renewal_notification()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM create_notification(
+    NEW.user_id,
+    'subscription_renewed'::notification_type,
+    'Your subscription has been renewed',
+    NULL,
+    NEW.id,
+    'subscription',
+    NULL,
+    jsonb_build_object('tier', NEW.tier::TEXT, 'periodEnd', NEW.current_period_end)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_create_subscription_renewal_notification ON public.subscriptions;
+CREATE TRIGGER trigger_create_subscription_renewal_notification
+AFTER UPDATE OF current_period_end ON public.subscriptions
+FOR EACH ROW
+WHEN (
+  NEW.action = 'renewal'
+  AND NEW.status = 'active'
+  AND NEW.current_period_end > OLD.current_period_end
+)
+EXECUTE FUNCTION create_subscription_renewal_notification();
+
+-- ============================================
+-- 8. 标记已读：p_ids 为空时标记全部未读通知，返回更新的条数
+-- ============================================
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids UUID[] DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.notifications
+  SET is_read = true,
+      read_at = NOW()
+  WHERE user_id = auth.uid()
+    AND is_read = false
+    AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION mark_notifications_read FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_notifications_read TO authenticated;
+
+-- ============================================
+-- 9. Realtime：客户端订阅自己的新通知（按 RLS 只推送本人的行）
+-- ============================================
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN public.notifications.data IS '通知参数，前端按 type 本地化显示';
+COMMENT ON FUNCTION mark_notifications_read(UUID[]) IS '标记当前用户的通知为已读，参数为空时全部标记';
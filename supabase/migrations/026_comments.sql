@@ -0,0 +1,507 @@
+-- ============================================
+-- 模板和视频评论
+-- Version: 026
+-- Description: 两级楼中楼评论（回复的回复挂到顶层评论下），发表/编辑/删除统一经过 comments Edge Function
+--              （按用户限流，模板评论数通过计数器事件 template_comment 更新），
+--              视频评论新增点赞表，读取和点赞由客户端直接调用 RPC
+-- ============================================
+
+-- ============================================
+-- 1. 评论限流配置（两张评论表合计）
+-- ============================================
+INSERT INTO public.system_settings (setting_key, setting_value, description, category, is_public)
+VALUES (
+  'comment_rate_limits',
+  '{"perMinute": 5, "perHour": 60}',
+  '单用户发表评论频率限制（perMinute 每分钟，perHour 每小时）',
+  'limits',
+  false
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+-- ============================================
+-- 2. 视频评论点赞
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.video_comment_likes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  comment_id UUID NOT NULL REFERENCES public.video_comments(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, comment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_comment_likes_comment_id ON public.video_comment_likes(comment_id);
+
+ALTER TABLE public.video_comment_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view video comment likes" ON public.video_comment_likes
+  FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION update_video_comment_like_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.video_comments
+    SET like_count = like_count + 1
+    WHERE id = NEW.comment_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.video_comments
+    SET like_count = GREATEST(0, like_count - 1)
+    WHERE id = OLD.comment_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_video_comment_like_count ON public.video_comment_likes;
+CREATE TRIGGER trigger_update_video_comment_like_count
+AFTER INSERT OR DELETE ON public.video_comment_likes
+FOR EACH ROW EXECUTE FUNCTION update_video_comment_like_count();
+
+-- 评论和点赞只能通过下面的函数写入（限流、校验楼层），移除客户端直接写入的策略
+DROP POLICY IF EXISTS "Users can create comments" ON public.template_comments;
+DROP POLICY IF EXISTS "Users can update own comments" ON public.template_comments;
+DROP POLICY IF EXISTS "Users can soft delete own comments" ON public.template_comments;
+DROP POLICY IF EXISTS "Users can manage own comment likes" ON public.comment_likes;
+DROP POLICY IF EXISTS "Users can create video comments" ON public.video_comments;
+DROP POLICY IF EXISTS "Users can update own video comments" ON public.video_comments;
+
+CREATE INDEX IF NOT EXISTS idx_template_comments_template_created
+  ON public.template_comments(template_id, created_at DESC) WHERE parent_comment_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_video_comments_video_created
+  ON public.video_comments(video_id, created_at DESC) WHERE parent_comment_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_template_comments_user_created ON public.template_comments(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_video_comments_user_created ON public.video_comments(user_id, created_at DESC);
+
+-- ============================================
+-- 3. 模板计数器：评论数改由计数器事件（batch-update-counters）更新，
+--    移除评论表上的计数触发器，避免重复计数；视频评论数仍由触发器维护
+-- ============================================
+DROP TRIGGER IF EXISTS trigger_update_template_comment_count ON public.template_comments;
+
+CREATE OR REPLACE FUNCTION update_template_counters_atomic(
+  p_template_id UUID,
+  p_like_delta INTEGER DEFAULT 0,
+  p_comment_delta INTEGER DEFAULT 0,
+  p_view_delta INTEGER DEFAULT 0,
+  p_usage_delta INTEGER DEFAULT 0,
+  p_share_delta INTEGER DEFAULT 0
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.templates
+  SET like_count = GREATEST(0, COALESCE(like_count, 0) + p_like_delta),
+      comment_count = GREATEST(0, COALESCE(comment_count, 0) + p_comment_delta),
+      view_count = GREATEST(0, COALESCE(view_count, 0) + p_view_delta),
+      usage_count = GREATEST(0, COALESCE(usage_count, 0) + p_usage_delta),
+      share_count = GREATEST(0, COALESCE(share_count, 0) + p_share_delta)
+  WHERE id = p_template_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 只允许计数器批处理调用（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION update_template_counters_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_template_counters_atomic TO service_role;
+
+-- ============================================
+-- 4. 发表评论（comments Edge Function 调用）
+-- p_target_type: template | video；p_parent_id 为回复的评论，回复的回复挂到顶层评论下
+-- 超出频率限制抛出 COMMENT_RATE_LIMITED，目标不存在或不公开抛出 COMMENT_TARGET_NOT_FOUND
+-- ============================================
+CREATE OR REPLACE FUNCTION post_comment(
+  p_user_id UUID,
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_content TEXT,
+  p_parent_id UUID DEFAULT NULL
+) RETURNS TABLE (
+  comment_id UUID,
+  root_comment_id UUID
+) AS $$
+DECLARE
+  v_limits JSONB;
+  v_recent_minute INTEGER;
+  v_recent_hour INTEGER;
+  v_parent_id UUID;
+  v_comment_id UUID;
+  v_content TEXT := btrim(p_content);
+BEGIN
+  IF v_content IS NULL OR LENGTH(v_content) = 0 OR LENGTH(v_content) > 1000 THEN
+    RAISE EXCEPTION 'COMMENT_INVALID_CONTENT';
+  END IF;
+
+  SELECT setting_value INTO v_limits
+  FROM public.system_settings
+  WHERE setting_key = 'comment_rate_limits';
+
+  SELECT
+    COUNT(*) FILTER (WHERE c.created_at > NOW() - INTERVAL '1 minute'),
+    COUNT(*)
+  INTO v_recent_minute, v_recent_hour
+  FROM (
+    SELECT created_at FROM public.template_comments
+    WHERE user_id = p_user_id AND created_at > NOW() - INTERVAL '1 hour'
+    UNION ALL
+    SELECT created_at FROM public.video_comments
+    WHERE user_id = p_user_id AND created_at > NOW() - INTERVAL '1 hour'
+  ) c;
+
+  IF v_recent_minute >= COALESCE((v_limits->>'perMinute')::INTEGER, 5)
+    OR v_recent_hour >= COALESCE((v_limits->>'perHour')::INTEGER, 60)
+  THEN
+    RAISE EXCEPTION 'COMMENT_RATE_LIMITED';
+  END IF;
+
+  IF p_target_type = 'template' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.templates WHERE id = p_target_id AND is_public = true) THEN
+      RAISE EXCEPTION 'COMMENT_TARGET_NOT_FOUND';
+    END IF;
+
+    IF p_parent_id IS NOT NULL THEN
+      SELECT COALESCE(tc.parent_comment_id, tc.id) INTO v_parent_id
+      FROM public.template_comments tc
+      WHERE tc.id = p_parent_id AND tc.template_id = p_target_id;
+
+      IF v_parent_id IS NULL THEN
+        RAISE EXCEPTION 'COMMENT_TARGET_NOT_FOUND';
+      END IF;
+    END IF;
+
+    INSERT INTO public.template_comments (template_id, user_id, parent_comment_id, content)
+    VALUES (p_target_id, p_user_id, v_parent_id, v_content)
+    RETURNING id INTO v_comment_id;
+  ELSIF p_target_type = 'video' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE id = p_target_id AND is_public = true AND status = 'completed' AND COALESCE(is_deleted, false) = false
+    ) THEN
+      RAISE EXCEPTION 'COMMENT_TARGET_NOT_FOUND';
+    END IF;
+
+    IF p_parent_id IS NOT NULL THEN
+      SELECT COALESCE(vc.parent_comment_id, vc.id) INTO v_parent_id
+      FROM public.video_comments vc
+      WHERE vc.id = p_parent_id AND vc.video_id = p_target_id;
+
+      IF v_parent_id IS NULL THEN
+        RAISE EXCEPTION 'COMMENT_TARGET_NOT_FOUND';
+      END IF;
+    END IF;
+
+    INSERT INTO public.video_comments (video_id, user_id, parent_comment_id, content)
+    VALUES (p_target_id, p_user_id, v_parent_id, v_content)
+    RETURNING id INTO v_comment_id;
+  ELSE
+    RAISE EXCEPTION 'COMMENT_INVALID_TARGET';
+  END IF;
+
+  RETURN QUERY SELECT v_comment_id, v_parent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 5. 编辑评论：只有作者本人可以编辑未删除的评论
+-- ============================================
+CREATE OR REPLACE FUNCTION edit_comment(
+  p_user_id UUID,
+  p_target_type TEXT,
+  p_comment_id UUID,
+  p_content TEXT
+) RETURNS BOOLEAN AS $$
+DECLARE
+  v_content TEXT := btrim(p_content);
+BEGIN
+  IF v_content IS NULL OR LENGTH(v_content) = 0 OR LENGTH(v_content) > 1000 THEN
+    RAISE EXCEPTION 'COMMENT_INVALID_CONTENT';
+  END IF;
+
+  IF p_target_type = 'template' THEN
+    UPDATE public.template_comments
+    SET content = v_content, is_edited = true
+    WHERE id = p_comment_id AND user_id = p_user_id AND is_deleted = false;
+  ELSIF p_target_type = 'video' THEN
+    UPDATE public.video_comments
+    SET content = v_content, is_edited = true
+    WHERE id = p_comment_id AND user_id = p_user_id AND is_deleted = false;
+  ELSE
+    RAISE EXCEPTION 'COMMENT_INVALID_TARGET';
+  END IF;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- 6. 删除评论（软删除）：评论作者、模板作者/视频作者或管理员可以删除
+-- 返回被删除评论所属的模板/视频ID，未删除时返回空
+-- ============================================
+CREATE OR REPLACE FUNCTION delete_comment(
+  p_user_id UUID,
+  p_target_type TEXT,
+  p_comment_id UUID
+) RETURNS UUID AS $$
+DECLARE
+  v_is_admin BOOLEAN;
+  v_target_id UUID;
+BEGIN
+  SELECT role IN ('admin', 'super_admin') INTO v_is_admin
+  FROM public.profiles
+  WHERE id = p_user_id;
+
+  IF p_target_type = 'template' THEN
+    UPDATE public.template_comments tc
+    SET is_deleted = true, deleted_at = NOW()
+    FROM public.templates t
+    WHERE tc.id = p_comment_id
+      AND tc.is_deleted = false
+      AND t.id = tc.template_id
+      AND (tc.user_id = p_user_id OR t.author_id = p_user_id OR COALESCE(v_is_admin, false))
+    RETURNING tc.template_id INTO v_target_id;
+  ELSIF p_target_type = 'video' THEN
+    UPDATE public.video_comments vc
+    SET is_deleted = true, deleted_at = NOW()
+    FROM public.videos v
+    WHERE vc.id = p_comment_id
+      AND vc.is_deleted = false
+      AND v.id = vc.video_id
+      AND (vc.user_id = p_user_id OR v.user_id = p_user_id OR COALESCE(v_is_admin, false))
+    RETURNING vc.video_id INTO v_target_id;
+  ELSE
+    RAISE EXCEPTION 'COMMENT_INVALID_TARGET';
+  END IF;
+
+  RETURN v_target_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_user_id 由 comments Edge Function 根据调用方 token 传入，只允许服务端调用
+REVOKE EXECUTE ON FUNCTION post_comment FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION edit_comment FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_comment FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION post_comment TO service_role;
+GRANT EXECUTE ON FUNCTION edit_comment TO service_role;
+GRANT EXECUTE ON FUNCTION delete_comment TO service_role;
+
+-- ============================================
+-- 7. 读取评论：p_parent_id 为空时按时间倒序返回顶层评论，否则按时间正序返回该评论的回复
+-- 已删除但仍有回复的顶层评论保留楼层（content 为空），is_liked 为当前登录用户是否点赞
+-- ============================================
+CREATE OR REPLACE FUNCTION get_comments(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_parent_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  parent_comment_id UUID,
+  user_id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  content TEXT,
+  is_owner_reply BOOLEAN,
+  like_count INTEGER,
+  reply_count INTEGER,
+  is_liked BOOLEAN,
+  is_edited BOOLEAN,
+  is_deleted BOOLEAN,
+  created_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+BEGIN
+  IF p_target_type = 'template' THEN
+    RETURN QUERY
+    SELECT
+      c.id,
+      c.parent_comment_id,
+      c.user_id,
+      p.username::TEXT,
+      p.full_name::TEXT,
+      p.avatar_url::TEXT,
+      CASE WHEN c.is_deleted THEN NULL ELSE c.content END,
+      COALESCE(c.is_author_reply, false),
+      COALESCE(c.like_count, 0),
+      r.reply_count,
+      EXISTS (SELECT 1 FROM public.comment_likes l WHERE l.comment_id = c.id AND l.user_id = auth.uid()),
+      COALESCE(c.is_edited, false),
+      COALESCE(c.is_deleted, false),
+      c.created_at
+    FROM public.template_comments c
+    LEFT JOIN public.profiles p ON p.id = c.user_id
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*)::INTEGER AS reply_count
+      FROM public.template_comments rc
+      WHERE rc.parent_comment_id = c.id AND rc.is_deleted = false
+    ) r
+    WHERE c.template_id = p_target_id
+      AND (
+        (p_parent_id IS NULL AND c.parent_comment_id IS NULL AND (c.is_deleted = false OR r.reply_count > 0))
+        OR (p_parent_id IS NOT NULL AND c.parent_comment_id = p_parent_id AND c.is_deleted = false)
+      )
+    ORDER BY
+      CASE WHEN p_parent_id IS NULL THEN c.created_at END DESC,
+      CASE WHEN p_parent_id IS NOT NULL THEN c.created_at END ASC
+    LIMIT LEAST(p_limit, 100) OFFSET p_offset;
+  ELSIF p_target_type = 'video' THEN
+    RETURN QUERY
+    SELECT
+      c.id,
+      c.parent_comment_id,
+      c.user_id,
+      p.username::TEXT,
+      p.full_name::TEXT,
+      p.avatar_url::TEXT,
+      CASE WHEN c.is_deleted THEN NULL ELSE c.content END,
+      COALESCE(c.is_owner_reply, false),
+      COALESCE(c.like_count, 0),
+      r.reply_count,
+      EXISTS (SELECT 1 FROM public.video_comment_likes l WHERE l.comment_id = c.id AND l.user_id = auth.uid()),
+      COALESCE(c.is_edited, false),
+      COALESCE(c.is_deleted, false),
+      c.created_at
+    FROM public.video_comments c
+    LEFT JOIN public.profiles p ON p.id = c.user_id
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*)::INTEGER AS reply_count
+      FROM public.video_comments rc
+      WHERE rc.parent_comment_id = c.id AND rc.is_deleted = false
+    ) r
+    WHERE c.video_id = p_target_id
+      AND EXISTS (SELECT 1 FROM public.videos v WHERE v.id = p_target_id AND v.is_public = true)
+      AND (
+        (p_parent_id IS NULL AND c.parent_comment_id IS NULL AND (c.is_deleted = false OR r.reply_count > 0))
+        OR (p_parent_id IS NOT NULL AND c.parent_comment_id = p_parent_id AND c.is_deleted = false)
+      )
+    ORDER BY
+      CASE WHEN p_parent_id IS NULL THEN c.created_at END DESC,
+      CASE WHEN p_parent_id IS NOT NULL THEN c.created_at END ASC
+    LIMIT LEAST(p_limit, 100) OFFSET p_offset;
+  ELSE
+    RAISE EXCEPTION 'COMMENT_INVALID_TARGET';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_comments TO anon, authenticated;
+
+-- ============================================
+-- 8. 评论点赞切换，返回切换后的状态和点赞数
+-- ============================================
+CREATE OR REPLACE FUNCTION toggle_comment_like(
+  p_target_type TEXT,
+  p_comment_id UUID
+) RETURNS TABLE (
+  liked BOOLEAN,
+  like_count INTEGER
+) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_liked BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_target_type = 'template' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.template_comments WHERE id = p_comment_id AND is_deleted = false) THEN
+      RAISE EXCEPTION 'COMMENT_TARGET_NOT_FOUND';
+    END IF;
+
+    DELETE FROM public.comment_likes WHERE comment_id = p_comment_id AND user_id = v_user_id;
+    v_liked := NOT FOUND;
+    IF v_liked THEN
+      INSERT INTO public.comment_likes (user_id, comment_id) VALUES (v_user_id, p_comment_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT v_liked, COALESCE(c.like_count, 0) FROM public.template_comments c WHERE c.id = p_comment_id;
+  ELSIF p_target_type = 'video' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.video_comments WHERE id = p_comment_id AND is_deleted = false) THEN
+      RAISE EXCEPTION 'COMMENT_TARGET_NOT_FOUND';
+    END IF;
+
+    DELETE FROM public.video_comment_likes WHERE comment_id = p_comment_id AND user_id = v_user_id;
+    v_liked := NOT FOUND;
+    IF v_liked THEN
+      INSERT INTO public.video_comment_likes (user_id, comment_id) VALUES (v_user_id, p_comment_id);
+    END IF;
+
+    RETURN QUERY
+    SELECT v_liked, COALESCE(c.like_count, 0) FROM public.video_comments c WHERE c.id = p_comment_id;
+  ELSE
+    RAISE EXCEPTION 'COMMENT_INVALID_TARGET';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION toggle_comment_like FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION toggle_comment_like TO authenticated;
+
+-- ============================================
+-- 9. 公开视频页返回评论数（在 021 的基础上增加 comment_count）
+-- ============================================
+DROP FUNCTION IF EXISTS get_public_video(UUID);
+
+CREATE OR REPLACE FUNCTION get_public_video(p_video_id UUID)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  title TEXT,
+  description TEXT,
+  prompt TEXT,
+  video_url TEXT,
+  thumbnail_url TEXT,
+  duration INTEGER,
+  resolution VARCHAR(20),
+  parameters JSONB,
+  template_id TEXT,
+  is_public BOOLEAN,
+  view_count INTEGER,
+  like_count INTEGER,
+  share_count INTEGER,
+  comment_count INTEGER,
+  created_at TIMESTAMPTZ,
+  creator_username TEXT,
+  creator_full_name TEXT,
+  creator_avatar_url TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.user_id,
+    v.title,
+    v.description,
+    v.prompt,
+    v.video_url,
+    v.thumbnail_url,
+    v.duration,
+    v.resolution,
+    v.parameters,
+    v.metadata->>'templateId',
+    v.is_public,
+    COALESCE(v.view_count, 0),
+    COALESCE(v.like_count, 0),
+    COALESCE(v.share_count, 0),
+    COALESCE(v.comment_count, 0),
+    v.created_at,
+    p.username,
+    p.full_name,
+    p.avatar_url
+  FROM public.videos v
+  LEFT JOIN public.profiles p ON p.id = v.user_id
+  WHERE v.id = p_video_id
+    AND v.status = 'completed'
+    AND v.video_url IS NOT NULL
+    AND COALESCE(v.is_deleted, false) = false
+    AND (v.is_public = true OR v.user_id = auth.uid());
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_public_video TO anon, authenticated;
+
+COMMENT ON TABLE public.video_comment_likes IS '视频评论点赞';
+COMMENT ON FUNCTION post_comment(UUID, TEXT, UUID, TEXT, UUID) IS '发表评论（限流，回复的回复挂到顶层评论下）';
+COMMENT ON FUNCTION get_comments(TEXT, UUID, UUID, INTEGER, INTEGER) IS '分页读取顶层评论或某条评论的回复';
@@ -0,0 +1,537 @@
+-- ============================================
+-- 收藏夹
+-- Version: 027
+-- Description: 模板和公开视频可以收藏到命名收藏夹（template_favorites / video_favorites 的 folder_name），
+--              收藏夹可以通过站内短链接分享（/collections/{share_token}），
+--              收藏数由触发器维护，客户端通过 RPC 收藏/取消收藏（校验目标是否公开）
+-- ============================================
+
+-- ============================================
+-- 1. 收藏夹表
+-- 收藏记录的 folder_name 引用收藏夹名称，重命名和删除收藏夹时级联到收藏记录
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.favorite_collections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL CHECK (name = btrim(name) AND char_length(name) BETWEEN 1 AND 50),
+  share_token VARCHAR(16) UNIQUE,        -- 非空表示已开启分享
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_favorite_collections_user ON public.favorite_collections(user_id, updated_at DESC);
+
+ALTER TABLE public.favorite_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own collections" ON public.favorite_collections
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own collections" ON public.favorite_collections
+  FOR INSERT WITH CHECK (auth.uid() = user_id AND share_token IS NULL);
+
+CREATE POLICY "Users can rename own collections" ON public.favorite_collections
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own collections" ON public.favorite_collections
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- 分享令牌只能由 set_collection_sharing 生成
+CREATE OR REPLACE FUNCTION protect_collection_share_token()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.share_token IS DISTINCT FROM OLD.share_token
+    AND current_setting('app.collection_sharing', true) IS DISTINCT FROM 'on'
+  THEN
+    NEW.share_token := OLD.share_token;
+  END IF;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_collection_share_token ON public.favorite_collections;
+CREATE TRIGGER trigger_protect_collection_share_token
+BEFORE UPDATE ON public.favorite_collections
+FOR EACH ROW EXECUTE FUNCTION protect_collection_share_token();
+
+-- ============================================
+-- 2. 收藏记录关联收藏夹
+-- ============================================
+ALTER TABLE public.template_favorites
+ADD COLUMN IF NOT EXISTS folder_name VARCHAR(50) DEFAULT 'default';
+
+UPDATE public.template_favorites SET folder_name = 'default' WHERE folder_name IS NULL;
+UPDATE public.video_favorites SET folder_name = 'default' WHERE folder_name IS NULL OR btrim(folder_name) = '';
+UPDATE public.video_favorites SET folder_name = btrim(folder_name) WHERE folder_name <> btrim(folder_name);
+
+-- 为已有收藏补齐收藏夹
+INSERT INTO public.favorite_collections (user_id, name)
+SELECT DISTINCT user_id, folder_name FROM public.template_favorites
+UNION
+SELECT DISTINCT user_id, folder_name FROM public.video_favorites
+ON CONFLICT (user_id, name) DO NOTHING;
+
+ALTER TABLE public.template_favorites ALTER COLUMN folder_name SET NOT NULL;
+ALTER TABLE public.video_favorites ALTER COLUMN folder_name SET NOT NULL;
+
+ALTER TABLE public.template_favorites
+DROP CONSTRAINT IF EXISTS template_favorites_collection_fkey,
+ADD CONSTRAINT template_favorites_collection_fkey
+  FOREIGN KEY (user_id, folder_name) REFERENCES public.favorite_collections(user_id, name)
+  ON UPDATE CASCADE ON DELETE CASCADE;
+
+ALTER TABLE public.video_favorites
+DROP CONSTRAINT IF EXISTS video_favorites_collection_fkey,
+ADD CONSTRAINT video_favorites_collection_fkey
+  FOREIGN KEY (user_id, folder_name) REFERENCES public.favorite_collections(user_id, name)
+  ON UPDATE CASCADE ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_template_favorites_collection ON public.template_favorites(user_id, folder_name, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_video_favorites_collection ON public.video_favorites(user_id, folder_name, created_at DESC);
+
+-- 收藏只能通过 add_favorite / remove_favorite 写入（校验目标是否公开），移除客户端直接写入的策略
+DROP POLICY IF EXISTS "Users can manage own favorites" ON public.template_favorites;
+DROP POLICY IF EXISTS "Users can manage own video favorites" ON public.video_favorites;
+
+-- ============================================
+-- 3. 收藏数
+-- 非作者收藏时也要能更新计数，触发器函数改为 SECURITY DEFINER
+-- ============================================
+ALTER FUNCTION update_template_favorite_count() SECURITY DEFINER;
+
+ALTER TABLE public.videos
+ADD COLUMN IF NOT EXISTS favorite_count INTEGER DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION update_video_favorite_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.videos
+    SET favorite_count = COALESCE(favorite_count, 0) + 1
+    WHERE id = NEW.video_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE public.videos
+    SET favorite_count = GREATEST(0, COALESCE(favorite_count, 0) - 1)
+    WHERE id = OLD.video_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_video_favorite_count ON public.video_favorites;
+CREATE TRIGGER trigger_update_video_favorite_count
+AFTER INSERT OR DELETE ON public.video_favorites
+FOR EACH ROW EXECUTE FUNCTION update_video_favorite_count();
+
+-- 校准已有计数
+UPDATE public.templates t
+SET favorite_count = (SELECT COUNT(*) FROM public.template_favorites f WHERE f.template_id = t.id);
+
+UPDATE public.videos v
+SET favorite_count = (SELECT COUNT(*) FROM public.video_favorites f WHERE f.video_id = v.id)
+WHERE EXISTS (SELECT 1 FROM public.video_favorites f WHERE f.video_id = v.id);
+
+-- ============================================
+-- 4. 收藏到收藏夹（已收藏时移动到新收藏夹），返回最新收藏数
+-- 目标不存在或不公开抛出 FAVORITE_TARGET_NOT_FOUND，收藏夹数量超限抛出 COLLECTION_LIMIT_REACHED
+-- ============================================
+CREATE OR REPLACE FUNCTION add_favorite(
+  p_target_type TEXT,
+  p_target_id UUID,
+  p_collection_name TEXT DEFAULT 'default'
+) RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_name TEXT := COALESCE(NULLIF(btrim(p_collection_name), ''), 'default');
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF char_length(v_name) > 50 THEN
+    RAISE EXCEPTION 'COLLECTION_INVALID_NAME';
+  END IF;
+
+  IF p_target_type = 'template' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.templates WHERE id = p_target_id AND is_public = true) THEN
+      RAISE EXCEPTION 'FAVORITE_TARGET_NOT_FOUND';
+    END IF;
+  ELSIF p_target_type = 'video' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.videos
+      WHERE id = p_target_id
+        AND status = 'completed'
+        AND COALESCE(is_deleted, false) = false
+        AND (is_public = true OR user_id = v_user_id)
+    ) THEN
+      RAISE EXCEPTION 'FAVORITE_TARGET_NOT_FOUND';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'FAVORITE_TARGET_NOT_FOUND';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.favorite_collections WHERE user_id = v_user_id AND name = v_name) THEN
+    IF (SELECT COUNT(*) FROM public.favorite_collections WHERE user_id = v_user_id) >= 50 THEN
+      RAISE EXCEPTION 'COLLECTION_LIMIT_REACHED';
+    END IF;
+
+    INSERT INTO public.favorite_collections (user_id, name)
+    VALUES (v_user_id, v_name)
+    ON CONFLICT (user_id, name) DO NOTHING;
+  END IF;
+
+  IF p_target_type = 'template' THEN
+    INSERT INTO public.template_favorites (user_id, template_id, folder_name)
+    VALUES (v_user_id, p_target_id, v_name)
+    ON CONFLICT (user_id, template_id) DO UPDATE SET folder_name = EXCLUDED.folder_name;
+
+    SELECT COALESCE(favorite_count, 0) INTO v_count FROM public.templates WHERE id = p_target_id;
+  ELSE
+    INSERT INTO public.video_favorites (user_id, video_id, folder_name)
+    VALUES (v_user_id, p_target_id, v_name)
+    ON CONFLICT (video_id, user_id) DO UPDATE SET folder_name = EXCLUDED.folder_name;
+
+    SELECT COALESCE(favorite_count, 0) INTO v_count FROM public.videos WHERE id = p_target_id;
+  END IF;
+
+  UPDATE public.favorite_collections
+  SET updated_at = NOW()
+  WHERE user_id = v_user_id AND name = v_name;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION add_favorite TO authenticated;
+
+-- ============================================
+-- 5. 取消收藏，返回最新收藏数
+-- ============================================
+CREATE OR REPLACE FUNCTION remove_favorite(
+  p_target_type TEXT,
+  p_target_id UUID
+) RETURNS INTEGER AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_target_type = 'template' THEN
+    DELETE FROM public.template_favorites WHERE user_id = v_user_id AND template_id = p_target_id;
+    SELECT COALESCE(favorite_count, 0) INTO v_count FROM public.templates WHERE id = p_target_id;
+  ELSIF p_target_type = 'video' THEN
+    DELETE FROM public.video_favorites WHERE user_id = v_user_id AND video_id = p_target_id;
+    SELECT COALESCE(favorite_count, 0) INTO v_count FROM public.videos WHERE id = p_target_id;
+  ELSE
+    RAISE EXCEPTION 'FAVORITE_TARGET_NOT_FOUND';
+  END IF;
+
+  RETURN COALESCE(v_count, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION remove_favorite TO authenticated;
+
+-- ============================================
+-- 6. 当前用户的收藏夹列表（含模板数、视频数和封面）
+-- ============================================
+CREATE OR REPLACE FUNCTION get_favorite_collections()
+RETURNS TABLE (
+  id UUID,
+  name VARCHAR(50),
+  share_token VARCHAR(16),
+  template_count INTEGER,
+  video_count INTEGER,
+  cover_url TEXT,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.name,
+    c.share_token,
+    (SELECT COUNT(*)::INTEGER FROM public.template_favorites tf
+      WHERE tf.user_id = c.user_id AND tf.folder_name = c.name),
+    (SELECT COUNT(*)::INTEGER FROM public.video_favorites vf
+      WHERE vf.user_id = c.user_id AND vf.folder_name = c.name),
+    (SELECT v.thumbnail_url FROM public.video_favorites vf
+      JOIN public.videos v ON v.id = vf.video_id
+      WHERE vf.user_id = c.user_id AND vf.folder_name = c.name
+        AND v.thumbnail_url IS NOT NULL AND COALESCE(v.is_deleted, false) = false
+      ORDER BY vf.created_at DESC
+      LIMIT 1),
+    c.updated_at
+  FROM public.favorite_collections c
+  WHERE c.user_id = auth.uid()
+  ORDER BY (c.name = 'default') DESC, c.updated_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_favorite_collections TO authenticated;
+
+-- ============================================
+-- 7. 收藏夹内容（收藏者本人，或已开启分享的收藏夹）
+-- 他人查看时只返回公开模板和公开视频
+-- ============================================
+CREATE OR REPLACE FUNCTION get_collection_items(
+  p_collection_id UUID,
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  item_type TEXT,
+  item_id UUID,
+  title TEXT,
+  thumbnail_url TEXT,
+  creator_username TEXT,
+  favorited_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_collection RECORD;
+  v_is_owner BOOLEAN;
+BEGIN
+  SELECT c.user_id, c.name, c.share_token INTO v_collection
+  FROM public.favorite_collections c
+  WHERE c.id = p_collection_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_is_owner := v_collection.user_id = auth.uid();
+  IF NOT v_is_owner AND v_collection.share_token IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT items.item_type, items.item_id, items.title, items.thumbnail_url, items.creator_username, items.favorited_at
+  FROM (
+    SELECT
+      'template'::TEXT AS item_type,
+      t.id AS item_id,
+      t.name::TEXT AS title,
+      t.thumbnail_url::TEXT AS thumbnail_url,
+      p.username::TEXT AS creator_username,
+      tf.created_at AS favorited_at
+    FROM public.template_favorites tf
+    JOIN public.templates t ON t.id = tf.template_id
+    LEFT JOIN public.profiles p ON p.id = t.author_id
+    WHERE tf.user_id = v_collection.user_id
+      AND tf.folder_name = v_collection.name
+      AND (v_is_owner OR t.is_public = true)
+
+    UNION ALL
+
+    SELECT
+      'video'::TEXT,
+      v.id,
+      v.title::TEXT,
+      v.thumbnail_url::TEXT,
+      p.username::TEXT,
+      vf.created_at
+    FROM public.video_favorites vf
+    JOIN public.videos v ON v.id = vf.video_id
+    LEFT JOIN public.profiles p ON p.id = v.user_id
+    WHERE vf.user_id = v_collection.user_id
+      AND vf.folder_name = v_collection.name
+      AND COALESCE(v.is_deleted, false) = false
+      AND (v_is_owner OR (v.is_public = true AND v.status = 'completed'))
+  ) items
+  ORDER BY items.favorited_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_collection_items TO anon, authenticated;
+
+-- ============================================
+-- 8. 通过分享令牌获取收藏夹信息
+-- ============================================
+CREATE OR REPLACE FUNCTION get_shared_collection(p_share_token VARCHAR(16))
+RETURNS TABLE (
+  id UUID,
+  name VARCHAR(50),
+  owner_id UUID,
+  owner_username TEXT,
+  owner_full_name TEXT,
+  owner_avatar_url TEXT,
+  updated_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT c.id, c.name, c.user_id, p.username::TEXT, p.full_name::TEXT, p.avatar_url::TEXT, c.updated_at
+  FROM public.favorite_collections c
+  JOIN public.profiles p ON p.id = c.user_id
+  WHERE c.share_token = p_share_token;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_shared_collection TO anon, authenticated;
+
+-- ============================================
+-- 9. 开启/关闭收藏夹分享
+-- 开启时生成分享令牌（已开启则复用），关闭时清空令牌并停用指向该收藏夹的短链接
+-- ============================================
+CREATE OR REPLACE FUNCTION set_collection_sharing(
+  p_collection_id UUID,
+  p_enabled BOOLEAN
+) RETURNS VARCHAR AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_token VARCHAR(16);
+  v_alphabet TEXT := 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_attempt INTEGER := 0;
+BEGIN
+  SELECT share_token INTO v_token
+  FROM public.favorite_collections
+  WHERE id = p_collection_id AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'COLLECTION_NOT_FOUND';
+  END IF;
+
+  PERFORM set_config('app.collection_sharing', 'on', true);
+
+  IF NOT p_enabled THEN
+    IF v_token IS NOT NULL THEN
+      UPDATE public.short_links
+      SET is_active = false
+      WHERE link_type = 'collection' AND resource_id = v_token;
+
+      UPDATE public.favorite_collections SET share_token = NULL WHERE id = p_collection_id;
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  IF v_token IS NOT NULL THEN
+    RETURN v_token;
+  END IF;
+
+  LOOP
+    v_attempt := v_attempt + 1;
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1), '')
+    INTO v_token
+    FROM generate_series(1, 12);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.favorite_collections c WHERE c.share_token = v_token);
+
+    IF v_attempt >= 5 THEN
+      RAISE EXCEPTION 'Failed to generate unique share token';
+    END IF;
+  END LOOP;
+
+  UPDATE public.favorite_collections SET share_token = v_token WHERE id = p_collection_id;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION set_collection_sharing TO authenticated;
+
+-- ============================================
+-- 10. 短链接支持收藏夹分享（resource_id 为分享令牌）
+-- ============================================
+ALTER TABLE public.short_links DROP CONSTRAINT IF EXISTS short_links_link_type_check;
+ALTER TABLE public.short_links
+ADD CONSTRAINT short_links_link_type_check CHECK (link_type IN ('video_share', 'referral', 'collection'));
+
+CREATE OR REPLACE FUNCTION create_short_link(
+  p_link_type VARCHAR(20),
+  p_resource_id TEXT,
+  p_channel VARCHAR(30) DEFAULT 'link',
+  p_expires_in_days INTEGER DEFAULT NULL
+) RETURNS TABLE (code VARCHAR, target_url TEXT, expires_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_target TEXT;
+  v_code VARCHAR(16);
+  v_channel VARCHAR(30) := LOWER(COALESCE(NULLIF(TRIM(p_channel), ''), 'link'));
+  v_expires_at TIMESTAMPTZ;
+  v_alphabet TEXT := 'abcdefghijkmnopqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_attempt INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_link_type = 'video_share' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.videos v
+      WHERE v.id::TEXT = p_resource_id
+        AND COALESCE(v.is_deleted, false) = false
+        AND (v.is_public = true OR v.user_id = v_user_id)
+    ) THEN
+      RAISE EXCEPTION 'Video not found or not shareable';
+    END IF;
+    v_target := '/video/' || p_resource_id;
+  ELSIF p_link_type = 'referral' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.id = v_user_id AND p.referral_code = p_resource_id
+    ) THEN
+      RAISE EXCEPTION 'Referral code does not belong to current user';
+    END IF;
+    v_target := '/signup?invite=' || p_resource_id;
+  ELSIF p_link_type = 'collection' THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.favorite_collections c
+      WHERE c.share_token = p_resource_id AND c.user_id = v_user_id
+    ) THEN
+      RAISE EXCEPTION 'Collection not found or not shared';
+    END IF;
+    v_target := '/collections/' || p_resource_id;
+  ELSE
+    RAISE EXCEPTION 'Unsupported link type: %', p_link_type;
+  END IF;
+
+  IF p_expires_in_days IS NOT NULL AND p_expires_in_days > 0 THEN
+    v_expires_at := NOW() + make_interval(days => p_expires_in_days);
+  END IF;
+
+  -- 复用已有的短链接
+  RETURN QUERY
+  SELECT s.code, s.target_url, s.expires_at
+  FROM public.short_links s
+  WHERE s.owner_id = v_user_id
+    AND s.link_type = p_link_type
+    AND s.resource_id = p_resource_id
+    AND s.channel = v_channel
+    AND s.is_active = true
+    AND (s.expires_at IS NULL OR s.expires_at > NOW())
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  -- 生成 7 位随机码，冲突时重试
+  LOOP
+    v_attempt := v_attempt + 1;
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1), '')
+    INTO v_code
+    FROM generate_series(1, 7);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.short_links s WHERE s.code = v_code);
+
+    IF v_attempt >= 5 THEN
+      RAISE EXCEPTION 'Failed to generate unique short link code';
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.short_links (code, target_url, link_type, resource_id, channel, owner_id, expires_at)
+  VALUES (v_code, v_target, p_link_type, p_resource_id, v_channel, v_user_id, v_expires_at);
+
+  RETURN QUERY SELECT v_code, v_target, v_expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_short_link TO authenticated;
+
+COMMENT ON TABLE public.favorite_collections IS '用户收藏夹，share_token 非空时可通过 /collections/{share_token} 公开访问';
@@ -0,0 +1,278 @@
+-- ============================================
+-- 关注动态
+-- Version: 028
+-- Description: 关注的创作者发布的公开视频和模板按发布时间汇总为关注动态（游标分页），
+--              视频新增 published_at（首次公开时写入），公开资料页可以查看粉丝/关注列表，
+--              关注时可以选择在创作者发布新内容时收到站内通知
+-- ============================================
+
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'creator_published';
+
+-- notify_on_publish: 关注者是否接收该创作者的发布通知，关注者通过现有 "Users can manage own follows" 策略修改
+ALTER TABLE public.user_follows
+  ADD COLUMN IF NOT EXISTS notify_on_publish BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_user_follows_following_created
+  ON public.user_follows(following_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_user_follows_follower_created
+  ON public.user_follows(follower_id, created_at DESC);
+
+-- ============================================
+-- 1. 发布时间
+-- 视频在首次同时满足 公开 + 生成完成 + 未删除 时写入 published_at，模板在首次公开时写入；
+-- 之后切换为私密再公开不会改变发布时间，也不会重复通知
+-- ============================================
+ALTER TABLE public.videos
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+
+UPDATE public.videos
+SET published_at = created_at
+WHERE published_at IS NULL
+  AND is_public = true
+  AND status = 'completed'
+  AND COALESCE(is_deleted, false) = false;
+
+UPDATE public.templates
+SET published_at = created_at
+WHERE published_at IS NULL
+  AND is_public = true;
+
+CREATE INDEX IF NOT EXISTS idx_videos_user_published
+  ON public.videos(user_id, published_at DESC)
+  WHERE published_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_templates_author_published
+  ON public.templates(author_id, published_at DESC)
+  WHERE published_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_video_published_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.published_at IS NULL
+    AND NEW.is_public = true
+    AND NEW.status = 'completed'
+    AND COALESCE(NEW.is_deleted, false) = false
+  THEN
+    NEW.published_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_video_published_at ON public.videos;
+CREATE TRIGGER trigger_set_video_published_at
+BEFORE INSERT OR UPDATE OF is_public, status, is_deleted ON public.videos
+FOR EACH ROW EXECUTE FUNCTION set_video_published_at();
+
+CREATE OR REPLACE FUNCTION set_template_published_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.published_at IS NULL AND NEW.is_public = true THEN
+    NEW.published_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_set_template_published_at ON public.templates;
+CREATE TRIGGER trigger_set_template_published_at
+BEFORE INSERT OR UPDATE OF is_public ON public.templates
+FOR EACH ROW EXECUTE FUNCTION set_template_published_at();
+
+-- ============================================
+-- 2. 发布通知：通知开启了 notify_on_publish 的关注者
+-- ============================================
+CREATE OR REPLACE FUNCTION create_creator_published_notifications()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_creator_id UUID;
+  v_creator_name TEXT;
+  v_item_type TEXT;
+  v_data JSONB;
+BEGIN
+  -- 只在发布时间第一次写入时通知
+  IF NEW.published_at IS NULL OR (TG_OP = 'UPDATE' AND OLD.published_at IS NOT NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'videos' THEN
+    v_creator_id := NEW.user_id;
+    v_item_type := 'video';
+  ELSE
+    v_creator_id := NEW.author_id;
+    v_item_type := 'template';
+  END IF;
+
+  IF v_creator_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT username INTO v_creator_name
+  FROM public.profiles
+  WHERE id = v_creator_id;
+
+  IF v_item_type = 'video' THEN
+    v_data := jsonb_build_object('senderName', v_creator_name, 'videoTitle', NEW.title, 'itemType', v_item_type);
+  ELSE
+    v_data := jsonb_build_object('senderName', v_creator_name, 'templateName', NEW.name, 'itemType', v_item_type);
+  END IF;
+
+  INSERT INTO public.notifications (
+    user_id, type, title, content, related_id, related_type, sender_id, data
+  )
+  SELECT
+    f.follower_id,
+    'creator_published'::notification_type,
+    COALESCE(v_creator_name, 'Someone') || ' published a new ' || v_item_type,
+    NULL,
+    NEW.id,
+    v_item_type,
+    v_creator_id,
+    v_data
+  FROM public.user_follows f
+  WHERE f.following_id = v_creator_id
+    AND f.notify_on_publish = true;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_video_published_notifications ON public.videos;
+CREATE TRIGGER trigger_video_published_notifications
+AFTER INSERT OR UPDATE OF published_at ON public.videos
+FOR EACH ROW EXECUTE FUNCTION create_creator_published_notifications();
+
+DROP TRIGGER IF EXISTS trigger_template_published_notifications ON public.templates;
+CREATE TRIGGER trigger_template_published_notifications
+AFTER INSERT OR UPDATE OF published_at ON public.templates
+FOR EACH ROW EXECUTE FUNCTION create_creator_published_notifications();
+
+-- ============================================
+-- 3. 关注动态：当前用户关注的创作者发布的公开视频和模板
+-- 按 (published_at, item_id) 倒序，游标为上一页最后一条的 (published_at, item_id)
+-- ============================================
+CREATE OR REPLACE FUNCTION get_following_feed(
+  p_before TIMESTAMPTZ DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+) RETURNS TABLE (
+  item_type TEXT,
+  item_id UUID,
+  title TEXT,
+  description TEXT,
+  thumbnail_url TEXT,
+  creator_id UUID,
+  creator_username TEXT,
+  creator_full_name TEXT,
+  creator_avatar_url TEXT,
+  like_count INTEGER,
+  view_count INTEGER,
+  published_at TIMESTAMPTZ
+) AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    feed.item_type, feed.item_id, feed.title, feed.description, feed.thumbnail_url,
+    feed.creator_id, p.username::TEXT, p.full_name::TEXT, p.avatar_url::TEXT,
+    feed.like_count, feed.view_count, feed.published_at
+  FROM (
+    SELECT
+      'video'::TEXT AS item_type,
+      v.id AS item_id,
+      v.title::TEXT AS title,
+      v.description::TEXT AS description,
+      v.thumbnail_url::TEXT AS thumbnail_url,
+      v.user_id AS creator_id,
+      COALESCE(v.like_count, 0)::INTEGER AS like_count,
+      COALESCE(v.view_count, 0)::INTEGER AS view_count,
+      v.published_at
+    FROM public.user_follows f
+    JOIN public.videos v ON v.user_id = f.following_id
+    WHERE f.follower_id = v_user_id
+      AND v.published_at IS NOT NULL
+      AND v.is_public = true
+      AND v.status = 'completed'
+      AND COALESCE(v.is_deleted, false) = false
+
+    UNION ALL
+
+    SELECT
+      'template'::TEXT,
+      t.id,
+      t.name::TEXT,
+      t.description::TEXT,
+      t.thumbnail_url::TEXT,
+      t.author_id,
+      COALESCE(t.like_count, 0)::INTEGER,
+      COALESCE(t.view_count, 0)::INTEGER,
+      t.published_at
+    FROM public.user_follows f
+    JOIN public.templates t ON t.author_id = f.following_id
+    WHERE f.follower_id = v_user_id
+      AND t.published_at IS NOT NULL
+      AND t.is_public = true
+      AND COALESCE(t.is_active, true) = true
+  ) feed
+  LEFT JOIN public.profiles p ON p.id = feed.creator_id
+  WHERE p_before IS NULL
+    OR (feed.published_at, feed.item_id) < (p_before, COALESCE(p_before_id, 'ffffffff-ffff-ffff-ffff-ffffffffffff'::UUID))
+  ORDER BY feed.published_at DESC, feed.item_id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_following_feed TO authenticated;
+
+-- ============================================
+-- 4. 粉丝/关注列表（公开），附带当前用户是否已关注列表中的用户
+-- ============================================
+CREATE OR REPLACE FUNCTION get_follow_list(
+  p_user_id UUID,
+  p_list_type TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  is_verified BOOLEAN,
+  is_followed_by_viewer BOOLEAN,
+  followed_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF p_list_type NOT IN ('followers', 'following') THEN
+    RAISE EXCEPTION 'FOLLOW_LIST_INVALID_TYPE';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username::TEXT,
+    p.full_name::TEXT,
+    p.avatar_url::TEXT,
+    COALESCE(p.is_verified, false),
+    EXISTS (
+      SELECT 1 FROM public.user_follows vf
+      WHERE vf.follower_id = auth.uid() AND vf.following_id = p.id
+    ),
+    f.created_at
+  FROM public.user_follows f
+  JOIN public.profiles p
+    ON p.id = CASE WHEN p_list_type = 'followers' THEN f.follower_id ELSE f.following_id END
+  WHERE (p_list_type = 'followers' AND f.following_id = p_user_id)
+     OR (p_list_type = 'following' AND f.follower_id = p_user_id)
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_follow_list TO anon, authenticated;
@@ -0,0 +1,184 @@
+-- ============================================
+-- 视频点赞
+-- Version: 029
+-- Description: 公开视频可以点赞，点赞/取消点赞经过 video-likes Edge Function（toggle_video_like），
+--              videos.like_count 通过计数器事件 video_like 批量更新（batch-update-counters），
+--              公开视频广场支持「本周最多点赞」排序
+-- ============================================
+
+-- ============================================
+-- 1. 点赞数改由计数器事件维护
+-- 002 的触发器以点赞用户身份更新 videos，被 videos 的 RLS 拒绝，like_count 一直没有变化
+-- ============================================
+DROP TRIGGER IF EXISTS trigger_update_video_like_count ON public.video_likes;
+DROP FUNCTION IF EXISTS update_video_like_count();
+
+-- 点赞只能通过 toggle_video_like 写入，保证每次变化都会发布计数器事件
+DROP POLICY IF EXISTS "Users can manage own video likes" ON public.video_likes;
+
+CREATE INDEX IF NOT EXISTS idx_video_likes_created_at ON public.video_likes(created_at DESC, video_id);
+
+UPDATE public.videos v
+SET like_count = (SELECT COUNT(*) FROM public.video_likes vl WHERE vl.video_id = v.id);
+
+-- ============================================
+-- 2. 计数器批量更新（batch-update-counters 和 _shared/counter-events.ts 调用）
+-- ============================================
+CREATE OR REPLACE FUNCTION update_video_counters_atomic(
+  p_video_id UUID,
+  p_like_delta INTEGER DEFAULT 0
+) RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.videos
+  SET like_count = GREATEST(0, COALESCE(like_count, 0) + p_like_delta)
+  WHERE id = p_video_id;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- 只允许计数器批处理调用（Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+REVOKE EXECUTE ON FUNCTION update_video_counters_atomic FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION update_video_counters_atomic TO service_role;
+
+-- ============================================
+-- 3. 点赞/取消点赞（video-likes Edge Function 调用）
+-- 只能点赞公开、生成完成且未删除的视频，否则抛出 VIDEO_LIKE_TARGET_NOT_FOUND；
+-- like_count 返回实际点赞数（videos.like_count 在计数器事件落库前可能滞后）
+-- ============================================
+CREATE OR REPLACE FUNCTION toggle_video_like(
+  p_user_id UUID,
+  p_video_id UUID
+) RETURNS TABLE (
+  is_liked BOOLEAN,
+  like_delta INTEGER,
+  like_count INTEGER
+) AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.videos v
+    WHERE v.id = p_video_id
+      AND v.is_public = true
+      AND v.status = 'completed'
+      AND COALESCE(v.is_deleted, false) = false
+  ) THEN
+    RAISE EXCEPTION 'VIDEO_LIKE_TARGET_NOT_FOUND';
+  END IF;
+
+  DELETE FROM public.video_likes vl
+  WHERE vl.video_id = p_video_id AND vl.user_id = p_user_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  IF v_deleted > 0 THEN
+    is_liked := false;
+    like_delta := -1;
+  ELSE
+    INSERT INTO public.video_likes (video_id, user_id)
+    VALUES (p_video_id, p_user_id)
+    ON CONFLICT (video_id, user_id) DO NOTHING;
+    is_liked := true;
+    like_delta := CASE WHEN FOUND THEN 1 ELSE 0 END;
+  END IF;
+
+  SELECT COUNT(*)::INTEGER INTO like_count
+  FROM public.video_likes vl
+  WHERE vl.video_id = p_video_id;
+
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- p_user_id 由 video-likes Edge Function 根据调用方 token 传入，只允许服务端调用
+REVOKE EXECUTE ON FUNCTION toggle_video_like FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION toggle_video_like TO service_role;
+
+-- ============================================
+-- 4. 批量获取点赞状态（未登录时 is_liked 始终为 false）
+-- ============================================
+CREATE OR REPLACE FUNCTION get_video_like_status(p_video_ids UUID[])
+RETURNS TABLE (
+  video_id UUID,
+  is_liked BOOLEAN,
+  like_count INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    EXISTS (
+      SELECT 1 FROM public.video_likes vl
+      WHERE vl.video_id = v.id AND vl.user_id = auth.uid()
+    ),
+    COALESCE(v.like_count, 0)::INTEGER
+  FROM public.videos v
+  WHERE v.id = ANY(p_video_ids[1:100])
+    AND v.is_public = true
+    AND COALESCE(v.is_deleted, false) = false;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_video_like_status TO anon, authenticated;
+
+-- ============================================
+-- 5. 公开视频广场
+-- p_sort: latest（最新发布）| most_viewed（最多观看）| most_liked_week（最近 7 天点赞最多）
+-- ============================================
+CREATE OR REPLACE FUNCTION get_public_videos(
+  p_sort TEXT DEFAULT 'latest',
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+) RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  thumbnail_url TEXT,
+  duration INTEGER,
+  view_count INTEGER,
+  like_count INTEGER,
+  weekly_like_count INTEGER,
+  published_at TIMESTAMPTZ,
+  creator_username TEXT,
+  creator_full_name TEXT,
+  creator_avatar_url TEXT
+) AS $$
+BEGIN
+  IF p_sort NOT IN ('latest', 'most_viewed', 'most_liked_week') THEN
+    RAISE EXCEPTION 'PUBLIC_VIDEOS_INVALID_SORT';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.title::TEXT,
+    v.thumbnail_url::TEXT,
+    v.duration::INTEGER,
+    COALESCE(v.view_count, 0)::INTEGER,
+    COALESCE(v.like_count, 0)::INTEGER,
+    COALESCE(w.cnt, 0)::INTEGER,
+    COALESCE(v.published_at, v.created_at),
+    p.username::TEXT,
+    p.full_name::TEXT,
+    p.avatar_url::TEXT
+  FROM public.videos v
+  LEFT JOIN public.profiles p ON p.id = v.user_id
+  LEFT JOIN (
+    SELECT vl.video_id, COUNT(*) AS cnt
+    FROM public.video_likes vl
+    WHERE vl.created_at > NOW() - INTERVAL '7 days'
+    GROUP BY vl.video_id
+  ) w ON w.video_id = v.id
+  WHERE v.is_public = true
+    AND v.status = 'completed'
+    AND COALESCE(v.is_deleted, false) = false
+  ORDER BY
+    CASE WHEN p_sort = 'most_liked_week' THEN COALESCE(w.cnt, 0) END DESC NULLS LAST,
+    CASE WHEN p_sort = 'most_viewed' THEN COALESCE(v.view_count, 0) END DESC NULLS LAST,
+    COALESCE(v.published_at, v.created_at) DESC,
+    v.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_public_videos TO anon, authenticated;
@@ -0,0 +1,102 @@
+-- ============================================
+-- 客户端写入限制
+-- Version: 030
+-- Description: 积分发放和扣除函数只允许服务端调用（客户端经过 add-credits / consume-credits Edge Function）；
+--              用户通过RLS更新自己的视频时不能修改状态、视频地址、上游任务ID、积分、metadata、队列字段和计数，只能取消排队中或处理中的视频
+-- ============================================
+
+-- ============================================
+-- 1. 积分函数只允许服务端调用
+-- 005 把两个函数授权给了 authenticated，用户可以直接调用 RPC 给任意账号加积分，绕过 add-credits 的权限校验
+-- （Supabase 默认会把 public 函数授权给 anon 和 authenticated）
+-- ============================================
+REVOKE EXECUTE ON FUNCTION add_user_credits FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION consume_user_credits FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION add_user_credits TO service_role;
+GRANT EXECUTE ON FUNCTION consume_user_credits TO service_role;
+
+-- ============================================
+-- 2. 视频系统字段保护
+-- 状态和视频地址由Worker写回：用户把视频改为失败会触发退款，写入视频地址可以绕过水印；
+-- 新建视频一律从 pending 开始且不在队列中，只能经 enqueue_video 扣费后入队；取消只能从排队中或处理中切换。
+-- 触发器以写入者身份执行：客户端直接写入时 current_user 为 anon/authenticated，
+-- 定义者权限函数（enqueue_video、cancel_video、计数函数等）内的写入以函数所有者身份执行，不受限制
+-- ============================================
+CREATE OR REPLACE FUNCTION guard_video_system_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.video_url := NULL;
+    NEW.veo3_job_id := NULL;
+    NEW.credits_used := 0;
+    NEW.queue_position := NULL;
+    NEW.queue_entered_at := NULL;
+    NEW.queue_worker_id := NULL;
+    NEW.queue_heartbeat_at := NULL;
+    NEW.queue_attempts := 0;
+    NEW.processing_started_at := NULL;
+    NEW.processing_completed_at := NULL;
+    NEW.view_count := 0;
+    NEW.like_count := 0;
+    NEW.share_count := 0;
+    NEW.comment_count := 0;
+    NEW.favorite_count := 0;
+    -- 提供方路由、故障转移和退款记录由Worker和数据库写入，客户端只能提交生成参数
+    NEW.metadata := COALESCE(NEW.metadata, '{}'::JSONB)
+      - 'provider' - 'providerModel' - 'providerAccountId' - 'providerSwitches'
+      - 'callbackEnabled' - 'refund';
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT (NEW.status = 'cancelled' AND OLD.status IN ('pending', 'processing')) THEN
+    RAISE EXCEPTION 'VIDEO_FIELD_NOT_WRITABLE: status of video % cannot be changed to %', OLD.id, NEW.status;
+  END IF;
+
+  -- metadata 中的提供方和账户决定Worker轮询哪个上游，和状态一样只能由服务端写入
+  IF NEW.video_url IS DISTINCT FROM OLD.video_url
+     OR NEW.veo3_job_id IS DISTINCT FROM OLD.veo3_job_id
+     OR NEW.credits_used IS DISTINCT FROM OLD.credits_used
+     OR NEW.metadata IS DISTINCT FROM OLD.metadata THEN
+    RAISE EXCEPTION 'VIDEO_FIELD_NOT_WRITABLE: video % system fields are managed by the server', OLD.id;
+  END IF;
+
+  -- 队列字段参与公平调度（提前 queue_entered_at 会增加老化补偿），只能由队列函数和Worker写入
+  IF NEW.queue_position IS DISTINCT FROM OLD.queue_position
+     OR NEW.queue_entered_at IS DISTINCT FROM OLD.queue_entered_at
+     OR NEW.queue_worker_id IS DISTINCT FROM OLD.queue_worker_id
+     OR NEW.queue_heartbeat_at IS DISTINCT FROM OLD.queue_heartbeat_at
+     OR NEW.queue_attempts IS DISTINCT FROM OLD.queue_attempts
+     OR NEW.processing_started_at IS DISTINCT FROM OLD.processing_started_at
+     OR NEW.processing_completed_at IS DISTINCT FROM OLD.processing_completed_at THEN
+    RAISE EXCEPTION 'VIDEO_FIELD_NOT_WRITABLE: video % queue fields are managed by the server', OLD.id;
+  END IF;
+
+  -- 计数只能由计数函数（按观众每天去重、点赞/评论/收藏事件）更新，直接写入会影响公开视频的热度排序
+  IF NEW.view_count IS DISTINCT FROM OLD.view_count
+     OR NEW.like_count IS DISTINCT FROM OLD.like_count
+     OR NEW.share_count IS DISTINCT FROM OLD.share_count
+     OR NEW.comment_count IS DISTINCT FROM OLD.comment_count
+     OR NEW.favorite_count IS DISTINCT FROM OLD.favorite_count THEN
+    RAISE EXCEPTION 'VIDEO_FIELD_NOT_WRITABLE: video % counters are managed by the server', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_video_system_fields ON public.videos;
+CREATE TRIGGER guard_video_system_fields
+  BEFORE INSERT OR UPDATE ON public.videos
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_video_system_fields();
+
+COMMENT ON FUNCTION guard_video_system_fields() IS '禁止用户通过RLS修改视频状态、视频地址、上游任务ID、积分、metadata、队列字段和计数（取消除外）';